@@ -6,8 +6,9 @@
  *
  * Features:
  * - Hierarchical note organization (Area → Stack → Notebook → Note)
- * - Local storage persistence
+ * - Offline-first IndexedDB persistence
  * - Auto-sync with Google Drive (30s debounce)
+ * - Two-way sync: remote Markdown edits are pulled back into notes
  * - Real-time sync status display
  * - Performance optimizations with useMemo and useCallback
  *
@@ -17,16 +18,24 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Note, Node } from './types';
 import { NoteList } from './components/NoteList';
-import Editor from './components/Editor';
+import Editor, { SearchMatch } from './components/Editor';
 import SyncStatus from './components/SyncStatus';
-import { googleDriveService } from './services/googleDriveService';
+import ImportDialog from './components/ImportDialog';
+import ExportDialog from './components/ExportDialog';
+import FlashcardReview from './components/FlashcardReview';
+import UsageDashboard from './components/UsageDashboard';
+import QuizPlayer from './components/QuizPlayer';
+import { googleDriveService, ConflictChoice, DriveIdentityUpdate } from './services/googleDriveService';
+import { syncQueue } from './services/syncQueue';
+import { storageService } from './services/storageService';
+import { revisionService } from './services/revisionService';
+import { ImportResult } from './services/importService';
+import { printService } from './services/printService';
+import { flashcardService } from './services/flashcardService';
+import { indexService } from './services/indexService';
+import { NoteChange, applyNoteChange } from './services/noteToolsService';
 import { config, isGoogleDriveAvailable } from './config/env';
-
-/**
- * Local storage keys for persistence
- */
-const LOCAL_STORAGE_NOTES_KEY = 'gemini-notebook-notes-v3';
-const LOCAL_STORAGE_AREAS_KEY = 'gemini-notebook-areas-v3';
+import { collectTags } from './utils/tags';
 
 /**
  * Initial sample notes for new users
@@ -36,7 +45,7 @@ const ALL_NOTES_INITIAL: Note[] = [
     id: 'heart-failure',
     title: 'Heart Failure',
     description: 'The leading cause of death in Brazil and worldwide is of cardiovascular origin...',
-    date: 'May 15',
+    createdAt: '2025-05-15T12:00:00.000Z',
     imageUrl: 'https://i.imgur.com/this-image-does-not-exist.png',
     content: `<h1>Insuficiência Cardíaca</h1><p>A maior causa de morte no Brasil e no mundo é de origem cardiovascular, que corresponde a cerca de 30% de todas as causas, sendo a insuficiência cardíaca a grande responsável pela maior parte desses óbitos. Há diversas medicações que se mostram eficientes na redução da mortalidade. Nesse contexto, assinale o fármaco que possui efeito benéfico na redução da mortalidade cardíaca.</p><p>A. Atenolol</p><p>B. Digoxina</p><p>C. Furosemida</p><p><strong>D. Dapagliflozina Correta</strong></p><h3>Comentário</h3><p>Esse talvez seja um dos tópicos mais cobrados em provas quando o assunto é insuficiência cardíaca. O tripé do tratamento da insuficiência cardíaca com fração de ejeção reduzida é: IECA, betabloqueador e espironolactona...</p>`
   },
@@ -44,7 +53,7 @@ const ALL_NOTES_INITIAL: Note[] = [
     id: 'hypertension-note',
     title: 'Hypertension Note',
     description: '2023 - A 64-year-old patient was referred to the cardiology outpatient clinic for adjustment of their...',
-    date: 'Dec 28, 2024',
+    createdAt: '2024-12-28T12:00:00.000Z',
     content: '<h1>Hypertension</h1><p>Content of the note about hypertension...</p>'
   },
 ];
@@ -94,62 +103,200 @@ const App: React.FC = () => {
   const [notes, setNotes] = useState<Note[]>([]);
   const [areas, setAreas] = useState<Node[]>([]);
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
+  const [searchMatch, setSearchMatch] = useState<SearchMatch | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [exportNode, setExportNode] = useState<Node | null>(null);
+  const [showReview, setShowReview] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  // Open quiz: the note it was started from, '' for all notes, null when closed
+  const [quizNoteId, setQuizNoteId] = useState<string | null>(null);
 
   // Refs for tracking lifecycle
   const isInitialLoad = useRef(true);
   const autoSyncTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const syncInFlightRef = useRef<Promise<void> | null>(null);
+
+  // Latest state for async sync operations that outlive a render
+  const notesRef = useRef<Note[]>(notes);
+  const areasRef = useRef<Node[]>(areas);
+  notesRef.current = notes;
+  areasRef.current = areas;
 
-  // === EFFECT: LOAD FROM LOCAL STORAGE ===
+  // === EFFECT: LOAD FROM STORAGE ===
 
   /**
-   * Effect: Load notes and areas from localStorage on initial render
+   * Effect: Load notes and areas from IndexedDB on initial render
    *
    * Runs once on component mount to restore saved state.
    * Falls back to initial sample data if no saved data exists.
    */
   useEffect(() => {
-    try {
-      const savedNotes = localStorage.getItem(LOCAL_STORAGE_NOTES_KEY);
-      const savedAreas = localStorage.getItem(LOCAL_STORAGE_AREAS_KEY);
-
-      const allNotes = savedNotes ? JSON.parse(savedNotes) : ALL_NOTES_INITIAL;
-      const allAreas = savedAreas ? JSON.parse(savedAreas) : AREAS_INITIAL;
+    let cancelled = false;
 
+    const applyLoaded = (allNotes: Note[], allAreas: Node[]) => {
+      if (cancelled) return;
       setNotes(allNotes);
       setAreas(allAreas);
+      // Catch up with notes changed or deleted while the index was not watching
+      indexService.sync(allNotes).catch(console.error);
 
       // Set initial selection to first note
       if (allNotes.length > 0) {
         setSelectedNoteId(allNotes[0].id);
       }
-    } catch (error) {
-      console.error("Failed to load data from localStorage:", error);
-      setNotes(ALL_NOTES_INITIAL);
-      setAreas(AREAS_INITIAL);
-    }
+      isInitialLoad.current = false;
+    };
+
+    storageService
+      .load()
+      .then(saved => applyLoaded(saved?.notes ?? ALL_NOTES_INITIAL, saved?.areas ?? AREAS_INITIAL))
+      .catch(error => {
+        console.error("Failed to load saved notes:", error);
+        applyLoaded(ALL_NOTES_INITIAL, AREAS_INITIAL);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // === EFFECT: SAVE TO LOCAL STORAGE ===
+  // === EFFECT: SAVE TO STORAGE ===
 
   /**
-   * Effect: Save notes and areas to localStorage whenever they change
+   * Effect: Queue a write of notes and areas whenever they change
    *
-   * Skips the initial load to avoid overwriting just-loaded data.
-   * Implements persistence for all user changes.
+   * Skips changes before the initial load completes to avoid overwriting
+   * saved data. The write itself is batched and runs when the browser is
+   * idle, so typing never waits on serialisation.
    */
   useEffect(() => {
     if (isInitialLoad.current) {
-      isInitialLoad.current = false;
       return;
     }
-    try {
-      localStorage.setItem(LOCAL_STORAGE_NOTES_KEY, JSON.stringify(notes));
-      localStorage.setItem(LOCAL_STORAGE_AREAS_KEY, JSON.stringify(areas));
-    } catch (error) {
-      console.error("Failed to save data to localStorage:", error);
-    }
+    storageService.scheduleSave(notes, areas);
   }, [notes, areas]);
 
+  // === GOOGLE DRIVE SYNC ===
+
+  /**
+   * Store Drive file and folder IDs assigned during a sync
+   *
+   * @param {DriveIdentityUpdate} identity - Note and node IDs mapped to Drive IDs
+   */
+  const applyDriveIdentity = useCallback((identity: DriveIdentityUpdate) => {
+    const { notes: noteFiles, nodes: nodeFolders } = identity;
+
+    if (Object.keys(noteFiles).length > 0) {
+      setNotes(prev =>
+        prev.map(note => noteFiles[note.id] ? { ...note, driveFileId: noteFiles[note.id] } : note)
+      );
+    }
+
+    if (Object.keys(nodeFolders).length > 0) {
+      const updateNode = (nodes: Node[]): Node[] =>
+        nodes.map(node => ({
+          ...node,
+          ...(nodeFolders[node.id] ? { driveFileId: nodeFolders[node.id] } : {}),
+          ...(node.children ? { children: updateNode(node.children) } : {}),
+        }));
+      setAreas(prev => updateNode(prev));
+    }
+  }, []);
+
+  /**
+   * Run a full two-way sync with Google Drive
+   *
+   * Pull phase: merges notes edited in Drive into local state.
+   * Push phase: uploads the changes recorded in the sync queue.
+   *
+   * Pulled changes are applied with functional updates so edits made
+   * while the pull was in flight are not lost: a note edited meanwhile
+   * keeps the edit and gets a conflict with the Drive version, and tree
+   * changes are merged into the current hierarchy.
+   */
+  const syncWithDrive = useCallback(async () => {
+    const notesSnapshot = notesRef.current;
+    const areasSnapshot = areasRef.current;
+    const result = await googleDriveService.pullChanges(notesSnapshot, areasSnapshot);
+
+    if (result.updatedNoteIds.length > 0 || result.createdNoteIds.length > 0) {
+      const before = new Map(notesSnapshot.map(note => [note.id, note]));
+      const current = new Map(notesRef.current.map(note => [note.id, note]));
+      const pulled = new Map(result.notes.map(note => [note.id, note]));
+
+      const applied = result.updatedNoteIds.filter(id => current.get(id) === before.get(id));
+      result.updatedNoteIds
+        .filter(id => current.has(id) && !applied.includes(id))
+        .forEach(id => googleDriveService.recordConcurrentEdit(
+          before.get(id)!,
+          current.get(id)!,
+          result.identity.notes[id] || pulled.get(id)!.driveFileId!
+        ));
+
+      // Keep the local versions that the pull replaces
+      applied.forEach(id => revisionService.snapshot(before.get(id)!, 'sync'));
+      [...result.createdNoteIds, ...applied].forEach(id => indexService.scheduleUpdate(pulled.get(id)!));
+      setNotes(prev => [
+        ...result.createdNoteIds.map(id => pulled.get(id)!),
+        ...prev.map(note =>
+          applied.includes(note.id) && note === before.get(note.id) ? pulled.get(note.id)! : note
+        ),
+      ]);
+    }
+    if (result.areas !== areasSnapshot) {
+      setAreas(prev => googleDriveService.mergePulledAreas(prev, areasSnapshot, result.areas));
+    }
+    applyDriveIdentity(result.identity);
+
+    const identity = await googleDriveService.processQueue(result.notes, result.areas);
+    applyDriveIdentity(identity);
+  }, [applyDriveIdentity]);
+
+  /**
+   * Start a sync, or join the one already running
+   *
+   * Overlapping syncs would upload notes without a Drive file twice and
+   * create duplicate files.
+   */
+  const runSync = useCallback((): Promise<void> => {
+    if (!syncInFlightRef.current) {
+      syncInFlightRef.current = syncWithDrive().finally(() => {
+        syncInFlightRef.current = null;
+      });
+    }
+    return syncInFlightRef.current;
+  }, [syncWithDrive]);
+
+  /**
+   * Apply the resolution of a sync conflict
+   *
+   * Keeping the local note leaves it untouched (it is uploaded by the next
+   * sync); taking the Drive or merged version replaces title and content.
+   *
+   * @param {string} noteId - ID of the conflicted note
+   * @param {ConflictChoice} choice - Which version to keep
+   * @param {string} [mergedMarkdown] - Merged document for 'merged'
+   */
+  const handleResolveConflict = useCallback((noteId: string, choice: ConflictChoice, mergedMarkdown?: string) => {
+    const update = googleDriveService.resolveConflict(noteId, choice, mergedMarkdown);
+    // The local and merged versions still have to be uploaded over the Drive copy
+    if (choice !== 'remote') {
+      syncQueue.enqueueNote(noteId, update?.title || notesRef.current.find(note => note.id === noteId)?.title || '');
+    }
+    if (update) {
+      const local = notesRef.current.find(note => note.id === noteId);
+      if (local) {
+        revisionService.snapshot(local, 'sync');
+        indexService.scheduleUpdate({ ...local, ...update });
+      }
+      setNotes(prev =>
+        prev.map(note =>
+          note.id === noteId ? { ...note, ...update, updatedAt: new Date().toISOString() } : note
+        )
+      );
+    }
+  }, []);
+
   // === EFFECT: AUTO-SYNC TO GOOGLE DRIVE ===
 
   /**
@@ -183,7 +330,7 @@ const App: React.FC = () => {
     autoSyncTimerRef.current = setTimeout(() => {
       if (notes.length > 0) {
         console.log('Auto-sync triggered');
-        googleDriveService.syncAll(notes, areas).catch((error) => {
+        runSync().catch((error) => {
           console.error('Auto-sync failed:', error);
         });
       }
@@ -195,7 +342,7 @@ const App: React.FC = () => {
         clearTimeout(autoSyncTimerRef.current);
       }
     };
-  }, [notes, areas]);
+  }, [notes, areas, runSync]);
 
   // === UTILITY FUNCTIONS (MEMOIZED) ===
 
@@ -274,11 +421,17 @@ const App: React.FC = () => {
    * @param {string} newContent - New HTML content
    */
   const handleUpdateNote = useCallback((noteId: string, newContent: string) => {
+    const previous = notesRef.current.find(note => note.id === noteId);
+    if (previous) {
+      revisionService.trackEdit(previous, { ...previous, content: newContent });
+      indexService.scheduleUpdate({ ...previous, content: newContent });
+    }
     setNotes(prevNotes =>
       prevNotes.map(note =>
-        note.id === noteId ? { ...note, content: newContent } : note
+        note.id === noteId ? { ...note, content: newContent, updatedAt: new Date().toISOString() } : note
       )
     );
+    syncQueue.enqueueNote(noteId, previous?.title || '');
   }, []);
 
   /**
@@ -288,11 +441,32 @@ const App: React.FC = () => {
    * @param {string} newTitle - New title
    */
   const handleUpdateTitle = useCallback((noteId: string, newTitle: string) => {
+    const previous = notesRef.current.find(note => note.id === noteId);
+    if (previous) {
+      indexService.scheduleUpdate({ ...previous, title: newTitle });
+    }
+    setNotes(prevNotes =>
+      prevNotes.map(note =>
+        note.id === noteId ? { ...note, title: newTitle, updatedAt: new Date().toISOString() } : note
+      )
+    );
+    syncQueue.enqueueNote(noteId, newTitle);
+  }, []);
+
+  /**
+   * Replace note tags
+   *
+   * @param {string} noteId - ID of note to update
+   * @param {string[]} tags - New tags, already normalized
+   */
+  const handleUpdateTags = useCallback((noteId: string, tags: string[]) => {
+    const note = notesRef.current.find(n => n.id === noteId);
     setNotes(prevNotes =>
       prevNotes.map(note =>
-        note.id === noteId ? { ...note, title: newTitle } : note
+        note.id === noteId ? { ...note, tags, updatedAt: new Date().toISOString() } : note
       )
     );
+    syncQueue.enqueueNote(noteId, note?.title || '');
   }, []);
 
   // === AREA MANAGEMENT ===
@@ -310,6 +484,7 @@ const App: React.FC = () => {
       children: []
     };
     setAreas(prev => [...prev, newArea]);
+    syncQueue.enqueueTree();
   }, []);
 
   // === STACK MANAGEMENT ===
@@ -340,6 +515,7 @@ const App: React.FC = () => {
     };
 
     setAreas(updateNode(areas));
+    syncQueue.enqueueTree();
   }, [areas]);
 
   /**
@@ -366,6 +542,12 @@ const App: React.FC = () => {
     };
     collectNoteIds(stack);
 
+    // Move the stack's folder to the Drive trash
+    googleDriveService.trashNode(stack, notes.filter(note => noteIdsToRemove.includes(note.id)));
+    noteIdsToRemove.forEach(id => revisionService.deleteForNote(id).catch(console.error));
+    noteIdsToRemove.forEach(id => indexService.remove(id).catch(console.error));
+    noteIdsToRemove.forEach(id => flashcardService.deleteForNote(id).catch(console.error));
+
     // Remove notes
     setNotes(prev => prev.filter(note => !noteIdsToRemove.includes(note.id)));
 
@@ -388,7 +570,7 @@ const App: React.FC = () => {
     if (noteIdsToRemove.includes(selectedNoteId || '')) {
       setSelectedNoteId(null);
     }
-  }, [areas, selectedNoteId, findNodeById]);
+  }, [areas, notes, selectedNoteId, findNodeById]);
 
   // === NOTEBOOK MANAGEMENT ===
 
@@ -418,6 +600,7 @@ const App: React.FC = () => {
     };
 
     setAreas(updateNode(areas));
+    syncQueue.enqueueTree();
   }, [areas]);
 
   /**
@@ -435,6 +618,12 @@ const App: React.FC = () => {
     // Get note IDs to remove
     const noteIdsToRemove = notebook.noteIds || [];
 
+    // Move the notebook's folder to the Drive trash
+    googleDriveService.trashNode(notebook, notes.filter(note => noteIdsToRemove.includes(note.id)));
+    noteIdsToRemove.forEach(id => revisionService.deleteForNote(id).catch(console.error));
+    noteIdsToRemove.forEach(id => indexService.remove(id).catch(console.error));
+    noteIdsToRemove.forEach(id => flashcardService.deleteForNote(id).catch(console.error));
+
     // Remove notes
     setNotes(prev => prev.filter(note => !noteIdsToRemove.includes(note.id)));
 
@@ -457,7 +646,7 @@ const App: React.FC = () => {
     if (noteIdsToRemove.includes(selectedNoteId || '')) {
       setSelectedNoteId(null);
     }
-  }, [areas, selectedNoteId, findNodeById]);
+  }, [areas, notes, selectedNoteId, findNodeById]);
 
   // === NOTE CRUD OPERATIONS ===
 
@@ -470,16 +659,19 @@ const App: React.FC = () => {
    * @param {string} notebookId - ID of parent notebook
    */
   const handleAddNote = useCallback((notebookId: string) => {
+    const now = new Date().toISOString();
     const newNote: Note = {
       id: `note-${Date.now()}`,
       title: 'New Note',
       description: '',
-      date: new Date().toLocaleDateString('en-US', { day: 'numeric', month: 'short' }),
-      content: '<h1>New Note</h1><p>Start writing here...</p>'
+      createdAt: now,
+      content: '<h1>New Note</h1><p>Start writing here...</p>',
+      updatedAt: now
     };
 
     // Add note to notes list
     setNotes(prev => [newNote, ...prev]);
+    syncQueue.enqueueNote(newNote.id, newNote.title);
 
     // Add note ID to notebook
     const updateNode = (nodes: Node[]): Node[] => {
@@ -507,6 +699,15 @@ const App: React.FC = () => {
    * @param {string} noteId - ID of note to remove
    */
   const handleRemoveNote = useCallback((notebookId: string, noteId: string) => {
+    // Move the note's file to the Drive trash
+    const note = notes.find(n => n.id === noteId);
+    if (note) {
+      googleDriveService.trashNote(note);
+    }
+    revisionService.deleteForNote(noteId).catch(console.error);
+    flashcardService.deleteForNote(noteId).catch(console.error);
+    indexService.remove(noteId).catch(console.error);
+
     // Remove note from notes list
     setNotes(prev => prev.filter(note => note.id !== noteId));
 
@@ -529,7 +730,82 @@ const App: React.FC = () => {
     if (selectedNoteId === noteId) {
       setSelectedNoteId(null);
     }
-  }, [areas, selectedNoteId]);
+  }, [areas, notes, selectedNoteId]);
+
+  /**
+   * Open a note from the search results
+   *
+   * @param {string} noteId - ID of the matching note
+   * @param {string | null} matchText - Matched text to scroll to, if the match was in the body
+   */
+  const handleOpenSearchResult = useCallback((noteId: string, matchText: string | null) => {
+    setSelectedNoteId(noteId);
+    setSearchMatch(matchText ? { noteId, text: matchText, requestedAt: Date.now() } : null);
+  }, []);
+
+  /**
+   * Add notes and notebooks created by a Markdown import
+   *
+   * @param {ImportResult} result - Imported notes and merged hierarchy
+   */
+  const handleImport = useCallback((result: ImportResult) => {
+    setNotes(prev => [...result.notes, ...prev]);
+    setAreas(result.areas);
+    result.notes.forEach(note => syncQueue.enqueueNote(note.id, note.title));
+    result.notes.forEach(note => indexService.scheduleUpdate(note));
+    if (result.createdNodes > 0) {
+      syncQueue.enqueueTree();
+    }
+
+    if (result.notes.length > 0) {
+      setSelectedNoteId(result.notes[0].id);
+    }
+  }, []);
+
+  /**
+   * Apply a change made by the AI assistant's note tools, or its undo
+   *
+   * Edited notes get an 'ai' revision first, so the earlier text stays in
+   * their history.
+   *
+   * @param {NoteChange} change - Notes saved, deleted and moved, and the new tree
+   */
+  const handleApplyNoteChange = useCallback((change: NoteChange) => {
+    const byId = new Map(notesRef.current.map(note => [note.id, note]));
+
+    change.saved.forEach(note => {
+      const previous = byId.get(note.id);
+      if (previous) {
+        revisionService.snapshot(previous, 'ai');
+      }
+      indexService.scheduleUpdate(note);
+      syncQueue.enqueueNote(note.id, note.title);
+    });
+    change.moved.forEach(noteId => syncQueue.enqueueNote(noteId, byId.get(noteId)?.title || ''));
+    change.deleted.forEach(noteId => {
+      const note = byId.get(noteId);
+      if (note) {
+        googleDriveService.trashNote(note);
+      }
+      revisionService.deleteForNote(noteId).catch(console.error);
+      flashcardService.deleteForNote(noteId).catch(console.error);
+      indexService.remove(noteId).catch(console.error);
+    });
+
+    const next = applyNoteChange({ notes: notesRef.current, areas: areasRef.current }, change);
+    // A second change before the next render builds on this one
+    notesRef.current = next.notes;
+    areasRef.current = next.areas;
+    setNotes(next.notes);
+    setAreas(next.areas);
+    if (change.areas) {
+      syncQueue.enqueueTree();
+    }
+
+    if (selectedNoteId && change.deleted.includes(selectedNoteId)) {
+      setSelectedNoteId(null);
+    }
+  }, [selectedNoteId]);
 
   // === COMPUTED VALUES (MEMOIZED) ===
 
@@ -556,6 +832,27 @@ const App: React.FC = () => {
     return selectedNotebook ? findPath(areas, selectedNotebook.id) : [];
   }, [areas, selectedNotebook, findPath]);
 
+  /**
+   * Print a notebook, or save it as PDF from the print dialog
+   */
+  const handlePrintNotebook = useCallback(async (notebook: Node, notebookNotes: Note[]) => {
+    const path = findPath(areas, notebook.id);
+    try {
+      await printService.print({
+        title: notebook.name,
+        subtitle: path.slice(0, -1).join(' / '),
+        notes: notebookNotes,
+      });
+    } catch (error) {
+      console.error('Failed to print notebook:', error);
+    }
+  }, [areas, findPath]);
+
+  /**
+   * All tags in use, most used first, for editor autocomplete
+   */
+  const allTags = useMemo(() => collectTags(notes).map(({ tag }) => tag), [notes]);
+
   // === RENDER ===
 
   return (
@@ -573,6 +870,13 @@ const App: React.FC = () => {
           onRemoveNotebook={handleRemoveNotebook}
           onAddNote={handleAddNote}
           onRemoveNote={handleRemoveNote}
+          onOpenSearchResult={handleOpenSearchResult}
+          onImport={() => setShowImport(true)}
+          onExport={setExportNode}
+          onPrint={handlePrintNotebook}
+          onReview={() => setShowReview(true)}
+          onQuiz={() => setQuizNoteId('')}
+          onUsage={() => setShowUsage(true)}
         />
         <main className="flex-1 flex flex-col overflow-hidden">
           <Editor
@@ -580,15 +884,59 @@ const App: React.FC = () => {
             notebookPath={notebookPath}
             onUpdateNote={handleUpdateNote}
             onUpdateTitle={handleUpdateTitle}
+            onUpdateTags={handleUpdateTags}
+            allTags={allTags}
+            searchMatch={searchMatch}
+            onStartQuiz={setQuizNoteId}
+            notes={notes}
+            areas={areas}
+            onOpenNote={setSelectedNoteId}
+            onApplyNoteChange={handleApplyNoteChange}
           />
         </main>
       </div>
 
+      <ImportDialog
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        notes={notes}
+        areas={areas}
+        onImport={handleImport}
+      />
+
+      <FlashcardReview
+        isOpen={showReview}
+        onClose={() => setShowReview(false)}
+        notes={notes}
+        areas={areas}
+        onOpenNote={setSelectedNoteId}
+      />
+
+      <QuizPlayer
+        isOpen={quizNoteId !== null}
+        onClose={() => setQuizNoteId(null)}
+        notes={notes}
+        areas={areas}
+        noteId={quizNoteId || null}
+      />
+
+      <ExportDialog
+        node={exportNode}
+        onClose={() => setExportNode(null)}
+        notes={notes}
+        areas={areas}
+      />
+
+      <UsageDashboard
+        isOpen={showUsage}
+        onClose={() => setShowUsage(false)}
+      />
+
       {/* Sync Status Bar */}
       {isGoogleDriveAvailable() && (
         <SyncStatus
-          notes={notes}
-          areas={areas}
+          onSync={runSync}
+          onResolveConflict={handleResolveConflict}
           onSyncComplete={() => console.log('Sync completed')}
         />
       )}
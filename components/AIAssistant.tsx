@@ -8,20 +8,57 @@
  * - Multi-provider support (OpenAI, Claude, Gemini)
  * - Model selection
  * - Chat interface with history
- * - Extended thinking display
+ * - Context scopes (selection, note, notebook, area) with cited sources
+ * - Whole-library answers from passages found by the semantic index
+ * - Extended thinking display, live while streaming
+ * - Token usage of each answer
  * - Insert AI responses into editor
+ * - Note tools: search, read and list notes; create, append to and move
+ *   notes after the user confirms, with undo
  * - Web search toggle
  * - Streaming responses
  *
  * @module components/AIAssistant
  */
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { aiService, AIProvider, ChatMessage, AIModel, AIResponse } from '../services/aiService';
-import { config, getAvailableAIProviders } from '../config/env';
+import { aiService, AIProvider, ChatMessage, AIModel, AIResponse, AIUsage, AIToolCall } from '../services/aiService';
+import { config } from '../config/env';
 import { AIIcon, SpinnerIcon, CheckCircleIcon, SearchIcon } from '../constants';
+import { Note, Node } from '../types';
+import { indexService } from '../services/indexService';
+import {
+  noteToolsService,
+  NOTE_TOOLS,
+  NoteChange,
+  NoteToolAction,
+  NoteWorkspace,
+  applyNoteChange,
+} from '../services/noteToolsService';
+import {
+  AIError,
+  AIAuthError,
+  AIQuotaError,
+  AISafetyError,
+  AIContextLengthError,
+  AINetworkError,
+  AIBudgetError,
+  isAbortError,
+} from '../services/aiErrors';
+import {
+  ContextScope,
+  ContextSource,
+  ChatContext,
+  buildChatContext,
+  buildPassageContext,
+  notesInScope,
+  estimateTokens,
+  linkCitations,
+  stripCitations,
+  citedNoteId,
+} from '../utils/chatContext';
 
 /**
  * Props for AIAssistant component
@@ -31,10 +68,131 @@ interface AIAssistantProps {
   isOpen: boolean;
   /** Callback to close the panel */
   onClose: () => void;
-  /** Current note content for context */
-  noteContent: string;
+  /** Open note */
+  note: Note;
+  /** All notes, for the notebook and area scopes */
+  notes: Note[];
+  /** Area hierarchy, for the notebook and area scopes */
+  areas: Node[];
+  /** Text selected in the editor when the panel was opened */
+  selection?: string;
   /** Callback to insert AI response into editor */
   onInsert: (text: string) => void;
+  /** Callback to open a note cited in a response */
+  onOpenNote?: (noteId: string) => void;
+  /** Callback to apply changes made by the note tools; without it no tools are offered */
+  onApplyNoteChange?: (change: NoteChange) => void;
+}
+
+/**
+ * A tool call as shown in the conversation
+ */
+interface ToolActivity {
+  summary: string;
+  status: 'done' | 'applied' | 'declined' | 'failed' | 'cancelled' | 'undone';
+  /** Why the call failed */
+  error?: string;
+  /** Builds the change reverting an applied write */
+  undo?: (workspace: NoteWorkspace) => NoteChange;
+}
+
+/**
+ * A message of the conversation, with the notes its answer may cite
+ */
+type ChatEntry = ChatMessage & {
+  sources?: ContextSource[];
+  /** Whether the notes were shortened to fit the model */
+  contextTrimmed?: boolean;
+  /** Tokens used by the answer, when the provider reported them */
+  usage?: AIUsage;
+  /** Tool call answered by a 'tool' message */
+  action?: ToolActivity;
+};
+
+/**
+ * Tool call statuses as shown next to their summary
+ */
+const TOOL_STATUS_LABELS: Record<ToolActivity['status'], { label: string; className: string }> = {
+  done: { label: 'Done', className: 'text-zinc-500' },
+  applied: { label: 'Applied', className: 'text-green-400' },
+  declined: { label: 'Declined', className: 'text-zinc-500' },
+  failed: { label: 'Failed', className: 'text-red-400' },
+  cancelled: { label: 'Cancelled', className: 'text-zinc-500' },
+  undone: { label: 'Undone', className: 'text-amber-400' },
+};
+
+/**
+ * Rounds of tool calls in one answer before the assistant is stopped
+ */
+const MAX_TOOL_ROUNDS = 8;
+
+/**
+ * Added to the system prompt when the note tools are offered
+ */
+const TOOLS_PROMPT = 'You can use tools to search, read and list the user\'s notes, and to create notes, append to notes and move notes. Look up note and notebook IDs with the tools rather than guessing them. The user confirms every change; if they decline one, do not try it again.';
+
+/**
+ * Context scope options in display order
+ */
+const CONTEXT_SCOPES: Array<{ scope: ContextScope; label: string }> = [
+  { scope: 'selection', label: 'Selection' },
+  { scope: 'note', label: 'This note' },
+  { scope: 'notebook', label: 'This notebook' },
+  { scope: 'area', label: 'This area' },
+  { scope: 'library', label: 'All notes (search)' },
+];
+
+/**
+ * Passages retrieved for the library scope
+ */
+const LIBRARY_TOP_K = 12;
+
+/**
+ * Tokens reserved for the response
+ */
+const RESPONSE_TOKENS = 4096;
+
+/**
+ * Context window assumed when the model is not in the provider's list
+ */
+const DEFAULT_CONTEXT_TOKENS = 32000;
+
+/**
+ * Explain a failed request in terms of what the user can do about it
+ *
+ * @param {unknown} err - Caught error
+ * @returns {string} Message for the error banner
+ */
+function describeError(err: unknown): string {
+  if (!(err instanceof AIError)) {
+    return err instanceof Error ? err.message : 'An error occurred';
+  }
+  const name = aiService.getProviders().find(p => p.id === err.provider)?.name || err.provider;
+  if (err instanceof AIAuthError) {
+    return `${name} rejected the API key. Check the key in your .env file and that it can use this model.`;
+  }
+  if (err instanceof AIQuotaError) {
+    return err.retryable
+      ? `${name} is rate limiting requests. Wait a minute and try again.`
+      : `The ${name} quota is used up. Check the plan and billing of the API key.`;
+  }
+  if (err instanceof AISafetyError) {
+    return `${name}'s safety filters blocked this request. Rephrase the question or choose a smaller context.`;
+  }
+  if (err instanceof AIContextLengthError) {
+    return 'The conversation and notes are too long for this model. Choose a smaller context, clear the conversation or pick a model with a larger context window.';
+  }
+  if (err instanceof AIBudgetError) {
+    return `${err.message} Raise the limit in the AI usage dashboard or switch provider.`;
+  }
+  if (err instanceof AINetworkError) {
+    return err.provider === 'local'
+      ? `Could not reach ${name}. Check that the server is running at the configured address.`
+      : `Could not reach ${name}. Check your connection and try again.`;
+  }
+  return err.status && err.status >= 500
+    ? `${name} is having problems (HTTP ${err.status}). Try again in a moment.`
+    : err.message;
 }
 
 /**
@@ -49,36 +207,67 @@ interface AIAssistantProps {
 export const AIAssistant: React.FC<AIAssistantProps> = ({
   isOpen,
   onClose,
-  noteContent,
+  note,
+  notes,
+  areas,
+  selection,
   onInsert,
+  onOpenNote,
+  onApplyNoteChange,
 }) => {
   // State
-  const [provider, setProvider] = useState<AIProvider>('anthropic');
-  const [model, setModel] = useState<string>('claude-sonnet-4');
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [provider, setProvider] = useState<AIProvider>(() => aiService.getProviders()[0]?.id || 'anthropic');
+  const [model, setModel] = useState<string>('');
+  const [availableModels, setAvailableModels] = useState<AIModel[]>(() => aiService.getProviderModels(provider));
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  const [scope, setScope] = useState<ContextScope>('note');
+  const [pendingSources, setPendingSources] = useState<ContextSource[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [budgetWarning, setBudgetWarning] = useState<string | null>(null);
   const [useThinking, setUseThinking] = useState(false);
   const [useWebSearch, setUseWebSearch] = useState(false);
   const [useStreaming, setUseStreaming] = useState(true);
   const [showThinking, setShowThinking] = useState(false);
   const [currentThinking, setCurrentThinking] = useState<string>('');
   const [streamingContent, setStreamingContent] = useState<string>('');
+  const [pendingAction, setPendingAction] = useState<NoteToolAction | null>(null);
 
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Answers the pending confirmation
+  const confirmRef = useRef<((approved: boolean) => void) | null>(null);
+  // Notes as the tools last left them, ahead of the props catching up
+  const workspaceRef = useRef<NoteWorkspace>({ notes, areas });
 
   /**
-   * Get available models for current provider
+   * Effect: Follow note changes made outside the assistant
    */
-  const availableModels = aiService.getProviderModels(provider);
+  useEffect(() => {
+    workspaceRef.current = { notes, areas };
+  }, [notes, areas]);
 
   /**
    * Get available providers
    */
-  const availableProviders = getAvailableAIProviders();
+  const availableProviders = aiService.getProviders();
+
+  /**
+   * Number of notes each scope covers, for the scope options
+   */
+  const scopeSizes = useMemo(() => {
+    if (!isOpen) return null;
+    return {
+      selection: 1,
+      note: 1,
+      notebook: notesInScope('notebook', note, notes, areas).length,
+      area: notesInScope('area', note, notes, areas).length,
+    };
+  }, [isOpen, note, notes, areas]);
 
   /**
    * Scroll to bottom of messages
@@ -95,14 +284,38 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
   }, [messages, scrollToBottom]);
 
   /**
-   * Effect: Update model when provider changes
+   * Effect: Load the provider's models when it changes; self-hosted
+   * servers are asked which models they serve
    */
   useEffect(() => {
-    const models = aiService.getProviderModels(provider);
-    if (models.length > 0) {
-      setModel(models[0].id);
-    }
-  }, [provider]);
+    if (!isOpen) return;
+    let cancelled = false;
+    aiService.listModels(provider).then(models => {
+      if (cancelled) return;
+      setAvailableModels(models);
+      setModel(prev => (models.some(m => m.id === prev) ? prev : models[0]?.id || ''));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, provider]);
+
+  /**
+   * Effect: Stop the request in flight when the panel closes
+   */
+  useEffect(() => {
+    if (!isOpen) abortRef.current?.abort();
+  }, [isOpen]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  /**
+   * Effect: Default to the selection when opened with one
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    setScope(prev => (selection ? 'selection' : prev === 'selection' ? 'note' : prev));
+  }, [isOpen, selection]);
 
   /**
    * Handle provider change
@@ -118,13 +331,79 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
     setModel(e.target.value);
   }, []);
 
+  /**
+   * Ask the user to confirm a write
+   *
+   * @returns {Promise<boolean>} Whether the user accepted; rejects with an AbortError when the request is stopped
+   */
+  const confirmAction = useCallback((action: NoteToolAction, signal: AbortSignal) => new Promise<boolean>((resolve, reject) => {
+    const onAbort = () => {
+      confirmRef.current = null;
+      setPendingAction(null);
+      reject(new DOMException('The request was cancelled.', 'AbortError'));
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    confirmRef.current = (approved) => {
+      signal.removeEventListener('abort', onAbort);
+      confirmRef.current = null;
+      setPendingAction(null);
+      resolve(approved);
+    };
+    setPendingAction(action);
+  }), []);
+
+  /**
+   * Carry out a tool call, asking first for writes
+   *
+   * Failures are reported to the model in the result, so it can correct
+   * the call or explain the problem.
+   *
+   * @returns {Promise<ChatEntry>} Tool message answering the call
+   */
+  const runToolCall = useCallback(async (call: AIToolCall, signal: AbortSignal): Promise<ChatEntry> => {
+    const answer = (content: string, action: ToolActivity): ChatEntry => ({
+      role: 'tool',
+      content,
+      toolCallId: call.id,
+      toolName: call.name,
+      action,
+    });
+
+    let action: NoteToolAction | null = null;
+    try {
+      action = noteToolsService.prepare(call, workspaceRef.current);
+      if (signal.aborted) {
+        throw new DOMException('The request was cancelled.', 'AbortError');
+      }
+      if (action.writes && !(await confirmAction(action, signal))) {
+        return answer(JSON.stringify({ error: 'The user declined this change.' }), { summary: action.summary, status: 'declined' });
+      }
+      const outcome = await action.run(workspaceRef.current);
+      if (outcome.change) {
+        onApplyNoteChange?.(outcome.change);
+        workspaceRef.current = applyNoteChange(workspaceRef.current, outcome.change);
+      }
+      return answer(outcome.result, { summary: action.summary, status: action.writes ? 'applied' : 'done', undo: outcome.undo });
+    } catch (err) {
+      if (isAbortError(err)) {
+        return answer(JSON.stringify({ error: 'The user stopped the assistant.' }), { summary: action?.summary || call.name, status: 'cancelled' });
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      return answer(JSON.stringify({ error: message }), { summary: action?.summary || call.name, status: 'failed', error: message });
+    }
+  }, [confirmAction, onApplyNoteChange]);
+
   /**
    * Handle send message
    */
   const handleSend = useCallback(async () => {
     if (!input.trim() || isLoading) return;
 
-    const userMessage: ChatMessage = {
+    const userMessage: ChatEntry = {
       role: 'user',
       content: input.trim(),
     };
@@ -133,70 +412,214 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setError(null);
+    setRetryNotice(null);
+    setBudgetWarning(null);
     setIsLoading(true);
     setCurrentThinking('');
     setStreamingContent('');
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // Kept so a stopped answer isn't lost
+    let partial = '';
+    let partialThinking = '';
+    let context: ChatContext | null = null;
+
     try {
       // Prepare conversation history
       const conversationMessages = [...messages, userMessage];
 
-      // Add system message with note context if available
-      if (noteContent) {
-        conversationMessages.unshift({
-          role: 'system',
-          content: `You are a helpful AI assistant integrated into a note-taking app. The user is currently working on a note with the following content:\n\n${noteContent}\n\nProvide helpful, concise responses that can be inserted into the note.`,
-        });
+      // Ground the conversation in the notes of the scope, within what the model can take
+      const contextTokens = availableModels.find(m => m.id === model)?.maxTokens ?? DEFAULT_CONTEXT_TOKENS;
+      const historyTokens = estimateTokens(conversationMessages.map(m => m.content).join('\n'));
+      const budget = contextTokens - RESPONSE_TOKENS - historyTokens;
+      if (scope === 'library') {
+        const byId = new Map(notes.map(n => [n.id, n]));
+        const matches = await indexService.query(userMessage.content, { topK: LIBRARY_TOP_K });
+        context = buildPassageContext(
+          matches
+            .filter(match => byId.has(match.chunk.noteId))
+            .map(({ chunk }) => ({ note: byId.get(chunk.noteId)!, heading: chunk.heading, text: chunk.text })),
+          budget
+        );
+      } else {
+        context = buildChatContext(notesInScope(scope, note, notes, areas), budget, scope === 'selection' ? selection : undefined);
       }
-
-      // Send request to AI with streaming support
-      const response: AIResponse = await aiService.chat(
-        conversationMessages,
-        provider,
-        {
-          model,
-          useThinking,
-          useWebSearch,
-          maxTokens: 4096,
-          temperature: 0.7,
-          stream: useStreaming,
-          onStream: useStreaming ? (chunk: string) => {
-            setStreamingContent(prev => prev + chunk);
-          } : undefined,
+      const tools = onApplyNoteChange && aiService.getProviders().find(p => p.id === provider)?.capabilities.tools
+        ? NOTE_TOOLS
+        : undefined;
+      conversationMessages.unshift({ role: 'system', content: tools ? `${context.prompt}\n\n${TOOLS_PROMPT}` : context.prompt });
+      setPendingSources(context.sources);
+
+      // Each round answers the previous round's tool calls
+      for (let round = 1; ; round++) {
+        // Send request to AI with streaming support
+        const response: AIResponse = await aiService.chat(
+          conversationMessages,
+          provider,
+          {
+            model,
+            useThinking,
+            useWebSearch,
+            maxTokens: RESPONSE_TOKENS,
+            temperature: 0.7,
+            stream: useStreaming,
+            onEvent: useStreaming ? (event) => {
+              if (event.type === 'text') {
+                partial += event.text;
+                setRetryNotice(null);
+                setStreamingContent(prev => prev + event.text);
+              } else if (event.type === 'thinking') {
+                partialThinking += event.text;
+                setRetryNotice(null);
+                setCurrentThinking(prev => prev + event.text);
+                setShowThinking(true);
+              }
+            } : undefined,
+            signal: controller.signal,
+            feature: 'assistant',
+            onBudgetWarning: (status) => {
+              setBudgetWarning(`${status.budget.period === 'day' ? 'Today' : 'This month'}'s spending on ${status.provider} ($${status.spent.toFixed(2)}) is past the soft budget of $${status.budget.soft!.toFixed(2)}.`);
+            },
+            onRetry: (_err, attempt, delayMs) => {
+              setRetryNotice(`Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})...`);
+            },
+            tools,
+          }
+        );
+
+        // Add assistant response to history
+        const assistantMessage: ChatEntry = {
+          role: 'assistant',
+          content: response.content,
+          thinking: response.thinking,
+          sources: context.sources,
+          contextTrimmed: context.trimmed,
+          usage: response.usage,
+          toolCalls: response.toolCalls,
+        };
+
+        setMessages(prev => [...prev, assistantMessage]);
+        setStreamingContent('');
+        partial = '';
+        partialThinking = '';
+
+        // Show thinking if available
+        if (response.thinking) {
+          setCurrentThinking(response.thinking);
+          setShowThinking(true);
         }
-      );
 
-      // Add assistant response to history
-      const assistantMessage: ChatMessage = {
-        role: 'assistant',
-        content: response.content,
-        thinking: response.thinking,
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
-      setStreamingContent('');
-
-      // Show thinking if available
-      if (response.thinking) {
-        setCurrentThinking(response.thinking);
-        setShowThinking(true);
+        if (!tools || !response.toolCalls?.length) break;
+
+        // Every call gets an answer, or the provider rejects the next request
+        conversationMessages.push(assistantMessage);
+        const limitReached = round >= MAX_TOOL_ROUNDS;
+        for (const call of response.toolCalls) {
+          const result: ChatEntry = limitReached
+            ? {
+              role: 'tool',
+              content: JSON.stringify({ error: 'Too many tool calls in one answer.' }),
+              toolCallId: call.id,
+              toolName: call.name,
+              action: { summary: call.name, status: 'cancelled' },
+            }
+            : await runToolCall(call, controller.signal);
+          conversationMessages.push(result);
+          setMessages(prev => [...prev, result]);
+        }
+        if (controller.signal.aborted) break;
+        if (limitReached) {
+          setError(`The assistant stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls. Send a message to let it continue.`);
+          break;
+        }
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-      console.error('AI Assistant Error:', err);
+      if (isAbortError(err)) {
+        if (partial) {
+          setMessages(prev => [...prev, {
+            role: 'assistant',
+            content: partial,
+            thinking: partialThinking || undefined,
+            sources: context?.sources,
+            contextTrimmed: context?.trimmed,
+          }]);
+        }
+      } else {
+        setError(describeError(err));
+        console.error('AI Assistant Error:', err);
+      }
       setStreamingContent('');
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setRetryNotice(null);
       setIsLoading(false);
     }
-  }, [input, isLoading, messages, noteContent, provider, model, useThinking, useWebSearch, useStreaming]);
+  }, [input, isLoading, messages, scope, note, notes, areas, selection, availableModels, provider, model, useThinking, useWebSearch, useStreaming, onApplyNoteChange, runToolCall]);
+
+  /**
+   * Stop the request in flight, keeping what was streamed so far
+   */
+  const handleStop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  /**
+   * Revert a change applied by a tool call
+   *
+   * @param {number} index - Position of the tool message in the conversation
+   */
+  const handleUndo = useCallback((index: number) => {
+    const action = messages[index]?.action;
+    if (!action?.undo || !onApplyNoteChange) return;
+    try {
+      const change = action.undo(workspaceRef.current);
+      onApplyNoteChange(change);
+      workspaceRef.current = applyNoteChange(workspaceRef.current, change);
+      setMessages(prev => prev.map((message, i) => (
+        i === index ? { ...message, action: { ...action, status: 'undone', undo: undefined } } : message
+      )));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not undo the change.');
+    }
+  }, [messages, onApplyNoteChange]);
 
   /**
-   * Handle insert response into editor
+   * Handle insert response into editor, without citation markers
    */
   const handleInsertMessage = useCallback((content: string) => {
-    onInsert(content);
+    onInsert(stripCitations(content));
   }, [onInsert]);
 
+  /**
+   * Open a cited note; the conversation is kept for when the panel is reopened
+   */
+  const handleOpenCitation = useCallback((noteId: string) => {
+    onOpenNote?.(noteId);
+    onClose();
+  }, [onOpenNote, onClose]);
+
+  /**
+   * Markdown renderers: citation links open their note
+   */
+  const markdownComponents: Components = useMemo(() => ({
+    a: ({ href, children }) => {
+      const noteId = citedNoteId(href);
+      if (!noteId) return <a href={href}>{children}</a>;
+      return (
+        <button
+          type="button"
+          onClick={() => handleOpenCitation(noteId)}
+          disabled={!onOpenNote}
+          className="inline px-1.5 rounded bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 text-xs no-underline align-baseline disabled:cursor-default"
+          title="Open cited note"
+        >
+          {children}
+        </button>
+      );
+    },
+  }), [handleOpenCitation, onOpenNote]);
+
   /**
    * Handle clear conversation
    */
@@ -267,7 +690,7 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
 
         {/* Settings Bar */}
         <div className="p-4 border-b border-zinc-700 space-y-3">
-          <div className="grid grid-cols-2 gap-3">
+          <div className="grid grid-cols-3 gap-3">
             {/* Provider Selection */}
             <div>
               <label className="block text-sm font-medium text-zinc-300 mb-1">
@@ -278,9 +701,11 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
                 onChange={handleProviderChange}
                 className="w-full px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                {availableProviders.includes('openai') && <option value="openai">OpenAI (ChatGPT)</option>}
-                {availableProviders.includes('anthropic') && <option value="anthropic">Anthropic (Claude)</option>}
-                {availableProviders.includes('gemini') && <option value="gemini">Google Gemini</option>}
+                {availableProviders.map(p => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -301,6 +726,26 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
                 ))}
               </select>
             </div>
+
+            {/* Context Scope */}
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-1">
+                Context
+              </label>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as ContextScope)}
+                className="w-full px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {CONTEXT_SCOPES.map(option => (
+                  <option key={option.scope} value={option.scope} disabled={option.scope === 'selection' && !selection}>
+                    {option.label}
+                    {scopeSizes && (option.scope === 'notebook' || option.scope === 'area') &&
+                      ` (${scopeSizes[option.scope]} ${scopeSizes[option.scope] === 1 ? 'note' : 'notes'})`}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* Feature Toggles */}
@@ -346,7 +791,7 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
             {/* Clear Button */}
             <button
               onClick={handleClear}
-              disabled={messages.length === 0}
+              disabled={messages.length === 0 || isLoading}
               className="ml-auto px-3 py-1 text-sm text-zinc-400 hover:text-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               Clear Chat
@@ -361,12 +806,36 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
               <AIIcon className="w-16 h-16 mb-4 opacity-50" />
               <p className="text-lg font-medium mb-2">AI Assistant Ready</p>
               <p className="text-sm">
-                Ask questions about your note or request help with writing.
+                Ask questions about your notes or request help with writing.
+                Answers link to the notes they draw on.
+                {onApplyNoteChange && ' The assistant can also create, extend and move notes once you approve each change.'}
               </p>
             </div>
           )}
 
-          {messages.map((message, index) => (
+          {messages.map((message, index) => message.role === 'tool' ? (
+            message.action && (
+              <div key={index} className="flex justify-start">
+                <div
+                  className="max-w-[80%] flex items-center gap-2 px-3 py-1.5 rounded-md bg-zinc-900 border border-zinc-700 text-xs text-zinc-400"
+                  title={message.action.error}
+                >
+                  <span>{message.action.summary}</span>
+                  <span className={TOOL_STATUS_LABELS[message.action.status].className}>
+                    {TOOL_STATUS_LABELS[message.action.status].label}
+                  </span>
+                  {message.action.status === 'applied' && message.action.undo && (
+                    <button
+                      onClick={() => handleUndo(index)}
+                      className="px-2 py-0.5 bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded transition-colors"
+                    >
+                      Undo
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          ) : (message.role === 'assistant' && !message.content) ? null : (
             <div
               key={index}
               className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -379,11 +848,23 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
                 }`}
               >
                 <div className="prose prose-invert max-w-none prose-sm">
-                  <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                    {message.content}
+                  <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                    {message.sources ? linkCitations(message.content, message.sources) : message.content}
                   </ReactMarkdown>
                 </div>
 
+                {message.contextTrimmed && (
+                  <div className="mt-2 text-xs text-zinc-400">
+                    Some notes were shortened to fit the model's context.
+                  </div>
+                )}
+
+                {message.usage && message.usage.totalTokens > 0 && (
+                  <div className="mt-2 text-xs text-zinc-400">
+                    {message.usage.promptTokens.toLocaleString()} tokens in · {message.usage.completionTokens.toLocaleString()} out
+                  </div>
+                )}
+
                 {/* Insert Button for Assistant Messages */}
                 {message.role === 'assistant' && (
                   <button
@@ -412,8 +893,8 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
             <div className="flex justify-start">
               <div className="max-w-[80%] rounded-lg p-3 bg-zinc-700 text-zinc-100">
                 <div className="prose prose-invert max-w-none prose-sm">
-                  <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                    {streamingContent}
+                  <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                    {linkCitations(streamingContent, pendingSources)}
                   </ReactMarkdown>
                 </div>
                 <div className="mt-2 flex items-center gap-2">
@@ -437,16 +918,49 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
             </div>
           )}
 
+          {/* Confirmation of a change to the notes */}
+          {pendingAction && (
+            <div className="bg-zinc-900 border border-blue-700 rounded-lg p-3">
+              <div className="text-sm font-medium text-zinc-200 mb-2">{pendingAction.summary}?</div>
+              {pendingAction.preview && (
+                <div className="prose prose-invert max-w-none prose-sm max-h-48 overflow-y-auto border-l-2 border-zinc-700 pl-3 mb-3">
+                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{pendingAction.preview}</ReactMarkdown>
+                </div>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => confirmRef.current?.(true)}
+                  className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+                >
+                  Apply
+                </button>
+                <button
+                  onClick={() => confirmRef.current?.(false)}
+                  className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-md transition-colors"
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Loading Indicator */}
-          {isLoading && (
+          {isLoading && !pendingAction && (
             <div className="flex justify-start">
               <div className="bg-zinc-700 rounded-lg p-3 flex items-center gap-2">
                 <SpinnerIcon className="w-5 h-5 text-blue-400 animate-spin" />
-                <span className="text-zinc-300">Thinking...</span>
+                <span className="text-zinc-300">{retryNotice || 'Thinking...'}</span>
               </div>
             </div>
           )}
 
+          {/* Budget Warning */}
+          {budgetWarning && (
+            <div className="bg-amber-900/20 border border-amber-700 rounded-lg p-3 text-amber-400 text-sm">
+              {budgetWarning}
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="bg-red-900/20 border border-red-700 rounded-lg p-3 text-red-400 text-sm">
@@ -469,17 +983,23 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
               className="flex-1 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
               rows={3}
             />
-            <button
-              onClick={handleSend}
-              disabled={!input.trim() || isLoading}
-              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-zinc-700 disabled:cursor-not-allowed text-white rounded-md transition-colors font-medium"
-            >
-              {isLoading ? (
-                <SpinnerIcon className="w-5 h-5 animate-spin" />
-              ) : (
-                'Send'
-              )}
-            </button>
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                className="px-6 py-2 bg-zinc-600 hover:bg-zinc-500 text-white rounded-md transition-colors font-medium"
+                title="Stop the response"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-zinc-700 disabled:cursor-not-allowed text-white rounded-md transition-colors font-medium"
+              >
+                Send
+              </button>
+            )}
           </div>
           <p className="text-xs text-zinc-500 mt-2">
             Press Enter to send, Shift+Enter for new line
@@ -0,0 +1,306 @@
+/**
+ * @fileoverview Inline AI Toolbar Component
+ *
+ * Floating toolbar shown above text selected in the editor, with AI
+ * actions that rewrite the selection (see {@link module:services/rewriteService}).
+ * The rewritten text streams into a preview below the selection, where it
+ * can be accepted, rejected or retried. The editor applies accepted text
+ * as a single undoable step.
+ *
+ * Actions run on the first configured AI provider.
+ *
+ * Keyboard: Escape rejects the preview.
+ *
+ * @module components/AIToolbar
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { AIIcon, SpinnerIcon, ExclamationCircleIcon } from '../constants';
+import { rewriteService, RewriteAction, REWRITE_ACTIONS } from '../services/rewriteService';
+import { aiService } from '../services/aiService';
+import { isAbortError } from '../services/aiErrors';
+import { htmlToMarkdown } from '../utils/markdown';
+import { restoreAttachmentPaths } from '../utils/attachments';
+import { restoreDiagramBlocks } from '../utils/mermaid';
+
+/**
+ * Props for the AIToolbar component
+ * @interface AIToolbarProps
+ */
+interface AIToolbarProps {
+  /** Editable area whose selections the toolbar follows; its parent must be positioned */
+  editorRef: React.RefObject<HTMLDivElement | null>;
+  /** Callback to replace the selected range with the accepted Markdown */
+  onAccept: (range: Range, markdown: string) => void;
+}
+
+/**
+ * Position of the selection within the editor's scroll container
+ */
+interface SelectionBox {
+  top: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * A rewrite in progress or waiting for a decision
+ */
+interface RewriteSession {
+  action: RewriteAction;
+  range: Range;
+  box: SelectionBox;
+}
+
+/**
+ * Toolbar height plus a gap, to place it above the selection
+ */
+const TOOLBAR_OFFSET = 44;
+
+/**
+ * Width of the preview, to keep it inside the editor near the right edge
+ */
+const PANEL_WIDTH = 512;
+
+/**
+ * Measure a range relative to the editor's scroll container
+ *
+ * @param {Range} range - Selected range
+ * @param {HTMLElement} container - Positioned parent of the editor
+ * @returns {SelectionBox} Position in the container's content coordinates
+ */
+function measureRange(range: Range, container: HTMLElement): SelectionBox {
+  const rect = range.getBoundingClientRect();
+  const bounds = container.getBoundingClientRect();
+  return {
+    top: rect.top - bounds.top + container.scrollTop,
+    bottom: rect.bottom - bounds.top + container.scrollTop,
+    left: Math.max(8, Math.min(rect.left - bounds.left, container.clientWidth - PANEL_WIDTH - 8) + container.scrollLeft),
+  };
+}
+
+/**
+ * Convert the contents of a range to Markdown
+ *
+ * @param {Range} range - Selected range
+ * @returns {string} Selection as Markdown
+ */
+function rangeToMarkdown(range: Range): string {
+  const container = document.createElement('div');
+  container.appendChild(range.cloneContents());
+  restoreAttachmentPaths(container);
+  restoreDiagramBlocks(container);
+  return htmlToMarkdown(container.innerHTML).trim();
+}
+
+/**
+ * AIToolbar Component
+ *
+ * @param {AIToolbarProps} props - Component props
+ * @returns {JSX.Element | null} Toolbar or preview, or null without a selection
+ *
+ * @example
+ * ```tsx
+ * <div className="relative overflow-y-auto">
+ *   <div ref={editorRef} contentEditable />
+ *   <AIToolbar editorRef={editorRef} onAccept={handleAcceptRewrite} />
+ * </div>
+ * ```
+ */
+export const AIToolbar: React.FC<AIToolbarProps> = ({ editorRef, onAccept }) => {
+  const provider = aiService.getProviders()[0]?.id || null;
+  const [box, setBox] = useState<SelectionBox | null>(null);
+  const [session, setSession] = useState<RewriteSession | null>(null);
+  const [preview, setPreview] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Responses of rejected or retried requests are ignored
+  const requestRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  /**
+   * Effect: Cancel a rewrite in flight when the toolbar goes away
+   */
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  /**
+   * Effect: Follow the selection while no rewrite is open
+   */
+  useEffect(() => {
+    if (session) return;
+    const handleSelectionChange = () => {
+      const editor = editorRef.current;
+      const container = editor?.parentElement;
+      const selection = window.getSelection();
+      const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+      if (!editor || !container || !range || range.collapsed || !editor.contains(range.commonAncestorContainer) || !selection!.toString().trim()) {
+        setBox(null);
+        return;
+      }
+      setBox(measureRange(range, container));
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [editorRef, session]);
+
+  /**
+   * Rewrite a range, streaming into the preview
+   */
+  const runRewrite = useCallback(async (action: RewriteAction, range: Range, at: SelectionBox) => {
+    if (!provider) return;
+    const requestId = ++requestRef.current;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setSession({ action, range, box: at });
+    setPreview('');
+    setError(null);
+    setIsStreaming(true);
+    try {
+      const result = await rewriteService.rewrite(action, rangeToMarkdown(range), {
+        provider,
+        onStream: chunk => {
+          if (requestRef.current === requestId) setPreview(prev => prev + chunk);
+        },
+        signal: controller.signal,
+      });
+      if (requestRef.current === requestId) setPreview(result);
+    } catch (err) {
+      if (requestRef.current !== requestId || isAbortError(err)) return;
+      console.error('AI rewrite failed:', err);
+      setError(err instanceof Error ? err.message : 'The rewrite failed.');
+    } finally {
+      if (requestRef.current === requestId) setIsStreaming(false);
+    }
+  }, [provider]);
+
+  const handleAction = (action: RewriteAction) => {
+    const selection = window.getSelection();
+    if (!box || !selection || selection.rangeCount === 0) return;
+    runRewrite(action, selection.getRangeAt(0).cloneRange(), box);
+  };
+
+  /**
+   * Close the preview and give the selection back
+   */
+  const handleReject = useCallback(() => {
+    if (!session) return;
+    requestRef.current++;
+    abortRef.current?.abort();
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(session.range);
+    setSession(null);
+    setIsStreaming(false);
+    setPreview('');
+  }, [session]);
+
+  const handleAccept = () => {
+    if (!session || isStreaming || !preview.trim()) return;
+    onAccept(session.range, preview);
+    setSession(null);
+    setBox(null);
+    setPreview('');
+  };
+
+  /**
+   * Effect: Escape rejects the preview
+   */
+  useEffect(() => {
+    if (!session) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        handleReject();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [session, handleReject]);
+
+  if (!provider) return null;
+
+  if (session) {
+    const label = REWRITE_ACTIONS.find(item => item.action === session.action)?.label;
+    return (
+      <div
+        className="absolute z-20 w-[32rem] max-w-[calc(100%-1rem)] bg-zinc-800 border border-zinc-700 rounded-lg shadow-2xl"
+        style={{ top: session.box.bottom + 8, left: session.box.left }}
+        onMouseDown={(e) => e.preventDefault()}
+        role="dialog"
+        aria-label="AI rewrite preview"
+      >
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-700 text-xs text-zinc-400">
+          <AIIcon className="w-4 h-4 text-purple-400" />
+          <span className="flex-1">{label}</span>
+          {isStreaming && <SpinnerIcon className="w-4 h-4 text-blue-400 animate-spin" />}
+        </div>
+        <div className="px-3 py-2 max-h-64 overflow-y-auto">
+          {error ? (
+            <div className="flex items-start gap-2 text-sm text-red-400">
+              <ExclamationCircleIcon className="w-5 h-5 flex-shrink-0" />
+              {error}
+            </div>
+          ) : preview ? (
+            <div className="prose prose-invert prose-sm max-w-none">
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{preview}</ReactMarkdown>
+            </div>
+          ) : (
+            <div className="text-sm text-zinc-500">Writing...</div>
+          )}
+        </div>
+        <div className="flex items-center justify-end gap-2 px-3 py-2 border-t border-zinc-700">
+          <button
+            onClick={handleReject}
+            className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-md transition-colors"
+            title="Keep the original text (Esc)"
+          >
+            Reject
+          </button>
+          <button
+            onClick={() => runRewrite(session.action, session.range, session.box)}
+            disabled={isStreaming}
+            className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Retry
+          </button>
+          <button
+            onClick={handleAccept}
+            disabled={isStreaming || !!error || !preview.trim()}
+            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Accept
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!box) return null;
+
+  return (
+    <div
+      className="absolute z-20 flex items-center gap-1 p-1 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl"
+      style={{ top: Math.max(0, box.top - TOOLBAR_OFFSET), left: box.left }}
+      onMouseDown={(e) => e.preventDefault()}
+      role="toolbar"
+      aria-label="AI actions"
+    >
+      <AIIcon className="w-4 h-4 mx-1 text-purple-400" />
+      {REWRITE_ACTIONS.map(({ action, label }) => (
+        <button
+          key={action}
+          onClick={() => handleAction(action)}
+          className="px-2 py-1 text-xs text-zinc-200 hover:bg-zinc-700 rounded transition-colors whitespace-nowrap"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default AIToolbar;
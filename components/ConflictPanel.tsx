@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Sync Conflict Panel Component
+ *
+ * Modal panel listing notes that changed both locally and in Google Drive
+ * since the last sync. Shows the base, local and remote versions with
+ * line diffs and lets the user keep one side or merge hunk by hunk.
+ *
+ * Features:
+ * - List of all unresolved conflicts
+ * - Side-by-side base / local / remote comparison with diff highlighting
+ * - Three-way merge view with per-hunk resolution
+ * - Keep local, keep remote or apply the merged result
+ *
+ * @module components/ConflictPanel
+ */
+
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { CheckIcon, ExclamationCircleIcon } from '../constants';
+import { SyncConflict, ConflictChoice } from '../services/googleDriveService';
+import { diffLines, mergeThreeWay, applyMergeHunks, splitLines, HunkChoice, MergeHunk } from '../utils/diff';
+
+/**
+ * Props for the ConflictPanel component
+ * @interface ConflictPanelProps
+ */
+interface ConflictPanelProps {
+  /** Controls modal visibility */
+  isOpen: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** Unresolved conflicts to display */
+  conflicts: SyncConflict[];
+  /** Callback to resolve a conflict */
+  onResolve: (noteId: string, choice: ConflictChoice, mergedMarkdown?: string) => void;
+}
+
+/**
+ * Labels and colors for merge hunk kinds
+ */
+const HUNK_LABELS: Record<MergeHunk['kind'], { label: string; className: string }> = {
+  unchanged: { label: 'Unchanged', className: 'text-zinc-500' },
+  local: { label: 'Changed locally', className: 'text-blue-400' },
+  remote: { label: 'Changed in Drive', className: 'text-purple-400' },
+  both: { label: 'Same change on both sides', className: 'text-green-400' },
+  conflict: { label: 'Conflict', className: 'text-red-400' },
+};
+
+/**
+ * Renders one version of the note, highlighting lines changed against the base
+ */
+const DiffColumn: React.FC<{ title: string; base: string; text: string; showDiff: boolean }> = ({
+  title,
+  base,
+  text,
+  showDiff,
+}) => {
+  const ops = useMemo(
+    () => (showDiff ? diffLines(base, text) : [{ type: 'equal' as const, lines: splitLines(text) }]),
+    [base, text, showDiff]
+  );
+
+  return (
+    <div className="flex flex-col min-w-0">
+      <div className="text-sm font-medium text-zinc-300 mb-2">{title}</div>
+      <pre className="flex-1 bg-zinc-900 border border-zinc-700 rounded-lg p-3 overflow-auto text-xs font-mono leading-5">
+        {ops.map((op, opIndex) =>
+          op.lines.map((line, lineIndex) => (
+            <div
+              key={`${opIndex}-${lineIndex}`}
+              className={
+                op.type === 'insert'
+                  ? 'bg-green-900/40 text-green-300'
+                  : op.type === 'delete'
+                    ? 'bg-red-900/40 text-red-300 line-through'
+                    : 'text-zinc-400'
+              }
+            >
+              {line || ' '}
+            </div>
+          ))
+        )}
+      </pre>
+    </div>
+  );
+};
+
+/**
+ * Renders a block of lines for the merge view
+ */
+const HunkLines: React.FC<{ lines: string[]; className?: string }> = ({ lines, className = '' }) => (
+  <pre className={`bg-zinc-900 rounded p-2 text-xs font-mono whitespace-pre-wrap ${className}`}>
+    {lines.length > 0 ? lines.join('\n') : <span className="text-zinc-600 italic">(empty)</span>}
+  </pre>
+);
+
+/**
+ * ConflictPanel Component
+ *
+ * @param {ConflictPanelProps} props - Component props
+ * @returns {JSX.Element | null} Conflict panel or null if closed
+ *
+ * @example
+ * ```tsx
+ * <ConflictPanel
+ *   isOpen={showConflicts}
+ *   onClose={() => setShowConflicts(false)}
+ *   conflicts={googleDriveService.getConflicts()}
+ *   onResolve={handleResolveConflict}
+ * />
+ * ```
+ */
+export const ConflictPanel: React.FC<ConflictPanelProps> = ({
+  isOpen,
+  onClose,
+  conflicts,
+  onResolve,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState<'compare' | 'merge'>('compare');
+  const [choices, setChoices] = useState<Record<number, HunkChoice>>({});
+
+  const selected = conflicts.find(c => c.noteId === selectedId) || conflicts[0] || null;
+
+  /**
+   * Effect: Reset hunk choices when switching conflicts
+   */
+  useEffect(() => {
+    setChoices({});
+  }, [selected?.noteId]);
+
+  const hunks = useMemo(
+    () => (selected ? mergeThreeWay(selected.base, selected.local, selected.remote) : []),
+    [selected]
+  );
+
+  const conflictIndexes = useMemo(
+    () => hunks.map((hunk, index) => (hunk.kind === 'conflict' ? index : -1)).filter(index => index >= 0),
+    [hunks]
+  );
+
+  const allChosen = conflictIndexes.every(index => choices[index]);
+
+  /**
+   * Resolve the selected conflict and move on to the next one
+   */
+  const resolve = useCallback((choice: ConflictChoice) => {
+    if (!selected) return;
+    const merged = choice === 'merged' ? applyMergeHunks(hunks, choices) : undefined;
+    onResolve(selected.noteId, choice, merged);
+    setSelectedId(null);
+    setView('compare');
+  }, [selected, hunks, choices, onResolve]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="conflict-panel-title"
+    >
+      <div
+        className="bg-zinc-800 rounded-lg w-full max-w-7xl h-[85vh] flex flex-col border border-zinc-700 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-700">
+          <div className="flex items-center gap-2">
+            <ExclamationCircleIcon className="w-6 h-6 text-amber-400" />
+            <h2 id="conflict-panel-title" className="text-xl font-bold text-zinc-100">
+              Sync Conflicts
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-400 hover:text-zinc-200"
+            aria-label="Close dialog"
+          >
+            ✕
+          </button>
+        </div>
+
+        {conflicts.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-zinc-400">
+            <CheckIcon className="w-12 h-12 text-green-400 mb-3" />
+            <p>All conflicts resolved.</p>
+          </div>
+        ) : (
+          <div className="flex-1 flex overflow-hidden">
+            {/* Conflict list */}
+            <div className="w-56 border-r border-zinc-700 overflow-y-auto flex-shrink-0">
+              {conflicts.map(conflict => (
+                <button
+                  key={conflict.noteId}
+                  onClick={() => setSelectedId(conflict.noteId)}
+                  className={`block w-full text-left p-3 border-b border-zinc-700/50 transition-colors ${
+                    selected?.noteId === conflict.noteId ? 'bg-blue-900/40' : 'hover:bg-zinc-700/50'
+                  }`}
+                >
+                  <div className="text-sm font-semibold text-zinc-100 truncate">{conflict.title}</div>
+                  <div className="text-xs text-zinc-500">
+                    {conflict.detectedAt.toLocaleTimeString()}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="flex-1 flex flex-col overflow-hidden">
+                {/* View tabs */}
+                <div className="flex gap-2 p-3 border-b border-zinc-700">
+                  <button
+                    onClick={() => setView('compare')}
+                    className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                      view === 'compare' ? 'bg-zinc-600 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-700'
+                    }`}
+                  >
+                    Compare
+                  </button>
+                  <button
+                    onClick={() => setView('merge')}
+                    className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                      view === 'merge' ? 'bg-zinc-600 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-700'
+                    }`}
+                  >
+                    Merge by hunks
+                    {conflictIndexes.length > 0 && (
+                      <span className="ml-2 text-xs text-red-400">{conflictIndexes.length}</span>
+                    )}
+                  </button>
+                </div>
+
+                {/* Body */}
+                <div className="flex-1 overflow-auto p-4">
+                  {view === 'compare' ? (
+                    <div className="grid grid-cols-3 gap-3 h-full">
+                      <DiffColumn title="Base (last sync)" base={selected.base} text={selected.base} showDiff={false} />
+                      <DiffColumn title="Local" base={selected.base} text={selected.local} showDiff={true} />
+                      <DiffColumn title="Google Drive" base={selected.base} text={selected.remote} showDiff={true} />
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {hunks.map((hunk, index) => {
+                        const { label, className } = HUNK_LABELS[hunk.kind];
+
+                        if (hunk.kind === 'unchanged') {
+                          return (
+                            <div key={index} className="text-xs text-zinc-500 px-2">
+                              {hunk.base.length} unchanged line{hunk.base.length !== 1 ? 's' : ''}
+                            </div>
+                          );
+                        }
+
+                        return (
+                          <div key={index} className="border border-zinc-700 rounded-lg p-3">
+                            <div className={`text-xs font-semibold mb-2 ${className}`}>{label}</div>
+                            {hunk.kind === 'conflict' ? (
+                              <>
+                                <div className="grid grid-cols-2 gap-3">
+                                  <div>
+                                    <div className="text-xs text-zinc-400 mb-1">Local</div>
+                                    <HunkLines lines={hunk.local} className="text-blue-300" />
+                                  </div>
+                                  <div>
+                                    <div className="text-xs text-zinc-400 mb-1">Google Drive</div>
+                                    <HunkLines lines={hunk.remote} className="text-purple-300" />
+                                  </div>
+                                </div>
+                                <div className="flex gap-2 mt-2">
+                                  {(['local', 'remote', 'both'] as HunkChoice[]).map(choice => (
+                                    <button
+                                      key={choice}
+                                      onClick={() => setChoices(prev => ({ ...prev, [index]: choice }))}
+                                      className={`px-2 py-1 text-xs rounded transition-colors ${
+                                        choices[index] === choice
+                                          ? 'bg-blue-600 text-white'
+                                          : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                                      }`}
+                                    >
+                                      {choice === 'local' ? 'Use local' : choice === 'remote' ? 'Use Drive' : 'Use both'}
+                                    </button>
+                                  ))}
+                                </div>
+                              </>
+                            ) : (
+                              <HunkLines lines={hunk.kind === 'remote' ? hunk.remote : hunk.local} className="text-zinc-300" />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-end gap-3 p-4 border-t border-zinc-700">
+                  <button
+                    onClick={() => resolve('local')}
+                    className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-md transition-colors"
+                  >
+                    Keep Local
+                  </button>
+                  <button
+                    onClick={() => resolve('remote')}
+                    className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-md transition-colors"
+                  >
+                    Keep Drive Version
+                  </button>
+                  {view === 'merge' && (
+                    <button
+                      onClick={() => resolve('merged')}
+                      disabled={!allChosen}
+                      className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                      title={allChosen ? 'Apply the merged result' : 'Choose a side for every conflict first'}
+                    >
+                      <CheckIcon className="w-4 h-4" />
+                      Apply Merge
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConflictPanel;
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Note } from '../types';
+import { Note, NoteRevision, Node as TreeNode } from '../types';
 import {
   MoreIconHorizontal,
   ChevronRightIcon,
@@ -31,7 +31,67 @@ import {
 } from '../constants';
 import MindmapGenerator from './MindmapGenerator';
 import AIAssistant from './AIAssistant';
-import { isAIAvailable } from '../config/env';
+import AIToolbar from './AIToolbar';
+import RevisionHistory from './RevisionHistory';
+import TagEditor from './TagEditor';
+import NoteFlashcards from './NoteFlashcards';
+import { config, isAIAvailable } from '../config/env';
+import { mermaidBlockHtml, markdownToHtml } from '../utils/markdown';
+import { restoreAttachmentPaths } from '../utils/attachments';
+import { DIAGRAM_FIGURE_CLASS, renderDiagramBlocks, restoreDiagramBlocks } from '../utils/mermaid';
+import { attachmentService } from '../services/attachmentService';
+import { revisionService } from '../services/revisionService';
+import { printService } from '../services/printService';
+import { NoteChange } from '../services/noteToolsService';
+
+/**
+ * Text to locate in a note after opening it from search results
+ */
+export type SearchMatch = {
+  noteId: string;
+  text: string;
+  /** Distinguishes repeated requests for the same match */
+  requestedAt: number;
+};
+
+/**
+ * Select the first occurrence of a text inside an element and scroll to it
+ *
+ * Matching ignores case; the search index already resolved accents, so
+ * the text is taken verbatim from the note.
+ */
+const revealText = (root: HTMLElement, text: string): void => {
+  const needle = text.toLowerCase();
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const offset = (node.textContent || '').toLowerCase().indexOf(needle);
+    if (offset === -1) continue;
+
+    const range = document.createRange();
+    range.setStart(node, offset);
+    range.setEnd(node, offset + text.length);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    node.parentElement?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    return;
+  }
+};
+
+/**
+ * Serialize editor HTML for storage
+ *
+ * Attachments are displayed through object URLs and diagrams as rendered
+ * figures; the stored HTML keeps relative `attachments/` paths and the
+ * Mermaid source blocks instead.
+ */
+const serializeContent = (element: HTMLElement): string => {
+  const clone = element.cloneNode(true) as HTMLElement;
+  restoreAttachmentPaths(clone);
+  restoreDiagramBlocks(clone);
+  return clone.innerHTML;
+};
 
 // Color picker component
 const ColorPicker: React.FC<{ onSelectColor: (color: string) => void; onClose: () => void }> = ({ onSelectColor, onClose }) => {
@@ -818,19 +878,64 @@ const Editor: React.FC<{
     notebookPath: string[];
     onUpdateNote: (noteId: string, newContent: string) => void;
     onUpdateTitle?: (noteId: string, newTitle: string) => void;
-}> = ({ note, notebookPath, onUpdateNote, onUpdateTitle }) => {
+    onUpdateTags?: (noteId: string, tags: string[]) => void;
+    allTags?: string[];
+    searchMatch?: SearchMatch | null;
+    onStartQuiz?: (noteId: string) => void;
+    notes?: Note[];
+    areas?: TreeNode[];
+    onOpenNote?: (noteId: string) => void;
+    onApplyNoteChange?: (change: NoteChange) => void;
+}> = ({ note, notebookPath, onUpdateNote, onUpdateTitle, onUpdateTags, allTags = [], searchMatch, onStartQuiz, notes = [], areas = [], onOpenNote, onApplyNoteChange }) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [titleValue, setTitleValue] = useState('');
   const [showMindmapGenerator, setShowMindmapGenerator] = useState(false);
   const [showAIAssistant, setShowAIAssistant] = useState(false);
+  const [aiSelection, setAISelection] = useState('');
+  const [showMoreMenu, setShowMoreMenu] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [flashcardFront, setFlashcardFront] = useState<string | null>(null);
+  const [editingDiagram, setEditingDiagram] = useState<HTMLElement | null>(null);
+  const [diagramSelection, setDiagramSelection] = useState('');
+  const diagramRangeRef = useRef<Range | null>(null);
+  const diagramTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   const titleInputRef = useRef<HTMLInputElement>(null);
+  const moreMenuRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const pdfInputRef = useRef<HTMLInputElement>(null);
 
+  /**
+   * Render new or changed diagrams once typing pauses
+   */
+  const scheduleDiagramRender = useCallback((delay = config.app.diagramRenderDelay) => {
+    clearTimeout(diagramTimerRef.current);
+    diagramTimerRef.current = setTimeout(() => {
+      if (editorRef.current) {
+        renderDiagramBlocks(editorRef.current).catch(error => console.error('Failed to render diagrams:', error));
+      }
+    }, delay);
+  }, []);
+
+  useEffect(() => () => clearTimeout(diagramTimerRef.current), []);
+
   useEffect(() => {
-    if (editorRef.current && note && editorRef.current.innerHTML !== note.content) {
-      editorRef.current.innerHTML = note.content;
+    if (editorRef.current && note && serializeContent(editorRef.current) !== note.content) {
+      const element = editorRef.current;
+      element.innerHTML = note.content;
+      scheduleDiagramRender(0);
+
+      // Show attachments through object URLs and move legacy inline files into the store
+      attachmentService.resolveUrls(element)
+        .then(() => attachmentService.convertInlineData(element))
+        .then(converted => {
+          if (converted > 0 && editorRef.current === element) {
+            attachmentService.resolveUrls(element);
+            onUpdateNote(note.id, serializeContent(element));
+          }
+        })
+        .catch(error => console.error('Failed to load attachments:', error));
     } else if (editorRef.current && !note) {
       editorRef.current.innerHTML = '';
     }
@@ -840,6 +945,30 @@ const Editor: React.FC<{
     }
   }, [note]);
 
+  /**
+   * Effect to scroll to the text matched by a search once its note is shown.
+   * Runs after the content effect above, so the note's HTML is in place.
+   */
+  useEffect(() => {
+    if (editorRef.current && note && searchMatch && searchMatch.noteId === note.id) {
+      revealText(editorRef.current, searchMatch.text);
+    }
+  }, [searchMatch, note?.id]);
+
+  /**
+   * Effect to close the More menu on outside clicks.
+   */
+  useEffect(() => {
+    if (!showMoreMenu) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (moreMenuRef.current && !moreMenuRef.current.contains(event.target as Node)) {
+        setShowMoreMenu(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showMoreMenu]);
+
   useEffect(() => {
     if (isEditingTitle && titleInputRef.current) {
       titleInputRef.current.focus();
@@ -849,12 +978,81 @@ const Editor: React.FC<{
 
   const handleContentChange = useCallback(() => {
     if (editorRef.current && note) {
-      const newContent = editorRef.current.innerHTML;
+      const newContent = serializeContent(editorRef.current);
       if (newContent !== note.content) {
         onUpdateNote(note.id, newContent);
       }
+      // Pasted, restored or inserted blocks still need rendering
+      scheduleDiagramRender();
+    }
+  }, [note, onUpdateNote, scheduleDiagramRender]);
+
+  /**
+   * Open the diagram generator on a clicked diagram
+   */
+  const handleEditorClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const figure = (e.target as HTMLElement).closest(`.${DIAGRAM_FIGURE_CLASS}`);
+    const block = figure?.querySelector<HTMLElement>('pre.mermaid-diagram');
+    if (block) {
+      setEditingDiagram(block);
+      setShowMindmapGenerator(true);
     }
-  }, [note, onUpdateNote]);
+  };
+
+  /**
+   * Open the diagram generator for a new diagram
+   *
+   * Text selected in the editor is kept as the source for AI generation,
+   * and the diagram is inserted after it.
+   */
+  const handleOpenMindmapGenerator = () => {
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    if (range && !range.collapsed && editorRef.current?.contains(range.commonAncestorContainer)) {
+      const container = document.createElement('div');
+      container.appendChild(range.cloneContents());
+      restoreAttachmentPaths(container);
+      restoreDiagramBlocks(container);
+      diagramRangeRef.current = range.cloneRange();
+      setDiagramSelection(container.innerHTML);
+    } else {
+      diagramRangeRef.current = null;
+      setDiagramSelection('');
+    }
+    setEditingDiagram(null);
+    setShowMindmapGenerator(true);
+  };
+
+  /**
+   * Open the AI assistant, offering the selected text as its context
+   */
+  const handleOpenAIAssistant = () => {
+    const selection = window.getSelection();
+    const inEditor = selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.anchorNode);
+    setAISelection(inEditor ? selection.toString().trim() : '');
+    setShowAIAssistant(true);
+  };
+
+  const handleCloseMindmapGenerator = () => {
+    setShowMindmapGenerator(false);
+    setEditingDiagram(null);
+  };
+
+  /**
+   * Print the note, or save it as PDF from the print dialog
+   */
+  const handlePrint = async () => {
+    if (!note || isPrinting) return;
+    setIsPrinting(true);
+    try {
+      await printService.print({ title: note.title, subtitle: notebookPath.join(' / '), notes: [note] });
+    } catch (error) {
+      console.error('Failed to print note:', error);
+    } finally {
+      setIsPrinting(false);
+      setShowMoreMenu(false);
+    }
+  };
 
   const handleTitleClick = () => setIsEditingTitle(true);
 
@@ -882,13 +1080,28 @@ const Editor: React.FC<{
   };
 
   const handleInsertMermaid = (mermaidCode: string) => {
+    // Edits replace the source of the diagram that was clicked
+    if (editingDiagram && editorRef.current?.contains(editingDiagram)) {
+      editingDiagram.textContent = mermaidCode;
+      handleContentChange();
+      scheduleDiagramRender(0);
+      return;
+    }
+
     if (editorRef.current && note) {
       // Insert Mermaid diagram as a pre element with special class
-      const mermaidHtml = `<pre class="mermaid-diagram" contenteditable="false" style="background-color: #18181b; padding: 16px; border-radius: 8px; border: 1px solid #3f3f46; margin: 16px 0;">${mermaidCode}</pre><p><br></p>`;
+      const mermaidHtml = `${mermaidBlockHtml(mermaidCode)}<p><br></p>`;
 
-      // Insert at cursor position or at the end
+      // Insert after the text the diagram was made from, at cursor position or at the end
       const selection = window.getSelection();
-      if (selection && selection.rangeCount > 0) {
+      if (diagramRangeRef.current && editorRef.current.contains(diagramRangeRef.current.commonAncestorContainer)) {
+        const range = diagramRangeRef.current;
+        range.collapse(false);
+        const div = document.createElement('div');
+        div.innerHTML = mermaidHtml;
+        range.insertNode(div.firstChild!);
+        diagramRangeRef.current = null;
+      } else if (selection && selection.rangeCount > 0) {
         const range = selection.getRangeAt(0);
         range.deleteContents();
         const div = document.createElement('div');
@@ -908,6 +1121,7 @@ const Editor: React.FC<{
    */
   const handleInsertAI = (text: string) => {
     if (editorRef.current && note) {
+      revisionService.snapshot({ ...note, content: serializeContent(editorRef.current) }, 'ai');
       const htmlContent = `<p>${text.replace(/\n/g, '</p><p>')}</p>`;
 
       const selection = window.getSelection();
@@ -927,6 +1141,46 @@ const Editor: React.FC<{
     }
   };
 
+  /**
+   * Replace a selection with text accepted from the inline AI toolbar
+   *
+   * The replacement is a single insertHTML command, so one undo brings
+   * the original text back.
+   */
+  const handleAcceptRewrite = (range: Range, markdown: string) => {
+    const editor = editorRef.current;
+    if (!editor || !note) return;
+    revisionService.snapshot({ ...note, content: serializeContent(editor) }, 'ai');
+
+    // A rewrite of part of a paragraph stays inline instead of splitting it
+    const html = markdownToHtml(markdown);
+    const paragraph = /^<p>((?:(?!<\/?p>)[\s\S])*)<\/p>$/.exec(html.trim());
+    const isInline = paragraph && range.startContainer.parentElement?.closest('p, li, h1, h2, h3, h4, h5, h6, td') ===
+      range.endContainer.parentElement?.closest('p, li, h1, h2, h3, h4, h5, h6, td');
+
+    editor.focus();
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    document.execCommand('insertHTML', false, isInline ? paragraph[1] : html);
+    handleContentChange();
+  };
+
+  /**
+   * Restore a revision from the history panel
+   *
+   * The current version is snapshotted first so the restore can be undone.
+   */
+  const handleRestoreRevision = (revision: NoteRevision) => {
+    if (!note) return;
+    revisionService.snapshot(note, 'restore');
+    onUpdateNote(note.id, revision.content);
+    if (onUpdateTitle && revision.title !== note.title) {
+      onUpdateTitle(note.id, revision.title);
+    }
+    setShowHistory(false);
+  };
+
   /**
    * Handle image insertion
    */
@@ -937,33 +1191,34 @@ const Editor: React.FC<{
   /**
    * Handle image file selection
    */
-  const handleImageFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const imageUrl = event.target?.result as string;
-        if (editorRef.current && note) {
-          const imageHtml = `<img src="${imageUrl}" alt="${file.name}" style="max-width: 100%; height: auto; margin: 16px 0;" />`;
-
-          const selection = window.getSelection();
-          if (selection && selection.rangeCount > 0) {
-            const range = selection.getRangeAt(0);
-            range.deleteContents();
-            const div = document.createElement('div');
-            div.innerHTML = imageHtml;
-            range.insertNode(div.firstChild!);
-          } else {
-            editorRef.current.innerHTML += imageHtml;
-          }
+    // Reset input
+    e.target.value = '';
+    if (!file || !file.type.startsWith('image/')) return;
 
-          handleContentChange();
+    try {
+      const id = await attachmentService.add(file, file.name);
+      const imageUrl = await attachmentService.getObjectUrl(id);
+      if (editorRef.current && note) {
+        const imageHtml = `<img src="${imageUrl}" data-attachment-id="${id}" alt="${file.name}" style="max-width: 100%; height: auto; margin: 16px 0;" />`;
+
+        const selection = window.getSelection();
+        if (selection && selection.rangeCount > 0) {
+          const range = selection.getRangeAt(0);
+          range.deleteContents();
+          const div = document.createElement('div');
+          div.innerHTML = imageHtml;
+          range.insertNode(div.firstChild!);
+        } else {
+          editorRef.current.innerHTML += imageHtml;
         }
-      };
-      reader.readAsDataURL(file);
+
+        handleContentChange();
+      }
+    } catch (error) {
+      console.error('Failed to store image:', error);
     }
-    // Reset input
-    e.target.value = '';
   };
 
   /**
@@ -976,41 +1231,42 @@ const Editor: React.FC<{
   /**
    * Handle PDF file selection
    */
-  const handlePDFFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handlePDFFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const pdfUrl = event.target?.result as string;
-        if (editorRef.current && note) {
-          const pdfHtml = `<div style="border: 2px solid #3f3f46; border-radius: 8px; padding: 16px; margin: 16px 0; background-color: #18181b;">
-            <div style="display: flex; align-items: center; gap: 12px; margin-bottom: 8px;">
-              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" style="width: 24px; height: 24px; color: #ef4444;">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
-              </svg>
-              <span style="font-weight: 600; color: #e5e7eb;">${file.name}</span>
-            </div>
-            <a href="${pdfUrl}" download="${file.name}" style="display: inline-block; padding: 8px 16px; background-color: #3b82f6; color: white; border-radius: 6px; text-decoration: none; font-size: 14px;">Download PDF</a>
-          </div>`;
-
-          const selection = window.getSelection();
-          if (selection && selection.rangeCount > 0) {
-            const range = selection.getRangeAt(0);
-            range.deleteContents();
-            const div = document.createElement('div');
-            div.innerHTML = pdfHtml;
-            range.insertNode(div.firstChild!);
-          } else {
-            editorRef.current.innerHTML += pdfHtml;
-          }
+    // Reset input
+    e.target.value = '';
+    if (!file || file.type !== 'application/pdf') return;
+
+    try {
+      const id = await attachmentService.add(file, file.name);
+      const pdfUrl = await attachmentService.getObjectUrl(id);
+      if (editorRef.current && note) {
+        const pdfHtml = `<div style="border: 2px solid #3f3f46; border-radius: 8px; padding: 16px; margin: 16px 0; background-color: #18181b;">
+          <div style="display: flex; align-items: center; gap: 12px; margin-bottom: 8px;">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" style="width: 24px; height: 24px; color: #ef4444;">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+            </svg>
+            <span style="font-weight: 600; color: #e5e7eb;">${file.name}</span>
+          </div>
+          <a href="${pdfUrl}" data-attachment-id="${id}" download="${file.name}" style="display: inline-block; padding: 8px 16px; background-color: #3b82f6; color: white; border-radius: 6px; text-decoration: none; font-size: 14px;">Download PDF</a>
+        </div>`;
 
-          handleContentChange();
+        const selection = window.getSelection();
+        if (selection && selection.rangeCount > 0) {
+          const range = selection.getRangeAt(0);
+          range.deleteContents();
+          const div = document.createElement('div');
+          div.innerHTML = pdfHtml;
+          range.insertNode(div.firstChild!);
+        } else {
+          editorRef.current.innerHTML += pdfHtml;
         }
-      };
-      reader.readAsDataURL(file);
+
+        handleContentChange();
+      }
+    } catch (error) {
+      console.error('Failed to store PDF:', error);
     }
-    // Reset input
-    e.target.value = '';
   };
 
   if (!note) {
@@ -1067,13 +1323,79 @@ const Editor: React.FC<{
                  )}
             </div>
             <div className="flex items-center space-x-2">
-                <button className="p-1 text-zinc-400 hover:bg-zinc-700 rounded"><MoreIconHorizontal className="w-5 h-5" /></button>
+                <div className="relative" ref={moreMenuRef}>
+                    <button
+                        onClick={() => setShowMoreMenu(prev => !prev)}
+                        className="p-1 text-zinc-400 hover:bg-zinc-700 rounded"
+                        title="More"
+                        aria-haspopup="menu"
+                        aria-expanded={showMoreMenu}
+                    >
+                        <MoreIconHorizontal className="w-5 h-5" />
+                    </button>
+                    {showMoreMenu && (
+                        <div className="absolute top-full right-0 mt-1 bg-zinc-800 border border-zinc-700 rounded-md shadow-lg z-20 py-1 w-48" role="menu">
+                            <button
+                                onClick={() => {
+                                    setShowMoreMenu(false);
+                                    setShowHistory(true);
+                                }}
+                                className="w-full text-left px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-700 transition-colors"
+                                role="menuitem"
+                            >
+                                Revision history
+                            </button>
+                            <button
+                                onClick={handlePrint}
+                                disabled={isPrinting}
+                                className="w-full text-left px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                                role="menuitem"
+                            >
+                                {isPrinting ? 'Preparing print...' : 'Print / Save as PDF'}
+                            </button>
+                            <button
+                                onClick={() => {
+                                    // Start a new card from the selected text, if any
+                                    const selection = window.getSelection();
+                                    const inEditor = selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.anchorNode);
+                                    setFlashcardFront(inEditor ? selection.toString().trim() : '');
+                                    setShowMoreMenu(false);
+                                }}
+                                className="w-full text-left px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-700 transition-colors"
+                                role="menuitem"
+                            >
+                                Flashcards
+                            </button>
+                            {onStartQuiz && (
+                                <button
+                                    onClick={() => {
+                                        setShowMoreMenu(false);
+                                        onStartQuiz(note.id);
+                                    }}
+                                    className="w-full text-left px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-700 transition-colors"
+                                    role="menuitem"
+                                >
+                                    Quiz
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
             </div>
         </div>
+        {onUpdateTags && (
+          <div className="mt-2 px-1">
+            <TagEditor
+              tags={note.tags || []}
+              allTags={allTags}
+              onChange={(tags) => onUpdateTags(note.id, tags)}
+            />
+          </div>
+        )}
       </header>
       <EditorToolbar
-        onOpenMindmap={() => setShowMindmapGenerator(true)}
-        onOpenAI={() => setShowAIAssistant(true)}
+        onOpenMindmap={handleOpenMindmapGenerator}
+        onOpenAI={handleOpenAIAssistant}
         onInsertImage={handleInsertImage}
         onInsertPDF={handleInsertPDF}
         content={note.content}
@@ -1098,17 +1420,40 @@ const Editor: React.FC<{
       {/* Mindmap Generator Modal */}
       <MindmapGenerator
         isOpen={showMindmapGenerator}
-        onClose={() => setShowMindmapGenerator(false)}
+        onClose={handleCloseMindmapGenerator}
         content={note.content}
         onInsert={handleInsertMermaid}
+        initialCode={editingDiagram?.textContent || undefined}
+        selection={editingDiagram ? undefined : diagramSelection || undefined}
+      />
+
+      {/* Flashcards Modal */}
+      <NoteFlashcards
+        isOpen={flashcardFront !== null}
+        onClose={() => setFlashcardFront(null)}
+        note={note}
+        initialFront={flashcardFront || undefined}
+      />
+
+      {/* Revision History Modal */}
+      <RevisionHistory
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        note={note}
+        onRestore={handleRestoreRevision}
       />
 
       {/* AI Assistant Modal */}
       <AIAssistant
         isOpen={showAIAssistant}
         onClose={() => setShowAIAssistant(false)}
-        noteContent={note.content}
+        note={note}
+        notes={notes}
+        areas={areas}
+        selection={aiSelection || undefined}
         onInsert={handleInsertAI}
+        onOpenNote={onOpenNote}
+        onApplyNoteChange={onApplyNoteChange}
       />
 
       <div className="flex-1 overflow-y-auto relative">
@@ -1116,6 +1461,7 @@ const Editor: React.FC<{
             ref={editorRef}
             contentEditable={true}
             onInput={handleContentChange}
+            onClick={handleEditorClick}
             className="prose prose-invert max-w-none w-full h-full p-8 md:p-12 lg:p-16 focus:outline-none text-zinc-300"
             style={{
                 '--tw-prose-body': '#d4d4d8',
@@ -1125,6 +1471,7 @@ const Editor: React.FC<{
                 '--tw-prose-a': '#60a5fa',
             } as React.CSSProperties}
           />
+          <AIToolbar key={note.id} editorRef={editorRef} onAccept={handleAcceptRewrite} />
           {showPlaceholder && (
              <div className="absolute top-8 md:top-12 lg:top-16 left-8 md:left-12 lg:left-16 text-zinc-500 pointer-events-none">
                 Start writing here...
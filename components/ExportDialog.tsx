@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Zip Export Dialog Component
+ *
+ * Modal for exporting an area, stack or notebook as a zip of Markdown
+ * files or standalone HTML pages. See {@link module:services/exportService}
+ * for the archive layout.
+ *
+ * @module components/ExportDialog
+ */
+
+import React, { useState } from 'react';
+import { Note, Node } from '../types';
+import { SpinnerIcon, CheckCircleIcon, ExclamationCircleIcon } from '../constants';
+import { exportService, ExportFormat, ExportResult } from '../services/exportService';
+
+/**
+ * Props for the ExportDialog component
+ * @interface ExportDialogProps
+ */
+interface ExportDialogProps {
+  /** Node to export; the modal is closed while null */
+  node: Node | null;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** All notes */
+  notes: Note[];
+  /** Full area hierarchy, to resolve the node's folder path */
+  areas: Node[];
+}
+
+/**
+ * Labels for the export formats
+ */
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; description: string }> = [
+  { value: 'markdown', label: 'Markdown', description: 'Frontmatter and Markdown, same as the Drive sync' },
+  { value: 'html', label: 'HTML', description: 'Standalone pages with rendered diagrams' },
+];
+
+/**
+ * Labels for the node types
+ */
+const NODE_TYPE_LABELS: Record<Node['type'], string> = {
+  space: 'space',
+  area: 'area',
+  stack: 'stack',
+  notebook: 'notebook',
+};
+
+/**
+ * Start a browser download for a blob
+ *
+ * @param {Blob} blob - File contents
+ * @param {string} fileName - Suggested file name
+ */
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * ExportDialog Component
+ *
+ * @param {ExportDialogProps} props - Component props
+ * @returns {JSX.Element | null} Export dialog or null if closed
+ *
+ * @example
+ * ```tsx
+ * <ExportDialog
+ *   node={exportNode}
+ *   onClose={() => setExportNode(null)}
+ *   notes={notes}
+ *   areas={areas}
+ * />
+ * ```
+ */
+export const ExportDialog: React.FC<ExportDialogProps> = ({ node, onClose, notes, areas }) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [isExporting, setIsExporting] = useState(false);
+  const [result, setResult] = useState<ExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (!node) return;
+
+    setIsExporting(true);
+    setResult(null);
+    setError(null);
+
+    try {
+      const exported = await exportService.exportNode(node, notes, areas, format);
+      if (exported.noteCount === 0) {
+        setError(`This ${NODE_TYPE_LABELS[node.type]} has no notes to export.`);
+      } else {
+        downloadBlob(exported.blob, exported.fileName);
+        setResult(exported);
+      }
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isExporting) return;
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  if (!node) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={handleClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="export-dialog-title"
+    >
+      <div
+        className="bg-zinc-800 rounded-lg w-full max-w-lg flex flex-col border border-zinc-700 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-700">
+          <h2 id="export-dialog-title" className="text-xl font-bold text-zinc-100 truncate">
+            Export {NODE_TYPE_LABELS[node.type]} “{node.name}”
+          </h2>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-400 hover:text-zinc-200"
+            aria-label="Close dialog"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-zinc-400">
+            Downloads a zip with the same Area / Stack / Notebook folders as Google Drive,
+            including attachments and a manifest for importing it back.
+          </p>
+
+          <div className="space-y-2">
+            {FORMAT_OPTIONS.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start gap-3 p-3 rounded-md border cursor-pointer transition-colors ${
+                  format === option.value ? 'border-blue-500 bg-blue-500/10' : 'border-zinc-700 hover:bg-zinc-700/50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  disabled={isExporting}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-zinc-100">{option.label}</span>
+                  <span className="block text-xs text-zinc-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {isExporting && (
+            <div className="flex items-center gap-2 text-sm text-zinc-300">
+              <SpinnerIcon className="w-4 h-4 text-blue-400 animate-spin" />
+              Exporting...
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-red-400">
+              <ExclamationCircleIcon className="w-5 h-5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-1">
+              <div className="flex items-start gap-2 text-sm text-green-400">
+                <CheckCircleIcon className="w-5 h-5 flex-shrink-0" />
+                <span>
+                  Exported {result.noteCount} {result.noteCount === 1 ? 'note' : 'notes'} to {result.fileName}.
+                </span>
+              </div>
+              {result.failedDiagrams > 0 && (
+                <div className="text-xs text-amber-400">
+                  {result.failedDiagrams} {result.failedDiagrams === 1 ? 'diagram' : 'diagrams'} could not be rendered and {result.failedDiagrams === 1 ? 'was' : 'were'} kept as code.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-zinc-700">
+          <button
+            onClick={handleClose}
+            disabled={isExporting}
+            className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
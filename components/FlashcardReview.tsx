@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Flashcard Review Component
+ *
+ * Modal running today's flashcard review. The queue can be narrowed to an
+ * area, stack or notebook. Each card shows its question, then its answer
+ * and the note it came from; the grade given reschedules the card with
+ * SM-2. Cards answered "Again" come back at the end of the session.
+ *
+ * Keyboard: Space reveals the answer, 1–4 pick a grade.
+ *
+ * @module components/FlashcardReview
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Note, Node, Flashcard } from '../types';
+import { SpinnerIcon, CheckCircleIcon } from '../constants';
+import { flashcardService } from '../services/flashcardService';
+import { ReviewGrade, previewIntervals } from '../utils/sm2';
+
+/**
+ * Props for the FlashcardReview component
+ * @interface FlashcardReviewProps
+ */
+interface FlashcardReviewProps {
+  /** Controls modal visibility */
+  isOpen: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** All notes, for card sources */
+  notes: Note[];
+  /** Area hierarchy, for the scope filter */
+  areas: Node[];
+  /** Callback to open the note a card came from */
+  onOpenNote: (noteId: string) => void;
+}
+
+/**
+ * Grade buttons in display order
+ */
+const GRADES: Array<{ grade: ReviewGrade; label: string; className: string }> = [
+  { grade: 'again', label: 'Again', className: 'bg-red-600 hover:bg-red-700' },
+  { grade: 'hard', label: 'Hard', className: 'bg-amber-600 hover:bg-amber-700' },
+  { grade: 'good', label: 'Good', className: 'bg-green-600 hover:bg-green-700' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-600 hover:bg-blue-700' },
+];
+
+/**
+ * An option of the scope filter
+ */
+interface ScopeOption {
+  node: Node;
+  depth: number;
+}
+
+/**
+ * Flatten the hierarchy into indented scope options
+ *
+ * @param {Node[]} nodes - Nodes to flatten
+ * @param {number} [depth] - Depth of the nodes
+ * @returns {ScopeOption[]} Nodes in tree order
+ */
+function scopeOptions(nodes: Node[], depth = 0): ScopeOption[] {
+  return nodes.flatMap(node => [{ node, depth }, ...scopeOptions(node.children || [], depth + 1)]);
+}
+
+/**
+ * Collect the IDs of all notes under a node
+ *
+ * @param {Node} node - Area, stack or notebook
+ * @returns {Set<string>} Note IDs
+ */
+function collectNoteIds(node: Node): Set<string> {
+  const ids = new Set<string>(node.noteIds || []);
+  (node.children || []).forEach(child => collectNoteIds(child).forEach(id => ids.add(id)));
+  return ids;
+}
+
+/**
+ * Describe an interval for a grade button
+ *
+ * @param {number} days - Interval in days
+ * @returns {string} Short label, e.g. '6d' or '2mo'
+ */
+function formatInterval(days: number): string {
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+/**
+ * FlashcardReview Component
+ *
+ * @param {FlashcardReviewProps} props - Component props
+ * @returns {JSX.Element | null} Review modal or null if closed
+ *
+ * @example
+ * ```tsx
+ * <FlashcardReview
+ *   isOpen={showReview}
+ *   onClose={() => setShowReview(false)}
+ *   notes={notes}
+ *   areas={areas}
+ *   onOpenNote={setSelectedNoteId}
+ * />
+ * ```
+ */
+export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ isOpen, onClose, notes, areas, onOpenNote }) => {
+  const [scopeId, setScopeId] = useState('');
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = useMemo(() => scopeOptions(areas), [areas]);
+  const current = queue[0];
+  const currentNote = current ? notes.find(note => note.id === current.noteId) : undefined;
+  const intervals = useMemo(() => (current ? previewIntervals(current) : null), [current]);
+
+  /**
+   * Effect: Build the queue when opened or when the scope changes
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    const scope = options.find(option => option.node.id === scopeId)?.node;
+    setIsLoading(true);
+    setError(null);
+    setRevealed(false);
+    setReviewedCount(0);
+    flashcardService.list()
+      .then(cards => {
+        // Cards of deleted notes are left out
+        const existing = new Set(notes.map(note => note.id));
+        const noteIds = scope ? collectNoteIds(scope) : existing;
+        setQueue(flashcardService.dailyQueue(cards.filter(card => existing.has(card.noteId)), noteIds));
+      })
+      .catch(err => {
+        console.error('Failed to load flashcards:', err);
+        setError('Could not load flashcards.');
+      })
+      .finally(() => setIsLoading(false));
+    // Notes change on every keystroke; the queue is only rebuilt on open or scope change
+  }, [isOpen, scopeId, options]);
+
+  const handleGrade = useCallback(async (grade: ReviewGrade) => {
+    if (!current || !revealed) return;
+    try {
+      const reviewed = await flashcardService.review(current, grade);
+      setQueue(prev => (grade === 'again' ? [...prev.slice(1), reviewed] : prev.slice(1)));
+      setReviewedCount(count => count + 1);
+      setRevealed(false);
+    } catch (err) {
+      console.error('Failed to save review:', err);
+      setError('Could not save the review.');
+    }
+  }, [current, revealed]);
+
+  /**
+   * Effect: Keyboard shortcuts while reviewing
+   */
+  useEffect(() => {
+    if (!isOpen || !current) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLSelectElement) return;
+      if (e.key === ' ' && !revealed) {
+        e.preventDefault();
+        setRevealed(true);
+      } else if (revealed && e.key >= '1' && e.key <= String(GRADES.length)) {
+        handleGrade(GRADES[Number(e.key) - 1].grade);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, current, revealed, handleGrade]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="flashcard-review-title"
+    >
+      <div
+        className="bg-zinc-800 rounded-lg w-full max-w-2xl flex flex-col border border-zinc-700 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-zinc-700">
+          <h2 id="flashcard-review-title" className="text-xl font-bold text-zinc-100">
+            Review flashcards
+          </h2>
+          <div className="flex items-center gap-2">
+            <select
+              value={scopeId}
+              onChange={(e) => setScopeId(e.target.value)}
+              className="px-2 py-1.5 text-sm bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 focus:outline-none focus:border-blue-500 max-w-[16rem]"
+              aria-label="Review scope"
+            >
+              <option value="">All notes</option>
+              {options.map(({ node, depth }) => (
+                <option key={node.id} value={node.id}>
+                  {'  '.repeat(depth)}{node.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-400 hover:text-zinc-200"
+              aria-label="Close dialog"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 min-h-[18rem] flex flex-col">
+          {isLoading ? (
+            <div className="flex-1 flex items-center justify-center gap-2 text-sm text-zinc-300">
+              <SpinnerIcon className="w-4 h-4 text-blue-400 animate-spin" />
+              Loading cards...
+            </div>
+          ) : error ? (
+            <div className="flex-1 flex items-center justify-center text-sm text-red-400">{error}</div>
+          ) : !current ? (
+            <div className="flex-1 flex flex-col items-center justify-center gap-2 text-center">
+              <CheckCircleIcon className="w-10 h-10 text-green-400" />
+              <div className="text-zinc-100 font-semibold">
+                {reviewedCount > 0 ? `Done for today: ${reviewedCount} ${reviewedCount === 1 ? 'review' : 'reviews'}.` : 'No cards due today.'}
+              </div>
+              <div className="text-sm text-zinc-400">
+                Create cards from a note with “Flashcards” in the editor’s More menu.
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-xs text-zinc-500 mb-4">
+                <span>{queue.length} left · {reviewedCount} reviewed</span>
+                {currentNote && (
+                  <button
+                    onClick={() => {
+                      onOpenNote(currentNote.id);
+                      onClose();
+                    }}
+                    className="text-blue-400 hover:text-blue-300 truncate max-w-[60%]"
+                    title="Open the note this card came from"
+                  >
+                    {currentNote.title} →
+                  </button>
+                )}
+              </div>
+
+              <div className="text-lg text-zinc-100 whitespace-pre-wrap">{current.front}</div>
+              {revealed && (
+                <div className="mt-4 pt-4 border-t border-zinc-700 text-zinc-300 whitespace-pre-wrap">
+                  {current.back}
+                </div>
+              )}
+
+              <div className="flex-1" />
+              <div className="mt-6 flex justify-center gap-2">
+                {!revealed ? (
+                  <button
+                    onClick={() => setRevealed(true)}
+                    className="px-6 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-100 rounded-md transition-colors"
+                  >
+                    Show answer <span className="text-zinc-400">(Space)</span>
+                  </button>
+                ) : (
+                  GRADES.map(({ grade, label, className }, index) => (
+                    <button
+                      key={grade}
+                      onClick={() => handleGrade(grade)}
+                      className={`px-4 py-2 text-sm text-white rounded-md transition-colors flex flex-col items-center min-w-[5rem] ${className}`}
+                      title={`Shortcut: ${index + 1}`}
+                    >
+                      <span>{label}</span>
+                      {intervals && <span className="text-xs opacity-75">{formatInterval(intervals[grade])}</span>}
+                    </button>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardReview;
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Markdown Import Dialog Component
+ *
+ * Modal for importing Markdown notes from a folder, loose `.md` files or a
+ * zip archive. See {@link module:services/importService} for how files map
+ * onto notes and notebooks.
+ *
+ * @module components/ImportDialog
+ */
+
+import React, { useState, useRef } from 'react';
+import { Note, Node } from '../types';
+import { SpinnerIcon, CheckCircleIcon, ExclamationCircleIcon } from '../constants';
+import { importService, ImportResult } from '../services/importService';
+
+/**
+ * Props for the ImportDialog component
+ * @interface ImportDialogProps
+ */
+interface ImportDialogProps {
+  /** Controls modal visibility */
+  isOpen: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** Existing notes, to keep imported IDs unique */
+  notes: Note[];
+  /** Existing area hierarchy, to merge imported notebooks into */
+  areas: Node[];
+  /** Callback to apply an import */
+  onImport: (result: ImportResult) => void;
+}
+
+/**
+ * ImportDialog Component
+ *
+ * @param {ImportDialogProps} props - Component props
+ * @returns {JSX.Element | null} Import dialog or null if closed
+ *
+ * @example
+ * ```tsx
+ * <ImportDialog
+ *   isOpen={showImport}
+ *   onClose={() => setShowImport(false)}
+ *   notes={notes}
+ *   areas={areas}
+ *   onImport={handleImport}
+ * />
+ * ```
+ */
+export const ImportDialog: React.FC<ImportDialogProps> = ({ isOpen, onClose, notes, areas, onImport }) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files;
+    if (!fileList || fileList.length === 0) return;
+
+    setIsImporting(true);
+    setResult(null);
+    setError(null);
+
+    try {
+      const files = await importService.readFiles(fileList);
+      const imported = await importService.importFiles(files, notes, areas);
+      if (imported.notes.length === 0 && imported.skipped.length === 0) {
+        setError('No Markdown files (.md) were found in the selection.');
+      } else {
+        onImport(imported);
+        setResult(imported);
+      }
+    } catch (err) {
+      console.error('Import failed:', err);
+      setError(err instanceof Error ? err.message : 'Import failed.');
+    } finally {
+      setIsImporting(false);
+      // Allow picking the same files again
+      e.target.value = '';
+    }
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={handleClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-dialog-title"
+    >
+      <div
+        className="bg-zinc-800 rounded-lg w-full max-w-lg flex flex-col border border-zinc-700 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-700">
+          <h2 id="import-dialog-title" className="text-xl font-bold text-zinc-100">
+            Import Markdown
+          </h2>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-400 hover:text-zinc-200"
+            aria-label="Close dialog"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-zinc-400">
+            Folders become Area / Stack / Notebook. Frontmatter title, date and tags are kept,
+            and images referenced by relative path are imported as attachments.
+          </p>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              disabled={isImporting}
+              className="flex-1 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Choose folder
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="flex-1 px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Choose files or .zip
+            </button>
+          </div>
+
+          <input
+            ref={folderInputRef}
+            type="file"
+            onChange={handleFiles}
+            style={{ display: 'none' }}
+            // Directory picking is not in the DOM typings
+            {...{ webkitdirectory: '', directory: '' }}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".md,.markdown,.zip,image/*"
+            onChange={handleFiles}
+            style={{ display: 'none' }}
+          />
+
+          {isImporting && (
+            <div className="flex items-center gap-2 text-sm text-zinc-300">
+              <SpinnerIcon className="w-4 h-4 text-blue-400 animate-spin" />
+              Importing...
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-red-400">
+              <ExclamationCircleIcon className="w-5 h-5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              <div className="flex items-start gap-2 text-sm text-green-400">
+                <CheckCircleIcon className="w-5 h-5 flex-shrink-0" />
+                <span>
+                  Imported {result.notes.length} {result.notes.length === 1 ? 'note' : 'notes'}
+                  {result.createdNodes > 0 && `, created ${result.createdNodes} areas, stacks or notebooks`}
+                  {result.attachments > 0 && `, stored ${result.attachments} images`}.
+                </span>
+              </div>
+              {result.skipped.length > 0 && (
+                <div className="text-xs text-zinc-400">
+                  <div className="mb-1 text-amber-400">Skipped {result.skipped.length} files:</div>
+                  <ul className="max-h-32 overflow-y-auto space-y-0.5">
+                    {result.skipped.map(({ path, reason }) => (
+                      <li key={path} className="truncate" title={reason}>
+                        {path} — {reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
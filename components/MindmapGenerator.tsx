@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import mermaid from 'mermaid';
-import { CheckIcon } from '../constants';
+import { CheckIcon, AIIcon, SpinnerIcon } from '../constants';
+import { renderMermaid } from '../utils/mermaid';
+import { diagramService, DiagramType, DiagramGenerationError, MAX_REPAIR_ATTEMPTS } from '../services/diagramService';
+import { aiService, AIProvider } from '../services/aiService';
 
 /**
  * @fileoverview Mindmap and Diagram Generator Component
@@ -16,36 +18,12 @@ import { CheckIcon } from '../constants';
  * - Pre-configured templates for each diagram type
  * - Dark theme optimized for the editor
  * - Insert diagrams directly into notes
+ * - Edit existing diagrams in place when opened with their code
+ * - Generate a diagram from the note or selection with AI
  *
  * @module components/MindmapGenerator
  */
 
-// Initialize Mermaid with dark theme configuration
-// This runs once when the module is loaded
-mermaid.initialize({
-  startOnLoad: true,
-  theme: 'dark',
-  themeVariables: {
-    primaryColor: '#3b82f6',
-    primaryTextColor: '#fff',
-    primaryBorderColor: '#1e40af',
-    lineColor: '#60a5fa',
-    secondaryColor: '#6366f1',
-    tertiaryColor: '#8b5cf6',
-    background: '#18181b',
-    mainBkg: '#27272a',
-    secondBkg: '#3f3f46',
-    textColor: '#e4e4e7',
-    fontSize: '14px',
-  }
-});
-
-/**
- * Supported diagram types
- * @typedef {'flowchart' | 'mindmap' | 'sequence' | 'class' | 'state' | 'er' | 'gantt'} DiagramType
- */
-type DiagramType = 'flowchart' | 'mindmap' | 'sequence' | 'class' | 'state' | 'er' | 'gantt';
-
 /**
  * Props for the MindmapGenerator component
  * @interface MindmapGeneratorProps
@@ -55,10 +33,14 @@ interface MindmapGeneratorProps {
   isOpen: boolean;
   /** Callback to close the modal */
   onClose: () => void;
-  /** Current note content (for future context-aware generation) */
+  /** Current note content, used for AI generation */
   content: string;
+  /** Selected HTML in the editor; generation uses it instead of the whole note */
+  selection?: string;
   /** Callback to insert generated Mermaid code into the editor */
   onInsert: (mermaidCode: string) => void;
+  /** Code of an existing diagram to edit; skips type selection */
+  initialCode?: string;
 }
 
 /**
@@ -163,6 +145,32 @@ const DIAGRAM_TYPES: DiagramConfig[] = [
   }
 ];
 
+/**
+ * Diagram type for the first keyword of Mermaid code
+ */
+const DIAGRAM_KEYWORDS: Record<string, DiagramType> = {
+  flowchart: 'flowchart',
+  graph: 'flowchart',
+  mindmap: 'mindmap',
+  sequenceDiagram: 'sequence',
+  classDiagram: 'class',
+  stateDiagram: 'state',
+  'stateDiagram-v2': 'state',
+  erDiagram: 'er',
+  gantt: 'gantt',
+};
+
+/**
+ * Detect the diagram type of existing Mermaid code
+ *
+ * @param {string} code - Mermaid code
+ * @returns {DiagramType} Matching type, flowchart for unknown diagrams
+ */
+function detectDiagramType(code: string): DiagramType {
+  const keyword = code.trim().split(/\s/, 1)[0];
+  return DIAGRAM_KEYWORDS[keyword] || 'flowchart';
+}
+
 /**
  * MindmapGenerator Component
  *
@@ -171,6 +179,9 @@ const DIAGRAM_TYPES: DiagramConfig[] = [
  * 2. Edit Mermaid code with live preview
  * 3. Insert the generated diagram into their note
  *
+ * When opened with `initialCode`, it starts in the code editor and the
+ * result replaces that diagram.
+ *
  * @component
  * @example
  * ```tsx
@@ -186,26 +197,45 @@ export const MindmapGenerator: React.FC<MindmapGeneratorProps> = ({
   isOpen,
   onClose,
   content,
-  onInsert
+  onInsert,
+  initialCode,
+  selection
 }) => {
   // State management
   const [selectedType, setSelectedType] = useState<DiagramType | null>(null);
   const [mermaidCode, setMermaidCode] = useState('');
   const [preview, setPreview] = useState('');
   const [error, setError] = useState('');
+  const [provider, setProvider] = useState<AIProvider | null>(() => aiService.getProviders()[0]?.id || null);
+  const [generationStatus, setGenerationStatus] = useState<string | null>(null);
   const previewRef = useRef<HTMLDivElement>(null);
+  const availableProviders = aiService.getProviders();
 
   /**
-   * Effect: Load template when diagram type is selected
-   * Optimized to only run when selectedType changes
+   * Effect: Start from the diagram being edited, or from type selection
    */
   useEffect(() => {
-    if (selectedType) {
-      const template = DIAGRAM_TYPES.find(d => d.type === selectedType)?.template || '';
-      setMermaidCode(template);
-      setError(''); // Clear previous errors
-    }
-  }, [selectedType]);
+    if (!isOpen) return;
+    setSelectedType(initialCode ? detectDiagramType(initialCode) : null);
+    setMermaidCode(initialCode || '');
+    setError('');
+    setPreview('');
+  }, [isOpen, initialCode]);
+
+  /**
+   * Handle diagram type selection
+   *
+   * @callback handleSelectType
+   * @param {DiagramType} type - Selected diagram type
+   * @returns {void}
+   *
+   * Loads the template for the type into the code editor
+   */
+  const handleSelectType = useCallback((type: DiagramType) => {
+    setSelectedType(type);
+    setMermaidCode(DIAGRAM_TYPES.find(d => d.type === type)?.template || '');
+    setError(''); // Clear previous errors
+  }, []);
 
   /**
    * Effect: Render diagram with debounce
@@ -226,18 +256,16 @@ export const MindmapGenerator: React.FC<MindmapGeneratorProps> = ({
      *
      * Process:
      * 1. Validates mermaidCode and previewRef existence
-     * 2. Generates unique ID for this render
-     * 3. Calls mermaid.render() with code
-     * 4. Updates preview SVG on success
-     * 5. Displays error message on failure
+     * 2. Renders the code with renderMermaid()
+     * 3. Updates preview SVG on success
+     * 4. Displays error message on failure
      */
     const renderDiagram = async () => {
       if (!mermaidCode || !previewRef.current) return;
 
       try {
         setError('');
-        const id = `mermaid-${Date.now()}`; // Unique ID to prevent conflicts
-        const { svg } = await mermaid.render(id, mermaidCode);
+        const svg = await renderMermaid(mermaidCode);
         setPreview(svg);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Unknown error';
@@ -271,6 +299,36 @@ export const MindmapGenerator: React.FC<MindmapGeneratorProps> = ({
     }
   }, [mermaidCode, error, onInsert, onClose]);
 
+  /**
+   * Generate the diagram from the note or selection with AI
+   *
+   * @callback handleGenerate
+   * @returns {Promise<void>}
+   *
+   * Shows repair attempts while the model fixes code that fails to parse.
+   * If every attempt fails, the last code is kept so it can be fixed by hand.
+   */
+  const handleGenerate = useCallback(async () => {
+    if (!selectedType || !provider || generationStatus) return;
+
+    setGenerationStatus('Generating diagram...');
+    setError('');
+    try {
+      const { code } = await diagramService.generate(selection || content, selectedType, {
+        provider,
+        onRepair: (attempt) => setGenerationStatus(`Fixing diagram (attempt ${attempt} of ${MAX_REPAIR_ATTEMPTS})...`),
+      });
+      setMermaidCode(code);
+    } catch (err) {
+      if (err instanceof DiagramGenerationError) {
+        setMermaidCode(err.code);
+      }
+      setError(err instanceof Error ? err.message : 'Diagram generation failed');
+    } finally {
+      setGenerationStatus(null);
+    }
+  }, [selectedType, provider, generationStatus, selection, content]);
+
   /**
    * Handle back button click
    *
@@ -327,7 +385,7 @@ export const MindmapGenerator: React.FC<MindmapGeneratorProps> = ({
               </button>
             )}
             <h2 id="diagram-generator-title" className="text-xl font-bold text-zinc-100">
-              {selectedType ? 'Create Diagram' : 'Mindmap & Diagram Generator'}
+              {initialCode ? 'Edit Diagram' : selectedType ? 'Create Diagram' : 'Mindmap & Diagram Generator'}
             </h2>
           </div>
           <button
@@ -347,7 +405,7 @@ export const MindmapGenerator: React.FC<MindmapGeneratorProps> = ({
               {DIAGRAM_TYPES.map((diagram) => (
                 <button
                   key={diagram.type}
-                  onClick={() => setSelectedType(diagram.type)}
+                  onClick={() => handleSelectType(diagram.type)}
                   className="p-6 bg-zinc-900/50 border border-zinc-700 rounded-lg hover:bg-zinc-700/50 hover:border-blue-500 transition-all text-left group"
                   aria-label={`Select ${diagram.name}`}
                 >
@@ -366,6 +424,32 @@ export const MindmapGenerator: React.FC<MindmapGeneratorProps> = ({
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 h-full">
               {/* Code editor */}
               <div className="flex flex-col">
+                {provider && (
+                  <div className="flex items-center gap-2 mb-3">
+                    <select
+                      value={provider}
+                      onChange={(e) => setProvider(e.target.value as AIProvider)}
+                      disabled={!!generationStatus}
+                      className="px-2 py-1.5 text-sm bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 focus:outline-none focus:border-blue-500"
+                      aria-label="AI provider"
+                    >
+                      {availableProviders.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleGenerate}
+                      disabled={!!generationStatus}
+                      className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                      {generationStatus ? <SpinnerIcon className="w-4 h-4 animate-spin" /> : <AIIcon className="w-4 h-4" />}
+                      {selection ? 'Generate from selection' : 'Generate from note'}
+                    </button>
+                    {generationStatus && (
+                      <span className="text-xs text-zinc-400" aria-live="polite">{generationStatus}</span>
+                    )}
+                  </div>
+                )}
                 <div className="flex items-center justify-between mb-2">
                   <label className="text-sm font-medium text-zinc-300">
                     Mermaid Code
@@ -437,10 +521,10 @@ export const MindmapGenerator: React.FC<MindmapGeneratorProps> = ({
               onClick={handleInsert}
               disabled={!mermaidCode || !!error}
               className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-              aria-label="Insert diagram into note"
+              aria-label={initialCode ? 'Update diagram in note' : 'Insert diagram into note'}
             >
               <CheckIcon className="w-4 h-4" />
-              Insert Diagram
+              {initialCode ? 'Update Diagram' : 'Insert Diagram'}
             </button>
           </div>
         )}
@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Note Flashcards Component
+ *
+ * Modal listing the flashcards of one note. Cards can be written by hand,
+ * starting from the text selected in the editor, or generated from the
+ * whole note with AI. Each card can be edited or deleted.
+ *
+ * @module components/NoteFlashcards
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Note, Flashcard } from '../types';
+import { AIIcon, SpinnerIcon, TrashIcon, ExclamationCircleIcon } from '../constants';
+import { flashcardService } from '../services/flashcardService';
+import { aiService, AIProvider } from '../services/aiService';
+import { formatNoteDate } from '../utils/noteDates';
+
+/**
+ * Props for the NoteFlashcards component
+ * @interface NoteFlashcardsProps
+ */
+interface NoteFlashcardsProps {
+  /** Controls modal visibility */
+  isOpen: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** Note whose cards are shown */
+  note: Note;
+  /** Text to start a new card with, e.g. the editor selection */
+  initialFront?: string;
+}
+
+/**
+ * Text areas of the new card form and of cards being edited
+ */
+const TEXTAREA_CLASS = 'w-full bg-zinc-900 text-zinc-200 text-sm p-2 rounded-md border border-zinc-700 focus:outline-none focus:border-blue-500 resize-y';
+
+/**
+ * NoteFlashcards Component
+ *
+ * @param {NoteFlashcardsProps} props - Component props
+ * @returns {JSX.Element | null} Flashcards modal or null if closed
+ *
+ * @example
+ * ```tsx
+ * <NoteFlashcards
+ *   isOpen={showFlashcards}
+ *   onClose={() => setShowFlashcards(false)}
+ *   note={note}
+ *   initialFront={selectedText}
+ * />
+ * ```
+ */
+export const NoteFlashcards: React.FC<NoteFlashcardsProps> = ({ isOpen, onClose, note, initialFront }) => {
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState('');
+  const [editing, setEditing] = useState<Flashcard | null>(null);
+  const [provider, setProvider] = useState<AIProvider | null>(() => aiService.getProviders()[0]?.id || null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const availableProviders = aiService.getProviders();
+
+  /**
+   * Effect: Load the note's cards and prefill the form when opened
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    setFront(initialFront || '');
+    setBack('');
+    setEditing(null);
+    setMessage(null);
+    setError(null);
+    flashcardService.list()
+      .then(all => setCards(all.filter(card => card.noteId === note.id)))
+      .catch(err => {
+        console.error('Failed to load flashcards:', err);
+        setError('Could not load flashcards.');
+      });
+  }, [isOpen, note.id, initialFront]);
+
+  const handleAdd = useCallback(async () => {
+    if (!front.trim() || !back.trim()) return;
+    try {
+      const card = await flashcardService.create(note.id, front, back);
+      setCards(prev => [...prev, card]);
+      setFront('');
+      setBack('');
+    } catch (err) {
+      console.error('Failed to save flashcard:', err);
+      setError('Could not save the flashcard.');
+    }
+  }, [note.id, front, back]);
+
+  const handleGenerate = useCallback(async () => {
+    if (!provider || isGenerating) return;
+    setIsGenerating(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const generated = await flashcardService.generate(note, provider);
+      setCards(prev => [...prev, ...generated]);
+      setMessage(generated.length > 0
+        ? `Added ${generated.length} ${generated.length === 1 ? 'card' : 'cards'}.`
+        : 'No new cards; the note is already covered.');
+    } catch (err) {
+      console.error('Flashcard generation failed:', err);
+      setError(err instanceof Error ? err.message : 'Flashcard generation failed.');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [note, provider, isGenerating]);
+
+  const handleSaveEdit = useCallback(async () => {
+    if (!editing || !editing.front.trim() || !editing.back.trim()) return;
+    const updated = { ...editing, front: editing.front.trim(), back: editing.back.trim() };
+    try {
+      await flashcardService.save(updated);
+      setCards(prev => prev.map(card => (card.id === updated.id ? updated : card)));
+      setEditing(null);
+    } catch (err) {
+      console.error('Failed to save flashcard:', err);
+      setError('Could not save the flashcard.');
+    }
+  }, [editing]);
+
+  const handleDelete = useCallback(async (id: string) => {
+    try {
+      await flashcardService.delete(id);
+      setCards(prev => prev.filter(card => card.id !== id));
+    } catch (err) {
+      console.error('Failed to delete flashcard:', err);
+      setError('Could not delete the flashcard.');
+    }
+  }, []);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="note-flashcards-title"
+    >
+      <div
+        className="bg-zinc-800 rounded-lg w-full max-w-2xl max-h-[90vh] flex flex-col border border-zinc-700 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-700">
+          <h2 id="note-flashcards-title" className="text-xl font-bold text-zinc-100 truncate">
+            Flashcards · {note.title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-400 hover:text-zinc-200"
+            aria-label="Close dialog"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* New card */}
+        <div className="p-4 space-y-2 border-b border-zinc-700">
+          <textarea
+            value={front}
+            onChange={(e) => setFront(e.target.value)}
+            placeholder="Question"
+            rows={2}
+            className={TEXTAREA_CLASS}
+            aria-label="Card question"
+          />
+          <textarea
+            value={back}
+            onChange={(e) => setBack(e.target.value)}
+            placeholder="Answer"
+            rows={2}
+            className={TEXTAREA_CLASS}
+            aria-label="Card answer"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleAdd}
+              disabled={!front.trim() || !back.trim()}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add card
+            </button>
+            {provider && (
+              <>
+                <span className="flex-1" />
+                <select
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value as AIProvider)}
+                  disabled={isGenerating}
+                  className="px-2 py-2 text-sm bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 focus:outline-none focus:border-blue-500"
+                  aria-label="AI provider"
+                >
+                  {availableProviders.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleGenerate}
+                  disabled={isGenerating}
+                  className="px-3 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                  {isGenerating ? <SpinnerIcon className="w-4 h-4 animate-spin" /> : <AIIcon className="w-4 h-4" />}
+                  Generate from note
+                </button>
+              </>
+            )}
+          </div>
+          {message && <div className="text-sm text-green-400">{message}</div>}
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-red-400">
+              <ExclamationCircleIcon className="w-5 h-5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Card list */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {cards.length === 0 && (
+            <div className="text-sm text-zinc-500 text-center py-6">No flashcards for this note yet.</div>
+          )}
+          {cards.map(card => (
+            editing?.id === card.id ? (
+              <div key={card.id} className="p-3 rounded-md border border-blue-500 space-y-2">
+                <textarea
+                  value={editing.front}
+                  onChange={(e) => setEditing({ ...editing, front: e.target.value })}
+                  rows={2}
+                  className={TEXTAREA_CLASS}
+                  aria-label="Card question"
+                />
+                <textarea
+                  value={editing.back}
+                  onChange={(e) => setEditing({ ...editing, back: e.target.value })}
+                  rows={2}
+                  className={TEXTAREA_CLASS}
+                  aria-label="Card answer"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-md transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveEdit}
+                    className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div
+                key={card.id}
+                className="group p-3 rounded-md border border-zinc-700 hover:bg-zinc-700/30 cursor-pointer"
+                onClick={() => setEditing(card)}
+                title="Click to edit"
+              >
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-zinc-100 whitespace-pre-wrap">{card.front}</div>
+                    <div className="text-sm text-zinc-400 whitespace-pre-wrap mt-1">{card.back}</div>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(card.id);
+                    }}
+                    className="p-1 opacity-0 group-hover:opacity-100 hover:bg-red-500/20 rounded transition-opacity"
+                    title="Delete card"
+                  >
+                    <TrashIcon className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+                <div className="text-xs text-zinc-500 mt-2">
+                  {card.source === 'ai' ? 'AI' : 'Manual'} ·{' '}
+                  {card.lastReviewedAt ? `next review ${formatNoteDate(card.dueAt)}` : 'not reviewed yet'}
+                </div>
+              </div>
+            )
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NoteFlashcards;
@@ -3,15 +3,30 @@
  *
  * Displays a tree-view of areas, stacks, notebooks, and notes
  * with expand/collapse functionality and CRUD operations.
+ * A search box above the tree switches the list to ranked full-text
+ * results (see {@link module:utils/search}), and a tag facet narrows
+ * both the tree and the results to notes carrying the selected tags.
  *
  * Performance: Wrapped with React.memo to prevent unnecessary re-renders.
  *
  * @module components/NoteList
  */
 
-import React, { useState } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { Note, Node } from '../types';
-import { ShareIcon, ChevronRightIcon, ChevronDownIcon, PlusIcon, TrashIcon } from '../constants';
+import { ShareIcon, ChevronRightIcon, ChevronDownIcon, PlusIcon, TrashIcon, SearchIcon, TagIcon, ImportIcon, PDFIcon, CardsIcon, QuizIcon, ChartIcon } from '../constants';
+import { SearchIndex, SearchResult, buildNotePaths } from '../utils/search';
+import { collectTags } from '../utils/tags';
+import { NoteSortOrder, sortNotes, formatNoteDate, lastModified } from '../utils/noteDates';
+
+/**
+ * Labels for the note sort orders
+ */
+const SORT_ORDER_LABELS: Record<NoteSortOrder, string> = {
+  updated: 'Última edição',
+  created: 'Data de criação',
+  title: 'Título',
+};
 
 interface NoteListProps {
   areas: Node[];
@@ -25,6 +40,20 @@ interface NoteListProps {
   onRemoveNotebook: (stackId: string, notebookId: string) => void;
   onAddNote: (notebookId: string) => void;
   onRemoveNote: (notebookId: string, noteId: string) => void;
+  /** Open a note from search results, scrolling to the matched text if any */
+  onOpenSearchResult: (noteId: string, matchText: string | null) => void;
+  /** Open the Markdown import dialog */
+  onImport: () => void;
+  /** Open the export dialog for an area, stack or notebook */
+  onExport: (node: Node) => void;
+  /** Print a notebook's notes in the order shown */
+  onPrint: (notebook: Node, notes: Note[]) => void;
+  /** Open the flashcard review */
+  onReview: () => void;
+  /** Open the multiple-choice quiz */
+  onQuiz: () => void;
+  /** Open the AI usage dashboard */
+  onUsage: () => void;
 }
 
 /**
@@ -104,9 +133,10 @@ const ConfirmDialog: React.FC<{
 const NoteItem: React.FC<{
   note: Note;
   isSelected: boolean;
+  showCreatedDate: boolean;
   onSelect: () => void;
   onRemove: () => void;
-}> = ({ note, isSelected, onSelect, onRemove }) => {
+}> = ({ note, isSelected, showCreatedDate, onSelect, onRemove }) => {
   const [showConfirm, setShowConfirm] = useState(false);
 
   return (
@@ -124,7 +154,21 @@ const NoteItem: React.FC<{
           <p className="text-sm text-zinc-400 mt-1 mb-2 leading-relaxed line-clamp-2">
             {note.description}
           </p>
-          <p className="text-xs text-zinc-500">{note.date}</p>
+          <p
+            className="text-xs text-zinc-500"
+            title={`Criada em ${formatNoteDate(note.createdAt)} · Editada em ${formatNoteDate(lastModified(note))}`}
+          >
+            {formatNoteDate(showCreatedDate ? note.createdAt : lastModified(note))}
+          </p>
+          {note.tags && note.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {note.tags.map(tag => (
+                <span key={tag} className="text-[10px] bg-zinc-700/60 text-zinc-400 rounded-full px-2 py-0.5">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
         <button
           onClick={(e) => {
@@ -159,11 +203,17 @@ const NotebookItem: React.FC<{
   onAddNote: () => void;
   onRemove: () => void;
   onRemoveNote: (noteId: string) => void;
-}> = ({ notebook, notes, selectedNoteId, onSelectNote, onAddNote, onRemove, onRemoveNote }) => {
+  onExport: (node: Node) => void;
+  onPrint: (notebook: Node, notes: Note[]) => void;
+}> = ({ notebook, notes, selectedNoteId, onSelectNote, onAddNote, onRemove, onRemoveNote, onExport, onPrint }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const [showConfirm, setShowConfirm] = useState(false);
+  const [sortOrder, setSortOrder] = useState<NoteSortOrder>('updated');
 
-  const notesForNotebook = notes.filter(note => notebook.noteIds?.includes(note.id));
+  const notesForNotebook = useMemo(
+    () => sortNotes(notes.filter(note => notebook.noteIds?.includes(note.id)), sortOrder),
+    [notes, notebook.noteIds, sortOrder]
+  );
 
   return (
     <>
@@ -181,6 +231,20 @@ const NotebookItem: React.FC<{
           </button>
           <span className="text-sm font-medium text-zinc-300 flex-1">{notebook.name}</span>
           <span className="text-xs text-zinc-500">{notesForNotebook.length}</span>
+          <button
+            onClick={() => onPrint(notebook, notesForNotebook)}
+            className="p-1 opacity-0 group-hover:opacity-100 hover:bg-zinc-600/40 rounded transition-opacity"
+            title="Imprimir / PDF"
+          >
+            <PDFIcon className="w-3 h-3 text-zinc-400" />
+          </button>
+          <button
+            onClick={() => onExport(notebook)}
+            className="p-1 opacity-0 group-hover:opacity-100 hover:bg-zinc-600/40 rounded transition-opacity"
+            title="Exportar caderno"
+          >
+            <ShareIcon className="w-3 h-3 text-zinc-400" />
+          </button>
           <button
             onClick={onAddNote}
             className="p-1 opacity-0 group-hover:opacity-100 hover:bg-green-600/20 rounded transition-opacity"
@@ -198,11 +262,28 @@ const NotebookItem: React.FC<{
         </div>
         {isExpanded && (
           <div className="ml-2">
+            {notesForNotebook.length > 1 && (
+              <div className="flex justify-end px-2 py-1">
+                <select
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value as NoteSortOrder)}
+                  className="bg-transparent text-xs text-zinc-500 hover:text-zinc-300 focus:outline-none cursor-pointer"
+                  title="Ordenar notas"
+                >
+                  {(Object.keys(SORT_ORDER_LABELS) as NoteSortOrder[]).map(order => (
+                    <option key={order} value={order} className="bg-zinc-800">
+                      {SORT_ORDER_LABELS[order]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             {notesForNotebook.map(note => (
               <NoteItem
                 key={note.id}
                 note={note}
                 isSelected={selectedNoteId === note.id}
+                showCreatedDate={sortOrder === 'created'}
                 onSelect={() => onSelectNote(note.id)}
                 onRemove={() => onRemoveNote(note.id)}
               />
@@ -239,7 +320,9 @@ const StackItem: React.FC<{
   onRemoveNotebook: (notebookId: string) => void;
   onAddNote: (notebookId: string) => void;
   onRemoveNote: (notebookId: string, noteId: string) => void;
-}> = ({ stack, notes, selectedNoteId, onSelectNote, onAddNotebook, onRemove, onRemoveNotebook, onAddNote, onRemoveNote }) => {
+  onExport: (node: Node) => void;
+  onPrint: (notebook: Node, notes: Note[]) => void;
+}> = ({ stack, notes, selectedNoteId, onSelectNote, onAddNotebook, onRemove, onRemoveNotebook, onAddNote, onRemoveNote, onExport, onPrint }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const [showConfirm, setShowConfirm] = useState(false);
 
@@ -260,6 +343,13 @@ const StackItem: React.FC<{
             )}
           </button>
           <span className="text-sm font-semibold text-blue-300 flex-1">{stack.name}</span>
+          <button
+            onClick={() => onExport(stack)}
+            className="p-1 opacity-0 group-hover:opacity-100 hover:bg-zinc-600/40 rounded transition-opacity"
+            title="Exportar pilha"
+          >
+            <ShareIcon className="w-3 h-3 text-zinc-400" />
+          </button>
           <button
             onClick={onAddNotebook}
             className="p-1 opacity-0 group-hover:opacity-100 hover:bg-green-600/20 rounded transition-opacity"
@@ -287,6 +377,8 @@ const StackItem: React.FC<{
                 onAddNote={() => onAddNote(notebook.id)}
                 onRemove={() => onRemoveNotebook(notebook.id)}
                 onRemoveNote={(noteId) => onRemoveNote(notebook.id, noteId)}
+                onExport={onExport}
+                onPrint={onPrint}
               />
             ))}
             {notebooks.length === 0 && (
@@ -322,7 +414,9 @@ const AreaItem: React.FC<{
   onRemoveNotebook: (stackId: string, notebookId: string) => void;
   onAddNote: (notebookId: string) => void;
   onRemoveNote: (notebookId: string, noteId: string) => void;
-}> = ({ area, notes, selectedNoteId, onSelectNote, onAddStack, onRemoveStack, onAddNotebook, onRemoveNotebook, onAddNote, onRemoveNote }) => {
+  onExport: (node: Node) => void;
+  onPrint: (notebook: Node, notes: Note[]) => void;
+}> = ({ area, notes, selectedNoteId, onSelectNote, onAddStack, onRemoveStack, onAddNotebook, onRemoveNotebook, onAddNote, onRemoveNote, onExport, onPrint }) => {
   const [isExpanded, setIsExpanded] = useState(true);
 
   const stacks = area.children?.filter(child => child.type === 'stack') || [];
@@ -341,6 +435,13 @@ const AreaItem: React.FC<{
           )}
         </button>
         <span className="text-base font-bold text-zinc-100 flex-1">{area.name}</span>
+        <button
+          onClick={() => onExport(area)}
+          className="p-1 opacity-0 group-hover:opacity-100 hover:bg-zinc-600/40 rounded transition-opacity"
+          title="Exportar área"
+        >
+          <ShareIcon className="w-4 h-4 text-zinc-400" />
+        </button>
         <button
           onClick={onAddStack}
           className="p-1 opacity-0 group-hover:opacity-100 hover:bg-green-600/20 rounded transition-opacity"
@@ -363,6 +464,8 @@ const AreaItem: React.FC<{
               onRemoveNotebook={(notebookId) => onRemoveNotebook(stack.id, notebookId)}
               onAddNote={onAddNote}
               onRemoveNote={onRemoveNote}
+              onExport={onExport}
+              onPrint={onPrint}
             />
           ))}
           {stacks.length === 0 && (
@@ -376,6 +479,50 @@ const AreaItem: React.FC<{
   );
 };
 
+/**
+ * Text with highlighted ranges
+ */
+const HighlightedText: React.FC<{ text: string; highlights: Array<[number, number]> }> = ({ text, highlights }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start < cursor) return;
+    parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-500/30 text-yellow-200 rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+/**
+ * Component to render a single search result
+ */
+const SearchResultItem: React.FC<{
+  result: SearchResult;
+  isSelected: boolean;
+  onOpen: () => void;
+}> = ({ result, isSelected, onOpen }) => (
+  <button
+    onClick={onOpen}
+    className={`block w-full text-left p-3 mb-1 rounded-lg transition-colors ${
+      isSelected ? 'bg-blue-900/40' : 'hover:bg-zinc-700/50'
+    }`}
+  >
+    <div className="text-sm font-semibold text-zinc-100 truncate">{result.note.title}</div>
+    {result.path && <div className="text-xs text-zinc-500 truncate mb-1">{result.path}</div>}
+    {result.snippet && (
+      <p className="text-xs text-zinc-400 line-clamp-3">
+        <HighlightedText text={result.snippet} highlights={result.highlights} />
+      </p>
+    )}
+  </button>
+);
+
 /**
  * A component that displays a hierarchical list of areas, stacks, notebooks, and notes.
  * Wrapped with React.memo for performance optimization.
@@ -392,27 +539,170 @@ const NoteListComponent: React.FC<NoteListProps> = ({
   onRemoveNotebook,
   onAddNote,
   onRemoveNote,
+  onOpenSearchResult,
+  onImport,
+  onExport,
+  onPrint,
+  onReview,
+  onQuiz,
+  onUsage,
 }) => {
+  const [query, setQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const searchIndex = useRef(new SearchIndex());
+
+  const notePaths = useMemo(() => buildNotePaths(areas), [areas]);
+  const tagCounts = useMemo(() => collectTags(notes), [notes]);
+
+  // Ignore selected tags that no note carries anymore
+  const activeTags = useMemo(
+    () => selectedTags.filter(tag => tagCounts.some(entry => entry.tag === tag)),
+    [selectedTags, tagCounts]
+  );
+
+  /**
+   * Notes carrying every selected tag
+   */
+  const visibleNotes = useMemo(
+    () => activeTags.length === 0
+      ? notes
+      : notes.filter(note => activeTags.every(tag => note.tags?.includes(tag))),
+    [notes, activeTags]
+  );
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  /**
+   * Search results for the current query
+   *
+   * The index is brought up to date lazily, only while a query is active,
+   * and re-indexes just the notes that changed since the last search.
+   */
+  const results = useMemo(() => {
+    if (!query.trim()) return null;
+    searchIndex.current.update(notes, noteId => notePaths.get(noteId) || '');
+    const visibleIds = new Set(visibleNotes.map(note => note.id));
+    return searchIndex.current.search(query).filter(result => visibleIds.has(result.note.id));
+  }, [query, notes, notePaths, visibleNotes]);
+
   return (
     <aside className="w-[380px] bg-zinc-800/50 border-r border-zinc-700/50 flex flex-col h-screen">
       <header className="p-4 border-b border-zinc-700/50 flex-shrink-0">
         <div className="flex justify-between items-center">
           <h2 className="text-xl font-bold text-zinc-100">Áreas de Estudo</h2>
-          <button
-            onClick={onAddArea}
-            className="p-2 hover:bg-zinc-700 rounded-lg transition-colors"
-            title="Criar nova área"
-          >
-            <PlusIcon className="w-5 h-5 text-green-400" />
-          </button>
+          <div className="flex items-center">
+            <button
+              onClick={onQuiz}
+              className="p-2 hover:bg-zinc-700 rounded-lg transition-colors"
+              title="Praticar questões"
+            >
+              <QuizIcon className="w-5 h-5 text-sky-400" />
+            </button>
+            <button
+              onClick={onReview}
+              className="p-2 hover:bg-zinc-700 rounded-lg transition-colors"
+              title="Revisar flashcards"
+            >
+              <CardsIcon className="w-5 h-5 text-amber-400" />
+            </button>
+            <button
+              onClick={onUsage}
+              className="p-2 hover:bg-zinc-700 rounded-lg transition-colors"
+              title="Uso de IA"
+            >
+              <ChartIcon className="w-5 h-5 text-purple-400" />
+            </button>
+            <button
+              onClick={onImport}
+              className="p-2 hover:bg-zinc-700 rounded-lg transition-colors"
+              title="Importar Markdown"
+            >
+              <ImportIcon className="w-5 h-5 text-zinc-400" />
+            </button>
+            <button
+              onClick={onAddArea}
+              className="p-2 hover:bg-zinc-700 rounded-lg transition-colors"
+              title="Criar nova área"
+            >
+              <PlusIcon className="w-5 h-5 text-green-400" />
+            </button>
+          </div>
+        </div>
+        <div className="relative mt-3">
+          <SearchIcon className="w-4 h-4 text-zinc-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setQuery('')}
+            placeholder='Buscar notas... (use "aspas" para frases)'
+            className="w-full bg-zinc-900 border border-zinc-700 rounded-md pl-9 pr-3 py-2 text-sm text-zinc-200 placeholder-zinc-500 focus:outline-none focus:border-blue-500"
+          />
         </div>
+        {tagCounts.length > 0 && (
+          <div className="mt-3">
+            <div className="flex items-center justify-between mb-1.5">
+              <span className="flex items-center gap-1 text-xs font-semibold text-zinc-400">
+                <TagIcon className="w-3.5 h-3.5" />
+                Tags
+              </span>
+              {activeTags.length > 0 && (
+                <button
+                  onClick={() => setSelectedTags([])}
+                  className="text-xs text-blue-400 hover:text-blue-300"
+                >
+                  Limpar filtro
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1.5 max-h-20 overflow-y-auto">
+              {tagCounts.map(({ tag, count }) => {
+                const isActive = activeTags.includes(tag);
+                return (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`text-xs rounded-full px-2 py-0.5 border transition-colors ${
+                      isActive
+                        ? 'bg-blue-600/30 border-blue-500 text-blue-200'
+                        : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:border-zinc-500'
+                    }`}
+                    aria-pressed={isActive}
+                  >
+                    {tag} <span className="text-zinc-500">{count}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </header>
       <div className="flex-1 overflow-y-auto p-3">
-        {areas.map(area => (
+        {results && (
+          <>
+            <div className="px-1 pb-2 text-xs text-zinc-500">
+              {results.length === 1 ? '1 resultado' : `${results.length} resultados`}
+            </div>
+            {results.map(result => (
+              <SearchResultItem
+                key={result.note.id}
+                result={result}
+                isSelected={result.note.id === selectedNoteId}
+                onOpen={() => onOpenSearchResult(result.note.id, result.matchText)}
+              />
+            ))}
+            {results.length === 0 && (
+              <p className="p-6 text-center text-sm text-zinc-400">Nenhuma nota encontrada.</p>
+            )}
+          </>
+        )}
+        {!results && areas.map(area => (
           <AreaItem
             key={area.id}
             area={area}
-            notes={notes}
+            notes={visibleNotes}
             selectedNoteId={selectedNoteId}
             onSelectNote={onSelectNote}
             onAddStack={() => onAddStack(area.id)}
@@ -421,9 +711,11 @@ const NoteListComponent: React.FC<NoteListProps> = ({
             onRemoveNotebook={onRemoveNotebook}
             onAddNote={onAddNote}
             onRemoveNote={onRemoveNote}
+            onExport={onExport}
+            onPrint={onPrint}
           />
         ))}
-        {areas.length === 0 && (
+        {!results && areas.length === 0 && (
           <div className="flex flex-col items-center justify-center h-full text-center p-6">
             <p className="text-zinc-400 mb-4">Nenhuma área criada ainda.</p>
             <button
@@ -0,0 +1,410 @@
+/**
+ * @fileoverview Quiz Player Component
+ *
+ * Modal for practising the multiple-choice questions in notes. The answer
+ * and explanation stay hidden until an option is picked; the pick is
+ * recorded and the explanation revealed. A statistics tab shows accuracy
+ * per notebook, weakest first, to point at topics that need work.
+ *
+ * Notes without recognisable questions can be structured with AI.
+ *
+ * @module components/QuizPlayer
+ */
+
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Note, Node } from '../types';
+import { AIIcon, SpinnerIcon, CheckCircleIcon, ExclamationCircleIcon } from '../constants';
+import { quizService } from '../services/quizService';
+import { attachmentService } from '../services/attachmentService';
+import { aiService, AIProvider } from '../services/aiService';
+import { QuizQuestion, NotebookAccuracy, accuracyByNotebook } from '../utils/quiz';
+
+/**
+ * Props for the QuizPlayer component
+ * @interface QuizPlayerProps
+ */
+interface QuizPlayerProps {
+  /** Controls modal visibility */
+  isOpen: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** All notes */
+  notes: Note[];
+  /** Area hierarchy, for the scope filter and statistics */
+  areas: Node[];
+  /** Note to start with, e.g. the one open in the editor */
+  noteId?: string | null;
+}
+
+/**
+ * Scope value for a single note; other values are node IDs, '' is everything
+ */
+const NOTE_SCOPE_PREFIX = 'note:';
+
+/**
+ * Collect the IDs of all notes under a node
+ *
+ * @param {Node} node - Area, stack or notebook
+ * @returns {string[]} Note IDs in tree order
+ */
+function collectNoteIds(node: Node): string[] {
+  return [...(node.noteIds || []), ...(node.children || []).flatMap(collectNoteIds)];
+}
+
+/**
+ * Flatten the hierarchy into indented scope options
+ *
+ * @param {Node[]} nodes - Nodes to flatten
+ * @param {number} [depth] - Depth of the nodes
+ * @returns {Array<{ node: Node; depth: number }>} Nodes in tree order
+ */
+function scopeOptions(nodes: Node[], depth = 0): Array<{ node: Node; depth: number }> {
+  return nodes.flatMap(node => [{ node, depth }, ...scopeOptions(node.children || [], depth + 1)]);
+}
+
+/**
+ * Note HTML with attachments resolved to their stored files
+ */
+const NoteHtml: React.FC<{ html: string; className?: string }> = ({ html, className }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!ref.current) return;
+    ref.current.innerHTML = html;
+    attachmentService.resolveUrls(ref.current).catch(error => console.error('Failed to load attachments:', error));
+  }, [html]);
+
+  return <div ref={ref} className={className} />;
+};
+
+/**
+ * QuizPlayer Component
+ *
+ * @param {QuizPlayerProps} props - Component props
+ * @returns {JSX.Element | null} Quiz modal or null if closed
+ *
+ * @example
+ * ```tsx
+ * <QuizPlayer
+ *   isOpen={showQuiz}
+ *   onClose={() => setShowQuiz(false)}
+ *   notes={notes}
+ *   areas={areas}
+ *   noteId={selectedNoteId}
+ * />
+ * ```
+ */
+export const QuizPlayer: React.FC<QuizPlayerProps> = ({ isOpen, onClose, notes, areas, noteId }) => {
+  const [tab, setTab] = useState<'quiz' | 'stats'>('quiz');
+  const [scope, setScope] = useState('');
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [index, setIndex] = useState(0);
+  const [choice, setChoice] = useState<string | null>(null);
+  const [score, setScore] = useState({ answered: 0, correct: 0 });
+  const [stats, setStats] = useState<NotebookAccuracy[] | null>(null);
+  const [provider, setProvider] = useState<AIProvider | null>(() => aiService.getProviders()[0]?.id || null);
+  const [isStructuring, setIsStructuring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const availableProviders = aiService.getProviders();
+
+  const options = useMemo(() => scopeOptions(areas), [areas]);
+  const scopeNotes = useMemo(() => {
+    if (scope.startsWith(NOTE_SCOPE_PREFIX)) {
+      return notes.filter(note => note.id === scope.slice(NOTE_SCOPE_PREFIX.length));
+    }
+    const node = options.find(option => option.node.id === scope)?.node;
+    const ids = node ? collectNoteIds(node) : options.flatMap(option => option.node.noteIds || []);
+    return ids.map(id => notes.find(note => note.id === id)).filter((note): note is Note => !!note);
+  }, [scope, notes, options]);
+
+  /**
+   * Effect: Start with the open note, or everything, when opened
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    setTab('quiz');
+    setScope(noteId ? `${NOTE_SCOPE_PREFIX}${noteId}` : '');
+  }, [isOpen, noteId]);
+
+  /**
+   * Effect: Load the questions when the scope changes
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuestions(scopeNotes.flatMap(note => quizService.questionsFor(note)));
+    setIndex(0);
+    setChoice(null);
+    setScore({ answered: 0, correct: 0 });
+    setError(null);
+    // Notes change on every keystroke; only a new scope restarts the quiz
+  }, [isOpen, scope]);
+
+  /**
+   * Effect: Load statistics when their tab is shown
+   */
+  useEffect(() => {
+    if (!isOpen || tab !== 'stats') return;
+    setStats(null);
+    quizService.attempts()
+      .then(attempts => setStats(accuracyByNotebook(attempts, areas)))
+      .catch(err => {
+        console.error('Failed to load quiz statistics:', err);
+        setStats([]);
+      });
+  }, [isOpen, tab, areas]);
+
+  const current = questions[index];
+
+  const handleChoose = useCallback(async (letter: string) => {
+    if (!current || choice) return;
+    setChoice(letter);
+    // Questions without a marked answer can't be scored
+    if (!current.answer) return;
+    setScore(prev => ({ answered: prev.answered + 1, correct: prev.correct + (letter === current.answer ? 1 : 0) }));
+    try {
+      await quizService.recordAttempt(current, letter);
+    } catch (err) {
+      console.error('Failed to record quiz answer:', err);
+    }
+  }, [current, choice]);
+
+  const handleNext = () => {
+    setIndex(prev => prev + 1);
+    setChoice(null);
+  };
+
+  const handleStructure = useCallback(async () => {
+    if (!provider || scopeNotes.length !== 1 || isStructuring) return;
+    setIsStructuring(true);
+    setError(null);
+    try {
+      setQuestions(await quizService.structureWithAI(scopeNotes[0], provider));
+      setIndex(0);
+      setChoice(null);
+    } catch (err) {
+      console.error('Quiz structuring failed:', err);
+      setError(err instanceof Error ? err.message : 'Could not create questions.');
+    } finally {
+      setIsStructuring(false);
+    }
+  }, [provider, scopeNotes, isStructuring]);
+
+  if (!isOpen) return null;
+
+  const noteTitle = current ? notes.find(note => note.id === current.noteId)?.title : undefined;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="quiz-player-title"
+    >
+      <div
+        className="bg-zinc-800 rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col border border-zinc-700 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-zinc-700">
+          <div className="flex items-center gap-4">
+            <h2 id="quiz-player-title" className="text-xl font-bold text-zinc-100">Quiz</h2>
+            <div className="flex text-sm">
+              {(['quiz', 'stats'] as const).map(value => (
+                <button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  className={`px-3 py-1 rounded-md transition-colors ${tab === value ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200'}`}
+                >
+                  {value === 'quiz' ? 'Questions' : 'Statistics'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {tab === 'quiz' && (
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value)}
+                className="px-2 py-1.5 text-sm bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 focus:outline-none focus:border-blue-500 max-w-[16rem]"
+                aria-label="Quiz scope"
+              >
+                {noteId && <option value={`${NOTE_SCOPE_PREFIX}${noteId}`}>This note</option>}
+                <option value="">All notes</option>
+                {options.map(({ node, depth }) => (
+                  <option key={node.id} value={node.id}>
+                    {'  '.repeat(depth)}{node.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-400 hover:text-zinc-200"
+              aria-label="Close dialog"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-6 min-h-[20rem]">
+          {tab === 'stats' ? (
+            stats === null ? (
+              <div className="flex items-center justify-center gap-2 text-sm text-zinc-300 py-12">
+                <SpinnerIcon className="w-4 h-4 text-blue-400 animate-spin" />
+                Loading statistics...
+              </div>
+            ) : stats.length === 0 ? (
+              <div className="text-sm text-zinc-500 text-center py-12">No answers recorded yet.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-400 border-b border-zinc-700">
+                    <th className="py-2 font-medium">Notebook</th>
+                    <th className="py-2 font-medium text-right">Answers</th>
+                    <th className="py-2 font-medium w-48">Accuracy</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.map(entry => (
+                    <tr key={entry.notebook.id} className="border-b border-zinc-700/50">
+                      <td className="py-2 text-zinc-200">{entry.path}</td>
+                      <td className="py-2 text-right text-zinc-400">{entry.correct}/{entry.attempts}</td>
+                      <td className="py-2 pl-4">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-zinc-700 rounded">
+                            <div
+                              className={`h-2 rounded ${entry.accuracy < 0.5 ? 'bg-red-500' : entry.accuracy < 0.75 ? 'bg-amber-500' : 'bg-green-500'}`}
+                              style={{ width: `${Math.round(entry.accuracy * 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-zinc-300 w-10 text-right">{Math.round(entry.accuracy * 100)}%</span>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          ) : questions.length === 0 ? (
+            <div className="flex flex-col items-center justify-center gap-3 text-center py-12">
+              <div className="text-zinc-300">No multiple-choice questions found.</div>
+              <div className="text-sm text-zinc-500 max-w-md">
+                Questions are recognised as a statement followed by options A–D, the correct one in bold,
+                and an optional “Comentário” section.
+              </div>
+              {scopeNotes.length === 1 && provider && (
+                <div className="flex items-center gap-2 mt-2">
+                  <select
+                    value={provider}
+                    onChange={(e) => setProvider(e.target.value as AIProvider)}
+                    disabled={isStructuring}
+                    className="px-2 py-2 text-sm bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 focus:outline-none focus:border-blue-500"
+                    aria-label="AI provider"
+                  >
+                    {availableProviders.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleStructure}
+                    disabled={isStructuring}
+                    className="px-3 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    {isStructuring ? <SpinnerIcon className="w-4 h-4 animate-spin" /> : <AIIcon className="w-4 h-4" />}
+                    Create questions with AI
+                  </button>
+                </div>
+              )}
+              {error && (
+                <div className="flex items-start gap-2 text-sm text-red-400">
+                  <ExclamationCircleIcon className="w-5 h-5 flex-shrink-0" />
+                  {error}
+                </div>
+              )}
+            </div>
+          ) : !current ? (
+            <div className="flex flex-col items-center justify-center gap-2 text-center py-12">
+              <CheckCircleIcon className="w-10 h-10 text-green-400" />
+              <div className="text-zinc-100 font-semibold">
+                {score.answered > 0
+                  ? `${score.correct} of ${score.answered} correct (${Math.round((score.correct / score.answered) * 100)}%)`
+                  : 'Quiz finished.'}
+              </div>
+              <button
+                onClick={() => {
+                  setIndex(0);
+                  setChoice(null);
+                  setScore({ answered: 0, correct: 0 });
+                }}
+                className="mt-2 px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-100 rounded-md transition-colors"
+              >
+                Start over
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between text-xs text-zinc-500">
+                <span>Question {index + 1} of {questions.length}{current.source === 'ai' && ' · AI'}</span>
+                <span className="truncate max-w-[60%]">{noteTitle}</span>
+              </div>
+
+              <NoteHtml html={current.stem} className="prose prose-invert max-w-none text-zinc-100" />
+
+              <div className="space-y-2">
+                {current.options.map(option => {
+                  const isAnswer = choice && option.letter === current.answer;
+                  const isWrongChoice = choice === option.letter && option.letter !== current.answer;
+                  return (
+                    <button
+                      key={option.letter}
+                      onClick={() => handleChoose(option.letter)}
+                      disabled={!!choice}
+                      className={`w-full text-left px-4 py-3 rounded-md border transition-colors flex gap-3 ${
+                        isAnswer ? 'border-green-500 bg-green-500/10 text-green-200'
+                          : isWrongChoice ? 'border-red-500 bg-red-500/10 text-red-200'
+                          : choice ? 'border-zinc-700 text-zinc-400'
+                          : 'border-zinc-700 text-zinc-200 hover:bg-zinc-700/50 hover:border-zinc-500'
+                      }`}
+                    >
+                      <span className="font-semibold">{option.letter}.</span>
+                      <span>{option.text}</span>
+                    </button>
+                  );
+                })}
+              </div>
+
+              {choice && (
+                <div className="space-y-3">
+                  <div className={`text-sm font-semibold ${!current.answer ? 'text-amber-400' : choice === current.answer ? 'text-green-400' : 'text-red-400'}`}>
+                    {!current.answer
+                      ? 'This note does not mark the correct option.'
+                      : choice === current.answer ? 'Correct!' : `Incorrect, the answer is ${current.answer}.`}
+                  </div>
+                  {current.comment && (
+                    <div className="p-4 rounded-md bg-zinc-900/60 border border-zinc-700">
+                      <div className="text-xs uppercase tracking-wide text-zinc-500 mb-2">Explanation</div>
+                      <NoteHtml html={current.comment} className="prose prose-invert max-w-none text-sm text-zinc-300" />
+                    </div>
+                  )}
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleNext}
+                      className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+                    >
+                      {index + 1 < questions.length ? 'Next question' : 'Finish'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizPlayer;
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Revision History Panel Component
+ *
+ * Modal listing the saved revisions of a note. Selecting a revision shows
+ * what changed between it and the current note, or a rendered preview,
+ * and the revision can be restored with one click.
+ *
+ * Features:
+ * - Revision list with time and reason (autosave, before AI insert, ...)
+ * - Inline line diff of the revision against the current note (as Markdown)
+ * - Read-only preview of the revision, including attachments
+ * - One-click restore (the current version is snapshotted first)
+ *
+ * @module components/RevisionHistory
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Note, NoteRevision } from '../types';
+import { ArrowUturnLeftIcon, SpinnerIcon } from '../constants';
+import { revisionService, REVISION_REASON_LABELS } from '../services/revisionService';
+import { attachmentService } from '../services/attachmentService';
+import { diffLines } from '../utils/diff';
+import { htmlToMarkdown } from '../utils/markdown';
+
+/**
+ * Props for the RevisionHistory component
+ * @interface RevisionHistoryProps
+ */
+interface RevisionHistoryProps {
+  /** Controls modal visibility */
+  isOpen: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** Note whose history is shown */
+  note: Note;
+  /** Callback to restore a revision */
+  onRestore: (revision: NoteRevision) => void;
+}
+
+/**
+ * Read-only rendering of a revision's HTML with attachments resolved
+ */
+const RevisionPreview: React.FC<{ html: string }> = ({ html }) => {
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.innerHTML = html;
+      attachmentService.resolveUrls(previewRef.current).catch(error =>
+        console.error('Failed to load attachments:', error)
+      );
+    }
+  }, [html]);
+
+  return <div ref={previewRef} className="prose prose-invert max-w-none text-zinc-300" />;
+};
+
+/**
+ * RevisionHistory Component
+ *
+ * @param {RevisionHistoryProps} props - Component props
+ * @returns {JSX.Element | null} History panel or null if closed
+ *
+ * @example
+ * ```tsx
+ * <RevisionHistory
+ *   isOpen={showHistory}
+ *   onClose={() => setShowHistory(false)}
+ *   note={note}
+ *   onRestore={handleRestoreRevision}
+ * />
+ * ```
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  isOpen,
+  onClose,
+  note,
+  onRestore,
+}) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState<'changes' | 'preview'>('changes');
+
+  /**
+   * Effect: Load revisions whenever the panel opens
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    revisionService
+      .list(note.id)
+      .then(list => {
+        if (cancelled) return;
+        setRevisions(list);
+        setSelectedId(list[0]?.id ?? null);
+      })
+      .catch(error => console.error('Failed to load revisions:', error))
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, note.id]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) || null;
+
+  const ops = useMemo(
+    () => (selected ? diffLines(htmlToMarkdown(selected.content), htmlToMarkdown(note.content)) : []),
+    [selected, note.content]
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="revision-history-title"
+    >
+      <div
+        className="bg-zinc-800 rounded-lg w-full max-w-6xl h-[85vh] flex flex-col border border-zinc-700 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-700">
+          <h2 id="revision-history-title" className="text-xl font-bold text-zinc-100">
+            History: {note.title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-400 hover:text-zinc-200"
+            aria-label="Close dialog"
+          >
+            ✕
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <SpinnerIcon className="w-8 h-8 text-blue-400 animate-spin" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-zinc-400">
+            No revisions yet. Snapshots are saved while you edit.
+          </div>
+        ) : (
+          <div className="flex-1 flex overflow-hidden">
+            {/* Revision list */}
+            <div className="w-64 border-r border-zinc-700 overflow-y-auto flex-shrink-0">
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`block w-full text-left p-3 border-b border-zinc-700/50 transition-colors ${
+                    revision.id === selectedId ? 'bg-blue-900/40' : 'hover:bg-zinc-700/50'
+                  }`}
+                >
+                  <div className="text-sm font-semibold text-zinc-100">
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </div>
+                  <div className="text-xs text-zinc-400">{REVISION_REASON_LABELS[revision.reason]}</div>
+                  {revision.title !== note.title && (
+                    <div className="text-xs text-zinc-500 truncate">{revision.title}</div>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="flex-1 flex flex-col overflow-hidden">
+                {/* View tabs */}
+                <div className="flex gap-2 p-3 border-b border-zinc-700">
+                  {(['changes', 'preview'] as const).map(tab => (
+                    <button
+                      key={tab}
+                      onClick={() => setView(tab)}
+                      className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                        view === tab ? 'bg-zinc-600 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-700'
+                      }`}
+                    >
+                      {tab === 'changes' ? 'Changes since this revision' : 'Preview'}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Body */}
+                <div className="flex-1 overflow-auto p-4">
+                  {view === 'changes' ? (
+                    <pre className="bg-zinc-900 border border-zinc-700 rounded-lg p-3 text-xs font-mono leading-5 whitespace-pre-wrap">
+                      {ops.map((op, opIndex) =>
+                        op.lines.map((line, lineIndex) => (
+                          <div
+                            key={`${opIndex}-${lineIndex}`}
+                            className={
+                              op.type === 'insert'
+                                ? 'bg-green-900/40 text-green-300'
+                                : op.type === 'delete'
+                                  ? 'bg-red-900/40 text-red-300'
+                                  : 'text-zinc-400'
+                            }
+                          >
+                            {op.type === 'insert' ? '+ ' : op.type === 'delete' ? '- ' : '  '}
+                            {line}
+                          </div>
+                        ))
+                      )}
+                    </pre>
+                  ) : (
+                    <RevisionPreview html={selected.content} />
+                  )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between gap-3 p-4 border-t border-zinc-700">
+                  <span className="text-xs text-zinc-500">
+                    <span className="text-red-400">Red</span> lines exist only in this revision,{' '}
+                    <span className="text-green-400">green</span> lines only in the current note.
+                  </span>
+                  <button
+                    onClick={() => onRestore(selected)}
+                    disabled={selected.content === note.content && selected.title === note.title}
+                    className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    <ArrowUturnLeftIcon className="w-4 h-4" />
+                    Restore this revision
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -10,6 +10,8 @@
  * - Last sync timestamp with relative time
  * - Error notifications with details
  * - Connection status indicator
+ * - Conflict indicator opening the conflict resolution panel
+ * - Pending change count with a per-item queue popover and run progress
  * - Animated spinner during sync
  *
  * @module components/SyncStatus
@@ -22,22 +24,42 @@ import {
   CheckCircleIcon,
   ExclamationCircleIcon
 } from '../constants';
-import { googleDriveService } from '../services/googleDriveService';
-import { Note, Node } from '../types';
+import { googleDriveService, ConflictChoice, SyncConflict } from '../services/googleDriveService';
+import { syncQueue, SyncOperation } from '../services/syncQueue';
+import ConflictPanel from './ConflictPanel';
+
+/**
+ * Identify a set of conflicts, including when each was detected
+ *
+ * @param {SyncConflict[]} conflicts - Conflicts
+ * @returns {string} Key that changes whenever a conflict is added, resolved or re-detected
+ */
+function conflictKey(conflicts: SyncConflict[]): string {
+  return conflicts.map(conflict => `${conflict.noteId}@${conflict.detectedAt.getTime()}`).join(',');
+}
 
 /**
  * Props for the SyncStatus component
  * @interface SyncStatusProps
  */
 interface SyncStatusProps {
-  /** Array of all notes to sync */
-  notes: Note[];
-  /** Area hierarchy for folder structure */
-  areas: Node[];
+  /** Runs a full two-way sync (pull remote edits, then upload) */
+  onSync: () => Promise<void>;
+  /** Applies the resolution of a sync conflict to the note */
+  onResolveConflict: (noteId: string, choice: ConflictChoice, mergedMarkdown?: string) => void;
   /** Optional callback when sync completes successfully */
   onSyncComplete?: () => void;
 }
 
+/**
+ * Display labels for queued operation states
+ */
+const OPERATION_STATE_LABELS: Record<SyncOperation['state'], string> = {
+  queued: 'Queued',
+  running: 'Uploading',
+  failed: 'Failed',
+};
+
 /**
  * SyncStatus Component
  *
@@ -50,27 +72,36 @@ interface SyncStatusProps {
  * @example
  * ```tsx
  * <SyncStatus
- *   notes={notes}
- *   areas={areas}
+ *   onSync={runSync}
+ *   onResolveConflict={handleResolveConflict}
  *   onSyncComplete={() => console.log('Sync done!')}
  * />
  * ```
  */
 export const SyncStatus: React.FC<SyncStatusProps> = ({
-  notes,
-  areas,
+  onSync,
+  onResolveConflict,
   onSyncComplete
 }) => {
   // Get initial sync status
   const [syncStatus, setSyncStatus] = useState(googleDriveService.getSyncStatus());
+  const [conflicts, setConflicts] = useState(googleDriveService.getConflicts());
   const [isManualSyncing, setIsManualSyncing] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [operations, setOperations] = useState<SyncOperation[]>(syncQueue.getOperations());
+  const [showQueue, setShowQueue] = useState(false);
 
   /**
    * Update sync status from service
    * Called periodically to refresh the UI
    */
   const updateSyncStatus = useCallback(() => {
-    setSyncStatus(googleDriveService.getSyncStatus());
+    const status = googleDriveService.getSyncStatus();
+    setSyncStatus(status);
+    // Only refresh the conflict list when its entries changed to keep the panel stable
+    const next = googleDriveService.getConflicts();
+    setConflicts(prev => conflictKey(prev) === conflictKey(next) ? prev : next);
+    setOperations(syncQueue.getOperations());
   }, []);
 
   /**
@@ -87,7 +118,7 @@ export const SyncStatus: React.FC<SyncStatusProps> = ({
   /**
    * Handle manual sync button click
    *
-   * Triggers a full sync of all notes to Google Drive.
+   * Triggers a full two-way sync with Google Drive.
    * Shows loading state during sync operation.
    *
    * @async
@@ -99,7 +130,7 @@ export const SyncStatus: React.FC<SyncStatusProps> = ({
 
     setIsManualSyncing(true);
     try {
-      await googleDriveService.syncAll(notes, areas);
+      await onSync();
       updateSyncStatus();
       onSyncComplete?.();
     } catch (error) {
@@ -107,7 +138,16 @@ export const SyncStatus: React.FC<SyncStatusProps> = ({
     } finally {
       setIsManualSyncing(false);
     }
-  }, [notes, areas, syncStatus.isConnected, isManualSyncing, syncStatus.isSyncing, updateSyncStatus, onSyncComplete]);
+  }, [onSync, syncStatus.isConnected, isManualSyncing, syncStatus.isSyncing, updateSyncStatus, onSyncComplete]);
+
+  /**
+   * Handle resolution of a conflict from the panel
+   */
+  const handleResolve = useCallback((noteId: string, choice: ConflictChoice, mergedMarkdown?: string) => {
+    onResolveConflict(noteId, choice, mergedMarkdown);
+    setConflicts(googleDriveService.getConflicts());
+    updateSyncStatus();
+  }, [onResolveConflict, updateSyncStatus]);
 
   /**
    * Format last sync time as relative time
@@ -139,9 +179,10 @@ export const SyncStatus: React.FC<SyncStatusProps> = ({
 
   const isSyncing = syncStatus.isSyncing || isManualSyncing;
   const hasError = syncStatus.error !== null;
+  const progress = syncStatus.progress;
 
   return (
-    <div className="flex items-center gap-3 px-4 py-2 bg-zinc-800 border-t border-zinc-700">
+    <div className="relative flex items-center gap-3 px-4 py-2 bg-zinc-800 border-t border-zinc-700">
       {/* Status Icon */}
       <div className="flex items-center gap-2">
         {isSyncing ? (
@@ -155,7 +196,7 @@ export const SyncStatus: React.FC<SyncStatusProps> = ({
         {/* Status Text */}
         <span className="text-sm text-zinc-300">
           {isSyncing ? (
-            'Syncing...'
+            progress ? `Syncing ${progress.completed} of ${progress.total}...` : 'Syncing...'
           ) : hasError ? (
             'Sync failed'
           ) : (
@@ -174,6 +215,69 @@ export const SyncStatus: React.FC<SyncStatusProps> = ({
         </span>
       )}
 
+      {/* Run Progress */}
+      {progress && progress.total > 0 && (
+        <div className="w-24 h-1.5 bg-zinc-700 rounded-full overflow-hidden" aria-hidden="true">
+          <div
+            className="h-full bg-blue-500 transition-all"
+            style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {/* Pending Changes */}
+      {syncStatus.pendingCount > 0 && (
+        <button
+          onClick={() => setShowQueue(prev => !prev)}
+          className="px-2 py-1 rounded-md text-xs font-medium bg-zinc-700 text-zinc-300 hover:bg-zinc-600 transition-colors"
+          title="Changes waiting to be uploaded"
+          aria-expanded={showQueue}
+        >
+          {syncStatus.pendingCount} pending
+        </button>
+      )}
+
+      {showQueue && operations.length > 0 && (
+        <div className="absolute bottom-full left-4 mb-2 w-80 max-h-64 overflow-y-auto bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl z-40">
+          {operations.map(operation => (
+            <div
+              key={operation.key}
+              className="flex items-center gap-2 px-3 py-2 border-b border-zinc-700/50 last:border-b-0"
+              title={operation.error}
+            >
+              {operation.state === 'running' ? (
+                <SpinnerIcon className="w-3.5 h-3.5 text-blue-400 animate-spin flex-shrink-0" />
+              ) : operation.state === 'failed' ? (
+                <ExclamationCircleIcon className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />
+              ) : (
+                <CloudSyncIcon className="w-3.5 h-3.5 text-zinc-500 flex-shrink-0" />
+              )}
+              <span className="flex-1 text-xs text-zinc-300 truncate">
+                {operation.type === 'trash' ? `Delete ${operation.label}` : operation.label}
+              </span>
+              <span
+                className={`text-xs ${operation.state === 'failed' ? 'text-red-400' : 'text-zinc-500'}`}
+              >
+                {OPERATION_STATE_LABELS[operation.state]}
+                {operation.attempts > 0 && ` (${operation.attempts})`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Conflicts */}
+      {syncStatus.conflictCount > 0 && (
+        <button
+          onClick={() => setShowConflicts(true)}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium bg-amber-900/40 text-amber-300 hover:bg-amber-900/60 transition-colors"
+          title="Notes changed both locally and in Google Drive"
+        >
+          <ExclamationCircleIcon className="w-4 h-4" />
+          {syncStatus.conflictCount} conflict{syncStatus.conflictCount > 1 ? 's' : ''}
+        </button>
+      )}
+
       {/* Manual Sync Button */}
       <button
         onClick={handleManualSync}
@@ -186,12 +290,19 @@ export const SyncStatus: React.FC<SyncStatusProps> = ({
             : 'bg-zinc-700 text-zinc-200 hover:bg-zinc-600'
           }
         `}
-        title="Sync all notes to Google Drive"
+        title="Pull changes from Google Drive and upload pending changes"
         aria-label="Manual sync"
       >
         <CloudSyncIcon className="w-4 h-4" />
         <span>Sync Now</span>
       </button>
+
+      <ConflictPanel
+        isOpen={showConflicts}
+        onClose={() => setShowConflicts(false)}
+        conflicts={conflicts}
+        onResolve={handleResolve}
+      />
     </div>
   );
 };
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Tag Editor Component
+ *
+ * Inline list of a note's tags with an input for adding more. Suggestions
+ * come from tags already used on other notes.
+ *
+ * Features:
+ * - Add with Enter, Tab or comma; remove with the × button or Backspace
+ * - Autocomplete from existing tags, navigable with the arrow keys
+ * - Input is normalized (see {@link module:utils/tags})
+ *
+ * @module components/TagEditor
+ */
+
+import React, { useState, useMemo } from 'react';
+import { TagIcon } from '../constants';
+import { normalizeTag } from '../utils/tags';
+
+/**
+ * Maximum number of suggestions shown
+ */
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Props for the TagEditor component
+ * @interface TagEditorProps
+ */
+interface TagEditorProps {
+  /** Tags on the note */
+  tags: string[];
+  /** All tags in use, most used first */
+  allTags: string[];
+  /** Callback with the new tag list */
+  onChange: (tags: string[]) => void;
+}
+
+/**
+ * TagEditor Component
+ *
+ * @param {TagEditorProps} props - Component props
+ * @returns {JSX.Element} Tag chips with an input
+ *
+ * @example
+ * ```tsx
+ * <TagEditor
+ *   tags={note.tags || []}
+ *   allTags={allTags}
+ *   onChange={(tags) => onUpdateTags(note.id, tags)}
+ * />
+ * ```
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, allTags, onChange }) => {
+  const [input, setInput] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(() => {
+    const query = normalizeTag(input);
+    return allTags
+      .filter(tag => !tags.includes(tag) && tag.includes(query))
+      .sort((a, b) => Number(b.startsWith(query)) - Number(a.startsWith(query)))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [input, tags, allTags]);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setInput('');
+    setActiveIndex(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(existing => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const showSuggestions = input.length > 0 && suggestions.length > 0;
+
+    if (e.key === 'ArrowDown' && showSuggestions) {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && showSuggestions) {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && input)) {
+      e.preventDefault();
+      addTag(showSuggestions ? suggestions[activeIndex] ?? input : input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'Escape') {
+      setInput('');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs">
+      <TagIcon className="w-4 h-4 text-zinc-500" />
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className="flex items-center gap-1 bg-zinc-800 border border-zinc-700 text-zinc-300 rounded-full pl-2 pr-1 py-0.5"
+        >
+          {tag}
+          <button
+            onClick={() => removeTag(tag)}
+            className="w-4 h-4 flex items-center justify-center rounded-full text-zinc-500 hover:bg-zinc-700 hover:text-zinc-200"
+            aria-label={`Remove tag ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <div className="relative">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (input.trim()) addTag(input);
+          }}
+          placeholder={tags.length === 0 ? 'Add tags...' : 'Add tag'}
+          className="bg-transparent text-zinc-300 placeholder-zinc-600 focus:outline-none w-28 py-0.5"
+          aria-label="Add tag"
+        />
+        {isFocused && input && suggestions.length > 0 && (
+          <ul
+            className="absolute top-full left-0 mt-1 bg-zinc-800 border border-zinc-700 rounded-md shadow-lg z-20 py-1 min-w-[10rem]"
+            role="listbox"
+          >
+            {suggestions.map((tag, index) => (
+              <li
+                key={tag}
+                // Keep focus in the input so blur does not add the typed text first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+                className={`px-3 py-1.5 cursor-pointer ${
+                  index === activeIndex ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-300 hover:bg-zinc-700/50'
+                }`}
+                role="option"
+                aria-selected={index === activeIndex}
+              >
+                {tag}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,406 @@
+/**
+ * @fileoverview AI Usage Dashboard Component
+ *
+ * Modal showing the AI usage ledger (see {@link module:services/usageService}):
+ * today's and this month's totals, spending over the last 30 days, and the
+ * month broken down by provider and by feature. Each provider's daily or
+ * monthly budget is edited here.
+ *
+ * Costs are estimates from list prices (see {@link module:utils/pricing}).
+ *
+ * @module components/UsageDashboard
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { AIUsageRecord } from '../types';
+import { SpinnerIcon } from '../constants';
+import { aiService } from '../services/aiService';
+import {
+  usageService,
+  summarizeUsage,
+  periodStart,
+  UsageBudget,
+  UsageTotals,
+  AIFeature,
+  AI_FEATURE_LABELS,
+} from '../services/usageService';
+import { formatCost } from '../utils/pricing';
+
+/**
+ * Props for the UsageDashboard component
+ * @interface UsageDashboardProps
+ */
+interface UsageDashboardProps {
+  /** Controls modal visibility */
+  isOpen: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+}
+
+/**
+ * Days shown in the spending chart
+ */
+const CHART_DAYS = 30;
+
+/**
+ * Local calendar day of a timestamp, as used for the chart
+ *
+ * @param {Date} date - Timestamp
+ * @returns {string} Day as YYYY-MM-DD
+ */
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Group records and add up each group
+ *
+ * @param {AIUsageRecord[]} records - Records to group
+ * @param {(record: AIUsageRecord) => string} key - Group of a record
+ * @returns {Array<[string, UsageTotals]>} Groups, most expensive first
+ */
+function totalsBy(records: AIUsageRecord[], key: (record: AIUsageRecord) => string): Array<[string, UsageTotals]> {
+  const groups = new Map<string, AIUsageRecord[]>();
+  records.forEach(record => groups.set(key(record), [...(groups.get(key(record)) || []), record]));
+  return Array.from(groups.entries())
+    .map(([group, list]): [string, UsageTotals] => [group, summarizeUsage(list)])
+    .sort((a, b) => b[1].cost - a[1].cost || b[1].requests - a[1].requests);
+}
+
+/**
+ * Format a token count
+ *
+ * @param {UsageTotals} totals - Totals
+ * @returns {string} Input plus output tokens, grouped by thousands
+ */
+function formatTokens(totals: UsageTotals): string {
+  return (totals.promptTokens + totals.completionTokens).toLocaleString();
+}
+
+/**
+ * Budget editor of one provider
+ */
+const BudgetRow: React.FC<{
+  provider: string;
+  name: string;
+  budget?: UsageBudget;
+  spent: number;
+}> = ({ provider, name, budget, spent }) => {
+  const [period, setPeriod] = useState<UsageBudget['period']>(budget?.period || 'month');
+  const [soft, setSoft] = useState(budget?.soft?.toString() ?? '');
+  const [hard, setHard] = useState(budget?.hard?.toString() ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setPeriod(budget?.period || 'month');
+    setSoft(budget?.soft?.toString() ?? '');
+    setHard(budget?.hard?.toString() ?? '');
+  }, [budget?.period, budget?.soft, budget?.hard]);
+
+  const parse = (value: string) => (value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Math.max(0, Number(value)));
+  const changed = period !== (budget?.period || 'month') ||
+    parse(soft) !== budget?.soft ||
+    parse(hard) !== budget?.hard;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await usageService.setBudget(provider, { period, soft: parse(soft), hard: parse(hard) });
+    } catch (err) {
+      console.error('Failed to save budget:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const limit = budget?.hard ?? budget?.soft;
+  const inputClass = 'w-20 px-2 py-1 text-sm bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 focus:outline-none focus:border-blue-500';
+
+  return (
+    <tr className="border-t border-zinc-700/50">
+      <td className="py-2 pr-3 text-zinc-200">{name}</td>
+      <td className="py-2 pr-3">
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as UsageBudget['period'])}
+          className="px-2 py-1 text-sm bg-zinc-900 border border-zinc-700 rounded-md text-zinc-200 focus:outline-none focus:border-blue-500"
+          aria-label={`${name} budget period`}
+        >
+          <option value="day">Daily</option>
+          <option value="month">Monthly</option>
+        </select>
+      </td>
+      <td className="py-2 pr-3">
+        <input type="number" min="0" step="0.5" value={soft} onChange={(e) => setSoft(e.target.value)} placeholder="—" className={inputClass} aria-label={`${name} soft limit`} />
+      </td>
+      <td className="py-2 pr-3">
+        <input type="number" min="0" step="0.5" value={hard} onChange={(e) => setHard(e.target.value)} placeholder="—" className={inputClass} aria-label={`${name} hard limit`} />
+      </td>
+      <td className={`py-2 pr-3 tabular-nums ${budget?.hard !== undefined && spent >= budget.hard ? 'text-red-400' : budget?.soft !== undefined && spent >= budget.soft ? 'text-amber-400' : 'text-zinc-400'}`}>
+        {budget ? `${formatCost(spent)}${limit !== undefined ? ` / ${formatCost(limit)}` : ''}` : '—'}
+      </td>
+      <td className="py-2 text-right">
+        <button
+          onClick={handleSave}
+          disabled={!changed || isSaving}
+          className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * UsageDashboard Component
+ *
+ * @param {UsageDashboardProps} props - Component props
+ * @returns {JSX.Element | null} Dashboard modal or null if closed
+ */
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose }) => {
+  const [records, setRecords] = useState<AIUsageRecord[]>([]);
+  const [budgets, setBudgets] = useState<Record<string, UsageBudget>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the records shown: the month and the chart period, whichever is longer
+   */
+  const load = useCallback(async () => {
+    const chartStart = new Date();
+    chartStart.setHours(0, 0, 0, 0);
+    chartStart.setDate(chartStart.getDate() - (CHART_DAYS - 1));
+    const since = [chartStart.toISOString(), periodStart('month')].sort()[0];
+    try {
+      const [loaded, loadedBudgets] = await Promise.all([usageService.getRecords(since), usageService.getBudgets()]);
+      setRecords(loaded);
+      setBudgets(loadedBudgets);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load AI usage:', err);
+      setError('Could not load the usage ledger.');
+    }
+  }, []);
+
+  /**
+   * Effect: Load when opened and follow new records while open
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    load().finally(() => setIsLoading(false));
+    return usageService.subscribe(() => {
+      load();
+    });
+  }, [isOpen, load]);
+
+  const summary = useMemo(() => {
+    const monthStart = periodStart('month');
+    const dayStart = periodStart('day');
+    const month = records.filter(record => record.createdAt >= monthStart);
+    const spentByProvider = (provider: string) => {
+      const period = budgets[provider]?.period || 'month';
+      const start = period === 'day' ? dayStart : monthStart;
+      return summarizeUsage(records.filter(record => record.provider === provider && record.createdAt >= start)).cost;
+    };
+
+    // Spending per day, oldest first, including days without requests
+    const byDay = new Map(totalsBy(records, record => dayKey(new Date(record.createdAt))));
+    const days = Array.from({ length: CHART_DAYS }, (_, i) => {
+      const date = new Date();
+      date.setDate(date.getDate() - (CHART_DAYS - 1 - i));
+      return { key: dayKey(date), totals: byDay.get(dayKey(date)) || summarizeUsage([]) };
+    });
+
+    return {
+      today: summarizeUsage(records.filter(record => record.createdAt >= dayStart)),
+      month: summarizeUsage(month),
+      byModel: totalsBy(month, record => `${record.provider}\u0000${record.model}`),
+      byFeature: totalsBy(month, record => record.feature),
+      spentByProvider,
+      days,
+    };
+  }, [records, budgets]);
+
+  /**
+   * Effect: Close on Escape
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const providerName = (id: string) => aiService.getProviders().find(p => p.id === id)?.name || id;
+  // Chart cost when anything was priced, tokens otherwise (e.g. only a local server)
+  const chartByCost = summary.days.some(day => day.totals.cost > 0);
+  const chartValue = (totals: UsageTotals) => (chartByCost ? totals.cost : totals.promptTokens + totals.completionTokens);
+  const chartMax = Math.max(...summary.days.map(day => chartValue(day.totals)), 0);
+  // A local server has no per-token cost to budget
+  const budgetProviders = aiService.getProviders().filter(p => p.id !== 'local');
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="usage-dashboard-title"
+    >
+      <div
+        className="bg-zinc-800 rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col border border-zinc-700 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-zinc-700">
+          <h2 id="usage-dashboard-title" className="text-xl font-bold text-zinc-100">
+            AI usage
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-400 hover:text-zinc-200"
+            aria-label="Close dialog"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto space-y-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-sm text-zinc-300">
+              <SpinnerIcon className="w-4 h-4 text-blue-400 animate-spin" />
+              Loading usage...
+            </div>
+          ) : error ? (
+            <div className="py-12 text-center text-sm text-red-400">{error}</div>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-2 gap-4">
+                {([['Today', summary.today], ['This month', summary.month]] as Array<[string, UsageTotals]>).map(([label, totals]) => (
+                  <div key={label} className="bg-zinc-900/60 border border-zinc-700 rounded-lg p-4">
+                    <div className="text-xs uppercase tracking-wide text-zinc-500">{label}</div>
+                    <div className="mt-1 text-2xl font-semibold text-zinc-100 tabular-nums">{formatCost(totals.cost)}</div>
+                    <div className="mt-1 text-xs text-zinc-400">
+                      {totals.requests.toLocaleString()} {totals.requests === 1 ? 'request' : 'requests'} · {formatTokens(totals)} tokens
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Chart */}
+              <section>
+                <h3 className="text-sm font-semibold text-zinc-300 mb-2">
+                  Last {CHART_DAYS} days ({chartByCost ? 'cost' : 'tokens'})
+                </h3>
+                <div className="flex items-end gap-0.5 h-24 bg-zinc-900/60 border border-zinc-700 rounded-lg p-2">
+                  {summary.days.map(({ key, totals }) => (
+                    <div
+                      key={key}
+                      className="flex-1 bg-blue-500/70 hover:bg-blue-400 rounded-sm min-h-px"
+                      style={{ height: chartMax > 0 ? `${(chartValue(totals) / chartMax) * 100}%` : 0 }}
+                      title={`${key}: ${formatCost(totals.cost)}, ${formatTokens(totals)} tokens, ${totals.requests} requests`}
+                    />
+                  ))}
+                </div>
+              </section>
+
+              {/* By provider and budgets */}
+              <section>
+                <h3 className="text-sm font-semibold text-zinc-300 mb-2">This month by model</h3>
+                {summary.byModel.length === 0 ? (
+                  <p className="text-sm text-zinc-500">No AI requests this month.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {summary.byModel.map(([key, totals]) => {
+                        const [provider, model] = key.split('\u0000');
+                        return (
+                          <tr key={key} className="border-t border-zinc-700/50 first:border-t-0">
+                            <td className="py-1.5 pr-3 text-zinc-200">{providerName(provider)}</td>
+                            <td className="py-1.5 pr-3 text-zinc-400">{model || '—'}</td>
+                            <td className="py-1.5 pr-3 text-zinc-400 tabular-nums text-right">{totals.requests.toLocaleString()}</td>
+                            <td className="py-1.5 pr-3 text-zinc-400 tabular-nums text-right">{formatTokens(totals)} tokens</td>
+                            <td className="py-1.5 text-zinc-200 tabular-nums text-right">
+                              {totals.unpriced === totals.requests ? 'unknown price' : formatCost(totals.cost)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section>
+                <h3 className="text-sm font-semibold text-zinc-300 mb-2">This month by feature</h3>
+                {summary.byFeature.length === 0 ? (
+                  <p className="text-sm text-zinc-500">No AI requests this month.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {summary.byFeature.map(([feature, totals]) => (
+                        <tr key={feature} className="border-t border-zinc-700/50 first:border-t-0">
+                          <td className="py-1.5 pr-3 text-zinc-200">{AI_FEATURE_LABELS[feature as AIFeature] || feature}</td>
+                          <td className="py-1.5 pr-3 text-zinc-400 tabular-nums text-right">{totals.requests.toLocaleString()}</td>
+                          <td className="py-1.5 pr-3 text-zinc-400 tabular-nums text-right">{formatTokens(totals)} tokens</td>
+                          <td className="py-1.5 text-zinc-200 tabular-nums text-right">{formatCost(totals.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              {budgetProviders.length > 0 && (
+                <section>
+                  <h3 className="text-sm font-semibold text-zinc-300 mb-1">Budgets (USD)</h3>
+                  <p className="text-xs text-zinc-500 mb-2">
+                    Past the soft limit requests show a warning; past the hard limit they are refused. Leave both empty for no budget.
+                  </p>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-zinc-500">
+                        <th className="pb-1 font-normal">Provider</th>
+                        <th className="pb-1 font-normal">Period</th>
+                        <th className="pb-1 font-normal">Soft</th>
+                        <th className="pb-1 font-normal">Hard</th>
+                        <th className="pb-1 font-normal">Spent</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {budgetProviders.map(p => (
+                        <BudgetRow
+                          key={p.id}
+                          provider={p.id}
+                          name={p.name}
+                          budget={budgets[p.id]}
+                          spent={summary.spentByProvider(p.id)}
+                        />
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+
+              <p className="text-xs text-zinc-500">
+                Costs are estimated from list prices and may differ from the provider's bill.
+                {summary.month.unpriced > 0 && ` ${summary.month.unpriced} ${summary.month.unpriced === 1 ? 'request' : 'requests'} this month used models without a known price.`}
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -37,10 +37,16 @@ export const config = {
     anthropicKey: import.meta.env.VITE_ANTHROPIC_API_KEY || '',
     /** Google Gemini API Key */
     geminiKey: import.meta.env.VITE_GEMINI_API_KEY || '',
+    /** Base URL of a self-hosted OpenAI-compatible server (Ollama, vLLM, LM Studio), e.g. 'http://localhost:11434/v1' */
+    localBaseUrl: (import.meta.env.VITE_LOCAL_AI_BASE_URL || '').replace(/\/+$/, ''),
+    /** API key of the self-hosted server, if it requires one */
+    localApiKey: import.meta.env.VITE_LOCAL_AI_API_KEY || '',
     /** Enable web search feature */
     enableWebSearch: import.meta.env.VITE_ENABLE_WEB_SEARCH === 'true',
     /** Enable extended thinking mode */
     enableExtendedThinking: import.meta.env.VITE_ENABLE_EXTENDED_THINKING === 'true',
+    /** Embedding provider for the semantic index: 'local', 'openai' or 'gemini' (default: local) */
+    embeddingProvider: import.meta.env.VITE_EMBEDDING_PROVIDER || 'local',
   },
 
   /**
@@ -51,6 +57,8 @@ export const config = {
     autoSyncDelay: Number(import.meta.env.VITE_AUTO_SYNC_DELAY) || 30000,
     /** Diagram render delay in milliseconds (default: 500ms) */
     diagramRenderDelay: Number(import.meta.env.VITE_DIAGRAM_RENDER_DELAY) || 500,
+    /** Maximum number of Drive uploads running in parallel (default: 3) */
+    syncConcurrency: Number(import.meta.env.VITE_SYNC_CONCURRENCY) || 3,
   },
 };
 
@@ -118,13 +126,22 @@ export function isGeminiAvailable(): boolean {
   return !!config.ai.geminiKey;
 }
 
+/**
+ * Check if a self-hosted OpenAI-compatible server is configured
+ *
+ * @returns {boolean} True if the server's base URL is configured
+ */
+export function isLocalAIAvailable(): boolean {
+  return !!config.ai.localBaseUrl;
+}
+
 /**
  * Check if any AI provider is available
  *
- * @returns {boolean} True if at least one AI API key is configured
+ * @returns {boolean} True if at least one AI API key or local server is configured
  */
 export function isAIAvailable(): boolean {
-  return isOpenAIAvailable() || isAnthropicAvailable() || isGeminiAvailable();
+  return isOpenAIAvailable() || isAnthropicAvailable() || isGeminiAvailable() || isLocalAIAvailable();
 }
 
 /**
@@ -137,5 +154,6 @@ export function getAvailableAIProviders(): string[] {
   if (isOpenAIAvailable()) providers.push('openai');
   if (isAnthropicAvailable()) providers.push('anthropic');
   if (isGeminiAvailable()) providers.push('gemini');
+  if (isLocalAIAvailable()) providers.push('local');
   return providers;
 }
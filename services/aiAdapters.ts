@@ -0,0 +1,1102 @@
+/**
+ * @fileoverview AI Provider Adapters
+ *
+ * One adapter per chat API, registered with the AI service (see
+ * {@link module:services/aiService}). Each adapter translates the shared
+ * message format to its API, for plain and streaming requests, and lists
+ * the models it offers. Tool definitions, tool calls and tool results are
+ * translated the same way. Streams are parsed with {@link module:utils/sse}
+ * into the service's stream events: text, thinking, tool calls, usage and
+ * the stop reason.
+ *
+ * Adapters:
+ * - OpenAI-compatible: OpenAI itself, and self-hosted servers speaking the
+ *   same API (Ollama, vLLM, LM Studio) whose models are discovered from
+ *   their `/v1/models` endpoint
+ * - Anthropic (Claude), with extended thinking
+ * - Google Gemini
+ *
+ * @module services/aiAdapters
+ */
+
+import { config } from '../config/env';
+import { AIError, AINetworkError, AISafetyError, errorFromResponse, isAbortError } from './aiErrors';
+import { parseSSE } from '../utils/sse';
+import type {
+  AIProvider,
+  AIProviderAdapter,
+  AIProviderCapabilities,
+  AIModel,
+  ChatMessage,
+  AIRequestOptions,
+  AIResponse,
+  AIStopReason,
+  AIStreamEvent,
+  AIToolCall,
+  AIUsage,
+} from './aiService';
+
+/**
+ * Context window assumed for discovered models that don't report one
+ */
+const DEFAULT_DISCOVERED_CONTEXT_TOKENS = 8192;
+
+/**
+ * Default safety settings for Gemini - block only high-risk content
+ */
+const GEMINI_SAFETY_SETTINGS = [
+  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
+  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
+  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
+  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
+];
+
+/**
+ * Token counts of an OpenAI chat completion
+ */
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+/**
+ * Tool call in an OpenAI message, or a piece of one in a stream delta
+ */
+interface OpenAIToolCallPayload {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * OpenAI chat completions response
+ */
+interface OpenAIResponse {
+  model?: string;
+  choices: Array<{
+    finish_reason?: string | null;
+    message: { content?: string | null; tool_calls?: OpenAIToolCallPayload[] };
+  }>;
+  usage?: OpenAIUsage;
+}
+
+/**
+ * One chunk of an OpenAI chat completions stream
+ */
+interface OpenAIChunk {
+  choices?: Array<{
+    finish_reason?: string | null;
+    delta?: { content?: string | null; reasoning_content?: string | null; tool_calls?: OpenAIToolCallPayload[] };
+  }>;
+  usage?: OpenAIUsage | null;
+  error?: { message?: string } | string;
+}
+
+/**
+ * Content block of an Anthropic message, sent or received
+ */
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string;
+}
+
+/**
+ * Token counts of an Anthropic message
+ */
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/**
+ * Anthropic Messages API response
+ */
+interface AnthropicResponse {
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason?: string | null;
+  usage: AnthropicUsage;
+}
+
+/**
+ * Event of an Anthropic message stream
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: { usage?: AnthropicUsage };
+  content_block?: AnthropicContentBlock;
+  delta?: { type?: string; text?: string; thinking?: string; partial_json?: string; stop_reason?: string | null };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Part of a Gemini message, sent or received
+ */
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name?: string; response: Record<string, unknown> };
+}
+
+/**
+ * Gemini generateContent response, or one streamed chunk of it
+ */
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] }; finishReason?: string }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+/**
+ * Send a request, turning failures into typed errors
+ *
+ * @async
+ * @param {AIProvider} provider - Provider ID
+ * @param {string} name - Provider display name, for messages
+ * @param {string} url - Endpoint URL
+ * @param {RequestInit} init - Fetch options, including the abort signal
+ * @returns {Promise<Response>} Successful response
+ * @throws {AIError} If the provider can't be reached or answers with an error
+ * @throws {DOMException} AbortError if the request was cancelled
+ */
+async function send(provider: AIProvider, name: string, url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new AINetworkError(`Could not reach ${name}. Check your connection.`, provider);
+  }
+  if (!response.ok) {
+    throw await errorFromResponse(provider, name, response);
+  }
+  return response;
+}
+
+/**
+ * Read a streaming response body as text
+ *
+ * A dropped connection surfaces as an {@link AINetworkError}; cancelling
+ * the request's signal ends the stream with an AbortError.
+ *
+ * @param {Response} response - Streaming response
+ * @param {AIProvider} provider - Provider ID
+ * @param {string} name - Provider display name, for messages
+ * @yields {string} Decoded pieces of the body
+ */
+async function* readText(response: Response, provider: AIProvider, name: string): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new AINetworkError(`The connection to ${name} was lost.`, provider);
+      }
+      if (result.done) break;
+      yield decoder.decode(result.value, { stream: true });
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse a JSON event payload
+ *
+ * @param {string} data - Event data
+ * @returns {unknown} Parsed value, or null if the data isn't JSON
+ */
+function parseJSON(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the arguments of a tool call
+ *
+ * @param {string} json - Arguments as sent by the model
+ * @returns {Record<string, unknown>} Arguments; empty if the model sent invalid JSON
+ */
+function parseArguments(json: string): Record<string, unknown> {
+  const value = parseJSON(json || '{}');
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Parse a tool result for APIs that take it as an object
+ *
+ * @param {string} content - Result as sent in the tool message
+ * @returns {Record<string, unknown>} The result if it is a JSON object, else wrapped as `{ result }`
+ */
+function resultObject(content: string): Record<string, unknown> {
+  const value = parseJSON(content);
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : { result: value ?? content };
+}
+
+/**
+ * Builds the response of a stream from its events, passing each event on
+ * to the request's callbacks
+ */
+class StreamCollector {
+  content = '';
+  thinking = '';
+  usage: AIUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  stopReason?: AIStopReason;
+  toolCalls: AIToolCall[] = [];
+
+  constructor(private options: AIRequestOptions) {}
+
+  emit(event: AIStreamEvent): void {
+    switch (event.type) {
+      case 'text':
+        this.content += event.text;
+        this.options.onStream?.(event.text);
+        break;
+      case 'thinking':
+        this.thinking += event.text;
+        break;
+      case 'tool_call':
+        this.toolCalls.push(event.call);
+        break;
+      case 'usage':
+        this.usage = event.usage;
+        break;
+      case 'stop':
+        this.stopReason = event.reason;
+        break;
+    }
+    this.options.onEvent?.(event);
+  }
+
+  response(model: string, provider: AIProvider): AIResponse {
+    return {
+      content: this.content,
+      thinking: this.thinking || undefined,
+      usage: this.usage,
+      stopReason: this.stopReason,
+      toolCalls: this.toolCalls.length > 0 ? this.toolCalls : undefined,
+      model,
+      provider,
+    };
+  }
+}
+
+/**
+ * Map an OpenAI finish reason
+ *
+ * @param {string} [reason] - finish_reason
+ * @returns {AIStopReason} Stop reason
+ */
+function openAIStopReason(reason?: string): AIStopReason {
+  switch (reason) {
+    case 'stop': return 'end';
+    case 'length': return 'max_tokens';
+    case 'tool_calls':
+    case 'function_call': return 'tool_use';
+    case 'content_filter': return 'safety';
+    default: return 'other';
+  }
+}
+
+/**
+ * Map an Anthropic stop reason
+ *
+ * @param {string} [reason] - stop_reason
+ * @returns {AIStopReason} Stop reason
+ */
+function anthropicStopReason(reason?: string): AIStopReason {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence': return 'end';
+    case 'max_tokens': return 'max_tokens';
+    case 'tool_use': return 'tool_use';
+    case 'refusal': return 'safety';
+    default: return 'other';
+  }
+}
+
+/**
+ * Map a Gemini finish reason
+ *
+ * @param {string} [reason] - finishReason
+ * @returns {AIStopReason} Stop reason
+ */
+function geminiStopReason(reason?: string): AIStopReason {
+  switch (reason) {
+    case 'STOP': return 'end';
+    case 'MAX_TOKENS': return 'max_tokens';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT': return 'safety';
+    default: return 'other';
+  }
+}
+
+/**
+ * OpenAI models
+ */
+export const OPENAI_MODELS: AIModel[] = [
+  {
+    provider: 'openai',
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    supportsThinking: false,
+    supportsVision: true,
+    supportsWebSearch: true,
+    maxTokens: 128000,
+  },
+  {
+    provider: 'openai',
+    id: 'gpt-4o-mini',
+    name: 'GPT-4o Mini',
+    supportsThinking: false,
+    supportsVision: true,
+    supportsWebSearch: true,
+    maxTokens: 128000,
+  },
+  {
+    provider: 'openai',
+    id: 'o1',
+    name: 'O1',
+    supportsThinking: true,
+    supportsVision: false,
+    supportsWebSearch: false,
+    maxTokens: 100000,
+  },
+  {
+    provider: 'openai',
+    id: 'o1-mini',
+    name: 'O1 Mini',
+    supportsThinking: true,
+    supportsVision: false,
+    supportsWebSearch: false,
+    maxTokens: 65536,
+  },
+];
+
+/**
+ * Anthropic models
+ */
+export const ANTHROPIC_MODELS: AIModel[] = [
+  {
+    provider: 'anthropic',
+    id: 'claude-sonnet-4',
+    name: 'Claude Sonnet 4',
+    supportsThinking: true,
+    supportsVision: true,
+    supportsWebSearch: false,
+    maxTokens: 200000,
+  },
+  {
+    provider: 'anthropic',
+    id: 'claude-opus-4',
+    name: 'Claude Opus 4',
+    supportsThinking: true,
+    supportsVision: true,
+    supportsWebSearch: false,
+    maxTokens: 200000,
+  },
+  {
+    provider: 'anthropic',
+    id: 'claude-haiku-4',
+    name: 'Claude Haiku 4',
+    supportsThinking: false,
+    supportsVision: true,
+    supportsWebSearch: false,
+    maxTokens: 200000,
+  },
+];
+
+/**
+ * Gemini models
+ */
+export const GEMINI_MODELS: AIModel[] = [
+  {
+    provider: 'gemini',
+    id: 'gemini-2.0-flash-thinking-exp',
+    name: 'Gemini 2.0 Flash Thinking',
+    supportsThinking: true,
+    supportsVision: true,
+    supportsWebSearch: true,
+    maxTokens: 32768,
+  },
+  {
+    provider: 'gemini',
+    id: 'gemini-2.0-flash-exp',
+    name: 'Gemini 2.0 Flash',
+    supportsThinking: false,
+    supportsVision: true,
+    supportsWebSearch: true,
+    maxTokens: 32768,
+  },
+  {
+    provider: 'gemini',
+    id: 'gemini-1.5-pro',
+    name: 'Gemini 1.5 Pro',
+    supportsThinking: false,
+    supportsVision: true,
+    supportsWebSearch: true,
+    maxTokens: 2097152,
+  },
+];
+
+/**
+ * Settings of an OpenAI-compatible adapter
+ * @interface OpenAICompatibleSettings
+ */
+export interface OpenAICompatibleSettings {
+  id: AIProvider;
+  name: string;
+  /** API root including the version, e.g. 'http://localhost:11434/v1' */
+  baseUrl: string;
+  /** Bearer token; optional for local servers */
+  apiKey?: string;
+  /** Fixed model list; when omitted, models are read from `/models` */
+  models?: AIModel[];
+  capabilities: AIProviderCapabilities;
+}
+
+/**
+ * Adapter for OpenAI and servers that implement its chat completions API
+ *
+ * @class OpenAICompatibleAdapter
+ */
+export class OpenAICompatibleAdapter implements AIProviderAdapter {
+  readonly id: AIProvider;
+  readonly name: string;
+  readonly capabilities: AIProviderCapabilities;
+
+  /**
+   * Models discovered from the server, fetched once
+   * @private
+   */
+  private discovered: Promise<AIModel[]> | null = null;
+
+  constructor(private settings: OpenAICompatibleSettings) {
+    this.id = settings.id;
+    this.name = settings.name;
+    this.capabilities = settings.capabilities;
+  }
+
+  isConfigured(): boolean {
+    if (!this.settings.baseUrl) return false;
+    // Hosted APIs with a fixed model list need a key; self-hosted servers may not
+    return !this.settings.models || !!this.settings.apiKey;
+  }
+
+  /**
+   * List the models, discovering them from the server when no list was given
+   *
+   * @returns {Promise<AIModel[]>} Models; empty if the server can't be reached
+   */
+  listModels(): Promise<AIModel[]> {
+    if (this.settings.models) return Promise.resolve(this.settings.models);
+    if (!this.discovered) {
+      this.discovered = this.fetchModels().catch(error => {
+        console.error(`Could not list ${this.name} models:`, error);
+        // Try again on the next call, e.g. once the server is started
+        this.discovered = null;
+        return [];
+      });
+    }
+    return this.discovered;
+  }
+
+  /**
+   * Read the model list from `/models`
+   *
+   * @private
+   * @returns {Promise<AIModel[]>} Models sorted by name
+   */
+  private async fetchModels(): Promise<AIModel[]> {
+    const response = await send(this.id, this.name, `${this.settings.baseUrl}/models`, { headers: this.headers() });
+    const data = await response.json();
+    return (data.data as Array<{ id: string; max_model_len?: number; context_length?: number }>)
+      .map(item => ({
+        provider: this.id,
+        id: item.id,
+        name: item.id,
+        supportsThinking: false,
+        supportsVision: false,
+        supportsWebSearch: false,
+        // vLLM reports max_model_len, LM Studio context_length; Ollama reports neither
+        maxTokens: item.max_model_len || item.context_length || DEFAULT_DISCOVERED_CONTEXT_TOKENS,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Request headers
+   *
+   * @private
+   * @returns {Record<string, string>} Headers, with authorization when a key is set
+   */
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.settings.apiKey ? { 'Authorization': `Bearer ${this.settings.apiKey}` } : {}),
+    };
+  }
+
+  /**
+   * Send a chat completions request
+   *
+   * @private
+   * @param {string} model - Model ID
+   * @param {ChatMessage[]} messages - Conversation messages
+   * @param {AIRequestOptions} options - Request options
+   * @param {boolean} stream - Whether to stream the response
+   * @returns {Promise<Response>} Successful response
+   */
+  private request(model: string, messages: ChatMessage[], options: AIRequestOptions, stream: boolean): Promise<Response> {
+    return send(this.id, this.name, `${this.settings.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model,
+        messages: this.messages(messages),
+        max_tokens: options.maxTokens || 4096,
+        temperature: options.temperature ?? 0.7,
+        stream,
+        // Without this the stream carries no token counts
+        stream_options: stream ? { include_usage: true } : undefined,
+        tools: options.tools?.length
+          ? options.tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          }))
+          : undefined,
+      }),
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Convert messages, including tool calls and results
+   *
+   * @private
+   * @param {ChatMessage[]} messages - Conversation messages
+   * @returns {object[]} Chat completions messages
+   */
+  private messages(messages: ChatMessage[]): object[] {
+    return messages.map(m => {
+      if (m.role === 'tool') {
+        return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+      }
+      if (m.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: m.content || null,
+          tool_calls: m.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        };
+      }
+      return { role: m.role, content: m.content };
+    });
+  }
+
+  /**
+   * Model to use when the request names none
+   *
+   * @private
+   * @param {string} [model] - Requested model
+   * @returns {Promise<string>} Model ID
+   * @throws {Error} If the server offers no model
+   */
+  private async resolveModel(model?: string): Promise<string> {
+    if (model) return model;
+    const [first] = await this.listModels();
+    if (!first) {
+      throw new Error(`${this.name} has no models available.`);
+    }
+    return first.id;
+  }
+
+  async chat(messages: ChatMessage[], options: AIRequestOptions): Promise<AIResponse> {
+    const model = await this.resolveModel(options.model);
+    const response = await this.request(model, messages, options, false);
+
+    const data: OpenAIResponse = await response.json();
+    const choice = data.choices[0];
+    if (choice.finish_reason === 'content_filter' && !choice.message.content) {
+      throw new AISafetyError(`${this.name} blocked the response with its content filter.`, this.id);
+    }
+    const toolCalls: AIToolCall[] = (choice.message.tool_calls || []).map(call => ({
+      id: call.id || '',
+      name: call.function?.name || '',
+      arguments: parseArguments(call.function?.arguments || ''),
+    }));
+
+    return {
+      content: choice.message.content || '',
+      usage: {
+        promptTokens: data.usage?.prompt_tokens || 0,
+        completionTokens: data.usage?.completion_tokens || 0,
+        totalTokens: data.usage?.total_tokens || 0,
+      },
+      stopReason: openAIStopReason(choice.finish_reason),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      model: data.model || model,
+      provider: this.id,
+    };
+  }
+
+  async stream(messages: ChatMessage[], options: AIRequestOptions): Promise<AIResponse> {
+    const model = await this.resolveModel(options.model);
+    const response = await this.request(model, messages, options, true);
+    const collector = new StreamCollector(options);
+    // Tool call names and arguments arrive in pieces, keyed by index
+    const calls = new Map<number, { id: string; name: string; args: string }>();
+    let finishReason: string | undefined;
+
+    for await (const { data } of parseSSE(readText(response, this.id, this.name))) {
+      if (data === '[DONE]') break;
+      const json = parseJSON(data) as OpenAIChunk | null;
+      if (!json) continue;
+      if (json.error) {
+        const message = typeof json.error === 'string' ? json.error : json.error.message;
+        throw new AIError(`${this.name} API error: ${message}`, this.id);
+      }
+
+      const choice = json.choices?.[0];
+      const delta = choice?.delta;
+      if (delta?.reasoning_content) {
+        // Reasoning models served by vLLM and others
+        collector.emit({ type: 'thinking', text: delta.reasoning_content });
+      }
+      if (delta?.content) {
+        collector.emit({ type: 'text', text: delta.content });
+      }
+      for (const part of delta?.tool_calls || []) {
+        const call = calls.get(part.index) || { id: '', name: '', args: '' };
+        call.id = part.id || call.id;
+        call.name += part.function?.name || '';
+        call.args += part.function?.arguments || '';
+        calls.set(part.index, call);
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      if (json.usage) {
+        collector.emit({
+          type: 'usage',
+          model,
+          usage: {
+            promptTokens: json.usage.prompt_tokens || 0,
+            completionTokens: json.usage.completion_tokens || 0,
+            totalTokens: json.usage.total_tokens || 0,
+          },
+        });
+      }
+    }
+
+    calls.forEach(call => collector.emit({
+      type: 'tool_call',
+      call: { id: call.id, name: call.name, arguments: parseArguments(call.args) },
+    }));
+    collector.emit({ type: 'stop', reason: openAIStopReason(finishReason) });
+    if (collector.stopReason === 'safety' && !collector.content) {
+      throw new AISafetyError(`${this.name} blocked the response with its content filter.`, this.id);
+    }
+
+    return collector.response(model, this.id);
+  }
+}
+
+/**
+ * Adapter for the Anthropic Messages API
+ *
+ * @class AnthropicAdapter
+ */
+export class AnthropicAdapter implements AIProviderAdapter {
+  readonly id: AIProvider = 'anthropic';
+  readonly name = 'Anthropic (Claude)';
+  readonly capabilities: AIProviderCapabilities = { streaming: true, thinking: true, webSearch: false, vision: true, tools: true };
+
+  isConfigured(): boolean {
+    return !!config.ai.anthropicKey;
+  }
+
+  async listModels(): Promise<AIModel[]> {
+    return ANTHROPIC_MODELS;
+  }
+
+  /**
+   * Build the request body
+   *
+   * @private
+   * @param {ChatMessage[]} messages - Conversation messages
+   * @param {AIRequestOptions} options - Request options
+   * @param {boolean} stream - Whether to stream the response
+   * @returns {string} JSON body
+   */
+  private body(messages: ChatMessage[], options: AIRequestOptions, stream: boolean): string {
+    // Extract system message if present
+    const systemMessage = messages.find(m => m.role === 'system');
+    const conversationMessages: Array<{ role: 'user' | 'assistant'; content: string | AnthropicContentBlock[] }> = [];
+    for (const m of messages) {
+      if (m.role === 'system') continue;
+      if (m.role === 'tool') {
+        const block: AnthropicContentBlock = { type: 'tool_result', tool_use_id: m.toolCallId, content: m.content };
+        const last = conversationMessages[conversationMessages.length - 1];
+        // Results of one turn's calls go back together in a single user message
+        if (last?.role === 'user' && Array.isArray(last.content)) last.content.push(block);
+        else conversationMessages.push({ role: 'user', content: [block] });
+      } else if (m.toolCalls?.length) {
+        conversationMessages.push({
+          role: 'assistant',
+          content: [
+            ...(m.content ? [{ type: 'text', text: m.content }] : []),
+            ...m.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+          ],
+        });
+      } else {
+        conversationMessages.push({ role: m.role === 'user' ? 'user' : 'assistant', content: m.content });
+      }
+    }
+    // Thinking blocks must be sent back with their signatures during a tool
+    // exchange; they aren't kept, so thinking is off once tools were called
+    const usedTools = messages.some(m => m.toolCalls?.length);
+
+    return JSON.stringify({
+      model: options.model || 'claude-sonnet-4',
+      max_tokens: options.maxTokens || 4096,
+      temperature: options.temperature ?? 0.7,
+      system: systemMessage?.content || undefined,
+      messages: conversationMessages,
+      stream: stream || undefined,
+      // Enable extended thinking if supported and requested
+      thinking: options.useThinking && config.ai.enableExtendedThinking && !usedTools
+        ? { type: 'enabled', budget_tokens: 10000 }
+        : undefined,
+      tools: options.tools?.length
+        ? options.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+        : undefined,
+    });
+  }
+
+  /**
+   * Send a request
+   *
+   * @private
+   * @param {string} body - JSON body
+   * @param {AbortSignal} [signal] - Cancels the request
+   * @returns {Promise<Response>} Successful response
+   */
+  private request(body: string, signal?: AbortSignal): Promise<Response> {
+    return send(this.id, this.name, 'https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.ai.anthropicKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body,
+      signal,
+    });
+  }
+
+  async chat(messages: ChatMessage[], options: AIRequestOptions): Promise<AIResponse> {
+    const response = await this.request(this.body(messages, options, false), options.signal);
+    const data: AnthropicResponse = await response.json();
+    if (data.stop_reason === 'refusal' && !data.content.some(block => block.type === 'text')) {
+      throw new AISafetyError('Claude declined to answer this request.', this.id);
+    }
+
+    // Extract thinking content if present
+    const thinkingBlock = data.content.find(block => block.type === 'thinking');
+    const textBlocks = data.content.filter(block => block.type === 'text');
+    const toolCalls: AIToolCall[] = data.content
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id || '', name: block.name || '', arguments: block.input || {} }));
+    const inputTokens = data.usage.input_tokens || 0;
+    const outputTokens = data.usage.output_tokens || 0;
+
+    return {
+      content: textBlocks.map(block => block.text).join(''),
+      thinking: thinkingBlock?.thinking || undefined,
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+      stopReason: anthropicStopReason(data.stop_reason),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      model: data.model,
+      provider: 'anthropic',
+    };
+  }
+
+  async stream(messages: ChatMessage[], options: AIRequestOptions): Promise<AIResponse> {
+    const model = options.model || 'claude-sonnet-4';
+    const response = await this.request(this.body(messages, options, true), options.signal);
+    const collector = new StreamCollector(options);
+    // Tool use blocks by content index; their input arrives as JSON pieces
+    const toolBlocks = new Map<number, { id: string; name: string; input: string }>();
+    let inputTokens = 0;
+
+    for await (const { data } of parseSSE(readText(response, this.id, this.name))) {
+      const json = parseJSON(data) as AnthropicStreamEvent | null;
+      if (!json) continue;
+
+      switch (json.type) {
+        case 'message_start':
+          inputTokens = json.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_start':
+          if (json.content_block?.type === 'tool_use') {
+            toolBlocks.set(json.index, { id: json.content_block.id || '', name: json.content_block.name || '', input: '' });
+          }
+          break;
+        case 'content_block_delta':
+          if (json.delta?.type === 'text_delta') {
+            collector.emit({ type: 'text', text: json.delta.text });
+          } else if (json.delta?.type === 'thinking_delta') {
+            collector.emit({ type: 'thinking', text: json.delta.thinking });
+          } else if (json.delta?.type === 'input_json_delta' && toolBlocks.has(json.index)) {
+            toolBlocks.get(json.index)!.input += json.delta.partial_json;
+          }
+          break;
+        case 'content_block_stop': {
+          const block = toolBlocks.get(json.index);
+          if (block) {
+            collector.emit({ type: 'tool_call', call: { id: block.id, name: block.name, arguments: parseArguments(block.input) } });
+          }
+          break;
+        }
+        case 'message_delta': {
+          // Output tokens are cumulative
+          const outputTokens = json.usage?.output_tokens || 0;
+          collector.emit({
+            type: 'usage',
+            model,
+            usage: { promptTokens: inputTokens, completionTokens: outputTokens, totalTokens: inputTokens + outputTokens },
+          });
+          if (json.delta?.stop_reason) {
+            collector.emit({ type: 'stop', reason: anthropicStopReason(json.delta.stop_reason) });
+          }
+          break;
+        }
+        case 'error':
+          // Overloaded mid-stream; retryable while nothing was streamed
+          throw new AIError(`${this.name} API error: ${json.error?.message || 'stream error'}`, this.id, {
+            retryable: json.error?.type === 'overloaded_error',
+          });
+      }
+    }
+
+    if (collector.stopReason === 'safety' && !collector.content) {
+      throw new AISafetyError('Claude declined to answer this request.', this.id);
+    }
+
+    return collector.response(model, this.id);
+  }
+}
+
+/**
+ * Adapter for the Gemini generateContent API
+ *
+ * @class GeminiAdapter
+ */
+export class GeminiAdapter implements AIProviderAdapter {
+  readonly id: AIProvider = 'gemini';
+  readonly name = 'Google Gemini';
+  readonly capabilities: AIProviderCapabilities = { streaming: true, thinking: true, webSearch: true, vision: true, tools: true };
+
+  isConfigured(): boolean {
+    return !!config.ai.geminiKey;
+  }
+
+  async listModels(): Promise<AIModel[]> {
+    return GEMINI_MODELS;
+  }
+
+  /**
+   * Build the request body
+   *
+   * @private
+   * @param {ChatMessage[]} messages - Conversation messages
+   * @param {AIRequestOptions} options - Request options
+   * @returns {string} JSON body
+   */
+  private body(messages: ChatMessage[], options: AIRequestOptions): string {
+    // Convert messages to Gemini format
+    const contents: Array<{ role: 'user' | 'model'; parts: GeminiPart[] }> = [];
+    for (const m of messages) {
+      if (m.role === 'system') continue;
+      if (m.role === 'tool') {
+        const part: GeminiPart = { functionResponse: { name: m.toolName, response: resultObject(m.content) } };
+        const last = contents[contents.length - 1];
+        // Results of one turn's calls go back together, in call order
+        if (last?.role === 'user' && last.parts.every(p => p.functionResponse)) last.parts.push(part);
+        else contents.push({ role: 'user', parts: [part] });
+      } else if (m.toolCalls?.length) {
+        contents.push({
+          role: 'model',
+          parts: [
+            ...(m.content ? [{ text: m.content }] : []),
+            ...m.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+          ],
+        });
+      } else {
+        contents.push({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.content }] });
+      }
+    }
+
+    const systemInstruction = messages.find(m => m.role === 'system');
+
+    return JSON.stringify({
+      contents,
+      systemInstruction: systemInstruction ? {
+        parts: [{ text: systemInstruction.content }],
+      } : undefined,
+      safetySettings: GEMINI_SAFETY_SETTINGS,
+      generationConfig: {
+        temperature: options.temperature ?? 0.7,
+        maxOutputTokens: options.maxTokens || 4096,
+      },
+      tools: options.tools?.length
+        ? [{ functionDeclarations: options.tools.map(tool => ({ name: tool.name, description: tool.description, parameters: tool.parameters })) }]
+        : undefined,
+    });
+  }
+
+  /**
+   * Send a request
+   *
+   * @private
+   * @param {string} url - Endpoint URL
+   * @param {string} body - JSON body
+   * @param {AbortSignal} [signal] - Cancels the request
+   * @returns {Promise<Response>} Successful response
+   */
+  private request(url: string, body: string, signal?: AbortSignal): Promise<Response> {
+    return send(this.id, this.name, url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body,
+      signal,
+    });
+  }
+
+  /**
+   * Raise when Gemini blocked the prompt or stopped the response for safety
+   *
+   * @private
+   * @param {GeminiResponse} data - Response, or one streamed chunk of it
+   * @param {boolean} hasContent - Whether any text came back
+   * @throws {AISafetyError} If the content was blocked
+   */
+  private checkBlocked(data: GeminiResponse, hasContent: boolean): void {
+    if (data.promptFeedback?.blockReason) {
+      throw new AISafetyError(`Gemini blocked the prompt (${data.promptFeedback.blockReason}).`, this.id);
+    }
+    if (!hasContent && data.candidates?.[0]?.finishReason === 'SAFETY') {
+      throw new AISafetyError('Gemini stopped the response for safety reasons.', this.id);
+    }
+  }
+
+  async chat(messages: ChatMessage[], options: AIRequestOptions): Promise<AIResponse> {
+    const modelId = options.model || 'gemini-2.0-flash-exp';
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:generateContent?key=${config.ai.geminiKey}`;
+    const response = await this.request(url, this.body(messages, options), options.signal);
+
+    const data: GeminiResponse = await response.json();
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    const content = parts.filter(part => part.text && !part.thought).map(part => part.text).join('');
+    const toolCalls: AIToolCall[] = parts
+      .filter(part => part.functionCall)
+      .map((part, index) => ({ id: `${part.functionCall.name}-${index}`, name: part.functionCall.name, arguments: part.functionCall.args || {} }));
+    this.checkBlocked(data, !!content || toolCalls.length > 0);
+
+    return {
+      content,
+      usage: {
+        promptTokens: data.usageMetadata?.promptTokenCount || 0,
+        completionTokens: data.usageMetadata?.candidatesTokenCount || 0,
+        totalTokens: data.usageMetadata?.totalTokenCount || 0,
+      },
+      // Gemini finishes with STOP after function calls too
+      stopReason: toolCalls.length > 0 ? 'tool_use' : geminiStopReason(data.candidates?.[0]?.finishReason),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      model: modelId,
+      provider: 'gemini',
+    };
+  }
+
+  async stream(messages: ChatMessage[], options: AIRequestOptions): Promise<AIResponse> {
+    const modelId = options.model || 'gemini-2.0-flash-exp';
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:streamGenerateContent?key=${config.ai.geminiKey}&alt=sse`;
+    const response = await this.request(url, this.body(messages, options), options.signal);
+    const collector = new StreamCollector(options);
+    let lastData: GeminiResponse | null = null;
+    let callCount = 0;
+
+    for await (const { data } of parseSSE(readText(response, this.id, this.name))) {
+      const json = parseJSON(data) as GeminiResponse | null;
+      if (!json) continue;
+      lastData = json;
+
+      const candidate = json.candidates?.[0];
+      for (const part of candidate?.content?.parts || []) {
+        if (part.functionCall) {
+          // Gemini gives calls no ID; results are matched by name and order
+          collector.emit({
+            type: 'tool_call',
+            call: { id: `${part.functionCall.name}-${callCount++}`, name: part.functionCall.name, arguments: part.functionCall.args || {} },
+          });
+        } else if (part.text) {
+          collector.emit({ type: part.thought ? 'thinking' : 'text', text: part.text });
+        }
+      }
+      if (json.usageMetadata) {
+        collector.emit({
+          type: 'usage',
+          model: modelId,
+          usage: {
+            promptTokens: json.usageMetadata.promptTokenCount || 0,
+            completionTokens: json.usageMetadata.candidatesTokenCount || 0,
+            totalTokens: json.usageMetadata.totalTokenCount || 0,
+          },
+        });
+      }
+      if (candidate?.finishReason) {
+        // Gemini finishes with STOP after function calls too
+        collector.emit({ type: 'stop', reason: callCount > 0 ? 'tool_use' : geminiStopReason(candidate.finishReason) });
+      }
+    }
+
+    // Block reasons arrive in the last chunk
+    if (lastData) {
+      this.checkBlocked(lastData, !!collector.content || callCount > 0);
+    }
+
+    return collector.response(modelId, this.id);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview AI Error Classes
+ *
+ * Typed errors raised by the AI provider adapters, so callers can tell a
+ * missing key from a rate limit or an over-long prompt without reading
+ * provider-specific messages. The AI service retries errors marked
+ * `retryable` (see {@link module:services/aiService}).
+ *
+ * @module services/aiErrors
+ */
+
+import type { AIProvider } from './aiService';
+
+/**
+ * Longest wait honoured from a `Retry-After` header
+ */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * Base class of AI request errors
+ */
+export class AIError extends Error {
+  /** Provider that failed */
+  provider: AIProvider;
+  /** HTTP status, if the provider answered */
+  status?: number;
+  /** Whether the same request may succeed later */
+  retryable: boolean;
+  /** Wait asked for by the provider before retrying, in milliseconds */
+  retryAfterMs?: number;
+
+  constructor(message: string, provider: AIProvider, options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.provider = provider;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The API key is missing, invalid or lacks access to the model
+ */
+export class AIAuthError extends AIError {
+  constructor(message: string, provider: AIProvider, status?: number) {
+    super(message, provider, { status });
+    this.name = 'AIAuthError';
+  }
+}
+
+/**
+ * Rate limit hit (retryable) or quota used up (not retryable)
+ */
+export class AIQuotaError extends AIError {
+  constructor(message: string, provider: AIProvider, options: { status?: number; retryable: boolean; retryAfterMs?: number }) {
+    super(message, provider, options);
+    this.name = 'AIQuotaError';
+  }
+}
+
+/**
+ * The provider's safety filters blocked the prompt or the response
+ */
+export class AISafetyError extends AIError {
+  constructor(message: string, provider: AIProvider, status?: number) {
+    super(message, provider, { status });
+    this.name = 'AISafetyError';
+  }
+}
+
+/**
+ * The conversation and notes don't fit the model's context window
+ */
+export class AIContextLengthError extends AIError {
+  constructor(message: string, provider: AIProvider, status?: number) {
+    super(message, provider, { status });
+    this.name = 'AIContextLengthError';
+  }
+}
+
+/**
+ * The provider couldn't be reached or the connection dropped
+ */
+export class AINetworkError extends AIError {
+  constructor(message: string, provider: AIProvider) {
+    super(message, provider, { retryable: true });
+    this.name = 'AINetworkError';
+  }
+}
+
+/**
+ * The provider's hard spending limit is reached, so the request wasn't sent
+ */
+export class AIBudgetError extends AIError {
+  /** Estimated USD spent in the budget period */
+  spent: number;
+  /** Hard limit in USD */
+  limit: number;
+
+  constructor(message: string, provider: AIProvider, spent: number, limit: number) {
+    super(message, provider);
+    this.name = 'AIBudgetError';
+    this.spent = spent;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Check whether an error comes from an aborted request
+ *
+ * @param {unknown} error - Caught error
+ * @returns {boolean} True if the request was cancelled through its AbortSignal
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Parse a `Retry-After` header, given in seconds or as an HTTP date
+ *
+ * @param {string | null} value - Header value
+ * @returns {number | undefined} Wait in milliseconds, capped; undefined if absent or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  if (!Number.isFinite(ms)) return undefined;
+  return Math.min(Math.max(0, ms), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Turn a failed response into a typed error
+ *
+ * Reads the error body of OpenAI-compatible, Anthropic and Gemini APIs.
+ *
+ * @async
+ * @param {AIProvider} provider - Provider that answered
+ * @param {string} name - Provider display name, for the message
+ * @param {Response} response - Response with a non-2xx status
+ * @returns {Promise<AIError>} Matching error
+ */
+export async function errorFromResponse(provider: AIProvider, name: string, response: Response): Promise<AIError> {
+  const body = await response.json().catch(() => null);
+  const detail: string = body?.error?.message || (typeof body?.error === 'string' ? body.error : '') || response.statusText || `HTTP ${response.status}`;
+  const code: string = String(body?.error?.code || body?.error?.type || body?.error?.status || '');
+  const message = `${name} API error: ${detail}`;
+  const { status } = response;
+
+  if (status === 401 || status === 403 || code === 'authentication_error' || code === 'permission_error' || code === 'PERMISSION_DENIED') {
+    return new AIAuthError(message, provider, status);
+  }
+  if (/context.length|context window|too long|too many tokens|maximum context|token limit/i.test(`${code} ${detail}`)) {
+    return new AIContextLengthError(message, provider, status);
+  }
+  if (/content.policy|content.filter|safety/i.test(`${code} ${detail}`)) {
+    return new AISafetyError(message, provider, status);
+  }
+  if (status === 429) {
+    // Used-up quota fails again until billing changes; a rate limit clears
+    const exhausted = code === 'insufficient_quota' || /billing|credit balance/i.test(detail);
+    return new AIQuotaError(message, provider, {
+      status,
+      retryable: !exhausted,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+  // 408 timeout, 409 conflict, 5xx server errors and Anthropic's 529 overloaded
+  const retryable = status === 408 || status === 409 || status >= 500;
+  return new AIError(message, provider, {
+    status,
+    retryable,
+    retryAfterMs: retryable ? parseRetryAfter(response.headers.get('retry-after')) : undefined,
+  });
+}
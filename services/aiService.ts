@@ -2,25 +2,38 @@
  * @fileoverview AI Service with Multi-Provider Support
  *
  * Unified AI service supporting OpenAI (ChatGPT), Anthropic (Claude),
- * and Google Gemini models with extended thinking and web search capabilities.
+ * Google Gemini and self-hosted OpenAI-compatible servers, with extended
+ * thinking and web search capabilities.
  *
  * Features:
- * - Multi-provider support (OpenAI, Anthropic, Gemini)
+ * - Provider adapters in a registry (see {@link module:services/aiAdapters})
+ * - Multi-provider support (OpenAI, Anthropic, Gemini, Ollama/vLLM/LM Studio)
  * - Streaming responses
  * - Extended thinking mode (Claude extended thinking)
  * - Web search integration
  * - Vision/image analysis support
- * - Error handling and retries
+ * - Pluggable text embeddings (OpenAI, Gemini or a local offline stub)
+ * - Usage ledger and spending budgets (see {@link module:services/usageService})
+ * - Function calling: OpenAI tools, Anthropic tool_use and Gemini
+ *   functionDeclarations behind one tool definition format
+ * - Cancellation through an AbortSignal
+ * - Typed errors (see {@link module:services/aiErrors}) and retries with
+ *   exponential backoff for rate limits, server and network errors
  *
  * @module services/aiService
  */
 
 import { config } from '../config/env';
+import { hashedNgramEmbedding } from '../utils/embedding';
+import { estimateTokens } from '../utils/chatContext';
+import { OpenAICompatibleAdapter, AnthropicAdapter, GeminiAdapter, OPENAI_MODELS } from './aiAdapters';
+import { AIError, AIBudgetError, errorFromResponse, isAbortError } from './aiErrors';
+import { usageService, AIFeature, BudgetStatus } from './usageService';
 
 /**
- * AI Provider types
+ * AI Provider types; 'local' is a self-hosted OpenAI-compatible server
  */
-export type AIProvider = 'openai' | 'anthropic' | 'gemini';
+export type AIProvider = 'openai' | 'anthropic' | 'gemini' | 'local';
 
 /**
  * AI Model configurations
@@ -36,9 +49,9 @@ export interface AIModel {
 }
 
 /**
- * Message role types
+ * Message role types; 'tool' messages carry the result of a tool call
  */
-export type MessageRole = 'user' | 'assistant' | 'system';
+export type MessageRole = 'user' | 'assistant' | 'system' | 'tool';
 
 /**
  * Chat message structure
@@ -47,6 +60,21 @@ export interface ChatMessage {
   role: MessageRole;
   content: string;
   thinking?: string; // Extended thinking content (Claude)
+  toolCalls?: AIToolCall[]; // Calls requested by an assistant message
+  toolCallId?: string; // Call a tool message answers
+  toolName?: string; // Tool a tool message answers; Gemini matches results by name
+}
+
+/**
+ * A function the model may call
+ */
+export interface AITool {
+  /** Name the model calls it by, e.g. 'search_notes' */
+  name: string;
+  /** What it does and when to use it, read by the model */
+  description: string;
+  /** JSON Schema of the arguments object; keep to type, description, properties, required and enum, which every provider accepts */
+  parameters: Record<string, unknown>;
 }
 
 /**
@@ -61,6 +89,54 @@ export interface AIRequestOptions {
   useWebSearch?: boolean;
   systemPrompt?: string;
   onStream?: (content: string) => void; // Callback for streaming content
+  onEvent?: (event: AIStreamEvent) => void; // Callback for every stream event, see AIStreamEvent
+  signal?: AbortSignal; // Cancels the request, including retries
+  maxRetries?: number; // Retries of retryable errors (default: 3)
+  onRetry?: (error: AIError, attempt: number, delayMs: number) => void; // Called before waiting to retry
+  feature?: AIFeature; // What made the request, for the usage ledger (default: 'other')
+  onBudgetWarning?: (status: BudgetStatus) => void; // Called when the provider's soft budget is reached
+  tools?: AITool[]; // Functions the model may call; ignored by providers without tool support
+}
+
+/**
+ * Retries of retryable errors unless the request says otherwise
+ */
+const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * First backoff delay; doubles with each retry
+ */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Longest backoff delay
+ */
+const RETRY_MAX_DELAY_MS = 30000;
+
+/**
+ * Wait before retrying, or stop early when the request is cancelled
+ *
+ * @param {number} ms - Delay in milliseconds
+ * @param {AbortSignal} [signal] - Cancels the wait
+ * @returns {Promise<void>} Resolves after the delay
+ * @throws {DOMException} AbortError if cancelled
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was cancelled.', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was cancelled.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -71,122 +147,102 @@ export interface GeminiSafetySettings {
   threshold: 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
 }
 
+/**
+ * Token usage of a request
+ */
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Why the model stopped
+ * - end: finished its answer
+ * - max_tokens: hit the response token limit
+ * - tool_use: wants tool results before going on
+ * - safety: stopped by the provider's safety filters
+ * - other: any other reason the provider gives
+ */
+export type AIStopReason = 'end' | 'max_tokens' | 'tool_use' | 'safety' | 'other';
+
+/**
+ * A function call requested by the model
+ */
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Event of a streaming response, in arrival order
+ * - text / thinking: next piece of the answer or of the model's reasoning
+ * - tool_call: a complete function call
+ * - usage: token counts and the model they were spent on, possibly sent
+ *   more than once with growing totals
+ * - stop: the answer is complete
+ */
+export type AIStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_call'; call: AIToolCall }
+  | { type: 'usage'; usage: AIUsage; model: string }
+  | { type: 'stop'; reason: AIStopReason };
+
 /**
  * AI Response structure
  */
 export interface AIResponse {
   content: string;
   thinking?: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: AIUsage;
+  stopReason?: AIStopReason;
+  toolCalls?: AIToolCall[];
   model: string;
   provider: AIProvider;
 }
 
 /**
- * Available AI models per provider
+ * Embedding provider, turning texts into vectors for the semantic index
+ */
+export interface EmbeddingProvider {
+  /** Stable ID, stored with each vector; change it when the model changes so notes are re-embedded */
+  id: string;
+  name: string;
+  /** Most texts sent in one request */
+  batchSize: number;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+/**
+ * What a provider supports
  */
-const AI_MODELS: Record<AIProvider, AIModel[]> = {
-  openai: [
-    {
-      provider: 'openai',
-      id: 'gpt-4o',
-      name: 'GPT-4o',
-      supportsThinking: false,
-      supportsVision: true,
-      supportsWebSearch: true,
-      maxTokens: 128000,
-    },
-    {
-      provider: 'openai',
-      id: 'gpt-4o-mini',
-      name: 'GPT-4o Mini',
-      supportsThinking: false,
-      supportsVision: true,
-      supportsWebSearch: true,
-      maxTokens: 128000,
-    },
-    {
-      provider: 'openai',
-      id: 'o1',
-      name: 'O1',
-      supportsThinking: true,
-      supportsVision: false,
-      supportsWebSearch: false,
-      maxTokens: 100000,
-    },
-    {
-      provider: 'openai',
-      id: 'o1-mini',
-      name: 'O1 Mini',
-      supportsThinking: true,
-      supportsVision: false,
-      supportsWebSearch: false,
-      maxTokens: 65536,
-    },
-  ],
-  anthropic: [
-    {
-      provider: 'anthropic',
-      id: 'claude-sonnet-4',
-      name: 'Claude Sonnet 4',
-      supportsThinking: true,
-      supportsVision: true,
-      supportsWebSearch: false,
-      maxTokens: 200000,
-    },
-    {
-      provider: 'anthropic',
-      id: 'claude-opus-4',
-      name: 'Claude Opus 4',
-      supportsThinking: true,
-      supportsVision: true,
-      supportsWebSearch: false,
-      maxTokens: 200000,
-    },
-    {
-      provider: 'anthropic',
-      id: 'claude-haiku-4',
-      name: 'Claude Haiku 4',
-      supportsThinking: false,
-      supportsVision: true,
-      supportsWebSearch: false,
-      maxTokens: 200000,
-    },
-  ],
-  gemini: [
-    {
-      provider: 'gemini',
-      id: 'gemini-2.0-flash-thinking-exp',
-      name: 'Gemini 2.0 Flash Thinking',
-      supportsThinking: true,
-      supportsVision: true,
-      supportsWebSearch: true,
-      maxTokens: 32768,
-    },
-    {
-      provider: 'gemini',
-      id: 'gemini-2.0-flash-exp',
-      name: 'Gemini 2.0 Flash',
-      supportsThinking: false,
-      supportsVision: true,
-      supportsWebSearch: true,
-      maxTokens: 32768,
-    },
-    {
-      provider: 'gemini',
-      id: 'gemini-1.5-pro',
-      name: 'Gemini 1.5 Pro',
-      supportsThinking: false,
-      supportsVision: true,
-      supportsWebSearch: true,
-      maxTokens: 2097152,
-    },
-  ],
-};
+export interface AIProviderCapabilities {
+  streaming: boolean;
+  thinking: boolean;
+  webSearch: boolean;
+  vision: boolean;
+  tools: boolean;
+}
+
+/**
+ * Adapter between the AI service and one provider's API
+ */
+export interface AIProviderAdapter {
+  id: AIProvider;
+  /** Display name */
+  name: string;
+  capabilities: AIProviderCapabilities;
+  /** Whether credentials or a server URL are configured */
+  isConfigured: () => boolean;
+  /** Models offered by the provider */
+  listModels: () => Promise<AIModel[]>;
+  /** Complete a conversation */
+  chat: (messages: ChatMessage[], options: AIRequestOptions) => Promise<AIResponse>;
+  /** Complete a conversation, reporting each stream event to `options.onEvent` and text to `options.onStream` */
+  stream: (messages: ChatMessage[], options: AIRequestOptions) => Promise<AIResponse>;
+}
 
 /**
  * AI Service Class
@@ -195,542 +251,302 @@ const AI_MODELS: Record<AIProvider, AIModel[]> = {
  */
 class AIService {
   /**
-   * Get all available models across all providers
-   *
-   * @returns {AIModel[]} Array of available models
+   * Registered provider adapters by ID
+   * @private
+   */
+  private providers: Map<AIProvider, AIProviderAdapter> = new Map();
+
+  /**
+   * Last model list of each provider, for synchronous lookups
+   * @private
    */
-  getAvailableModels(): AIModel[] {
-    const models: AIModel[] = [];
+  private modelCache: Map<AIProvider, AIModel[]> = new Map();
 
+  /**
+   * Registered embedding providers by ID
+   * @private
+   */
+  private embeddingProviders: Map<string, EmbeddingProvider> = new Map();
+
+  /**
+   * ID of the embedding provider in use
+   * @private
+   */
+  private embeddingProviderId: string;
+
+  constructor() {
+    this.registerProvider(new OpenAICompatibleAdapter({
+      id: 'openai',
+      name: 'OpenAI (ChatGPT)',
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: config.ai.openaiKey,
+      models: OPENAI_MODELS,
+      capabilities: { streaming: true, thinking: true, webSearch: true, vision: true, tools: true },
+    }));
+    this.registerProvider(new AnthropicAdapter());
+    this.registerProvider(new GeminiAdapter());
+    this.registerProvider(new OpenAICompatibleAdapter({
+      id: 'local',
+      name: 'Local server',
+      baseUrl: config.ai.localBaseUrl,
+      apiKey: config.ai.localApiKey,
+      // Not every served model supports function calling
+      capabilities: { streaming: true, thinking: false, webSearch: false, vision: false, tools: false },
+    }));
+
+    this.registerEmbeddingProvider({
+      id: 'local',
+      name: 'Local (offline)',
+      batchSize: 1000,
+      embed: async (texts) => texts.map(text => hashedNgramEmbedding(text)),
+    });
     if (config.ai.openaiKey) {
-      models.push(...AI_MODELS.openai);
-    }
-    if (config.ai.anthropicKey) {
-      models.push(...AI_MODELS.anthropic);
+      this.registerEmbeddingProvider({
+        id: 'openai:text-embedding-3-small',
+        name: 'OpenAI text-embedding-3-small',
+        batchSize: 100,
+        embed: (texts) => this.embedOpenAI(texts, 'text-embedding-3-small'),
+      });
     }
     if (config.ai.geminiKey) {
-      models.push(...AI_MODELS.gemini);
+      this.registerEmbeddingProvider({
+        id: 'gemini:text-embedding-004',
+        name: 'Gemini text-embedding-004',
+        batchSize: 100,
+        embed: (texts) => this.embedGemini(texts, 'text-embedding-004'),
+      });
     }
 
-    return models;
+    // Notes only leave the device for embedding when a remote provider is configured
+    const preferred = config.ai.embeddingProvider;
+    const match = Array.from(this.embeddingProviders.keys())
+      .find(id => id === preferred || id.startsWith(`${preferred}:`));
+    this.embeddingProviderId = match || 'local';
   }
 
   /**
-   * Get models for a specific provider
+   * Add a provider adapter, replacing one with the same ID
    *
-   * @param {AIProvider} provider - Provider name
-   * @returns {AIModel[]} Array of models for the provider
+   * @param {AIProviderAdapter} adapter - Adapter to add
+   * @returns {void}
    */
-  getProviderModels(provider: AIProvider): AIModel[] {
-    return AI_MODELS[provider] || [];
+  registerProvider(adapter: AIProviderAdapter): void {
+    this.providers.set(adapter.id, adapter);
+    this.modelCache.delete(adapter.id);
   }
 
   /**
-   * Chat completion with OpenAI
+   * Get the configured providers
    *
-   * @private
-   * @param {ChatMessage[]} messages - Conversation messages
-   * @param {AIRequestOptions} options - Request options
-   * @returns {Promise<AIResponse>} AI response
+   * @returns {AIProviderAdapter[]} Providers in registration order
+   *
+   * @example
+   * ```tsx
+   * {aiService.getProviders().map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+   * ```
    */
-  private async chatOpenAI(
-    messages: ChatMessage[],
-    options: AIRequestOptions
-  ): Promise<AIResponse> {
-    // Use streaming if callback is provided
-    if (options.stream && options.onStream) {
-      return this.chatOpenAIStream(messages, options);
-    }
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.ai.openaiKey}`,
-      },
-      body: JSON.stringify({
-        model: options.model || 'gpt-4o',
-        messages: messages.map(m => ({ role: m.role, content: m.content })),
-        max_tokens: options.maxTokens || 4096,
-        temperature: options.temperature ?? 0.7,
-        stream: false,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
-    }
-
-    const data = await response.json();
-
-    return {
-      content: data.choices[0].message.content,
-      usage: {
-        promptTokens: data.usage.prompt_tokens,
-        completionTokens: data.usage.completion_tokens,
-        totalTokens: data.usage.total_tokens,
-      },
-      model: data.model,
-      provider: 'openai',
-    };
+  getProviders(): AIProviderAdapter[] {
+    return Array.from(this.providers.values()).filter(adapter => adapter.isConfigured());
   }
 
   /**
-   * Streaming chat completion with OpenAI
+   * Get a registered provider
    *
    * @private
-   * @param {ChatMessage[]} messages - Conversation messages
-   * @param {AIRequestOptions} options - Request options
-   * @returns {Promise<AIResponse>} AI response
+   * @param {AIProvider} provider - Provider ID
+   * @returns {AIProviderAdapter} Adapter
+   * @throws {Error} If no adapter has that ID
    */
-  private async chatOpenAIStream(
-    messages: ChatMessage[],
-    options: AIRequestOptions
-  ): Promise<AIResponse> {
-    const model = options.model || 'gpt-4o';
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.ai.openaiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: messages.map(m => ({ role: m.role, content: m.content })),
-        max_tokens: options.maxTokens || 4096,
-        temperature: options.temperature ?? 0.7,
-        stream: true,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
+  private getAdapter(provider: AIProvider): AIProviderAdapter {
+    const adapter = this.providers.get(provider);
+    if (!adapter) {
+      throw new Error(`Unsupported provider: ${provider}`);
     }
+    return adapter;
+  }
 
-    // Process streaming response
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let fullContent = '';
+  /**
+   * List the models of a provider, asking self-hosted servers which they serve
+   *
+   * @param {AIProvider} provider - Provider ID
+   * @returns {Promise<AIModel[]>} Models of the provider
+   */
+  async listModels(provider: AIProvider): Promise<AIModel[]> {
+    const adapter = this.providers.get(provider);
+    if (!adapter) return [];
+    const models = await adapter.listModels();
+    this.modelCache.set(provider, models);
+    return models;
+  }
 
-    if (reader) {
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') continue;
-
-              try {
-                const jsonData = JSON.parse(data);
-                const content = jsonData.choices[0]?.delta?.content;
-
-                if (content) {
-                  fullContent += content;
-                  if (options.onStream) {
-                    options.onStream(content);
-                  }
-                }
-              } catch (e) {
-                // Skip invalid JSON lines
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock();
-      }
-    }
+  /**
+   * Get all available models across the configured providers
+   *
+   * @returns {Promise<AIModel[]>} Array of available models
+   */
+  async getAvailableModels(): Promise<AIModel[]> {
+    const lists = await Promise.all(this.getProviders().map(adapter => this.listModels(adapter.id)));
+    return lists.flat();
+  }
 
-    return {
-      content: fullContent,
-      usage: {
-        promptTokens: 0,
-        completionTokens: 0,
-        totalTokens: 0,
-      },
-      model,
-      provider: 'openai',
-    };
+  /**
+   * Get the models of a provider known so far, without waiting for discovery
+   *
+   * @param {AIProvider} provider - Provider name
+   * @returns {AIModel[]} Models listed last by {@link AIService#listModels}; empty before that for discovered providers
+   */
+  getProviderModels(provider: AIProvider): AIModel[] {
+    return this.modelCache.get(provider) || [];
   }
 
   /**
-   * Chat completion with Anthropic Claude
+   * Add an embedding provider, replacing one with the same ID
    *
-   * @private
-   * @param {ChatMessage[]} messages - Conversation messages
-   * @param {AIRequestOptions} options - Request options
-   * @returns {Promise<AIResponse>} AI response
+   * @param {EmbeddingProvider} provider - Provider to add
+   * @returns {void}
    */
-  private async chatAnthropic(
-    messages: ChatMessage[],
-    options: AIRequestOptions
-  ): Promise<AIResponse> {
-    // Use streaming if callback is provided
-    if (options.stream && options.onStream) {
-      return this.chatAnthropicStream(messages, options);
-    }
+  registerEmbeddingProvider(provider: EmbeddingProvider): void {
+    this.embeddingProviders.set(provider.id, provider);
+  }
 
-    // Extract system message if present
-    const systemMessage = messages.find(m => m.role === 'system');
-    const conversationMessages = messages.filter(m => m.role !== 'system');
+  /**
+   * Get the registered embedding providers
+   *
+   * @returns {EmbeddingProvider[]} Providers in registration order
+   */
+  getEmbeddingProviders(): EmbeddingProvider[] {
+    return Array.from(this.embeddingProviders.values());
+  }
 
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.ai.anthropicKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: options.model || 'claude-sonnet-4',
-        max_tokens: options.maxTokens || 4096,
-        temperature: options.temperature ?? 0.7,
-        system: systemMessage?.content || undefined,
-        messages: conversationMessages.map(m => ({
-          role: m.role === 'user' ? 'user' : 'assistant',
-          content: m.content,
-        })),
-        // Enable extended thinking if supported and requested
-        thinking: options.useThinking && config.ai.enableExtendedThinking
-          ? { type: 'enabled', budget_tokens: 10000 }
-          : undefined,
-      }),
-    });
+  /**
+   * Get the embedding provider in use
+   *
+   * @returns {EmbeddingProvider} Active provider
+   */
+  getEmbeddingProvider(): EmbeddingProvider {
+    return this.embeddingProviders.get(this.embeddingProviderId)!;
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Anthropic API error: ${error.error?.message || response.statusText}`);
+  /**
+   * Switch the embedding provider
+   *
+   * @param {string} id - ID of a registered provider
+   * @returns {void}
+   * @throws {Error} If no provider has that ID
+   */
+  setEmbeddingProvider(id: string): void {
+    if (!this.embeddingProviders.has(id)) {
+      throw new Error(`Unknown embedding provider: ${id}`);
     }
-
-    const data = await response.json();
-
-    // Extract thinking content if present
-    const thinkingBlock = data.content.find((block: any) => block.type === 'thinking');
-    const textBlock = data.content.find((block: any) => block.type === 'text');
-
-    return {
-      content: textBlock?.text || '',
-      thinking: thinkingBlock?.thinking || undefined,
-      usage: {
-        promptTokens: data.usage.input_tokens,
-        completionTokens: data.usage.output_tokens,
-        totalTokens: data.usage.input_tokens + data.usage.output_tokens,
-      },
-      model: data.model,
-      provider: 'anthropic',
-    };
+    this.embeddingProviderId = id;
   }
 
   /**
-   * Streaming chat completion with Anthropic Claude
+   * Embed texts with the active embedding provider
    *
-   * @private
-   * @param {ChatMessage[]} messages - Conversation messages
-   * @param {AIRequestOptions} options - Request options
-   * @returns {Promise<AIResponse>} AI response
+   * @param {string[]} texts - Texts to embed
+   * @returns {Promise<number[][]>} One vector per text, in order
+   *
+   * @example
+   * ```typescript
+   * const [vector] = await aiService.embed(['heart failure treatment']);
+   * ```
    */
-  private async chatAnthropicStream(
-    messages: ChatMessage[],
-    options: AIRequestOptions
-  ): Promise<AIResponse> {
-    const model = options.model || 'claude-sonnet-4';
-
-    // Extract system message if present
-    const systemMessage = messages.find(m => m.role === 'system');
-    const conversationMessages = messages.filter(m => m.role !== 'system');
-
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.ai.anthropicKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: options.maxTokens || 4096,
-        temperature: options.temperature ?? 0.7,
-        system: systemMessage?.content || undefined,
-        messages: conversationMessages.map(m => ({
-          role: m.role === 'user' ? 'user' : 'assistant',
-          content: m.content,
-        })),
-        stream: true,
-        // Enable extended thinking if supported and requested
-        thinking: options.useThinking && config.ai.enableExtendedThinking
-          ? { type: 'enabled', budget_tokens: 10000 }
-          : undefined,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Anthropic API error: ${error.error?.message || response.statusText}`);
+  async embed(texts: string[]): Promise<number[][]> {
+    const provider = this.getEmbeddingProvider();
+    // Remote embedding providers are named '<chat provider>:<model>' and share its budget
+    const [owner] = provider.id.split(':');
+    if (texts.length > 0 && this.providers.has(owner as AIProvider)) {
+      await this.checkBudget(owner as AIProvider, {});
     }
-
-    // Process streaming response
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let fullContent = '';
-    let thinkingContent = '';
-
-    if (reader) {
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-
-              try {
-                const jsonData = JSON.parse(data);
-
-                // Handle content blocks
-                if (jsonData.type === 'content_block_delta') {
-                  if (jsonData.delta?.type === 'text_delta') {
-                    const text = jsonData.delta.text;
-                    fullContent += text;
-                    if (options.onStream) {
-                      options.onStream(text);
-                    }
-                  } else if (jsonData.delta?.type === 'thinking_delta') {
-                    thinkingContent += jsonData.delta.thinking;
-                  }
-                }
-              } catch (e) {
-                // Skip invalid JSON lines
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock();
-      }
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += provider.batchSize) {
+      vectors.push(...await provider.embed(texts.slice(i, i + provider.batchSize)));
     }
-
-    return {
-      content: fullContent,
-      thinking: thinkingContent || undefined,
-      usage: {
-        promptTokens: 0,
-        completionTokens: 0,
-        totalTokens: 0,
-      },
-      model,
-      provider: 'anthropic',
-    };
+    return vectors;
   }
 
   /**
-   * Chat completion with Google Gemini
+   * Embed texts with OpenAI
    *
    * @private
-   * @param {ChatMessage[]} messages - Conversation messages
-   * @param {AIRequestOptions} options - Request options
-   * @returns {Promise<AIResponse>} AI response
+   * @param {string[]} texts - Texts to embed
+   * @param {string} model - Embedding model ID
+   * @returns {Promise<number[][]>} One vector per text
    */
-  private async chatGemini(
-    messages: ChatMessage[],
-    options: AIRequestOptions
-  ): Promise<AIResponse> {
-    const modelId = options.model || 'gemini-2.0-flash-exp';
-
-    // Use streaming if callback is provided
-    if (options.stream && options.onStream) {
-      return this.chatGeminiStream(messages, options);
-    }
-
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:generateContent?key=${config.ai.geminiKey}`;
-
-    // Convert messages to Gemini format
-    const contents = messages
-      .filter(m => m.role !== 'system')
-      .map(m => ({
-        role: m.role === 'user' ? 'user' : 'model',
-        parts: [{ text: m.content }],
-      }));
-
-    const systemInstruction = messages.find(m => m.role === 'system');
-
-    // Default safety settings - block only high-risk content
-    const safetySettings = [
-      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
-      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
-      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
-      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
-    ];
-
-    const response = await fetch(url, {
+  private async embedOpenAI(texts: string[], model: string): Promise<number[][]> {
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.ai.openaiKey}`,
       },
-      body: JSON.stringify({
-        contents,
-        systemInstruction: systemInstruction ? {
-          parts: [{ text: systemInstruction.content }],
-        } : undefined,
-        safetySettings,
-        generationConfig: {
-          temperature: options.temperature ?? 0.7,
-          maxOutputTokens: options.maxTokens || 4096,
-        },
-      }),
+      body: JSON.stringify({ model, input: texts }),
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Gemini API error: ${error.error?.message || response.statusText}`);
+      throw await errorFromResponse('openai', 'OpenAI', response);
     }
 
     const data = await response.json();
-    const candidate = data.candidates[0];
-    const content = candidate.content.parts[0].text;
-
-    return {
-      content,
-      usage: {
-        promptTokens: data.usageMetadata?.promptTokenCount || 0,
-        completionTokens: data.usageMetadata?.candidatesTokenCount || 0,
-        totalTokens: data.usageMetadata?.totalTokenCount || 0,
-      },
-      model: modelId,
-      provider: 'gemini',
-    };
+    this.recordUsage('openai', model, 'index', {
+      promptTokens: data.usage?.prompt_tokens || 0,
+      completionTokens: 0,
+      totalTokens: data.usage?.total_tokens || 0,
+    });
+    return (data.data as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
   }
 
   /**
-   * Streaming chat completion with Google Gemini
+   * Embed texts with Gemini
    *
    * @private
-   * @param {ChatMessage[]} messages - Conversation messages
-   * @param {AIRequestOptions} options - Request options
-   * @returns {Promise<AIResponse>} AI response
+   * @param {string[]} texts - Texts to embed
+   * @param {string} model - Embedding model ID
+   * @returns {Promise<number[][]>} One vector per text
    */
-  private async chatGeminiStream(
-    messages: ChatMessage[],
-    options: AIRequestOptions
-  ): Promise<AIResponse> {
-    const modelId = options.model || 'gemini-2.0-flash-exp';
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:streamGenerateContent?key=${config.ai.geminiKey}&alt=sse`;
-
-    // Convert messages to Gemini format
-    const contents = messages
-      .filter(m => m.role !== 'system')
-      .map(m => ({
-        role: m.role === 'user' ? 'user' : 'model',
-        parts: [{ text: m.content }],
-      }));
-
-    const systemInstruction = messages.find(m => m.role === 'system');
-
-    // Default safety settings - block only high-risk content
-    const safetySettings = [
-      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
-      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
-      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
-      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
-    ];
-
+  private async embedGemini(texts: string[], model: string): Promise<number[][]> {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${config.ai.geminiKey}`;
     const response = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        contents,
-        systemInstruction: systemInstruction ? {
-          parts: [{ text: systemInstruction.content }],
-        } : undefined,
-        safetySettings,
-        generationConfig: {
-          temperature: options.temperature ?? 0.7,
-          maxOutputTokens: options.maxTokens || 4096,
-        },
+        requests: texts.map(text => ({ model: `models/${model}`, content: { parts: [{ text }] } })),
       }),
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Gemini API error: ${error.error?.message || response.statusText}`);
+      throw await errorFromResponse('gemini', 'Gemini', response);
     }
 
-    // Process streaming response
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let fullContent = '';
-    let usageMetadata = { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 };
-
-    if (reader) {
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n');
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const jsonData = JSON.parse(line.slice(6));
-
-                if (jsonData.candidates && jsonData.candidates[0]?.content?.parts) {
-                  const text = jsonData.candidates[0].content.parts[0]?.text || '';
-                  if (text) {
-                    fullContent += text;
-                    if (options.onStream) {
-                      options.onStream(text);
-                    }
-                  }
-                }
-
-                if (jsonData.usageMetadata) {
-                  usageMetadata = jsonData.usageMetadata;
-                }
-              } catch (e) {
-                // Skip invalid JSON lines
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock();
-      }
-    }
-
-    return {
-      content: fullContent,
-      usage: {
-        promptTokens: usageMetadata.promptTokenCount || 0,
-        completionTokens: usageMetadata.candidatesTokenCount || 0,
-        totalTokens: usageMetadata.totalTokenCount || 0,
-      },
-      model: modelId,
-      provider: 'gemini',
-    };
+    const data = await response.json();
+    // batchEmbedContents reports no token counts
+    const promptTokens = texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+    this.recordUsage('gemini', model, 'index', { promptTokens, completionTokens: 0, totalTokens: promptTokens });
+    return (data.embeddings as Array<{ values: number[] }>).map(item => item.values);
   }
 
   /**
    * Send chat request to AI provider
    *
+   * Streams when `options.stream` is set and an `onStream` or `onEvent`
+   * callback is given. When the model calls tools from `options.tools`,
+   * the response lists them in `toolCalls`; send their results back as
+   * 'tool' messages after the assistant message to continue.
+   * Retryable errors (rate limits, server and network errors) are retried
+   * with exponential backoff, honouring the provider's `Retry-After`, as
+   * long as nothing has been streamed yet. Cancelling `options.signal`
+   * rejects with an AbortError.
+   *
    * @param {ChatMessage[]} messages - Conversation messages
    * @param {AIProvider} provider - AI provider to use
    * @param {AIRequestOptions} options - Request options
    * @returns {Promise<AIResponse>} AI response
+   * @throws {AIError} Typed error from {@link module:services/aiErrors} once retries are used up
    *
    * @example
    * ```typescript
@@ -745,21 +561,104 @@ class AIService {
     provider: AIProvider,
     options: AIRequestOptions = {}
   ): Promise<AIResponse> {
-    try {
-      switch (provider) {
-        case 'openai':
-          return await this.chatOpenAI(messages, options);
-        case 'anthropic':
-          return await this.chatAnthropic(messages, options);
-        case 'gemini':
-          return await this.chatGemini(messages, options);
-        default:
-          throw new Error(`Unsupported provider: ${provider}`);
+    await this.checkBudget(provider, options);
+
+    const feature = options.feature || 'other';
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    for (let attempt = 0; ; attempt++) {
+      // A retry would repeat text the caller already received
+      let streamed = false;
+      // Tokens of a stream so far and the model the adapter chose, recorded if it is cancelled
+      let streamUsage: { usage: AIUsage; model: string } | null = null;
+      try {
+        const adapter = this.getAdapter(provider);
+        const request = adapter.capabilities.tools ? options : { ...options, tools: undefined };
+        let response: AIResponse;
+        if (options.stream && (options.onStream || options.onEvent) && adapter.capabilities.streaming) {
+          response = await adapter.stream(messages, {
+            ...request,
+            onEvent: (event) => {
+              if (event.type === 'usage') streamUsage = { usage: event.usage, model: event.model };
+              else streamed = true;
+              options.onEvent?.(event);
+            },
+          });
+        } else {
+          response = await adapter.chat(messages, request);
+        }
+        this.recordUsage(provider, response.model || options.model || '', feature, response.usage);
+        return response;
+      } catch (error) {
+        if (isAbortError(error)) {
+          if (streamUsage) this.recordUsage(provider, streamUsage.model, feature, streamUsage.usage);
+          throw error;
+        }
+        if (error instanceof AIError && error.retryable && !streamed && attempt < maxRetries) {
+          const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+          // Jitter spreads out retries of requests that failed together
+          const delayMs = error.retryAfterMs ?? backoff / 2 + Math.random() * backoff / 2;
+          options.onRetry?.(error, attempt + 1, delayMs);
+          await sleep(delayMs, options.signal);
+          continue;
+        }
+        console.error(`AI Service Error (${provider}):`, error);
+        throw error;
       }
+    }
+  }
+
+  /**
+   * Refuse the request past the provider's hard budget, warn past the soft one
+   *
+   * @private
+   * @param {AIProvider} provider - Provider about to be used
+   * @param {AIRequestOptions} options - Request options, for the warning callback
+   * @returns {Promise<void>}
+   * @throws {AIBudgetError} If the hard budget is reached
+   */
+  private async checkBudget(provider: AIProvider, options: AIRequestOptions): Promise<void> {
+    let status: BudgetStatus | null;
+    try {
+      status = await usageService.checkBudget(provider);
     } catch (error) {
-      console.error(`AI Service Error (${provider}):`, error);
-      throw error;
+      // An unreadable ledger shouldn't block AI features
+      console.error('Failed to check AI budget:', error);
+      return;
     }
+    if (!status || status.level === 'ok') return;
+
+    const period = status.budget.period === 'day' ? 'daily' : 'monthly';
+    if (status.level === 'hard') {
+      throw new AIBudgetError(
+        `The ${period} budget for ${provider} is used up ($${status.spent.toFixed(2)} of $${status.budget.hard!.toFixed(2)}).`,
+        provider,
+        status.spent,
+        status.budget.hard!
+      );
+    }
+    console.warn(`AI budget warning (${provider}): $${status.spent.toFixed(2)} spent of the ${period} soft limit $${status.budget.soft!.toFixed(2)}`);
+    options.onBudgetWarning?.(status);
+  }
+
+  /**
+   * Add a request to the usage ledger
+   *
+   * @private
+   * @param {AIProvider} provider - Provider used
+   * @param {string} model - Model used
+   * @param {AIFeature} feature - Feature that made the request
+   * @param {AIUsage | null} [usage] - Reported tokens; nothing is recorded without them
+   * @returns {void}
+   */
+  private recordUsage(provider: AIProvider, model: string, feature: AIFeature, usage?: AIUsage | null): void {
+    if (!usage || usage.totalTokens === 0) return;
+    usageService.record({
+      provider,
+      model,
+      feature,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    });
   }
 
   /**
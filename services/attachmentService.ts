@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Attachment Service
+ *
+ * Stores images and PDFs added to notes as separate blobs in IndexedDB,
+ * so note HTML only holds a short reference instead of a base64 `data:`
+ * URL. See {@link module:utils/attachments} for the reference format.
+ *
+ * Features:
+ * - Add files as attachments, returning their ID
+ * - Object URLs for displaying attachments in the editor, cached per ID
+ * - Conversion of legacy inline `data:` URLs into attachments
+ *
+ * @module services/attachmentService
+ */
+
+import { storageService, StoredBlob } from './storageService';
+import {
+  ATTACHMENT_ID_ATTRIBUTE,
+  attachmentPath,
+  createAttachmentId,
+} from '../utils/attachments';
+
+/**
+ * AttachmentService Class
+ *
+ * Singleton wrapping the blob store with an object URL cache.
+ *
+ * @class AttachmentService
+ */
+class AttachmentService {
+  /**
+   * Object URLs by attachment ID, kept for the lifetime of the page
+   * @private
+   */
+  private objectUrls: Map<string, string> = new Map();
+
+  /**
+   * Store a file as a new attachment
+   *
+   * @async
+   * @param {Blob} file - File or blob to store
+   * @param {string} name - Original file name
+   * @returns {Promise<string>} The new attachment ID
+   *
+   * @example
+   * ```typescript
+   * const id = await attachmentService.add(file, file.name);
+   * const html = `<img src="${attachmentPath(id)}" data-attachment-id="${id}">`;
+   * ```
+   */
+  async add(file: Blob, name: string): Promise<string> {
+    const id = createAttachmentId(name);
+    await this.put({
+      id,
+      blob: file,
+      name,
+      type: file.type || 'application/octet-stream',
+      createdAt: new Date().toISOString(),
+    });
+    return id;
+  }
+
+  /**
+   * Store an attachment under a known ID, e.g. one downloaded from Drive
+   *
+   * @async
+   * @param {StoredBlob} record - Attachment with its ID
+   * @returns {Promise<void>}
+   */
+  async put(record: StoredBlob): Promise<void> {
+    await storageService.putBlob(record);
+    this.objectUrls.set(record.id, URL.createObjectURL(record.blob));
+  }
+
+  /**
+   * Read an attachment
+   *
+   * @async
+   * @param {string} id - Attachment ID
+   * @returns {Promise<StoredBlob | null>} The attachment, or null if missing
+   */
+  get(id: string): Promise<StoredBlob | null> {
+    return storageService.getBlob(id);
+  }
+
+  /**
+   * Check whether an attachment is stored locally
+   *
+   * @async
+   * @param {string} id - Attachment ID
+   * @returns {Promise<boolean>} True if the blob exists
+   */
+  async has(id: string): Promise<boolean> {
+    return this.objectUrls.has(id) || (await storageService.getBlob(id)) !== null;
+  }
+
+  /**
+   * Get an object URL for displaying an attachment
+   *
+   * @async
+   * @param {string} id - Attachment ID
+   * @returns {Promise<string | null>} Object URL, or null if the attachment is missing
+   */
+  async getObjectUrl(id: string): Promise<string | null> {
+    const cached = this.objectUrls.get(id);
+    if (cached) return cached;
+
+    const record = await storageService.getBlob(id);
+    if (!record) return null;
+
+    const url = URL.createObjectURL(record.blob);
+    this.objectUrls.set(id, url);
+    return url;
+  }
+
+  /**
+   * Point attachment elements under a root at their object URLs
+   *
+   * Missing attachments keep their relative path, which shows as a broken
+   * image until the blob is synced.
+   *
+   * @async
+   * @param {ParentNode} root - Rendered note content
+   * @returns {Promise<void>}
+   */
+  async resolveUrls(root: ParentNode): Promise<void> {
+    const elements = Array.from(root.querySelectorAll(`[${ATTACHMENT_ID_ATTRIBUTE}]`));
+    await Promise.all(elements.map(async element => {
+      const url = await this.getObjectUrl(element.getAttribute(ATTACHMENT_ID_ATTRIBUTE)!);
+      if (url) {
+        element.setAttribute(element.tagName === 'A' ? 'href' : 'src', url);
+      }
+    }));
+  }
+
+  /**
+   * Move inline `data:` images and PDF links under a root into the store
+   *
+   * Notes created before attachments existed embed files as base64. Each
+   * such element is rewritten to reference a new attachment.
+   *
+   * @async
+   * @param {ParentNode} root - Rendered note content, rewritten in place
+   * @returns {Promise<number>} Number of converted elements
+   */
+  async convertInlineData(root: ParentNode): Promise<number> {
+    const elements = Array.from(
+      root.querySelectorAll(`img[src^="data:"], a[href^="data:"]`)
+    ).filter(element => !element.hasAttribute(ATTACHMENT_ID_ATTRIBUTE));
+
+    for (const element of elements) {
+      const attribute = element.tagName === 'A' ? 'href' : 'src';
+      const blob = await (await fetch(element.getAttribute(attribute)!)).blob();
+      const name = element.getAttribute('download') || element.getAttribute('alt') || 'attachment';
+      const id = await this.add(blob, name);
+
+      element.setAttribute(ATTACHMENT_ID_ATTRIBUTE, id);
+      element.setAttribute(attribute, attachmentPath(id));
+    }
+
+    return elements.length;
+  }
+}
+
+/**
+ * Singleton instance of AttachmentService
+ *
+ * @example
+ * ```typescript
+ * import { attachmentService } from './services/attachmentService';
+ *
+ * await attachmentService.resolveUrls(editorElement);
+ * ```
+ */
+export const attachmentService = new AttachmentService();
+
+export default attachmentService;
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview AI Diagram Generation Service
+ *
+ * Turns note content into Mermaid code with the AI service. Each diagram
+ * type has its own system prompt. The model's answer is checked with
+ * `mermaid.parse`; when it does not parse, the error is sent back to the
+ * model to repair, up to {@link MAX_REPAIR_ATTEMPTS} times.
+ *
+ * @module services/diagramService
+ */
+
+import { aiService, AIProvider, ChatMessage } from './aiService';
+import { htmlToMarkdown } from '../utils/markdown';
+import { validateMermaid } from '../utils/mermaid';
+
+/**
+ * Supported diagram types
+ */
+export type DiagramType = 'flowchart' | 'mindmap' | 'sequence' | 'class' | 'state' | 'er' | 'gantt';
+
+/**
+ * How many times a diagram that fails to parse is sent back for repair
+ */
+export const MAX_REPAIR_ATTEMPTS = 3;
+
+/**
+ * Longest note text sent to the model, in characters
+ */
+const MAX_SOURCE_LENGTH = 12000;
+
+/**
+ * Rules shared by every diagram prompt
+ */
+const BASE_PROMPT = `You turn study notes into Mermaid diagrams.
+Reply with a single \`\`\`mermaid code block and nothing else.
+Use only information from the notes. Keep labels short and in the language of the notes.
+Quote labels that contain parentheses, brackets, colons or other punctuation.`;
+
+/**
+ * System prompt for each diagram type
+ */
+const DIAGRAM_PROMPTS: Record<DiagramType, string> = {
+  flowchart: 'Draw a `flowchart TD` of the main process, steps and decisions described in the notes. Use `{}` nodes for decisions and label the branches.',
+  mindmap: 'Draw a `mindmap` with the main topic as the root, key concepts as branches and supporting details as leaves. Indent with two spaces per level. At most three levels below the root.',
+  sequence: 'Draw a `sequenceDiagram` of the interactions between the actors, systems or components described in the notes, in the order they happen.',
+  class: 'Draw a `classDiagram` of the entities or concepts in the notes with their attributes, behaviours and relationships (inheritance, composition, association).',
+  state: 'Draw a `stateDiagram-v2` of the states, phases or stages described in the notes and the events that move between them, with `[*]` for start and end.',
+  er: 'Draw an `erDiagram` of the entities in the notes, their key attributes and the cardinality of their relationships.',
+  gantt: 'Draw a `gantt` chart with `dateFormat YYYY-MM-DD` of the tasks, phases or events in the notes, grouped into sections. Use the dates from the notes, or relative durations when there are none.',
+};
+
+/**
+ * Options for generating a diagram
+ * @interface GenerateDiagramOptions
+ */
+export interface GenerateDiagramOptions {
+  /** Provider to use */
+  provider: AIProvider;
+  /** Model ID; the provider's default when omitted */
+  model?: string;
+  /** Called before each repair attempt, numbered from 1 */
+  onRepair?: (attempt: number, error: string) => void;
+}
+
+/**
+ * A generated diagram
+ * @interface GeneratedDiagram
+ */
+export interface GeneratedDiagram {
+  /** Mermaid code that passed `mermaid.parse` */
+  code: string;
+  /** Repair attempts needed, 0 when the first answer was valid */
+  repairs: number;
+}
+
+/**
+ * Raised when the model's diagram still does not parse after every repair attempt
+ */
+export class DiagramGenerationError extends Error {
+  /** Last code returned by the model */
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'DiagramGenerationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Extract Mermaid code from a model response
+ *
+ * Prefers a ```mermaid block, then any fenced block, then the whole reply.
+ *
+ * @param {string} response - Model response
+ * @returns {string} Mermaid code
+ */
+export function extractMermaidCode(response: string): string {
+  const block = /```mermaid[^\n]*\n([\s\S]*?)```/i.exec(response) || /```[^\n]*\n([\s\S]*?)```/.exec(response);
+  return (block ? block[1] : response).trim();
+}
+
+/**
+ * DiagramService Class
+ *
+ * Singleton generating validated Mermaid diagrams from notes.
+ *
+ * @class DiagramService
+ */
+class DiagramService {
+  /**
+   * Generate a diagram from note HTML
+   *
+   * @async
+   * @param {string} html - Note content or selected HTML
+   * @param {DiagramType} type - Diagram type to draw
+   * @param {GenerateDiagramOptions} options - Provider, model and progress callback
+   * @returns {Promise<GeneratedDiagram>} Valid Mermaid code
+   * @throws {Error} If the note is empty or the AI request fails
+   * @throws {DiagramGenerationError} If no valid diagram was produced after the repair attempts
+   *
+   * @example
+   * ```typescript
+   * const { code } = await diagramService.generate(note.content, 'mindmap', { provider: 'anthropic' });
+   * ```
+   */
+  async generate(html: string, type: DiagramType, options: GenerateDiagramOptions): Promise<GeneratedDiagram> {
+    const source = htmlToMarkdown(html).trim().slice(0, MAX_SOURCE_LENGTH);
+    if (!source) {
+      throw new Error('There is no text to build a diagram from.');
+    }
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: `${BASE_PROMPT}\n\n${DIAGRAM_PROMPTS[type]}` },
+      { role: 'user', content: `Notes:\n\n${source}` },
+    ];
+
+    for (let repairs = 0; ; repairs++) {
+      const response = await aiService.chat(messages, options.provider, {
+        model: options.model,
+        maxTokens: 2048,
+        temperature: repairs === 0 ? 0.4 : 0.2,
+        feature: 'diagram',
+      });
+      const code = extractMermaidCode(response.content);
+      const error = await validateMermaid(code);
+      if (!error) {
+        return { code, repairs };
+      }
+
+      if (repairs === MAX_REPAIR_ATTEMPTS) {
+        throw new DiagramGenerationError(`The generated diagram is not valid Mermaid: ${error}`, code);
+      }
+
+      options.onRepair?.(repairs + 1, error);
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: `That diagram fails to parse:\n\n${error}\n\nFix it and reply with the corrected \`\`\`mermaid block only.` },
+      );
+    }
+  }
+}
+
+/**
+ * Singleton instance of DiagramService
+ *
+ * @example
+ * ```typescript
+ * import { diagramService } from './services/diagramService';
+ *
+ * const { code } = await diagramService.generate(selectionHtml, 'flowchart', { provider: 'gemini' });
+ * ```
+ */
+export const diagramService = new DiagramService();
+
+export default diagramService;
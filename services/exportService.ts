@@ -0,0 +1,353 @@
+/**
+ * @fileoverview Zip Export Service
+ *
+ * Exports an area, stack or notebook as a zip archive, as Markdown files
+ * or standalone HTML pages. The archive mirrors the Google Drive layout
+ * built by the sync (`Notes/<Area>/<Stack>/<Notebook>/<Title>.md`):
+ *
+ * ```
+ * manifest.json
+ * Notes/
+ *   Medicine/
+ *     Anatomy/
+ *       Basic Anatomy/
+ *         Heart-Failure.md
+ *         attachments/att-lq2x1k-8f3a.png
+ *         diagrams/Heart-Failure-1.svg
+ * ```
+ *
+ * `manifest.json` lists every note with its metadata, hierarchy and
+ * editor HTML, so {@link module:services/importService} can restore the
+ * notes exactly, including formatting Markdown cannot express.
+ *
+ * @module services/exportService
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+import { Note, Node } from '../types';
+import { htmlToMarkdown, generateFrontmatter, sanitizeFilename, escapeHtml } from '../utils/markdown';
+import { ATTACHMENTS_DIR, extractAttachmentIds } from '../utils/attachments';
+import { renderMermaid } from '../utils/mermaid';
+import { attachmentService } from './attachmentService';
+
+/**
+ * Output format for note files
+ */
+export type ExportFormat = 'markdown' | 'html';
+
+/**
+ * Value of `manifest.format`, identifying archives made by this app
+ */
+export const EXPORT_MANIFEST_FORMAT = 'gemini-notebook-export';
+
+/**
+ * Name of the manifest file at the archive root
+ */
+export const EXPORT_MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Top folder for notes, matching the Drive folder name
+ */
+const EXPORT_ROOT = 'Notes';
+
+/**
+ * Folder for rendered diagrams, next to the note files
+ */
+const DIAGRAMS_DIR = 'diagrams';
+
+/**
+ * A note as listed in the manifest
+ * @interface ExportManifestNote
+ */
+export interface ExportManifestNote {
+  id: string;
+  title: string;
+  description: string;
+  createdAt: string;
+  updatedAt?: string;
+  tags: string[];
+  imageUrl?: string;
+  /** Area, stack and notebook names */
+  path: [string, string, string];
+  /** Note file, relative to the archive root */
+  file: string;
+  /** Editor HTML, attachments referenced by relative path */
+  content: string;
+  /** IDs of attachments stored in the notebook's `attachments/` folder */
+  attachments: string[];
+  /** Rendered diagrams, relative to the archive root, in document order */
+  diagrams: string[];
+}
+
+/**
+ * Contents of `manifest.json`
+ * @interface ExportManifest
+ */
+export interface ExportManifest {
+  format: typeof EXPORT_MANIFEST_FORMAT;
+  version: 1;
+  exportedAt: string;
+  noteFormat: ExportFormat;
+  notes: ExportManifestNote[];
+}
+
+/**
+ * A finished export
+ * @interface ExportResult
+ */
+export interface ExportResult {
+  blob: Blob;
+  /** Suggested download name */
+  fileName: string;
+  noteCount: number;
+  /** Diagrams that failed to render and were left as code */
+  failedDiagrams: number;
+}
+
+/**
+ * Make a node name safe as a folder name
+ *
+ * Unlike {@link sanitizeFilename}, keeps spaces so folders match Drive.
+ *
+ * @param {string} name - Node name
+ * @returns {string} Folder name
+ */
+function folderName(name: string): string {
+  return name.replace(/[<>:"/\\|?*\x00-\x1F]/g, '-').replace(/^\.+/, '').trim() || 'Untitled';
+}
+
+/**
+ * Wrap note HTML in a standalone page
+ *
+ * @param {Note} note - Note being exported
+ * @param {string} body - Note HTML with diagrams replaced by images
+ * @returns {string} Complete HTML document
+ */
+function standaloneHtml(note: Note, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="created" content="${escapeHtml(note.createdAt)}">
+<meta name="keywords" content="${escapeHtml((note.tags || []).join(', '))}">
+<title>${escapeHtml(note.title)}</title>
+<style>
+  body { max-width: 48rem; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; line-height: 1.6; color: #18181b; }
+  img { max-width: 100%; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d4d4d8; padding: 0.25rem 0.5rem; }
+  pre { background: #f4f4f5; padding: 0.75rem; overflow-x: auto; }
+  blockquote { border-left: 4px solid #d4d4d8; margin-left: 0; padding-left: 1rem; color: #52525b; }
+  figure.mermaid-diagram { background: #18181b; padding: 1rem; border-radius: 0.5rem; margin: 1rem 0; }
+</style>
+</head>
+<body>
+<article class="note-content">
+${body}
+</article>
+</body>
+</html>
+`;
+}
+
+/**
+ * ExportService Class
+ *
+ * Singleton building zip archives from the note tree.
+ *
+ * @class ExportService
+ */
+class ExportService {
+  /**
+   * Export a node and everything below it
+   *
+   * @async
+   * @param {Node} node - Area, stack or notebook to export
+   * @param {Note[]} notes - All notes
+   * @param {Node[]} areas - Full hierarchy, to find the node's ancestors
+   * @param {ExportFormat} format - Markdown or standalone HTML
+   * @returns {Promise<ExportResult>} The zip and a summary
+   * @throws {Error} If the node is not part of the hierarchy
+   *
+   * @example
+   * ```typescript
+   * const { blob, fileName } = await exportService.exportNode(stack, notes, areas, 'markdown');
+   * ```
+   */
+  async exportNode(node: Node, notes: Note[], areas: Node[], format: ExportFormat): Promise<ExportResult> {
+    const ancestors = this.findAncestors(areas, node.id);
+    if (!ancestors) {
+      throw new Error(`Node not found: ${node.name}`);
+    }
+
+    const files: Record<string, Uint8Array> = {};
+    const manifest: ExportManifest = {
+      format: EXPORT_MANIFEST_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      noteFormat: format,
+      notes: [],
+    };
+    let failedDiagrams = 0;
+
+    for (const { notebook, path } of this.collectNotebooks(node, ancestors.map(a => a.name))) {
+      const directory = [EXPORT_ROOT, ...path.map(folderName)].join('/');
+      const usedNames = new Set<string>();
+
+      for (const noteId of notebook.noteIds || []) {
+        const note = notes.find(n => n.id === noteId);
+        if (!note) continue;
+
+        // Titles may repeat within a notebook; file names may not
+        const base = sanitizeFilename(note.title) || 'Untitled';
+        let name = base;
+        for (let n = 2; usedNames.has(name.toLowerCase()); n++) name = `${base}-${n}`;
+        usedNames.add(name.toLowerCase());
+
+        const diagrams = await this.renderDiagrams(note.content);
+        const diagramPaths = diagrams.map((_, index) => `${directory}/${DIAGRAMS_DIR}/${name}-${index + 1}.svg`);
+        diagrams.forEach((svg, index) => {
+          if (svg) files[diagramPaths[index]] = strToU8(svg);
+          else failedDiagrams++;
+        });
+
+        const file = `${directory}/${name}.${format === 'markdown' ? 'md' : 'html'}`;
+        files[file] = strToU8(format === 'markdown'
+          ? generateFrontmatter(note.title, note.createdAt, note.tags || [], note.id) + htmlToMarkdown(note.content)
+          : standaloneHtml(note, this.embedDiagrams(note.content, diagrams, name)));
+
+        const attachments: string[] = [];
+        for (const id of extractAttachmentIds(note.content)) {
+          const record = await attachmentService.get(id);
+          if (!record) continue;
+          files[`${directory}/${ATTACHMENTS_DIR}/${id}`] = new Uint8Array(await record.blob.arrayBuffer());
+          attachments.push(id);
+        }
+
+        manifest.notes.push({
+          id: note.id,
+          title: note.title,
+          description: note.description,
+          createdAt: note.createdAt,
+          updatedAt: note.updatedAt,
+          tags: note.tags || [],
+          imageUrl: note.imageUrl,
+          path,
+          file,
+          content: note.content,
+          attachments,
+          diagrams: diagramPaths.filter((_, index) => diagrams[index]),
+        });
+      }
+    }
+
+    files[EXPORT_MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+    return {
+      blob: new Blob([zipSync(files, { level: 6 })], { type: 'application/zip' }),
+      fileName: `${sanitizeFilename(node.name) || 'export'}-${format}.zip`,
+      noteCount: manifest.notes.length,
+      failedDiagrams,
+    };
+  }
+
+  /**
+   * Find the chain of nodes from an area down to a node
+   *
+   * @private
+   * @param {Node[]} nodes - Nodes to search
+   * @param {string} id - Node ID
+   * @returns {Node[] | null} Ancestors including the node, or null if not found
+   */
+  private findAncestors(nodes: Node[], id: string): Node[] | null {
+    for (const node of nodes) {
+      if (node.id === id) return [node];
+      const below = node.children ? this.findAncestors(node.children, id) : null;
+      if (below) return [node, ...below];
+    }
+    return null;
+  }
+
+  /**
+   * List the notebooks under a node with their Area/Stack/Notebook names
+   *
+   * @private
+   * @param {Node} node - Exported node
+   * @param {string[]} names - Names from the area down to the node
+   * @returns {Array<{ notebook: Node; path: [string, string, string] }>} Notebooks in tree order
+   */
+  private collectNotebooks(node: Node, names: string[]): Array<{ notebook: Node; path: [string, string, string] }> {
+    if (node.type === 'notebook') {
+      return [{ notebook: node, path: names as [string, string, string] }];
+    }
+    return (node.children || []).flatMap(child => this.collectNotebooks(child, [...names, child.name]));
+  }
+
+  /**
+   * Render every Mermaid block of a note
+   *
+   * @private
+   * @async
+   * @param {string} html - Note content
+   * @returns {Promise<Array<string | null>>} SVG per block in document order, null where rendering failed
+   */
+  private async renderDiagrams(html: string): Promise<Array<string | null>> {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+
+    const results: Array<string | null> = [];
+    for (const block of Array.from(container.querySelectorAll('pre.mermaid-diagram'))) {
+      try {
+        results.push(await renderMermaid(block.textContent || ''));
+      } catch (error) {
+        console.warn('Failed to render diagram for export:', error);
+        results.push(null);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Replace Mermaid blocks with images of their rendered SVG
+   *
+   * Blocks that failed to render stay as code.
+   *
+   * @private
+   * @param {string} html - Note content
+   * @param {Array<string | null>} diagrams - Result of {@link renderDiagrams}
+   * @param {string} name - Note file name without extension
+   * @returns {string} HTML for the standalone page
+   */
+  private embedDiagrams(html: string, diagrams: Array<string | null>, name: string): string {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+
+    container.querySelectorAll('pre.mermaid-diagram').forEach((block, index) => {
+      if (!diagrams[index]) return;
+      const figure = document.createElement('figure');
+      figure.className = 'mermaid-diagram';
+      const img = document.createElement('img');
+      img.setAttribute('src', `${DIAGRAMS_DIR}/${name}-${index + 1}.svg`);
+      img.setAttribute('alt', 'Diagram');
+      figure.appendChild(img);
+      block.replaceWith(figure);
+    });
+
+    return container.innerHTML;
+  }
+}
+
+/**
+ * Singleton instance of ExportService
+ *
+ * @example
+ * ```typescript
+ * import { exportService } from './services/exportService';
+ *
+ * const { blob, fileName } = await exportService.exportNode(notebook, notes, areas, 'html');
+ * ```
+ */
+export const exportService = new ExportService();
+
+export default exportService;
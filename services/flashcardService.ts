@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Flashcard Service
+ *
+ * Creates, stores and schedules study flashcards. Every card belongs to
+ * the note it was made from, either written by hand from a selection or
+ * generated by the AI service from the whole note. Reviews are scheduled
+ * with SM-2 (see {@link module:utils/sm2}).
+ *
+ * @module services/flashcardService
+ */
+
+import { Flashcard, FlashcardSource, Note } from '../types';
+import { storageService } from './storageService';
+import { aiService, AIProvider } from './aiService';
+import { htmlToMarkdown } from '../utils/markdown';
+import { initialSchedule, review, isDueToday, ReviewGrade } from '../utils/sm2';
+
+/**
+ * Most never-reviewed cards introduced in one daily queue
+ */
+export const NEW_CARDS_PER_DAY = 20;
+
+/**
+ * Most cards requested from the model per note
+ */
+const MAX_GENERATED_CARDS = 12;
+
+/**
+ * Longest note text sent to the model, in characters
+ */
+const MAX_SOURCE_LENGTH = 12000;
+
+/**
+ * System prompt for card generation
+ */
+const GENERATION_PROMPT = `You write study flashcards from a student's notes.
+Each card tests one fact, definition, mechanism or clinical reasoning step from the notes.
+Write the front as a short question and the back as a concise answer, in the language of the notes.
+For multiple-choice questions in the notes, ask for the answer and explain it on the back instead of listing the options.
+Reply with a JSON array of objects with "front" and "back" string fields and nothing else.`;
+
+/**
+ * Create a flashcard ID
+ *
+ * @returns {string} New ID
+ */
+function createCardId(): string {
+  return `card-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Read card texts from a model response
+ *
+ * Accepts a bare JSON array or one inside a fenced code block.
+ *
+ * @param {string} response - Model response
+ * @returns {Array<{ front: string; back: string }>} Cards with both sides filled
+ * @throws {Error} If the response has no JSON array
+ */
+function parseGeneratedCards(response: string): Array<{ front: string; back: string }> {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(response);
+  const text = fenced ? fenced[1] : response;
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start === -1 || end < start) {
+    throw new Error('The AI response did not contain any flashcards.');
+  }
+
+  const parsed: unknown = JSON.parse(text.slice(start, end + 1));
+  if (!Array.isArray(parsed)) {
+    throw new Error('The AI response did not contain any flashcards.');
+  }
+  return parsed
+    .map(item => ({ front: String(item?.front ?? '').trim(), back: String(item?.back ?? '').trim() }))
+    .filter(card => card.front && card.back);
+}
+
+/**
+ * FlashcardService Class
+ *
+ * Singleton wrapping flashcard storage and scheduling.
+ *
+ * @class FlashcardService
+ */
+class FlashcardService {
+  /**
+   * List all flashcards
+   *
+   * @async
+   * @returns {Promise<Flashcard[]>} Cards, oldest first
+   */
+  list(): Promise<Flashcard[]> {
+    return storageService.getFlashcards();
+  }
+
+  /**
+   * Create a flashcard for a note
+   *
+   * @async
+   * @param {string} noteId - Note the card belongs to
+   * @param {string} front - Question
+   * @param {string} back - Answer
+   * @param {FlashcardSource} [source] - How the card was made
+   * @returns {Promise<Flashcard>} The stored card, due immediately
+   *
+   * @example
+   * ```typescript
+   * const card = await flashcardService.create(note.id, 'First-line drug?', 'ACE inhibitor');
+   * ```
+   */
+  async create(noteId: string, front: string, back: string, source: FlashcardSource = 'manual'): Promise<Flashcard> {
+    const now = new Date();
+    const card: Flashcard = {
+      id: createCardId(),
+      noteId,
+      front: front.trim(),
+      back: back.trim(),
+      source,
+      createdAt: now.toISOString(),
+      ...initialSchedule(now),
+    };
+    await storageService.putFlashcards([card]);
+    return card;
+  }
+
+  /**
+   * Save changes to a card's text
+   *
+   * @async
+   * @param {Flashcard} card - Updated card
+   * @returns {Promise<void>}
+   */
+  async save(card: Flashcard): Promise<void> {
+    await storageService.putFlashcards([card]);
+  }
+
+  /**
+   * Delete a card
+   *
+   * @async
+   * @param {string} id - Card ID
+   * @returns {Promise<void>}
+   */
+  async delete(id: string): Promise<void> {
+    await storageService.deleteFlashcards([id]);
+  }
+
+  /**
+   * Delete all cards of a note
+   *
+   * @async
+   * @param {string} noteId - Note ID
+   * @returns {Promise<void>}
+   */
+  async deleteForNote(noteId: string): Promise<void> {
+    const cards = await storageService.getFlashcards();
+    await storageService.deleteFlashcards(cards.filter(card => card.noteId === noteId).map(card => card.id));
+  }
+
+  /**
+   * Record a review and reschedule the card
+   *
+   * @async
+   * @param {Flashcard} card - Reviewed card
+   * @param {ReviewGrade} grade - How well it was answered
+   * @returns {Promise<Flashcard>} The rescheduled card
+   */
+  async review(card: Flashcard, grade: ReviewGrade): Promise<Flashcard> {
+    const reviewed = { ...card, ...review(card, grade) };
+    await storageService.putFlashcards([reviewed]);
+    return reviewed;
+  }
+
+  /**
+   * Generate cards from a note with AI
+   *
+   * Cards whose question already exists on the note are skipped.
+   *
+   * @async
+   * @param {Note} note - Note to study
+   * @param {AIProvider} provider - Provider to use
+   * @param {string} [model] - Model ID; the provider's default when omitted
+   * @returns {Promise<Flashcard[]>} The stored new cards
+   * @throws {Error} If the note is empty or the response has no cards
+   */
+  async generate(note: Note, provider: AIProvider, model?: string): Promise<Flashcard[]> {
+    const source = htmlToMarkdown(note.content).trim().slice(0, MAX_SOURCE_LENGTH);
+    if (!source) {
+      throw new Error('This note has no text to make flashcards from.');
+    }
+
+    const response = await aiService.chat([
+      { role: 'system', content: `${GENERATION_PROMPT}\nWrite at most ${MAX_GENERATED_CARDS} cards.` },
+      { role: 'user', content: `# ${note.title}\n\n${source}` },
+    ], provider, { model, maxTokens: 4096, temperature: 0.3, feature: 'flashcards' });
+
+    const existing = new Set(
+      (await this.list()).filter(card => card.noteId === note.id).map(card => card.front.toLowerCase())
+    );
+    const now = new Date();
+    const cards: Flashcard[] = parseGeneratedCards(response.content)
+      .slice(0, MAX_GENERATED_CARDS)
+      .filter(({ front }) => !existing.has(front.toLowerCase()))
+      .map(({ front, back }) => ({
+        id: createCardId(),
+        noteId: note.id,
+        front,
+        back,
+        source: 'ai',
+        createdAt: now.toISOString(),
+        ...initialSchedule(now),
+      }));
+
+    await storageService.putFlashcards(cards);
+    return cards;
+  }
+
+  /**
+   * Build today's review queue
+   *
+   * Cards already in rotation come first, most overdue first, followed by
+   * never-reviewed cards in creation order. New cards first reviewed
+   * earlier today count against {@link NEW_CARDS_PER_DAY}, so reopening
+   * the queue does not introduce another full batch.
+   *
+   * @param {Flashcard[]} cards - All cards
+   * @param {Set<string> | null} noteIds - Notes to include, or null for all
+   * @param {Date} [now] - Current time
+   * @returns {Flashcard[]} Cards to review today
+   */
+  dailyQueue(cards: Flashcard[], noteIds: Set<string> | null, now: Date = new Date()): Flashcard[] {
+    const included = cards.filter(card => !noteIds || noteIds.has(card.noteId));
+    const startOfDay = new Date(now);
+    startOfDay.setHours(0, 0, 0, 0);
+    const introducedToday = included.filter(card =>
+      card.lastReviewedAt && card.repetitions <= 1 && new Date(card.lastReviewedAt) >= startOfDay
+    ).length;
+
+    const due = included.filter(card => isDueToday(card, now));
+    const learning = due.filter(card => card.lastReviewedAt).sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+    const fresh = due.filter(card => !card.lastReviewedAt).slice(0, Math.max(0, NEW_CARDS_PER_DAY - introducedToday));
+    return [...learning, ...fresh];
+  }
+}
+
+/**
+ * Singleton instance of FlashcardService
+ *
+ * @example
+ * ```typescript
+ * import { flashcardService } from './services/flashcardService';
+ *
+ * const cards = await flashcardService.list();
+ * const queue = flashcardService.dailyQueue(cards, null);
+ * ```
+ */
+export const flashcardService = new FlashcardService();
+
+export default flashcardService;
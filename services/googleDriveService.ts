@@ -8,6 +8,15 @@
  * - OAuth 2.0 authentication with Google Identity Services
  * - Automatic folder hierarchy creation (Area → Stack → Notebook)
  * - Markdown file upload/update with frontmatter metadata
+ * - Pull phase that merges Markdown edited in Drive back into notes
+ * - Conflict detection against a per-file base revision instead of blind overwrites
+ * - Stable file identity: notes and folders are tracked by Drive file ID and
+ *   `appProperties`, so renames and moves update files in place
+ * - Deleted notes and notebooks are moved to the Drive trash
+ * - Attachments uploaded once to an `attachments/` folder per notebook and
+ *   linked from the Markdown by relative path
+ * - Incremental uploads: only changes recorded in the sync queue are sent,
+ *   with a bounded number of uploads in parallel
  * - Intelligent folder caching to minimize API calls
  * - Real-time sync status tracking
  * - Automatic deduplication of existing files
@@ -20,14 +29,35 @@
  *       └── [Area Name]/
  *           └── [Stack Name]/
  *               └── [Notebook Name]/
- *                   └── [note-title].md
+ *                   ├── [note-title].md
+ *                   └── attachments/
+ *                       └── [attachment-id]
  * ```
  *
+ * Folder and file names mirror the local names but are not used for
+ * identity: each note and node records its `driveFileId`, and every file
+ * carries the local ID in its `appProperties` (and notes also in their
+ * frontmatter).
+ *
  * @module services/googleDriveService
  */
 
 import { Note, Node } from '../types';
-import { htmlToMarkdown, sanitizeFilename, generateFrontmatter } from '../utils/markdown';
+import {
+  htmlToMarkdown,
+  markdownToHtml,
+  sanitizeFilename,
+  generateFrontmatter,
+  parseFrontmatter,
+  extractTextFromHtml,
+} from '../utils/markdown';
+import { config } from '../config/env';
+import { syncQueue, SyncOperation } from './syncQueue';
+import { storageService } from './storageService';
+import { attachmentService } from './attachmentService';
+import { ATTACHMENTS_DIR, extractAttachmentIds } from '../utils/attachments';
+import { normalizeTags } from '../utils/tags';
+import { parseNoteDate } from '../utils/noteDates';
 
 /**
  * Google Drive API OAuth 2.0 Scopes
@@ -60,6 +90,166 @@ const ROOT_FOLDER_NAME = 'Gemini-Notebook';
  */
 const NOTES_FOLDER_NAME = 'Notes';
 
+/**
+ * Google Drive MIME type for folders
+ */
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * Local storage key for the per-file sync state
+ * Survives reloads so a pull only downloads files that changed remotely
+ */
+const SYNC_STATE_STORAGE_KEY = 'gemini-notebook-drive-sync-v1';
+
+/**
+ * Local storage key for uploaded attachments
+ * Maps "{notebookFolderId}/{attachmentId}" to the Drive file ID
+ */
+const ATTACHMENT_STATE_STORAGE_KEY = 'gemini-notebook-drive-attachments-v1';
+
+/**
+ * File fields requested from upload responses to record the base revision
+ */
+const UPLOAD_FIELDS = 'id,modifiedTime,md5Checksum,headRevisionId';
+
+/**
+ * Drive file fields needed to match a file to a note and check its revision
+ */
+const NOTE_FILE_FIELDS = 'id, name, parents, trashed, modifiedTime, md5Checksum, headRevisionId, appProperties';
+
+/**
+ * Escape a value for use inside a quoted Drive search query string
+ *
+ * @param {string} value - Raw value
+ * @returns {string} Value with backslashes and single quotes escaped
+ */
+function escapeQueryValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/**
+ * Run an async worker over items with a bounded number in flight
+ *
+ * @param {T[]} items - Items to process
+ * @param {number} limit - Maximum concurrent workers
+ * @param {(item: T) => Promise<void>} worker - Worker; must not reject
+ * @returns {Promise<void>} Resolves when every item has been processed
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+/**
+ * Drive IDs assigned to local notes and nodes during a sync
+ *
+ * Returned to the caller, which stores them as `driveFileId` so later
+ * syncs address the same files regardless of their names.
+ * @interface DriveIdentityUpdate
+ */
+export interface DriveIdentityUpdate {
+  /** Note ID → Drive file ID, for notes that were created or first matched */
+  notes: Record<string, string>;
+  /** Node ID → Drive folder ID, for folders that were created or first matched */
+  nodes: Record<string, string>;
+}
+
+/**
+ * Sync state recorded for each Drive file this app has uploaded or downloaded
+ * @interface FileSyncState
+ */
+interface FileSyncState {
+  /** Drive modifiedTime at the last sync */
+  modifiedTime: string;
+  /** Drive md5Checksum at the last sync (the base revision) */
+  md5Checksum?: string;
+  /** Drive headRevisionId at the last sync */
+  headRevisionId?: string;
+}
+
+/**
+ * A note that changed both locally and in Drive since the last sync
+ * @interface SyncConflict
+ */
+export interface SyncConflict {
+  /** Local note ID */
+  noteId: string;
+  /** Google Drive file ID */
+  fileId: string;
+  /** Note title at the time the conflict was detected */
+  title: string;
+  /** File content at the last sync (empty if unknown) */
+  base: string;
+  /** Local note rendered as Markdown with frontmatter */
+  local: string;
+  /** Current file content in Drive */
+  remote: string;
+  /** Drive revision the remote content was read from */
+  remoteState: FileSyncState;
+  /** When the conflict was detected */
+  detectedAt: Date;
+}
+
+/**
+ * How a sync conflict was resolved
+ *
+ * - local: keep the local note and overwrite Drive on the next upload
+ * - remote: replace the local note with the Drive version
+ * - merged: replace the local note with a hand-merged Markdown document
+ */
+export type ConflictChoice = 'local' | 'remote' | 'merged';
+
+/**
+ * Markdown file found under the Notes hierarchy in Google Drive
+ * @interface RemoteFile
+ */
+interface RemoteFile {
+  /** Google Drive file ID */
+  id: string;
+  /** File name, including the .md extension */
+  name: string;
+  /** RFC 3339 timestamp of the last modification in Drive */
+  modifiedTime: string;
+  /** MD5 of the file content, as reported by Drive */
+  md5Checksum?: string;
+  /** ID of the file's current revision */
+  headRevisionId?: string;
+  /** Folder names from the Notes folder down: [area, stack, notebook] */
+  path: [string, string, string];
+  /** Drive folder IDs matching `path` */
+  folderIds: [string, string, string];
+  /** Local note ID stored in the file's appProperties, if uploaded by this app */
+  noteId?: string;
+}
+
+/**
+ * Result of pulling remote changes from Google Drive
+ * @interface PullResult
+ */
+export interface PullResult {
+  /** Notes with remote changes merged in */
+  notes: Note[];
+  /** Area hierarchy, including nodes created for new remote folders */
+  areas: Node[];
+  /** IDs of existing notes whose content was replaced by the remote version */
+  updatedNoteIds: string[];
+  /** IDs of notes created from remote files that had no local counterpart */
+  createdNoteIds: string[];
+  /** IDs of notes that changed on both sides and now await resolution */
+  conflictNoteIds: string[];
+  /** Drive IDs first matched to existing notes and nodes */
+  identity: DriveIdentityUpdate;
+}
+
 /**
  * Synchronization status information
  * @interface SyncStatus
@@ -73,6 +263,12 @@ interface SyncStatus {
   isSyncing: boolean;
   /** Error message from last sync attempt, if any */
   error: string | null;
+  /** Number of notes with unresolved sync conflicts */
+  conflictCount: number;
+  /** Number of queued changes waiting to be uploaded */
+  pendingCount: number;
+  /** Progress of the running queue, or null when idle */
+  progress: { completed: number; total: number } | null;
 }
 
 /**
@@ -97,6 +293,9 @@ interface SyncStatus {
  * // Sync all notes
  * await googleDriveService.syncAll(notes, areas);
  *
+ * // Pull notes edited in Drive
+ * const { notes: merged } = await googleDriveService.pullChanges(notes, areas);
+ *
  * // Check sync status
  * const status = googleDriveService.getSyncStatus();
  * ```
@@ -119,7 +318,10 @@ class GoogleDriveService {
     isConnected: false,
     lastSync: null,
     isSyncing: false,
-    error: null
+    error: null,
+    conflictCount: 0,
+    pendingCount: 0,
+    progress: null
   };
 
   /**
@@ -133,6 +335,59 @@ class GoogleDriveService {
    */
   private folderCache: Map<string, string> = new Map();
 
+  /**
+   * File content at the last sync per Drive file ID, used as the merge base
+   *
+   * Persisted in IndexedDB, since whole notes would soon fill the
+   * localStorage quota. Loaded on the first sync of the session.
+   */
+  private bases: Map<string, string> = new Map();
+
+  /**
+   * Pending load of {@link bases} from IndexedDB
+   */
+  private basesLoaded: Promise<void> | null = null;
+
+  /**
+   * Base revision per Drive file ID
+   *
+   * Recorded whenever this app uploads or downloads a file. A remote file
+   * whose checksum differs from the recorded one was edited outside the app
+   * since the last sync; a note whose Markdown differs from the recorded
+   * base was edited locally. Persisted in localStorage.
+   */
+  private knownFiles: Record<string, FileSyncState> = this.loadSyncState();
+
+  /**
+   * Attachments already present in Drive, keyed by
+   * "{notebookFolderId}/{attachmentId}". Attachments never change after
+   * creation, so each is uploaded once per notebook folder.
+   */
+  private uploadedAttachments: Record<string, string> = this.loadAttachmentState();
+
+  /**
+   * Pending lookups of `attachments/` folders by notebook folder ID
+   *
+   * Shared so parallel uploads into one notebook create a single folder.
+   */
+  private attachmentFolders: Map<string, Promise<string>> = new Map();
+
+  /**
+   * Unresolved conflicts keyed by note ID
+   *
+   * Notes listed here are never uploaded until the conflict is resolved.
+   * Not persisted: the next pull detects them again from the base revision.
+   */
+  private conflicts: Map<string, SyncConflict> = new Map();
+
+  /**
+   * Name and parents of node folders seen during this session
+   *
+   * Lets folder renames and moves be detected without fetching every
+   * folder on every sync.
+   */
+  private folderMeta: Map<string, { name: string; parents: string[] }> = new Map();
+
   /**
    * Initialize Google API and Identity Services
    *
@@ -291,6 +546,8 @@ class GoogleDriveService {
     this.accessToken = null;
     this.syncStatus.isConnected = false;
     this.folderCache.clear();
+    this.folderMeta.clear();
+    this.attachmentFolders.clear();
   }
 
   /**
@@ -304,6 +561,7 @@ class GoogleDriveService {
    * @async
    * @param {string} folderName - Name of the folder to find or create
    * @param {string} [parentId] - Parent folder ID (omit for root-level folder)
+   * @param {Record<string, string>} [appProperties] - Properties set on a newly created folder
    * @returns {Promise<string>} The folder's Google Drive ID
    * @throws {Error} If folder creation or search fails
    *
@@ -314,7 +572,8 @@ class GoogleDriveService {
    */
   private async getOrCreateFolder(
     folderName: string,
-    parentId?: string
+    parentId?: string,
+    appProperties?: Record<string, string>
   ): Promise<string> {
     // Check cache first
     const cacheKey = `${parentId || 'root'}-${folderName}`;
@@ -324,9 +583,10 @@ class GoogleDriveService {
 
     try {
       // Build search query for existing folder
+      const name = escapeQueryValue(folderName);
       const query = parentId
-        ? `name='${folderName}' and '${parentId}' in parents and mimeType='application/vnd.google-apps.folder' and trashed=false`
-        : `name='${folderName}' and mimeType='application/vnd.google-apps.folder' and trashed=false`;
+        ? `name='${name}' and '${parentId}' in parents and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`
+        : `name='${name}' and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`;
 
       // Search for existing folder
       const response = await (window as any).gapi.client.drive.files.list({
@@ -345,12 +605,15 @@ class GoogleDriveService {
       // Create folder if it doesn't exist
       const fileMetadata: any = {
         name: folderName,
-        mimeType: 'application/vnd.google-apps.folder',
+        mimeType: FOLDER_MIME_TYPE,
       };
 
       if (parentId) {
         fileMetadata.parents = [parentId];
       }
+      if (appProperties) {
+        fileMetadata.appProperties = appProperties;
+      }
 
       const createResponse = await (window as any).gapi.client.drive.files.create({
         resource: fileMetadata,
@@ -367,6 +630,80 @@ class GoogleDriveService {
     }
   }
 
+  /**
+   * Resolve the Drive folder for a node, creating, renaming or moving it
+   *
+   * Lookup order:
+   * 1. The node's recorded `driveFileId`, if the folder still exists
+   * 2. A folder under the parent whose appProperties carry the node ID
+   * 3. A folder under the parent with the node's name (pre-identity data)
+   * 4. A newly created folder tagged with the node ID
+   *
+   * A folder found by ID whose name or parent no longer matches the node
+   * is renamed or moved in place.
+   *
+   * @private
+   * @async
+   * @param {Node} node - Area, stack or notebook node
+   * @param {string} parentId - Drive ID of the folder that should contain it
+   * @param {DriveIdentityUpdate} identity - Collects newly assigned folder IDs
+   * @returns {Promise<string>} The node's Drive folder ID
+   */
+  private async ensureNodeFolder(
+    node: Node,
+    parentId: string,
+    identity: DriveIdentityUpdate
+  ): Promise<string> {
+    const drive = (window as any).gapi.client.drive;
+    let folderId: string | undefined;
+
+    if (node.driveFileId) {
+      let meta = this.folderMeta.get(node.driveFileId);
+      if (!meta) {
+        try {
+          const response = await drive.files.get({ fileId: node.driveFileId, fields: 'id, name, parents, trashed' });
+          if (!response.result.trashed) {
+            meta = { name: response.result.name, parents: response.result.parents || [] };
+          }
+        } catch (error) {
+          console.warn('Recorded Drive folder no longer exists:', node.driveFileId);
+        }
+      }
+
+      if (meta) {
+        folderId = node.driveFileId;
+        const moved = !meta.parents.includes(parentId);
+        if (meta.name !== node.name || moved) {
+          await drive.files.update({
+            fileId: folderId,
+            resource: { name: node.name },
+            addParents: moved ? parentId : undefined,
+            removeParents: moved ? meta.parents.join(',') : undefined,
+            fields: 'id',
+          });
+          meta = { name: node.name, parents: [parentId] };
+        }
+        this.folderMeta.set(folderId, meta);
+      }
+    }
+
+    if (!folderId) {
+      const response = await drive.files.list({
+        q: `appProperties has { key='nodeId' and value='${escapeQueryValue(node.id)}' } and '${parentId}' in parents and trashed=false`,
+        fields: 'files(id)',
+        spaces: 'drive',
+      });
+      folderId = response.result.files?.[0]?.id
+        ?? await this.getOrCreateFolder(node.name, parentId, { nodeId: node.id });
+      this.folderMeta.set(folderId!, { name: node.name, parents: [parentId] });
+    }
+
+    if (folderId !== node.driveFileId) {
+      identity.nodes[node.id] = folderId!;
+    }
+    return folderId!;
+  }
+
   /**
    * Create complete folder structure based on note hierarchy
    *
@@ -377,23 +714,27 @@ class GoogleDriveService {
    * @private
    * @async
    * @param {Node[]} areas - Array of area nodes with nested children
+   * @param {DriveIdentityUpdate} identity - Collects newly assigned folder IDs
    * @returns {Promise<Map<string, string>>} Map of node IDs to folder IDs
    * @throws {Error} If folder creation fails
    *
    * Process:
    * 1. Create root "Gemini-Notebook" folder
    * 2. Create "Notes" subfolder
-   * 3. For each Area: Create folder under "Notes"
-   * 4. For each Stack: Create folder under parent Area
-   * 5. For each Notebook: Create folder under parent Stack
+   * 3. For each Area: Resolve folder under "Notes"
+   * 4. For each Stack: Resolve folder under parent Area
+   * 5. For each Notebook: Resolve folder under parent Stack
    *
    * @example
    * ```typescript
-   * const folderMap = await this.createFolderStructure(areas);
+   * const folderMap = await this.createFolderStructure(areas, identity);
    * // folderMap.get('notebook-123') → 'google-drive-folder-id-xyz'
    * ```
    */
-  private async createFolderStructure(areas: Node[]): Promise<Map<string, string>> {
+  private async createFolderStructure(
+    areas: Node[],
+    identity: DriveIdentityUpdate
+  ): Promise<Map<string, string>> {
     const folderMap = new Map<string, string>();
 
     try {
@@ -403,31 +744,21 @@ class GoogleDriveService {
 
       // Process each area
       for (const area of areas) {
-        if (area.type === 'area') {
-          const areaFolderId = await this.getOrCreateFolder(area.name, notesFolderId);
-          folderMap.set(area.id, areaFolderId);
-
-          // Process stacks within area
-          if (area.children) {
-            for (const stack of area.children) {
-              if (stack.type === 'stack') {
-                const stackFolderId = await this.getOrCreateFolder(stack.name, areaFolderId);
-                folderMap.set(stack.id, stackFolderId);
-
-                // Process notebooks within stack
-                if (stack.children) {
-                  for (const notebook of stack.children) {
-                    if (notebook.type === 'notebook') {
-                      const notebookFolderId = await this.getOrCreateFolder(
-                        notebook.name,
-                        stackFolderId
-                      );
-                      folderMap.set(notebook.id, notebookFolderId);
-                    }
-                  }
-                }
-              }
-            }
+        if (area.type !== 'area') continue;
+        const areaFolderId = await this.ensureNodeFolder(area, notesFolderId, identity);
+        folderMap.set(area.id, areaFolderId);
+
+        // Process stacks within area
+        for (const stack of area.children || []) {
+          if (stack.type !== 'stack') continue;
+          const stackFolderId = await this.ensureNodeFolder(stack, areaFolderId, identity);
+          folderMap.set(stack.id, stackFolderId);
+
+          // Process notebooks within stack
+          for (const notebook of stack.children || []) {
+            if (notebook.type !== 'notebook') continue;
+            const notebookFolderId = await this.ensureNodeFolder(notebook, stackFolderId, identity);
+            folderMap.set(notebook.id, notebookFolderId);
           }
         }
       }
@@ -478,25 +809,30 @@ class GoogleDriveService {
    *
    * Converts the note's HTML content to Markdown, adds frontmatter metadata,
    * and uploads the file to the appropriate folder in Google Drive.
-   * Updates existing files if they already exist.
+   * Updates existing files in place, renaming or moving them when the
+   * note's title or notebook changed.
    *
    * @async
    * @param {Note} note - Note object to save
    * @param {Node[]} areas - Area hierarchy for folder structure
-   * @returns {Promise<void>}
+   * @param {DriveIdentityUpdate} [identity] - Collects newly assigned Drive IDs
+   * @param {Map<string, string>} [folderMap] - Node ID → folder ID map from
+   *   {@link createFolderStructure}; built on demand when omitted
+   * @returns {Promise<string | null>} The note's Drive file ID, or null if not uploaded
    * @throws {Error} If not connected or if upload fails
    *
    * Process:
    * 1. Find notebook containing this note
    * 2. Create/verify folder structure
    * 3. Convert HTML to Markdown with frontmatter
-   * 4. Check if file already exists
-   * 5. Update existing file or create new file
+   * 4. Find the existing file by ID (see {@link findNoteFile})
+   * 5. Update existing file (with rename/move) or create new file
    * 6. Update sync status
    *
    * File format:
    * ```markdown
    * ---
+   * id: note-123
    * title: Note Title
    * date: 2024-01-01
    * tags: []
@@ -511,7 +847,12 @@ class GoogleDriveService {
    * console.log('Note saved successfully');
    * ```
    */
-  async saveNote(note: Note, areas: Node[]): Promise<void> {
+  async saveNote(
+    note: Note,
+    areas: Node[],
+    identity: DriveIdentityUpdate = { notes: {}, nodes: {} },
+    folderMap?: Map<string, string>
+  ): Promise<string | null> {
     if (!this.syncStatus.isConnected) {
       throw new Error('Not connected to Google Drive');
     }
@@ -521,39 +862,83 @@ class GoogleDriveService {
       const notebookId = this.findNotebookForNote(areas, note.id);
       if (!notebookId) {
         console.warn('No notebook found for note:', note.id);
-        return;
+        return null;
       }
 
       // Create folder structure and get parent folder ID
-      const folderMap = await this.createFolderStructure(areas);
-      const parentFolderId = folderMap.get(notebookId);
+      const folders = folderMap || await this.createFolderStructure(areas, identity);
+      const parentFolderId = folders.get(notebookId);
 
       if (!parentFolderId) {
         console.warn('No folder found for notebook:', notebookId);
-        return;
+        return null;
+      }
+
+      // Never overwrite the remote side of an unresolved conflict
+      if (this.conflicts.has(note.id)) {
+        console.warn('Skipping upload of conflicted note:', note.id);
+        return note.driveFileId || null;
       }
 
       // Convert HTML to Markdown with frontmatter
-      const markdown = htmlToMarkdown(note.content);
-      const frontmatter = generateFrontmatter(note.title, note.date);
-      const fullContent = frontmatter + markdown;
+      const fullContent = this.noteToMarkdown(note);
+      await this.loadBases();
 
       // Create safe filename
       const filename = sanitizeFilename(note.title) + '.md';
 
       // Check if file already exists
-      const query = `name='${filename}' and '${parentFolderId}' in parents and trashed=false`;
-      const searchResponse = await (window as any).gapi.client.drive.files.list({
-        q: query,
-        fields: 'files(id)',
-      });
+      const existing = await this.findNoteFile(note, filename, parentFolderId);
+
+      // Remote changed since our base revision: check for a conflict first
+      const state = existing ? this.knownFiles[existing.id] : undefined;
+      const base = existing ? this.bases.get(existing.id) : undefined;
+      if (existing && state?.md5Checksum && existing.md5Checksum !== state.md5Checksum) {
+        const remote = await this.downloadFile(existing.id);
+        const remoteState = this.toFileSyncState(existing);
+
+        if (remote === fullContent) {
+          // Both sides made the same change
+          this.knownFiles[existing.id] = remoteState;
+          this.setBase(existing.id, remote);
+          this.saveSyncState();
+          return existing.id;
+        }
+        if (base === fullContent) {
+          // Only the remote side changed; the next pull will bring it in
+          return existing.id;
+        }
+
+        this.recordConflict(note, existing.id, base || '', fullContent, remote, remoteState);
+        return existing.id;
+      }
+
+      // Attachments first, so the Markdown never references a missing file
+      await this.uploadAttachments(note, parentFolderId);
+
+      // Nothing to upload: same content, name and folder as our base revision
+      if (
+        existing &&
+        base === fullContent &&
+        existing.name === filename &&
+        (existing.parents || []).includes(parentFolderId)
+      ) {
+        if (existing.id !== note.driveFileId) {
+          identity.notes[note.id] = existing.id;
+        }
+        return existing.id;
+      }
 
-      // Prepare file metadata
-      const fileMetadata = {
+      // Prepare file metadata; parents can only be set on creation,
+      // existing files are moved with addParents/removeParents instead
+      const fileMetadata: any = {
         name: filename,
         mimeType: 'text/markdown',
-        parents: [parentFolderId],
+        appProperties: { noteId: note.id },
       };
+      if (!existing) {
+        fileMetadata.parents = [parentFolderId];
+      }
 
       // Prepare multipart upload form
       const file = new Blob([fullContent], { type: 'text/markdown' });
@@ -561,11 +946,15 @@ class GoogleDriveService {
       form.append('metadata', new Blob([JSON.stringify(fileMetadata)], { type: 'application/json' }));
       form.append('file', file);
 
-      if (searchResponse.result.files && searchResponse.result.files.length > 0) {
-        // Update existing file
-        const fileId = searchResponse.result.files[0].id;
-        await fetch(
-          `https://www.googleapis.com/upload/drive/v3/files/${fileId}?uploadType=multipart`,
+      let uploadResponse: Response;
+      if (existing) {
+        // Update existing file, moving it if the note changed notebooks
+        const currentParents: string[] = existing.parents || [];
+        const move = currentParents.includes(parentFolderId)
+          ? ''
+          : `&addParents=${parentFolderId}&removeParents=${currentParents.join(',')}`;
+        uploadResponse = await fetch(
+          `https://www.googleapis.com/upload/drive/v3/files/${existing.id}?uploadType=multipart&fields=${UPLOAD_FIELDS}${move}`,
           {
             method: 'PATCH',
             headers: new Headers({ Authorization: `Bearer ${this.accessToken}` }),
@@ -574,8 +963,8 @@ class GoogleDriveService {
         );
       } else {
         // Create new file
-        await fetch(
-          'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart',
+        uploadResponse = await fetch(
+          `https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=${UPLOAD_FIELDS}`,
           {
             method: 'POST',
             headers: new Headers({ Authorization: `Bearer ${this.accessToken}` }),
@@ -584,9 +973,24 @@ class GoogleDriveService {
         );
       }
 
+      if (!uploadResponse.ok) {
+        throw new Error(`Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
+      }
+
+      // Remember our own revision as the new base so the next pull doesn't treat it as a remote edit
+      const uploaded = await uploadResponse.json();
+      this.knownFiles[uploaded.id] = this.toFileSyncState(uploaded);
+      this.setBase(uploaded.id, fullContent);
+      this.saveSyncState();
+
+      if (uploaded.id !== note.driveFileId) {
+        identity.notes[note.id] = uploaded.id;
+      }
+
       // Update sync status
       this.syncStatus.lastSync = new Date();
       this.syncStatus.error = null;
+      return uploaded.id;
     } catch (error) {
       console.error('Error saving note to Google Drive:', error);
       this.syncStatus.error = error instanceof Error ? error.message : 'Unknown error';
@@ -595,53 +999,225 @@ class GoogleDriveService {
   }
 
   /**
-   * Synchronize all notes to Google Drive
+   * Find the Drive file that stores a note
    *
-   * Performs a complete sync of all notes in the application.
-   * Sets isSyncing flag to prevent concurrent sync operations.
+   * Lookup order:
+   * 1. The note's recorded `driveFileId`, if the file still exists
+   * 2. Any file whose appProperties carry the note ID
+   * 3. A file with the note's filename in its notebook folder, for notes
+   *    uploaded before file identity was tracked
    *
+   * @private
    * @async
-   * @param {Note[]} notes - Array of all notes to sync
-   * @param {Node[]} areas - Area hierarchy for folder structure
+   * @param {Note} note - Note to locate
+   * @param {string} filename - Current filename derived from the title
+   * @param {string} parentFolderId - Drive ID of the note's notebook folder
+   * @returns {Promise<any | null>} Drive file resource, or null if none exists
+   */
+  private async findNoteFile(note: Note, filename: string, parentFolderId: string): Promise<any | null> {
+    const drive = (window as any).gapi.client.drive;
+
+    if (note.driveFileId) {
+      try {
+        const response = await drive.files.get({ fileId: note.driveFileId, fields: NOTE_FILE_FIELDS });
+        if (!response.result.trashed) {
+          return response.result;
+        }
+      } catch (error) {
+        console.warn('Recorded Drive file no longer exists:', note.driveFileId);
+      }
+    }
+
+    const byId = await drive.files.list({
+      q: `appProperties has { key='noteId' and value='${escapeQueryValue(note.id)}' } and trashed=false`,
+      fields: `files(${NOTE_FILE_FIELDS})`,
+      spaces: 'drive',
+    });
+    if (byId.result.files?.length) {
+      return byId.result.files[0];
+    }
+
+    // Legacy files are only adopted when the note has never been linked
+    if (note.driveFileId) {
+      return null;
+    }
+
+    const byName = await drive.files.list({
+      q: `name='${escapeQueryValue(filename)}' and '${parentFolderId}' in parents and trashed=false`,
+      fields: `files(${NOTE_FILE_FIELDS})`,
+      spaces: 'drive',
+    });
+    const legacy = byName.result.files?.find((file: any) => !file.appProperties?.noteId);
+    return legacy || null;
+  }
+
+  /**
+   * Queue a note's Drive file for trashing
+   *
+   * Clears any pending conflict or upload for the note. The file is
+   * trashed by the next {@link processQueue}.
+   *
+   * @param {Note} note - Deleted note
+   * @returns {void}
+   */
+  trashNote(note: Note): void {
+    this.conflicts.delete(note.id);
+    syncQueue.dropNote(note.id);
+    if (note.driveFileId) {
+      syncQueue.enqueueTrash(note.driveFileId, note.title);
+    }
+  }
+
+  /**
+   * Queue a deleted stack's or notebook's Drive folder for trashing
+   *
+   * Trashing a folder also trashes everything inside it. If the folder was
+   * never synced, the files of any synced notes inside it are trashed
+   * individually instead.
+   *
+   * @param {Node} node - Deleted node
+   * @param {Note[]} notes - The notes that belonged to the node
+   * @returns {void}
+   */
+  trashNode(node: Node, notes: Note[]): void {
+    if (node.driveFileId) {
+      notes.forEach(note => {
+        this.conflicts.delete(note.id);
+        syncQueue.dropNote(note.id);
+      });
+      syncQueue.enqueueTrash(node.driveFileId, node.name);
+      return;
+    }
+
+    notes.forEach(note => this.trashNote(note));
+  }
+
+  /**
+   * Move a Drive file or folder to the trash
+   *
+   * @private
+   * @async
+   * @param {string} fileId - Drive file ID
    * @returns {Promise<void>}
-   * @throws {Error} If not connected or if sync fails
+   */
+  private async trashFile(fileId: string): Promise<void> {
+    try {
+      await (window as any).gapi.client.drive.files.update({
+        fileId,
+        resource: { trashed: true },
+        fields: 'id',
+      });
+    } catch (error: any) {
+      // Already gone: nothing left to clean up
+      if (error?.status !== 404) throw error;
+    }
+
+    delete this.knownFiles[fileId];
+    this.bases.delete(fileId);
+    storageService.deleteSyncBase(fileId).catch(console.error);
+    this.folderMeta.delete(fileId);
+    // A trashed folder must not be reused as a parent for new uploads
+    this.folderCache.forEach((folderId, cacheKey) => {
+      if (folderId === fileId) this.folderCache.delete(cacheKey);
+    });
+    this.saveSyncState();
+  }
+
+  /**
+   * Upload pending changes from the sync queue
    *
-   * Process:
-   * 1. Set isSyncing flag to true
-   * 2. Iterate through all notes
-   * 3. Save each note individually
-   * 4. Update lastSync timestamp
-   * 5. Clear isSyncing flag in finally block
+   * Drains {@link syncQueue}: trashes deleted files, brings the folder
+   * structure up to date once, then uploads changed notes with at most
+   * `config.app.syncConcurrency` uploads in flight. Failed operations stay
+   * queued and are retried on the next call.
    *
-   * Error handling:
-   * - Errors are logged but don't stop the entire sync
-   * - Final error state is set if any note fails
-   * - isSyncing is always cleared in finally block
+   * Notes that were never uploaded (no `driveFileId`) are always queued,
+   * which covers the first sync after connecting and notes created before
+   * change tracking existed. Notes in no notebook have no Drive folder, so
+   * their uploads are dropped rather than retried on every sync.
+   *
+   * @async
+   * @param {Note[]} notes - Current local notes
+   * @param {Node[]} areas - Area hierarchy for folder structure
+   * @returns {Promise<DriveIdentityUpdate>} Drive IDs assigned during the sync
+   * @throws {Error} If not connected or the folder structure can't be created
    *
    * @example
    * ```typescript
-   * try {
-   *   await googleDriveService.syncAll(notes, areas);
-   *   console.log('All notes synced successfully');
-   * } catch (error) {
-   *   console.error('Sync failed:', error);
-   * }
+   * syncQueue.enqueueNote(note.id, note.title);
+   * const identity = await googleDriveService.processQueue(notes, areas);
    * ```
    */
-  async syncAll(notes: Note[], areas: Node[]): Promise<void> {
+  async processQueue(notes: Note[], areas: Node[]): Promise<DriveIdentityUpdate> {
     if (!this.syncStatus.isConnected) {
       throw new Error('Not connected to Google Drive');
     }
 
+    syncQueue.getOperations()
+      .filter(op => op.type === 'note' && !this.findNotebookForNote(areas, op.targetId))
+      .forEach(op => syncQueue.dropNote(op.targetId));
+    notes
+      .filter(note => !note.driveFileId && !this.conflicts.has(note.id) && this.findNotebookForNote(areas, note.id))
+      .forEach(note => syncQueue.enqueueNote(note.id, note.title));
+
+    const identity: DriveIdentityUpdate = { notes: {}, nodes: {} };
+    // Operations still running belong to a sync already in progress
+    const operations = syncQueue.getOperations().filter(op => op.state !== 'running');
+    if (operations.length === 0) {
+      this.syncStatus.lastSync = new Date();
+      return identity;
+    }
+
     this.syncStatus.isSyncing = true;
     this.syncStatus.error = null;
+    this.syncStatus.progress = { completed: 0, total: operations.length };
+    const notesById = new Map(notes.map(note => [note.id, note]));
+    let failed = 0;
+
+    const run = async (operation: SyncOperation, task: () => Promise<unknown>) => {
+      const revision = syncQueue.start(operation.key);
+      try {
+        await task();
+        syncQueue.complete(operation.key, revision);
+      } catch (error) {
+        console.error(`Error syncing ${operation.key}:`, error);
+        syncQueue.fail(operation.key, error);
+        failed++;
+      } finally {
+        this.syncStatus.progress!.completed++;
+      }
+    };
 
     try {
-      // Save each note sequentially
-      for (const note of notes) {
-        await this.saveNote(note, areas);
+      for (const operation of operations.filter(op => op.type === 'trash')) {
+        await run(operation, () => this.trashFile(operation.targetId));
+      }
+
+      // Build the folder structure once, before uploads run in parallel,
+      // so concurrent uploads never race to create the same folder
+      const folderMap = await this.createFolderStructure(areas, identity);
+      const tree = operations.find(op => op.type === 'tree');
+      if (tree) {
+        await run(tree, async () => undefined);
       }
+
+      await runWithConcurrency(
+        operations.filter(op => op.type === 'note'),
+        config.app.syncConcurrency,
+        operation => run(operation, async () => {
+          const note = notesById.get(operation.targetId);
+          // Deleted since it was queued: nothing to upload
+          if (note) {
+            await this.saveNote(note, areas, identity, folderMap);
+          }
+        })
+      );
+
       this.syncStatus.lastSync = new Date();
+      this.syncStatus.error = failed > 0
+        ? `${failed} change${failed > 1 ? 's' : ''} failed to sync`
+        : null;
+      return identity;
     } catch (error) {
       console.error('Error syncing to Google Drive:', error);
       this.syncStatus.error = error instanceof Error ? error.message : 'Unknown error';
@@ -649,6 +1225,871 @@ class GoogleDriveService {
     } finally {
       // Always clear syncing flag, even if errors occur
       this.syncStatus.isSyncing = false;
+      this.syncStatus.progress = null;
+    }
+  }
+
+  /**
+   * Synchronize all notes to Google Drive
+   *
+   * Queues every note and the folder structure, then processes the queue.
+   * Notes whose content, name and folder already match Drive are skipped.
+   *
+   * @async
+   * @param {Note[]} notes - Array of all notes to sync
+   * @param {Node[]} areas - Area hierarchy for folder structure
+   * @returns {Promise<DriveIdentityUpdate>} Drive IDs assigned during the sync
+   * @throws {Error} If not connected or if sync fails
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await googleDriveService.syncAll(notes, areas);
+   *   console.log('All notes synced successfully');
+   * } catch (error) {
+   *   console.error('Sync failed:', error);
+   * }
+   * ```
+   */
+  async syncAll(notes: Note[], areas: Node[]): Promise<DriveIdentityUpdate> {
+    syncQueue.enqueueTree();
+    notes.forEach(note => syncQueue.enqueueNote(note.id, note.title));
+    return this.processQueue(notes, areas);
+  }
+
+  /**
+   * List child items of a Drive folder
+   *
+   * Follows pagination so folders with many notes are listed completely.
+   *
+   * @private
+   * @async
+   * @param {string} folderId - Parent folder ID
+   * @returns {Promise<any[]>} Files and folders with id, name, mimeType, revision fields and appProperties
+   */
+  private async listFolder(folderId: string): Promise<any[]> {
+    const items: any[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await (window as any).gapi.client.drive.files.list({
+        q: `'${folderId}' in parents and trashed=false`,
+        fields: 'nextPageToken, files(id, name, mimeType, modifiedTime, md5Checksum, headRevisionId, appProperties)',
+        spaces: 'drive',
+        pageSize: 1000,
+        pageToken,
+      });
+      items.push(...(response.result.files || []));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+
+    return items;
+  }
+
+  /**
+   * List every Markdown note file under the Notes hierarchy
+   *
+   * Walks Notes → Area → Stack → Notebook folders. Files placed at any
+   * other depth are ignored because they can't be mapped to a notebook.
+   *
+   * @private
+   * @async
+   * @returns {Promise<RemoteFile[]>} Note files with their folder path
+   */
+  private async listRemoteFiles(): Promise<RemoteFile[]> {
+    const rootFolderId = await this.getOrCreateFolder(ROOT_FOLDER_NAME);
+    const notesFolderId = await this.getOrCreateFolder(NOTES_FOLDER_NAME, rootFolderId);
+    const files: RemoteFile[] = [];
+
+    const isFolder = (item: any) => item.mimeType === FOLDER_MIME_TYPE;
+
+    for (const area of (await this.listFolder(notesFolderId)).filter(isFolder)) {
+      for (const stack of (await this.listFolder(area.id)).filter(isFolder)) {
+        for (const notebook of (await this.listFolder(stack.id)).filter(isFolder)) {
+          for (const file of await this.listFolder(notebook.id)) {
+            if (!isFolder(file) && file.name.endsWith('.md')) {
+              files.push({
+                id: file.id,
+                name: file.name,
+                modifiedTime: file.modifiedTime,
+                md5Checksum: file.md5Checksum,
+                headRevisionId: file.headRevisionId,
+                path: [area.name, stack.name, notebook.name],
+                folderIds: [area.id, stack.id, notebook.id],
+                noteId: file.appProperties?.noteId,
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Get the `attachments/` folder inside a notebook folder
+   *
+   * @private
+   * @param {string} notebookFolderId - Drive ID of the notebook folder
+   * @returns {Promise<string>} Drive ID of the attachments folder
+   */
+  private getAttachmentsFolder(notebookFolderId: string): Promise<string> {
+    let folder = this.attachmentFolders.get(notebookFolderId);
+    if (!folder) {
+      folder = this.getOrCreateFolder(ATTACHMENTS_DIR, notebookFolderId);
+      folder.catch(() => this.attachmentFolders.delete(notebookFolderId));
+      this.attachmentFolders.set(notebookFolderId, folder);
+    }
+    return folder;
+  }
+
+  /**
+   * Find an attachment file by ID in an attachments folder
+   *
+   * @private
+   * @async
+   * @param {string} folderId - Drive ID of the attachments folder
+   * @param {string} attachmentId - Attachment ID, which is also the file name
+   * @returns {Promise<string | null>} Drive file ID, or null if missing
+   */
+  private async findAttachmentFile(folderId: string, attachmentId: string): Promise<string | null> {
+    const response = await (window as any).gapi.client.drive.files.list({
+      q: `name='${escapeQueryValue(attachmentId)}' and '${folderId}' in parents and trashed=false`,
+      fields: 'files(id)',
+      spaces: 'drive',
+    });
+    return response.result.files?.[0]?.id || null;
+  }
+
+  /**
+   * Upload the attachments a note references to its notebook's
+   * `attachments/` folder
+   *
+   * Exported Markdown links them as `attachments/{id}`, relative to the
+   * note file. Attachments missing from the local store are skipped.
+   *
+   * @private
+   * @async
+   * @param {Note} note - Note being saved
+   * @param {string} notebookFolderId - Drive ID of the note's notebook folder
+   * @returns {Promise<void>}
+   * @throws {Error} If an upload fails
+   */
+  private async uploadAttachments(note: Note, notebookFolderId: string): Promise<void> {
+    for (const attachmentId of extractAttachmentIds(note.content)) {
+      const key = `${notebookFolderId}/${attachmentId}`;
+      if (this.uploadedAttachments[key]) continue;
+
+      const folderId = await this.getAttachmentsFolder(notebookFolderId);
+      let fileId = await this.findAttachmentFile(folderId, attachmentId);
+
+      if (!fileId) {
+        const record = await attachmentService.get(attachmentId);
+        if (!record) {
+          console.warn('Attachment missing from local store:', attachmentId);
+          continue;
+        }
+
+        const metadata = {
+          name: attachmentId,
+          mimeType: record.type,
+          parents: [folderId],
+          appProperties: { attachmentId, originalName: record.name },
+        };
+        const form = new FormData();
+        form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
+        form.append('file', record.blob);
+
+        const response = await fetch(
+          'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id',
+          {
+            method: 'POST',
+            headers: new Headers({ Authorization: `Bearer ${this.accessToken}` }),
+            body: form,
+          }
+        );
+        if (!response.ok) {
+          throw new Error(`Attachment upload failed: ${response.status} ${response.statusText}`);
+        }
+        fileId = (await response.json()).id as string;
+      }
+
+      this.uploadedAttachments[key] = fileId;
+      this.saveAttachmentState();
+    }
+  }
+
+  /**
+   * Download attachments referenced by pulled content that are missing locally
+   *
+   * Failures are logged and skipped; the image stays broken until a later
+   * pull succeeds.
+   *
+   * @private
+   * @async
+   * @param {string} html - Note content rendered from the remote Markdown
+   * @param {string} notebookFolderId - Drive ID of the note's notebook folder
+   * @returns {Promise<void>}
+   */
+  private async downloadMissingAttachments(html: string, notebookFolderId: string): Promise<void> {
+    for (const attachmentId of extractAttachmentIds(html)) {
+      try {
+        if (await attachmentService.has(attachmentId)) continue;
+
+        const folderId = await this.getAttachmentsFolder(notebookFolderId);
+        const fileId = await this.findAttachmentFile(folderId, attachmentId);
+        if (!fileId) {
+          console.warn('Attachment not found in Drive:', attachmentId);
+          continue;
+        }
+
+        const response = await this.fetchMedia(fileId);
+        const blob = await response.blob();
+        await attachmentService.put({
+          id: attachmentId,
+          blob,
+          name: attachmentId,
+          type: blob.type || 'application/octet-stream',
+          createdAt: new Date().toISOString(),
+        });
+        this.uploadedAttachments[`${notebookFolderId}/${attachmentId}`] = fileId;
+        this.saveAttachmentState();
+      } catch (error) {
+        console.error('Failed to download attachment:', attachmentId, error);
+      }
+    }
+  }
+
+  /**
+   * Fetch the content of a Drive file
+   *
+   * @private
+   * @async
+   * @param {string} fileId - Google Drive file ID
+   * @returns {Promise<Response>} Successful response with the file content
+   * @throws {Error} If the download fails
+   */
+  private async fetchMedia(fileId: string): Promise<Response> {
+    const response = await fetch(
+      `https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`,
+      { headers: new Headers({ Authorization: `Bearer ${this.accessToken}` }) }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Download the text content of a Drive file
+   *
+   * @private
+   * @async
+   * @param {string} fileId - Google Drive file ID
+   * @returns {Promise<string>} File content
+   * @throws {Error} If the download fails
+   */
+  private async downloadFile(fileId: string): Promise<string> {
+    const response = await this.fetchMedia(fileId);
+    return response.text();
+  }
+
+  /**
+   * Find a notebook by its folder path, creating missing nodes
+   *
+   * Each level is matched by Drive folder ID first and by name second, so
+   * folders renamed in Drive still map to the same node. Mutates the given
+   * tree, which must be a private copy.
+   *
+   * @private
+   * @param {Node[]} areas - Area hierarchy (mutable copy)
+   * @param {RemoteFile} file - Remote file whose folders to resolve
+   * @param {DriveIdentityUpdate} identity - Collects folder IDs of matched or created nodes
+   * @returns {{ notebook: Node; created: boolean }} The notebook node and
+   *   whether any node had to be created
+   */
+  private findOrCreateNotebook(
+    areas: Node[],
+    file: RemoteFile,
+    identity: DriveIdentityUpdate
+  ): { notebook: Node; created: boolean } {
+    const uniqueId = (prefix: string) =>
+      `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    let created = false;
+
+    const resolve = (siblings: Node[], type: Node['type'], level: number): Node => {
+      const name = file.path[level];
+      const folderId = file.folderIds[level];
+      let node =
+        siblings.find(candidate => candidate.type === type && candidate.driveFileId === folderId) ||
+        siblings.find(candidate => candidate.type === type && !candidate.driveFileId && candidate.name === name);
+
+      if (!node) {
+        node = { id: uniqueId(type), name, type, driveFileId: folderId };
+        if (type === 'notebook') {
+          node.noteIds = [];
+        } else {
+          node.children = [];
+        }
+        siblings.push(node);
+        created = true;
+      }
+
+      if (node.driveFileId !== folderId) {
+        node.driveFileId = folderId;
+        identity.nodes[node.id] = folderId;
+      }
+      return node;
+    };
+
+    const area = resolve(areas, 'area', 0);
+    area.children = area.children || [];
+    const stack = resolve(area.children, 'stack', 1);
+    stack.children = stack.children || [];
+    const notebook = resolve(stack.children, 'notebook', 2);
+    notebook.noteIds = notebook.noteIds || [];
+
+    return { notebook, created };
+  }
+
+  /**
+   * Find the local note stored in a remote file
+   *
+   * Matches by recorded Drive file ID, then by the note ID in the file's
+   * appProperties, then by filename within the notebook for files uploaded
+   * before file identity was tracked.
+   *
+   * @private
+   * @param {Note[]} notes - Local notes
+   * @param {Node | null} notebook - Notebook the file lives in; null skips the filename match
+   * @param {RemoteFile} file - Remote file
+   * @returns {number} Index into `notes`, or -1 if no note matches
+   */
+  private findLocalNote(notes: Note[], notebook: Node | null, file: RemoteFile): number {
+    const byFileId = notes.findIndex(note => note.driveFileId === file.id);
+    if (byFileId >= 0) return byFileId;
+
+    if (file.noteId) {
+      const byNoteId = notes.findIndex(note => note.id === file.noteId);
+      if (byNoteId >= 0) return byNoteId;
+    }
+
+    if (!notebook) return -1;
+    return notes.findIndex(note =>
+      !note.driveFileId &&
+      notebook.noteIds!.includes(note.id) &&
+      sanitizeFilename(note.title) + '.md' === file.name
+    );
+  }
+
+  /**
+   * Pull notes edited in Google Drive back into the local state
+   *
+   * Lists all Markdown files under the Notes hierarchy and merges those
+   * that changed remotely since this app last uploaded or downloaded them.
+   * Returns new arrays; the caller is responsible for applying them.
+   *
+   * @async
+   * @param {Note[]} notes - Current local notes
+   * @param {Node[]} areas - Current area hierarchy
+   * @returns {Promise<PullResult>} Merged notes and areas with change summary
+   * @throws {Error} If not connected or if listing fails
+   *
+   * Change detection:
+   * - A file is changed remotely when its Drive `md5Checksum` (or
+   *   `modifiedTime`) differs from the base revision recorded at our last
+   *   upload/download of that file
+   * - A note is changed locally when its Markdown differs from the base
+   *   content; without a recorded base, its `updatedAt` is compared with
+   *   the file's `modifiedTime`
+   * - Changed remotely only: the remote version replaces the local note
+   * - Changed on both sides: a conflict is recorded and the note is left
+   *   untouched until {@link resolveConflict} is called
+   * - Files are matched to notes by Drive file ID, then by the note ID
+   *   stored in appProperties, then by notebook folder and filename, and
+   *   once downloaded by the note ID in their frontmatter
+   * - Changed files without a matching note become new notes, creating
+   *   Area/Stack/Notebook nodes as needed
+   * - Files and folders queued for trashing are ignored, so items deleted
+   *   locally are not brought back before the queue runs
+   *
+   * @example
+   * ```typescript
+   * const result = await googleDriveService.pullChanges(notes, areas);
+   * setNotes(result.notes);
+   * setAreas(result.areas);
+   * ```
+   */
+  async pullChanges(notes: Note[], areas: Node[]): Promise<PullResult> {
+    if (!this.syncStatus.isConnected) {
+      throw new Error('Not connected to Google Drive');
+    }
+
+    this.syncStatus.isSyncing = true;
+    this.syncStatus.error = null;
+
+    try {
+      await this.loadBases();
+      const remoteFiles = await this.listRemoteFiles();
+      const nextNotes = [...notes];
+      const nextAreas: Node[] = structuredClone(areas);
+      const updatedNoteIds: string[] = [];
+      const createdNoteIds: string[] = [];
+      const conflictNoteIds: string[] = [];
+      const identity: DriveIdentityUpdate = { notes: {}, nodes: {} };
+      let areasChanged = false;
+      // Deleted locally and waiting to be trashed in Drive: don't bring them back
+      const trashed = new Set(
+        syncQueue.getOperations().filter(op => op.type === 'trash').map(op => op.targetId)
+      );
+
+      for (const file of remoteFiles) {
+        if (trashed.has(file.id) || file.folderIds.some(id => trashed.has(id))) continue;
+
+        // Skip files whose content hasn't changed since our base revision
+        const state = this.knownFiles[file.id];
+        if (state && !this.hasRemoteChanged(state, file)) {
+          const known = this.findLocalNote(nextNotes, null, file);
+          if (known >= 0 && nextNotes[known].driveFileId !== file.id) {
+            identity.notes[nextNotes[known].id] = file.id;
+          }
+          continue;
+        }
+
+        const { notebook, created } = this.findOrCreateNotebook(nextAreas, file, identity);
+        areasChanged = areasChanged || created;
+
+        let localIndex = this.findLocalNote(nextNotes, notebook, file);
+
+        // First sight of a file for a note that predates edit tracking:
+        // adopt the remote version as the baseline instead of overwriting
+        if (localIndex >= 0 && !nextNotes[localIndex].updatedAt && !state) {
+          this.knownFiles[file.id] = this.toFileSyncState(file);
+          if (nextNotes[localIndex].driveFileId !== file.id) {
+            identity.notes[nextNotes[localIndex].id] = file.id;
+          }
+          continue;
+        }
+
+        const remote = await this.downloadFile(file.id);
+        const remoteState = this.toFileSyncState(file);
+        const { frontmatter, body } = parseFrontmatter(remote);
+
+        // Files written by another device carry the note ID in their frontmatter too
+        if (localIndex < 0 && typeof frontmatter.id === 'string') {
+          localIndex = nextNotes.findIndex(note => note.id === frontmatter.id);
+        }
+        const local = localIndex >= 0 ? nextNotes[localIndex] : null;
+        if (local && local.driveFileId !== file.id) {
+          identity.notes[local.id] = file.id;
+        }
+
+        if (local) {
+          const localMarkdown = this.noteToMarkdown(local);
+
+          // Identical on both sides: just advance the base revision
+          if (localMarkdown === remote) {
+            this.knownFiles[file.id] = remoteState;
+            this.setBase(file.id, remote);
+            this.conflicts.delete(local.id);
+            continue;
+          }
+
+          // Without a recorded base, fall back to comparing timestamps
+          const base = this.bases.get(file.id);
+          const localChanged = base !== undefined
+            ? localMarkdown !== base
+            : !!local.updatedAt && Date.parse(local.updatedAt) >= Date.parse(file.modifiedTime);
+
+          if (localChanged) {
+            this.recordConflict(local, file.id, base || '', localMarkdown, remote, remoteState);
+            conflictNoteIds.push(local.id);
+            continue;
+          }
+        }
+
+        const content = markdownToHtml(body);
+        await this.downloadMissingAttachments(content, file.folderIds[2]);
+        const title = frontmatter.title || file.name.replace(/\.md$/, '').replace(/-/g, ' ');
+
+        if (local) {
+          nextNotes[localIndex] = {
+            ...local,
+            title,
+            content,
+            tags: normalizeTags(frontmatter.tags),
+            description: extractTextFromHtml(content, 150),
+            updatedAt: file.modifiedTime,
+          };
+          updatedNoteIds.push(local.id);
+        } else {
+          // Keep the original note ID when the file came from this app
+          const originalId = file.noteId || (typeof frontmatter.id === 'string' ? frontmatter.id : undefined);
+          const knownId = originalId && !nextNotes.some(note => note.id === originalId);
+          const newNote: Note = {
+            id: knownId ? originalId : `note-${Date.now()}-${createdNoteIds.length}`,
+            title,
+            description: extractTextFromHtml(content, 150),
+            createdAt: parseNoteDate(frontmatter.date) || file.modifiedTime,
+            content,
+            tags: normalizeTags(frontmatter.tags),
+            updatedAt: file.modifiedTime,
+            driveFileId: file.id,
+          };
+          nextNotes.unshift(newNote);
+          notebook.noteIds!.unshift(newNote.id);
+          createdNoteIds.push(newNote.id);
+        }
+
+        this.knownFiles[file.id] = remoteState;
+        this.setBase(file.id, remote);
+      }
+
+      this.saveSyncState();
+      this.syncStatus.lastSync = new Date();
+
+      return {
+        notes: nextNotes,
+        areas: areasChanged || createdNoteIds.length > 0 ? nextAreas : areas,
+        updatedNoteIds,
+        createdNoteIds,
+        conflictNoteIds,
+        identity,
+      };
+    } catch (error) {
+      console.error('Error pulling from Google Drive:', error);
+      this.syncStatus.error = error instanceof Error ? error.message : 'Unknown error';
+      throw error;
+    } finally {
+      this.syncStatus.isSyncing = false;
+    }
+  }
+
+  /**
+   * Merge the tree changes of a pull into the current hierarchy
+   *
+   * {@link pullChanges} returns a hierarchy derived from the one it was
+   * given. Nodes and notebook entries it added are carried over to the
+   * current hierarchy, so tree edits made while the pull ran are kept.
+   * Folder IDs are applied separately from the pull's identity update.
+   *
+   * @param {Node[]} current - Hierarchy now
+   * @param {Node[]} snapshot - Hierarchy passed to the pull
+   * @param {Node[]} pulled - Hierarchy returned by the pull
+   * @returns {Node[]} Current hierarchy with the pulled additions, or `current` itself if none apply
+   */
+  mergePulledAreas(current: Node[], snapshot: Node[], pulled: Node[]): Node[] {
+    const before = new Map<string, Node>();
+    const collect = (nodes: Node[]) => nodes.forEach(node => {
+      before.set(node.id, node);
+      collect(node.children || []);
+    });
+    collect(snapshot);
+
+    const merge = (nodes: Node[], pulledNodes: Node[]): Node[] => {
+      let changed = false;
+      const merged = nodes.map(node => {
+        const counterpart = pulledNodes.find(candidate => candidate.id === node.id);
+        if (!counterpart) return node;
+
+        if (node.type === 'notebook') {
+          const known = new Set([...(before.get(node.id)?.noteIds || []), ...(node.noteIds || [])]);
+          const added = (counterpart.noteIds || []).filter(id => !known.has(id));
+          if (added.length === 0) return node;
+          changed = true;
+          return { ...node, noteIds: [...added, ...(node.noteIds || [])] };
+        }
+
+        const children = merge(node.children || [], counterpart.children || []);
+        if (children === node.children || (!node.children && children.length === 0)) return node;
+        changed = true;
+        return { ...node, children };
+      });
+
+      // Nodes the pull created for new remote folders; nodes deleted meanwhile stay deleted
+      const created = pulledNodes.filter(node => !before.has(node.id) && !nodes.some(existing => existing.id === node.id));
+      if (created.length > 0) {
+        changed = true;
+        merged.push(...created);
+      }
+      return changed ? merged : nodes;
+    };
+
+    return merge(current, pulled);
+  }
+
+  /**
+   * Record a conflict for a pulled note that was edited while the pull ran
+   *
+   * The pull replaced the version it was given, but the newer local edit
+   * must neither be dropped nor uploaded over the Drive version unseen.
+   *
+   * @param {Note} before - Note as passed to the pull
+   * @param {Note} edited - Note as edited since
+   * @param {string} fileId - Drive file the note was pulled from
+   * @returns {void}
+   */
+  recordConcurrentEdit(before: Note, edited: Note, fileId: string): void {
+    const remote = this.bases.get(fileId);
+    const remoteState = this.knownFiles[fileId];
+    if (remote === undefined || !remoteState) return;
+    this.recordConflict(edited, fileId, this.noteToMarkdown(before), this.noteToMarkdown(edited), remote, remoteState);
+  }
+
+  /**
+   * Get all unresolved sync conflicts
+   *
+   * @returns {SyncConflict[]} Conflicts, oldest first
+   */
+  getConflicts(): SyncConflict[] {
+    return Array.from(this.conflicts.values());
+  }
+
+  /**
+   * Resolve a sync conflict
+   *
+   * Records the remote revision as the new base so the next upload is no
+   * longer blocked, and returns the note fields the caller must apply.
+   *
+   * @param {string} noteId - ID of the conflicted note
+   * @param {ConflictChoice} choice - Which version to keep
+   * @param {string} [mergedMarkdown] - Merged document, required for 'merged'
+   * @returns {{ title: string; content: string; tags: string[] } | null} New note
+   *   title, HTML and tags, or null when the local note is kept as is
+   * @throws {Error} If there is no conflict for the note
+   *
+   * @example
+   * ```typescript
+   * const update = googleDriveService.resolveConflict(noteId, 'remote');
+   * if (update) applyToNote(noteId, update);
+   * ```
+   */
+  resolveConflict(
+    noteId: string,
+    choice: ConflictChoice,
+    mergedMarkdown?: string
+  ): { title: string; content: string; tags: string[] } | null {
+    const conflict = this.conflicts.get(noteId);
+    if (!conflict) {
+      throw new Error(`No sync conflict for note: ${noteId}`);
+    }
+
+    this.knownFiles[conflict.fileId] = conflict.remoteState;
+    this.setBase(conflict.fileId, conflict.remote);
+    this.conflicts.delete(noteId);
+    this.saveSyncState();
+
+    if (choice === 'local') {
+      return null;
+    }
+
+    const text = choice === 'merged' ? mergedMarkdown ?? conflict.local : conflict.remote;
+    const { frontmatter, body } = parseFrontmatter(text);
+    return {
+      title: frontmatter.title || conflict.title,
+      content: markdownToHtml(body),
+      tags: normalizeTags(frontmatter.tags),
+    };
+  }
+
+  /**
+   * Record a conflict for a note changed on both sides
+   *
+   * @private
+   * @param {Note} note - The local note
+   * @param {string} fileId - Drive file ID
+   * @param {string} base - Content at the last sync
+   * @param {string} local - Local note as Markdown
+   * @param {string} remote - Current Drive content
+   * @param {FileSyncState} remoteState - Revision the remote content came from
+   * @returns {void}
+   */
+  private recordConflict(
+    note: Note,
+    fileId: string,
+    base: string,
+    local: string,
+    remote: string,
+    remoteState: FileSyncState
+  ): void {
+    console.warn('Sync conflict detected for note:', note.id);
+    this.conflicts.set(note.id, {
+      noteId: note.id,
+      fileId,
+      title: note.title,
+      base,
+      local,
+      remote,
+      remoteState,
+      detectedAt: new Date(),
+    });
+  }
+
+  /**
+   * Check whether a Drive file differs from its recorded base revision
+   *
+   * @private
+   * @param {FileSyncState} state - Recorded base revision
+   * @param {{ modifiedTime: string; md5Checksum?: string }} file - Current Drive metadata
+   * @returns {boolean} True if the file content changed remotely
+   */
+  private hasRemoteChanged(state: FileSyncState, file: { modifiedTime: string; md5Checksum?: string }): boolean {
+    if (state.md5Checksum && file.md5Checksum) {
+      return state.md5Checksum !== file.md5Checksum;
+    }
+    return state.modifiedTime !== file.modifiedTime;
+  }
+
+  /**
+   * Build a sync state record from Drive file metadata
+   *
+   * @private
+   * @param {any} file - Drive file resource with revision fields
+   * @returns {FileSyncState} Sync state record
+   */
+  private toFileSyncState(file: any): FileSyncState {
+    return {
+      modifiedTime: file.modifiedTime,
+      md5Checksum: file.md5Checksum,
+      headRevisionId: file.headRevisionId,
+    };
+  }
+
+  /**
+   * Load the merge bases from IndexedDB once per session
+   *
+   * Bases recorded before the load finished take precedence over the
+   * stored ones. A failed load leaves the bases empty, which makes the
+   * next sync fall back to comparing timestamps.
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private loadBases(): Promise<void> {
+    if (!this.basesLoaded) {
+      this.basesLoaded = storageService.getSyncBases()
+        .then(saved => {
+          saved.forEach((content, fileId) => {
+            if (!this.bases.has(fileId)) this.bases.set(fileId, content);
+          });
+        })
+        .catch(error => console.error('Failed to load Drive merge bases:', error));
+    }
+    return this.basesLoaded;
+  }
+
+  /**
+   * Record the content of a Drive file at its last sync
+   *
+   * @private
+   * @param {string} fileId - Drive file ID
+   * @param {string} content - File content
+   * @returns {void}
+   */
+  private setBase(fileId: string, content: string): void {
+    this.bases.set(fileId, content);
+    storageService.putSyncBase(fileId, content).catch(error =>
+      console.error('Failed to save Drive merge base:', error)
+    );
+  }
+
+  /**
+   * Render a note as the Markdown file stored in Drive
+   *
+   * @private
+   * @param {Note} note - Note to render
+   * @returns {string} Frontmatter followed by the Markdown body
+   */
+  private noteToMarkdown(note: Note): string {
+    return generateFrontmatter(note.title, note.createdAt, note.tags || [], note.id) + htmlToMarkdown(note.content);
+  }
+
+  /**
+   * Load the per-file sync state from localStorage
+   *
+   * Entries written before base revisions were tracked hold only the
+   * modifiedTime string and are upgraded in place. Entries that still
+   * carry the file content from before merge bases moved to IndexedDB
+   * hand it over to {@link bases}.
+   *
+   * @private
+   * @returns {Record<string, FileSyncState>} File ID → base revision
+   */
+  private loadSyncState(): Record<string, FileSyncState> {
+    try {
+      const saved = localStorage.getItem(SYNC_STATE_STORAGE_KEY);
+      const parsed: Record<string, (FileSyncState & { base?: string }) | string> = saved ? JSON.parse(saved) : {};
+      const state: Record<string, FileSyncState> = {};
+      const moved: Promise<void>[] = [];
+      for (const [fileId, entry] of Object.entries(parsed)) {
+        if (typeof entry === 'string') {
+          state[fileId] = { modifiedTime: entry };
+          continue;
+        }
+        const { base, ...revision } = entry;
+        state[fileId] = revision;
+        if (base !== undefined) {
+          this.bases.set(fileId, base);
+          moved.push(storageService.putSyncBase(fileId, base));
+        }
+      }
+      // Drop the moved contents from localStorage once IndexedDB has them
+      if (moved.length > 0) {
+        Promise.all(moved)
+          .then(() => this.saveSyncState())
+          .catch(error => console.error('Failed to move Drive merge bases:', error));
+      }
+      return state;
+    } catch (error) {
+      console.error('Failed to load Drive sync state:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Persist the per-file sync state to localStorage
+   *
+   * @private
+   * @returns {void}
+   */
+  private saveSyncState(): void {
+    try {
+      localStorage.setItem(SYNC_STATE_STORAGE_KEY, JSON.stringify(this.knownFiles));
+    } catch (error) {
+      console.error('Failed to save Drive sync state:', error);
+    }
+  }
+
+  /**
+   * Load the uploaded-attachment map from localStorage
+   *
+   * @private
+   * @returns {Record<string, string>} "{folderId}/{attachmentId}" → Drive file ID
+   */
+  private loadAttachmentState(): Record<string, string> {
+    try {
+      const saved = localStorage.getItem(ATTACHMENT_STATE_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.error('Failed to load Drive attachment state:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Persist the uploaded-attachment map to localStorage
+   *
+   * @private
+   * @returns {void}
+   */
+  private saveAttachmentState(): void {
+    try {
+      localStorage.setItem(ATTACHMENT_STATE_STORAGE_KEY, JSON.stringify(this.uploadedAttachments));
+    } catch (error) {
+      console.error('Failed to save Drive attachment state:', error);
     }
   }
 
@@ -675,7 +2116,12 @@ class GoogleDriveService {
    * ```
    */
   getSyncStatus(): SyncStatus {
-    return { ...this.syncStatus };
+    return {
+      ...this.syncStatus,
+      conflictCount: this.conflicts.size,
+      pendingCount: syncQueue.size,
+      progress: this.syncStatus.progress && { ...this.syncStatus.progress },
+    };
   }
 }
 
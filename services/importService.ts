@@ -0,0 +1,439 @@
+/**
+ * @fileoverview Markdown Import Service
+ *
+ * Creates notes and notebooks from a folder of Markdown files, such as an
+ * Obsidian vault, picked as a directory, as loose `.md` files or as a zip.
+ *
+ * Mapping:
+ * - Frontmatter `title`, `date`, `tags` and `id` (as written by
+ *   {@link module:utils/markdown.generateFrontmatter}) fill the note fields
+ * - The body goes through {@link module:utils/markdown.markdownToHtml}, which
+ *   handles GFM tables, task lists and ```mermaid fences
+ * - Folders map onto Area / Stack / Notebook. Deeper folders are joined
+ *   into the notebook name; missing levels repeat the deepest folder.
+ *   Files at the top level go under the name of the import itself.
+ * - Existing nodes with the same name are reused, so importing twice adds
+ *   notes to the same notebooks
+ * - Images referenced by relative path are stored as attachments
+ * - Archives made by {@link module:services/exportService} are restored
+ *   from their manifest: exact HTML, metadata, hierarchy and attachments
+ *
+ * @module services/importService
+ */
+
+import { unzipSync } from 'fflate';
+import { Note, Node } from '../types';
+import { markdownToHtml, parseFrontmatter, extractTextFromHtml, sanitizeNoteHtml } from '../utils/markdown';
+import { ATTACHMENT_ID_ATTRIBUTE, ATTACHMENTS_DIR, attachmentPath } from '../utils/attachments';
+import { normalizeTags } from '../utils/tags';
+import { parseNoteDate } from '../utils/noteDates';
+import { attachmentService } from './attachmentService';
+import {
+  EXPORT_MANIFEST_FILE,
+  EXPORT_MANIFEST_FORMAT,
+  ExportManifest,
+  ExportManifestNote,
+} from './exportService';
+
+/**
+ * A file to import, with its path relative to the import root
+ * @interface ImportFile
+ */
+export interface ImportFile {
+  /** Path using `/` separators, e.g. 'Vault/Cardiology/Heart failure.md' */
+  path: string;
+  data: Blob;
+  /** Last modification time in milliseconds, when known */
+  lastModified?: number;
+}
+
+/**
+ * Outcome of an import
+ * @interface ImportResult
+ */
+export interface ImportResult {
+  /** New notes, to be prepended to the note list */
+  notes: Note[];
+  /** Area hierarchy with the imported nodes merged in */
+  areas: Node[];
+  /** Number of Area, Stack and Notebook nodes created */
+  createdNodes: number;
+  /** Number of images stored as attachments */
+  attachments: number;
+  /** Files that could not be imported, with the reason */
+  skipped: Array<{ path: string; reason: string }>;
+}
+
+/**
+ * Paths ignored inside folders and zips: hidden files, app settings and
+ * macOS resource forks
+ */
+const IGNORED_PATH = /(^|\/)(\.|__MACOSX\/)/;
+
+/**
+ * MIME types for attachments found in zips, which carry no type of their own
+ */
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Folder levels below the import root: Area, Stack, Notebook
+ */
+type NodeLevel = 'area' | 'stack' | 'notebook';
+
+/**
+ * Rewrite Obsidian-only syntax into plain Markdown
+ *
+ * - `![[image.png]]` embeds become `![image.png](image.png)`
+ * - `[[Note]]` and `[[Note|alias]]` links become their text
+ *
+ * @param {string} markdown - Markdown body
+ * @returns {string} Markdown without wiki links
+ */
+function normalizeObsidianSyntax(markdown: string): string {
+  return markdown
+    .replace(/!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g, (_, target: string) => `![${target}](<${target}>)`)
+    .replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, target: string, alias?: string) => alias || target);
+}
+
+/**
+ * Give a file's data a MIME type based on its name, if it has none
+ *
+ * @param {Blob} data - File data
+ * @param {string} name - File name
+ * @returns {Blob} Data with a type where one is known
+ */
+function typedBlob(data: Blob, name: string): Blob {
+  const type = MIME_TYPES[name.split('.').pop()!.toLowerCase()];
+  return data.type || !type ? data : new Blob([data], { type });
+}
+
+/**
+ * Resolve a relative reference against the folder of a file
+ *
+ * @param {string} directory - Folder of the referencing file, e.g. 'a/b'
+ * @param {string} reference - Relative path, e.g. '../img/x.png'
+ * @returns {string} Normalized path, e.g. 'a/img/x.png'
+ */
+function resolvePath(directory: string, reference: string): string {
+  const parts = directory ? directory.split('/') : [];
+  for (const part of reference.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+/**
+ * ImportService Class
+ *
+ * Singleton turning Markdown files into notes and nodes.
+ *
+ * @class ImportService
+ */
+class ImportService {
+  /**
+   * Collect the files chosen in a file picker
+   *
+   * Zip archives are expanded; hidden files and folders (such as
+   * `.obsidian/`) are dropped.
+   *
+   * @async
+   * @param {FileList | File[]} fileList - Picked files or directory contents
+   * @returns {Promise<ImportFile[]>} Files with their relative paths
+   */
+  async readFiles(fileList: FileList | File[]): Promise<ImportFile[]> {
+    const files: ImportFile[] = [];
+
+    for (const file of Array.from(fileList)) {
+      const path = file.webkitRelativePath || file.name;
+
+      if (/\.zip$/i.test(file.name)) {
+        const entries = Object.entries(unzipSync(new Uint8Array(await file.arrayBuffer())))
+          .filter(([entryPath]) => !entryPath.endsWith('/'));
+
+        // Zips of a folder already have a single top folder; otherwise use the archive name
+        const tops = new Set(entries.map(([entryPath]) => entryPath.split('/')[0]));
+        const wrapped = tops.size === 1 && entries.every(([entryPath]) => entryPath.includes('/'));
+        const prefix = wrapped ? '' : `${file.name.replace(/\.zip$/i, '')}/`;
+
+        for (const [entryPath, bytes] of entries) {
+          files.push({
+            path: prefix + entryPath,
+            data: new Blob([bytes]),
+            lastModified: file.lastModified,
+          });
+        }
+      } else {
+        files.push({ path, data: file, lastModified: file.lastModified });
+      }
+    }
+
+    return files.filter(file => !IGNORED_PATH.test(file.path));
+  }
+
+  /**
+   * Import Markdown files as notes
+   *
+   * Does not modify the passed notes or areas.
+   *
+   * @async
+   * @param {ImportFile[]} files - Files from {@link readFiles}
+   * @param {Note[]} notes - Existing notes, to keep IDs unique
+   * @param {Node[]} areas - Existing area hierarchy
+   * @returns {Promise<ImportResult>} New notes and the merged hierarchy
+   *
+   * @example
+   * ```typescript
+   * const files = await importService.readFiles(input.files);
+   * const result = await importService.importFiles(files, notes, areas);
+   * setNotes(prev => [...result.notes, ...prev]);
+   * setAreas(result.areas);
+   * ```
+   */
+  async importFiles(files: ImportFile[], notes: Note[], areas: Node[]): Promise<ImportResult> {
+    const nextAreas: Node[] = structuredClone(areas);
+    const usedIds = new Set(notes.map(note => note.id));
+    const byPath = new Map(files.map(file => [file.path, file]));
+    const result: ImportResult = { notes: [], areas: nextAreas, createdNodes: 0, attachments: 0, skipped: [] };
+
+    let counter = 0;
+    const uniqueId = (requested?: string): string => {
+      const id = requested && !usedIds.has(requested) ? requested : `note-${Date.now()}-${counter++}`;
+      usedIds.add(id);
+      return id;
+    };
+
+    // Archives made by the exporter are restored from their manifest
+    const covered = new Set<string>();
+    for (const file of files.filter(f => f.path.split('/').pop() === EXPORT_MANIFEST_FILE)) {
+      const manifest = await this.readManifest(file);
+      if (!manifest) continue;
+
+      const base = file.path.slice(0, -EXPORT_MANIFEST_FILE.length);
+      for (const entry of manifest.notes) {
+        covered.add(base + entry.file);
+        try {
+          const notebook = this.findOrCreateNotebook(nextAreas, entry.path, result);
+          const note = await this.restoreManifestNote(entry, base, byPath, uniqueId(entry.id), result);
+          result.notes.push(note);
+          notebook.noteIds = [...(notebook.noteIds || []), note.id];
+        } catch (error) {
+          result.skipped.push({ path: base + entry.file, reason: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    // Treat a single top folder shared by every file (a vault or zip root) as the import name
+    const markdownFiles = files.filter(file => /\.(md|markdown)$/i.test(file.path) && !covered.has(file.path));
+    const tops = new Set(markdownFiles.map(file => file.path.split('/')[0]));
+    const sharedRoot = tops.size === 1 && markdownFiles.every(file => file.path.includes('/'))
+      ? Array.from(tops)[0]
+      : null;
+    const importName = sharedRoot || 'Imported';
+
+    for (const file of markdownFiles) {
+      try {
+        const relative = sharedRoot ? file.path.slice(sharedRoot.length + 1) : file.path;
+        const folders = relative.split('/').slice(0, -1);
+        const fileName = relative.split('/').pop()!.replace(/\.(md|markdown)$/i, '');
+        const notebook = this.findOrCreateNotebook(nextAreas, folders.length ? folders : [importName], result);
+
+        const { frontmatter, body } = parseFrontmatter(await file.data.text());
+        const directory = file.path.split('/').slice(0, -1).join('/');
+        const content = await this.importImages(markdownToHtml(normalizeObsidianSyntax(body)), directory, byPath, result);
+
+        const modified = new Date(file.lastModified ?? Date.now()).toISOString();
+        const note: Note = {
+          id: uniqueId(typeof frontmatter.id === 'string' ? frontmatter.id : undefined),
+          title: frontmatter.title || fileName,
+          description: extractTextFromHtml(content, 150),
+          createdAt: parseNoteDate(frontmatter.date) || modified,
+          updatedAt: modified,
+          content,
+          tags: normalizeTags(frontmatter.tags),
+        };
+
+        result.notes.push(note);
+        notebook.noteIds = [...(notebook.noteIds || []), note.id];
+      } catch (error) {
+        result.skipped.push({ path: file.path, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Read an export manifest
+   *
+   * @private
+   * @async
+   * @param {ImportFile} file - Candidate `manifest.json`
+   * @returns {Promise<ExportManifest | null>} The manifest, or null if the file is not one
+   */
+  private async readManifest(file: ImportFile): Promise<ExportManifest | null> {
+    try {
+      const manifest = JSON.parse(await file.data.text());
+      return manifest?.format === EXPORT_MANIFEST_FORMAT && Array.isArray(manifest.notes) ? manifest : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Rebuild a note from its manifest entry, restoring its attachments
+   *
+   * Attachments keep their IDs, so the note HTML needs no rewriting; it
+   * is only sanitized.
+   *
+   * @private
+   * @async
+   * @param {ExportManifestNote} entry - Manifest entry
+   * @param {string} base - Folder of the manifest, with a trailing `/` unless empty
+   * @param {Map<string, ImportFile>} byPath - All imported files by path
+   * @param {string} id - ID for the note
+   * @param {ImportResult} result - Receives the attachment count
+   * @returns {Promise<Note>} Restored note
+   */
+  private async restoreManifestNote(
+    entry: ExportManifestNote,
+    base: string,
+    byPath: Map<string, ImportFile>,
+    id: string,
+    result: ImportResult
+  ): Promise<Note> {
+    const directory = (base + entry.file).split('/').slice(0, -1).join('/');
+
+    for (const attachmentId of entry.attachments) {
+      const file = byPath.get(`${directory}/${ATTACHMENTS_DIR}/${attachmentId}`);
+      if (!file || await attachmentService.has(attachmentId)) continue;
+
+      const blob = typedBlob(file.data, attachmentId);
+      await attachmentService.put({
+        id: attachmentId,
+        blob,
+        name: attachmentId,
+        type: blob.type || 'application/octet-stream',
+        createdAt: new Date().toISOString(),
+      });
+      result.attachments++;
+    }
+
+    return {
+      id,
+      title: entry.title,
+      description: entry.description,
+      createdAt: entry.createdAt,
+      ...(entry.updatedAt ? { updatedAt: entry.updatedAt } : {}),
+      ...(entry.imageUrl ? { imageUrl: entry.imageUrl } : {}),
+      // Archives can come from anyone; the editor renders this as HTML
+      content: sanitizeNoteHtml(entry.content),
+      tags: normalizeTags(entry.tags),
+    };
+  }
+
+  /**
+   * Find the notebook for a folder path, creating missing nodes
+   *
+   * @private
+   * @param {Node[]} areas - Hierarchy to update in place
+   * @param {string[]} folders - Folder names below the import root (at least one)
+   * @param {ImportResult} result - Receives the count of created nodes
+   * @returns {Node} Notebook node
+   */
+  private findOrCreateNotebook(areas: Node[], folders: string[], result: ImportResult): Node {
+    const names: Record<NodeLevel, string> = {
+      area: folders[0],
+      stack: folders[1] || folders[0],
+      notebook: folders.slice(2).join(' / ') || folders[folders.length - 1],
+    };
+
+    const findOrCreate = (siblings: Node[], level: NodeLevel): Node => {
+      let node = siblings.find(child => child.type === level && child.name === names[level]);
+      if (!node) {
+        node = {
+          id: `${level}-${Date.now()}-${result.createdNodes}`,
+          name: names[level],
+          type: level,
+          ...(level === 'notebook' ? { noteIds: [] } : { children: [] }),
+        };
+        siblings.push(node);
+        result.createdNodes++;
+      }
+      return node;
+    };
+
+    const area = findOrCreate(areas, 'area');
+    const stack = findOrCreate(area.children || (area.children = []), 'stack');
+    return findOrCreate(stack.children || (stack.children = []), 'notebook');
+  }
+
+  /**
+   * Store images referenced by relative path as attachments
+   *
+   * @private
+   * @async
+   * @param {string} html - Imported note HTML
+   * @param {string} directory - Folder of the Markdown file
+   * @param {Map<string, ImportFile>} byPath - All imported files by path
+   * @param {ImportResult} result - Receives the attachment count
+   * @returns {Promise<string>} HTML pointing at the new attachments
+   */
+  private async importImages(
+    html: string,
+    directory: string,
+    byPath: Map<string, ImportFile>,
+    result: ImportResult
+  ): Promise<string> {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+
+    const images = Array.from(container.querySelectorAll('img[src]'))
+      .filter(img => !img.hasAttribute(ATTACHMENT_ID_ATTRIBUTE) && !/^[a-z]+:/i.test(img.getAttribute('src')!));
+
+    for (const img of images) {
+      const src = img.getAttribute('src')!;
+      let reference = src;
+      try {
+        reference = decodeURIComponent(src);
+      } catch {
+        // Malformed escape such as a literal "%" in the file name: use the path as written
+      }
+      // Obsidian resolves bare embeds anywhere in the vault
+      const file = byPath.get(resolvePath(directory, reference))
+        || Array.from(byPath.values()).find(candidate => candidate.path.endsWith(`/${reference}`));
+      if (!file) continue;
+
+      const name = reference.split('/').pop()!;
+      const id = await attachmentService.add(typedBlob(file.data, name), name);
+      img.setAttribute('src', attachmentPath(id));
+      img.setAttribute(ATTACHMENT_ID_ATTRIBUTE, id);
+      result.attachments++;
+    }
+
+    return container.innerHTML;
+  }
+}
+
+/**
+ * Singleton instance of ImportService
+ *
+ * @example
+ * ```typescript
+ * import { importService } from './services/importService';
+ *
+ * const files = await importService.readFiles(event.target.files);
+ * const result = await importService.importFiles(files, notes, areas);
+ * ```
+ */
+export const importService = new ImportService();
+
+export default importService;
@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Semantic Index Service
+ *
+ * Local vector index of note passages for retrieval-augmented AI answers.
+ * Notes are split into passages by heading and paragraph (see
+ * {@link module:utils/embedding}), each passage is embedded with the
+ * embedding provider of the AI service, and the vectors are kept in
+ * IndexedDB and in memory for top-k similarity queries.
+ *
+ * Updates are incremental: edits are indexed after the note has been idle
+ * for a moment, and only passages whose text changed are embedded again.
+ * Switching the embedding provider re-embeds notes as they are indexed.
+ *
+ * @module services/indexService
+ */
+
+import { Note, NoteChunk } from '../types';
+import { storageService } from './storageService';
+import { aiService } from './aiService';
+import { chunkNote, hashText, cosineSimilarity } from '../utils/embedding';
+
+/**
+ * Idle time after the last edit before a note is indexed
+ */
+const INDEX_DELAY_MS = 2000;
+
+/**
+ * Passages returned by a query unless asked otherwise
+ */
+const DEFAULT_TOP_K = 8;
+
+/**
+ * A passage found by a query
+ * @interface PassageMatch
+ */
+export interface PassageMatch {
+  chunk: NoteChunk;
+  /** Cosine similarity to the query, up to 1 */
+  score: number;
+}
+
+/**
+ * Text embedded for a passage; the title and headings help short passages match
+ *
+ * @param {string} title - Note title
+ * @param {string} heading - Headings above the passage
+ * @param {string} text - Passage text
+ * @returns {string} Text to embed
+ */
+function passageText(title: string, heading: string, text: string): string {
+  return [title, heading, text].filter(Boolean).join('\n');
+}
+
+/**
+ * IndexService Class
+ *
+ * Singleton keeping the passage vectors of all notes up to date.
+ *
+ * @class IndexService
+ */
+class IndexService {
+  /**
+   * Indexed passages per note, loaded from storage on first use
+   * @private
+   */
+  private chunks: Promise<Map<string, NoteChunk[]>> | null = null;
+
+  /**
+   * Pending index timers per note
+   * @private
+   */
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * Latest version of each note waiting to be indexed
+   * @private
+   */
+  private pending: Map<string, Note> = new Map();
+
+  /**
+   * Tail of the update chain; updates run one at a time so a slow
+   * embedding request can't overwrite a newer version of the note
+   * @private
+   */
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Load the index from storage once
+   *
+   * @private
+   * @returns {Promise<Map<string, NoteChunk[]>>} Passages per note
+   */
+  private load(): Promise<Map<string, NoteChunk[]>> {
+    if (!this.chunks) {
+      this.chunks = storageService.getChunks().then(all => {
+        const byNote = new Map<string, NoteChunk[]>();
+        all.forEach(chunk => byNote.set(chunk.noteId, [...(byNote.get(chunk.noteId) || []), chunk]));
+        byNote.forEach(list => list.sort((a, b) => Number(a.id.split(':').pop()) - Number(b.id.split(':').pop())));
+        return byNote;
+      });
+      // Allow a later retry if loading failed
+      this.chunks.catch(() => {
+        this.chunks = null;
+      });
+    }
+    return this.chunks;
+  }
+
+  /**
+   * Run an update after the ones already queued
+   *
+   * @private
+   * @param {() => Promise<void>} task - Update to run
+   * @returns {Promise<void>} Resolves when the update finished
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(error => console.error('Semantic index update failed:', error));
+    return run;
+  }
+
+  /**
+   * Index a note once it has been idle for a moment
+   *
+   * @param {Note} note - Edited note
+   * @returns {void}
+   *
+   * @example
+   * ```typescript
+   * indexService.scheduleUpdate({ ...note, content: newContent });
+   * ```
+   */
+  scheduleUpdate(note: Note): void {
+    this.pending.set(note.id, note);
+    clearTimeout(this.timers.get(note.id));
+    this.timers.set(note.id, setTimeout(() => {
+      this.timers.delete(note.id);
+      const latest = this.pending.get(note.id);
+      this.pending.delete(note.id);
+      if (latest) this.update(latest).catch(() => undefined);
+    }, INDEX_DELAY_MS));
+  }
+
+  /**
+   * Index a note now
+   *
+   * Passages whose text and embedding provider are unchanged keep their
+   * vectors; nothing is written when no passage changed.
+   *
+   * @async
+   * @param {Note} note - Note to index
+   * @returns {Promise<void>}
+   */
+  update(note: Note): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.load();
+      const embedder = aiService.getEmbeddingProvider().id;
+      const previous = index.get(note.id) || [];
+      const reusable = new Map(previous.filter(chunk => chunk.embedder === embedder).map(chunk => [chunk.hash, chunk]));
+
+      const passages = chunkNote(note.content).map(({ heading, text }) => ({
+        heading,
+        text,
+        hash: hashText(passageText(note.title, heading, text)),
+      }));
+      const unchanged = passages.length === previous.length &&
+        passages.every((passage, i) => previous[i].hash === passage.hash && previous[i].embedder === embedder);
+      if (unchanged) return;
+
+      const missing = passages.filter(passage => !reusable.has(passage.hash));
+      const vectors = await aiService.embed(missing.map(passage => passageText(note.title, passage.heading, passage.text)));
+      const embedded = new Map(missing.map((passage, i) => [passage.hash, vectors[i]]));
+
+      const chunks: NoteChunk[] = passages.map((passage, i) => ({
+        id: `${note.id}:${i}`,
+        noteId: note.id,
+        heading: passage.heading,
+        text: passage.text,
+        hash: passage.hash,
+        embedder,
+        vector: reusable.get(passage.hash)?.vector || embedded.get(passage.hash)!,
+      }));
+      await storageService.replaceChunks(note.id, chunks);
+      if (chunks.length > 0) {
+        index.set(note.id, chunks);
+      } else {
+        index.delete(note.id);
+      }
+    });
+  }
+
+  /**
+   * Remove a note from the index
+   *
+   * @async
+   * @param {string} noteId - Deleted note
+   * @returns {Promise<void>}
+   */
+  remove(noteId: string): Promise<void> {
+    clearTimeout(this.timers.get(noteId));
+    this.timers.delete(noteId);
+    this.pending.delete(noteId);
+    return this.enqueue(async () => {
+      const index = await this.load();
+      if (!index.has(noteId)) return;
+      await storageService.replaceChunks(noteId, []);
+      index.delete(noteId);
+    });
+  }
+
+  /**
+   * Bring the index in line with the notes, e.g. after loading
+   *
+   * Indexes every note (unchanged ones cost only a hash comparison) and
+   * drops notes that no longer exist.
+   *
+   * @async
+   * @param {Note[]} notes - All notes
+   * @returns {Promise<void>}
+   */
+  async sync(notes: Note[]): Promise<void> {
+    const index = await this.load();
+    const existing = new Set(notes.map(note => note.id));
+    await Promise.all([
+      ...Array.from(index.keys()).filter(id => !existing.has(id)).map(id => this.remove(id)),
+      ...notes.map(note => this.update(note)),
+    ]);
+  }
+
+  /**
+   * Find the passages most similar to a text
+   *
+   * Waits for queued updates, so a query right after an edit that was
+   * already indexing sees it.
+   *
+   * @async
+   * @param {string} text - Query, e.g. the user's question
+   * @param {Object} [options] - Query options
+   * @param {number} [options.topK] - Most passages to return
+   * @param {Set<string>} [options.noteIds] - Only search these notes
+   * @returns {Promise<PassageMatch[]>} Best matches first
+   *
+   * @example
+   * ```typescript
+   * const matches = await indexService.query('first-line treatment', { topK: 5 });
+   * matches[0].chunk.noteId;
+   * ```
+   */
+  async query(text: string, options: { topK?: number; noteIds?: Set<string> } = {}): Promise<PassageMatch[]> {
+    await this.queue;
+    const index = await this.load();
+    const embedder = aiService.getEmbeddingProvider().id;
+    const [vector] = await aiService.embed([text]);
+
+    const matches: PassageMatch[] = [];
+    index.forEach((chunks, noteId) => {
+      if (options.noteIds && !options.noteIds.has(noteId)) return;
+      chunks
+        .filter(chunk => chunk.embedder === embedder)
+        .forEach(chunk => matches.push({ chunk, score: cosineSimilarity(vector, chunk.vector) }));
+    });
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.topK ?? DEFAULT_TOP_K);
+  }
+}
+
+/**
+ * Singleton instance of IndexService
+ *
+ * @example
+ * ```typescript
+ * import { indexService } from './services/indexService';
+ *
+ * indexService.sync(notes);
+ * const matches = await indexService.query('beta blockers in heart failure');
+ * ```
+ */
+export const indexService = new IndexService();
+
+export default indexService;
@@ -0,0 +1,598 @@
+/**
+ * @fileoverview Note Tools Service
+ *
+ * Tools the AI assistant can call (see {@link module:services/aiService}) to
+ * work with the notes: search them, read one, list the notebook tree,
+ * create a note in a notebook, append to a note and move a note.
+ *
+ * Tools never touch app state themselves. Each call is prepared into an
+ * action that describes what it will do; write actions are shown to the
+ * user for confirmation, then run against the current notes and return a
+ * {@link NoteChange} for the app to apply, along with a change that undoes
+ * it. Results go back to the model as JSON; invalid calls throw an Error
+ * whose message tells the model how to correct them.
+ *
+ * @module services/noteToolsService
+ */
+
+import { Note, Node } from '../types';
+import type { AITool, AIToolCall } from './aiService';
+import { indexService } from './indexService';
+import { SearchIndex, buildNotePaths } from '../utils/search';
+import { htmlToMarkdown, markdownToHtml, extractTextFromHtml, escapeHtml } from '../utils/markdown';
+
+/**
+ * Notes and tree the tools work on
+ * @interface NoteWorkspace
+ */
+export interface NoteWorkspace {
+  notes: Note[];
+  areas: Node[];
+}
+
+/**
+ * A change to the notes made by a tool, or by undoing one
+ * @interface NoteChange
+ */
+export interface NoteChange {
+  /** Notes created or edited, in their new state */
+  saved: Note[];
+  /** IDs of deleted notes */
+  deleted: string[];
+  /** IDs of notes placed in another notebook */
+  moved: string[];
+  /** Area tree after the change, when it changed */
+  areas?: Node[];
+}
+
+/**
+ * What carrying out a tool call produced
+ * @interface NoteToolOutcome
+ */
+export interface NoteToolOutcome {
+  /** Result for the model, as JSON */
+  result: string;
+  /** Change to apply, for write tools */
+  change?: NoteChange;
+  /** Build the change reverting this one, against the notes at undo time */
+  undo?: (workspace: NoteWorkspace) => NoteChange;
+}
+
+/**
+ * A prepared tool call
+ * @interface NoteToolAction
+ */
+export interface NoteToolAction {
+  call: AIToolCall;
+  /** What the call does, e.g. 'Append to "Heart Failure"' */
+  summary: string;
+  /** Markdown the call writes, shown before confirming */
+  preview?: string;
+  /** Whether the call changes notes and so needs the user's confirmation */
+  writes: boolean;
+  /** Carry out the call on the current notes */
+  run: (workspace: NoteWorkspace) => Promise<NoteToolOutcome>;
+}
+
+/**
+ * Search results unless the model asks for fewer or more
+ */
+const DEFAULT_SEARCH_LIMIT = 8;
+
+/**
+ * Most search results per call
+ */
+const MAX_SEARCH_LIMIT = 25;
+
+/**
+ * Longest passage excerpt in search results, in characters
+ */
+const SNIPPET_CHARS = 300;
+
+/**
+ * Longest note text returned by read_note, in characters
+ */
+const MAX_READ_CHARS = 20000;
+
+/**
+ * Tools offered to the model
+ */
+export const NOTE_TOOLS: AITool[] = [
+  {
+    name: 'search_notes',
+    description: 'Search the user\'s notes by keywords and meaning. Returns note IDs, titles, notebook paths and matching excerpts.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words or question to search for' },
+        limit: { type: 'integer', description: `Most results to return (default ${DEFAULT_SEARCH_LIMIT}, at most ${MAX_SEARCH_LIMIT})` },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'read_note',
+    description: 'Read the full text of a note as Markdown.',
+    parameters: {
+      type: 'object',
+      properties: {
+        note_id: { type: 'string', description: 'ID of the note, from search_notes or list_tree' },
+      },
+      required: ['note_id'],
+    },
+  },
+  {
+    name: 'list_tree',
+    description: 'List the areas, stacks and notebooks with the IDs and titles of their notes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        area_id: { type: 'string', description: 'Only list this area; omit to list all of them' },
+      },
+    },
+  },
+  {
+    name: 'create_note',
+    description: 'Create a note in a notebook. The user confirms before it is created.',
+    parameters: {
+      type: 'object',
+      properties: {
+        notebook_id: { type: 'string', description: 'ID of the notebook, from list_tree' },
+        title: { type: 'string', description: 'Note title' },
+        content: { type: 'string', description: 'Note body in Markdown, without the title' },
+      },
+      required: ['notebook_id', 'title', 'content'],
+    },
+  },
+  {
+    name: 'append_to_note',
+    description: 'Add text to the end of a note. The user confirms before it is added.',
+    parameters: {
+      type: 'object',
+      properties: {
+        note_id: { type: 'string', description: 'ID of the note' },
+        content: { type: 'string', description: 'Text to add, in Markdown' },
+      },
+      required: ['note_id', 'content'],
+    },
+  },
+  {
+    name: 'move_note',
+    description: 'Move a note to another notebook. The user confirms before it is moved.',
+    parameters: {
+      type: 'object',
+      properties: {
+        note_id: { type: 'string', description: 'ID of the note' },
+        notebook_id: { type: 'string', description: 'ID of the destination notebook, from list_tree' },
+      },
+      required: ['note_id', 'notebook_id'],
+    },
+  },
+];
+
+/**
+ * Apply a change to notes and tree
+ *
+ * New notes come first, like notes added from the note list.
+ *
+ * @param {NoteWorkspace} workspace - Notes and tree before the change
+ * @param {NoteChange} change - Change to apply
+ * @returns {NoteWorkspace} Notes and tree after the change
+ */
+export function applyNoteChange(workspace: NoteWorkspace, change: NoteChange): NoteWorkspace {
+  const saved = new Map(change.saved.map(note => [note.id, note]));
+  const existing = new Set(workspace.notes.map(note => note.id));
+  return {
+    notes: [
+      ...change.saved.filter(note => !existing.has(note.id)),
+      ...workspace.notes
+        .filter(note => !change.deleted.includes(note.id))
+        .map(note => saved.get(note.id) || note),
+    ],
+    areas: change.areas || workspace.areas,
+  };
+}
+
+/**
+ * Find the chain of nodes from an area down to a node
+ *
+ * @param {Node[]} nodes - Tree to search
+ * @param {(node: Node) => boolean} match - Node wanted
+ * @returns {Node[]} Nodes from the root to the match; empty if none matches
+ */
+function findChain(nodes: Node[], match: (node: Node) => boolean): Node[] {
+  for (const node of nodes) {
+    if (match(node)) return [node];
+    const chain = findChain(node.children || [], match);
+    if (chain.length > 0) return [node, ...chain];
+  }
+  return [];
+}
+
+/**
+ * Name a chain of nodes
+ *
+ * @param {Node[]} chain - Nodes from the root down
+ * @returns {string} Path such as "Medicine / Anatomy / Basic Anatomy"
+ */
+function chainPath(chain: Node[]): string {
+  return chain.map(node => node.name).join(' / ');
+}
+
+/**
+ * Take a note out of its notebook and optionally put it in another
+ *
+ * @param {Node[]} nodes - Tree
+ * @param {string} noteId - Note to place
+ * @param {string | null} notebookId - Destination notebook; null only removes the note
+ * @param {number} [index=0] - Position in the destination
+ * @returns {Node[]} Updated tree
+ */
+function placeNote(nodes: Node[], noteId: string, notebookId: string | null, index: number = 0): Node[] {
+  return nodes.map(node => {
+    let next = node;
+    if (node.noteIds?.includes(noteId)) {
+      next = { ...next, noteIds: node.noteIds.filter(id => id !== noteId) };
+    }
+    if (node.id === notebookId) {
+      const noteIds = [...(next.noteIds || [])];
+      noteIds.splice(index, 0, noteId);
+      next = { ...next, noteIds };
+    }
+    if (node.children) {
+      next = { ...next, children: placeNote(node.children, noteId, notebookId, index) };
+    }
+    return next;
+  });
+}
+
+/**
+ * Read a string argument
+ *
+ * @param {AIToolCall} call - Tool call
+ * @param {string} name - Argument name
+ * @returns {string} Trimmed value
+ * @throws {Error} If the argument is missing or empty
+ */
+function stringArgument(call: AIToolCall, name: string): string {
+  const value = call.arguments[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${call.name} needs a "${name}" argument.`);
+  }
+  return value.trim();
+}
+
+/**
+ * Find a note by ID
+ *
+ * @param {NoteWorkspace} workspace - Notes
+ * @param {string} noteId - Note ID
+ * @returns {Note} Note
+ * @throws {Error} If no note has that ID
+ */
+function requireNote(workspace: NoteWorkspace, noteId: string): Note {
+  const note = workspace.notes.find(n => n.id === noteId);
+  if (!note) {
+    throw new Error(`No note has the ID "${noteId}". Use search_notes or list_tree to find it.`);
+  }
+  return note;
+}
+
+/**
+ * Find a notebook by ID
+ *
+ * @param {NoteWorkspace} workspace - Tree
+ * @param {string} notebookId - Notebook ID
+ * @returns {Node[]} Nodes from the area down to the notebook
+ * @throws {Error} If no notebook has that ID
+ */
+function requireNotebook(workspace: NoteWorkspace, notebookId: string): Node[] {
+  const chain = findChain(workspace.areas, node => node.id === notebookId);
+  if (chain[chain.length - 1]?.type !== 'notebook') {
+    throw new Error(`No notebook has the ID "${notebookId}". Use list_tree to find one.`);
+  }
+  return chain;
+}
+
+/**
+ * Outline a node for list_tree
+ *
+ * @param {Node} node - Node
+ * @param {Map<string, Note>} byId - Notes by ID
+ * @returns {object} Node with its children and notes
+ */
+function outline(node: Node, byId: Map<string, Note>): object {
+  return {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    ...(node.children ? { children: node.children.map(child => outline(child, byId)) } : {}),
+    ...(node.type === 'notebook'
+      ? { notes: (node.noteIds || []).filter(id => byId.has(id)).map(id => ({ note_id: id, title: byId.get(id)!.title })) }
+      : {}),
+  };
+}
+
+/**
+ * NoteToolsService Class
+ *
+ * Singleton preparing the assistant's tool calls.
+ *
+ * @class NoteToolsService
+ */
+class NoteToolsService {
+  /**
+   * Keyword index, brought up to date with the notes on each search
+   * @private
+   */
+  private searchIndex = new SearchIndex();
+
+  /**
+   * Prepare a tool call
+   *
+   * @param {AIToolCall} call - Call requested by the model
+   * @param {NoteWorkspace} workspace - Current notes and tree, to validate and describe the call
+   * @returns {NoteToolAction} Action to confirm and run
+   * @throws {Error} If the tool is unknown or its arguments are invalid
+   *
+   * @example
+   * ```typescript
+   * const action = noteToolsService.prepare(call, { notes, areas });
+   * if (!action.writes || await confirm(action.summary)) {
+   *   const { result, change } = await action.run({ notes, areas });
+   * }
+   * ```
+   */
+  prepare(call: AIToolCall, workspace: NoteWorkspace): NoteToolAction {
+    switch (call.name) {
+      case 'search_notes':
+        return this.prepareSearch(call);
+      case 'read_note':
+        return this.prepareRead(call, workspace);
+      case 'list_tree':
+        return this.prepareListTree(call, workspace);
+      case 'create_note':
+        return this.prepareCreate(call, workspace);
+      case 'append_to_note':
+        return this.prepareAppend(call, workspace);
+      case 'move_note':
+        return this.prepareMove(call, workspace);
+      default:
+        throw new Error(`Unknown tool "${call.name}".`);
+    }
+  }
+
+  /**
+   * search_notes: keyword matches first, then passages found by meaning
+   *
+   * @private
+   */
+  private prepareSearch(call: AIToolCall): NoteToolAction {
+    const query = stringArgument(call, 'query');
+    const requested = Number(call.arguments.limit);
+    const limit = Number.isFinite(requested) && requested > 0 ? Math.min(Math.floor(requested), MAX_SEARCH_LIMIT) : DEFAULT_SEARCH_LIMIT;
+
+    return {
+      call,
+      summary: `Search notes for "${query}"`,
+      writes: false,
+      run: async ({ notes, areas }) => {
+        const paths = buildNotePaths(areas);
+        this.searchIndex.update(notes, noteId => paths.get(noteId) || '');
+        const results = this.searchIndex.search(query, limit).map(result => ({
+          note_id: result.note.id,
+          title: result.note.title,
+          path: result.path,
+          excerpt: result.snippet,
+        }));
+
+        // Keywords miss paraphrases; fill up with passages from the semantic index
+        if (results.length < limit) {
+          const byId = new Map(notes.map(note => [note.id, note]));
+          const matches = await indexService.query(query, { topK: limit * 2 }).catch(error => {
+            console.error('Semantic search failed:', error);
+            return [];
+          });
+          for (const { chunk } of matches) {
+            if (results.length >= limit) break;
+            const note = byId.get(chunk.noteId);
+            if (!note || results.some(result => result.note_id === note.id)) continue;
+            results.push({
+              note_id: note.id,
+              title: note.title,
+              path: paths.get(note.id) || '',
+              excerpt: chunk.text.slice(0, SNIPPET_CHARS),
+            });
+          }
+        }
+
+        return { result: JSON.stringify({ results }) };
+      },
+    };
+  }
+
+  /**
+   * read_note: the note as Markdown, shortened past MAX_READ_CHARS
+   *
+   * @private
+   */
+  private prepareRead(call: AIToolCall, workspace: NoteWorkspace): NoteToolAction {
+    const noteId = stringArgument(call, 'note_id');
+    const { title } = requireNote(workspace, noteId);
+
+    return {
+      call,
+      summary: `Read "${title}"`,
+      writes: false,
+      run: async (current) => {
+        const note = requireNote(current, noteId);
+        const markdown = htmlToMarkdown(note.content);
+        return {
+          result: JSON.stringify({
+            note_id: note.id,
+            title: note.title,
+            path: buildNotePaths(current.areas).get(note.id) || '',
+            tags: note.tags || [],
+            content: markdown.slice(0, MAX_READ_CHARS),
+            ...(markdown.length > MAX_READ_CHARS ? { truncated: true } : {}),
+          }),
+        };
+      },
+    };
+  }
+
+  /**
+   * list_tree: areas, stacks and notebooks with their notes
+   *
+   * @private
+   */
+  private prepareListTree(call: AIToolCall, workspace: NoteWorkspace): NoteToolAction {
+    const areaId = typeof call.arguments.area_id === 'string' ? call.arguments.area_id : '';
+    const area = areaId ? workspace.areas.find(node => node.id === areaId) : null;
+    if (areaId && !area) {
+      throw new Error(`No area has the ID "${areaId}". Call list_tree without area_id to see all areas.`);
+    }
+
+    return {
+      call,
+      summary: area ? `List the notebooks of ${area.name}` : 'List the notebooks',
+      writes: false,
+      run: async (current) => {
+        const byId = new Map(current.notes.map(note => [note.id, note]));
+        const roots = areaId ? current.areas.filter(node => node.id === areaId) : current.areas;
+        return { result: JSON.stringify({ areas: roots.map(node => outline(node, byId)) }) };
+      },
+    };
+  }
+
+  /**
+   * create_note: a new note at the top of a notebook
+   *
+   * @private
+   */
+  private prepareCreate(call: AIToolCall, workspace: NoteWorkspace): NoteToolAction {
+    const notebookId = stringArgument(call, 'notebook_id');
+    const title = stringArgument(call, 'title');
+    const content = stringArgument(call, 'content');
+    const path = chainPath(requireNotebook(workspace, notebookId));
+
+    return {
+      call,
+      summary: `Create "${title}" in ${path}`,
+      preview: content,
+      writes: true,
+      run: async (current) => {
+        requireNotebook(current, notebookId);
+        const html = `<h1>${escapeHtml(title)}</h1>${markdownToHtml(content)}`;
+        const now = new Date().toISOString();
+        const note: Note = {
+          id: `note-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+          title,
+          description: extractTextFromHtml(html, 150),
+          createdAt: now,
+          updatedAt: now,
+          content: html,
+        };
+        return {
+          result: JSON.stringify({ note_id: note.id, path }),
+          change: { saved: [note], deleted: [], moved: [], areas: placeNote(current.areas, note.id, notebookId) },
+          undo: (latest) => ({ saved: [], deleted: [note.id], moved: [], areas: placeNote(latest.areas, note.id, null) }),
+        };
+      },
+    };
+  }
+
+  /**
+   * append_to_note: Markdown added after the note's content
+   *
+   * Undo restores the earlier content only while the note is as the tool
+   * left it, so later edits are never lost.
+   *
+   * @private
+   */
+  private prepareAppend(call: AIToolCall, workspace: NoteWorkspace): NoteToolAction {
+    const noteId = stringArgument(call, 'note_id');
+    const content = stringArgument(call, 'content');
+    const { title } = requireNote(workspace, noteId);
+
+    return {
+      call,
+      summary: `Append to "${title}"`,
+      preview: content,
+      writes: true,
+      run: async (current) => {
+        const before = requireNote(current, noteId);
+        const after: Note = {
+          ...before,
+          content: before.content + markdownToHtml(content),
+          updatedAt: new Date().toISOString(),
+        };
+        return {
+          result: JSON.stringify({ note_id: noteId, appended: true }),
+          change: { saved: [after], deleted: [], moved: [] },
+          undo: (latest) => {
+            const note = requireNote(latest, noteId);
+            if (note.content !== after.content) {
+              throw new Error(`"${note.title}" was edited since. Restore an earlier version from its history instead.`);
+            }
+            return { saved: [{ ...note, content: before.content, updatedAt: new Date().toISOString() }], deleted: [], moved: [] };
+          },
+        };
+      },
+    };
+  }
+
+  /**
+   * move_note: the note at the top of another notebook
+   *
+   * @private
+   */
+  private prepareMove(call: AIToolCall, workspace: NoteWorkspace): NoteToolAction {
+    const noteId = stringArgument(call, 'note_id');
+    const notebookId = stringArgument(call, 'notebook_id');
+    const { title } = requireNote(workspace, noteId);
+    const to = chainPath(requireNotebook(workspace, notebookId));
+    const fromChain = findChain(workspace.areas, node => !!node.noteIds?.includes(noteId));
+    if (fromChain[fromChain.length - 1]?.id === notebookId) {
+      throw new Error(`"${title}" is already in ${to}.`);
+    }
+
+    return {
+      call,
+      summary: fromChain.length > 0 ? `Move "${title}" from ${chainPath(fromChain)} to ${to}` : `Move "${title}" to ${to}`,
+      writes: true,
+      run: async (current) => {
+        requireNote(current, noteId);
+        requireNotebook(current, notebookId);
+        const from = findChain(current.areas, node => !!node.noteIds?.includes(noteId)).pop();
+        const index = from?.noteIds?.indexOf(noteId) ?? 0;
+        return {
+          result: JSON.stringify({ note_id: noteId, path: to }),
+          change: { saved: [], deleted: [], moved: [noteId], areas: placeNote(current.areas, noteId, notebookId) },
+          undo: (latest) => {
+            requireNote(latest, noteId);
+            if (from && findChain(latest.areas, node => node.id === from.id).length === 0) {
+              throw new Error(`The notebook "${from.name}" no longer exists.`);
+            }
+            return { saved: [], deleted: [], moved: [noteId], areas: placeNote(latest.areas, noteId, from?.id ?? null, index) };
+          },
+        };
+      },
+    };
+  }
+}
+
+/**
+ * Singleton instance of NoteToolsService
+ *
+ * @example
+ * ```typescript
+ * import { noteToolsService, NOTE_TOOLS } from './services/noteToolsService';
+ *
+ * const response = await aiService.chat(messages, 'openai', { tools: NOTE_TOOLS });
+ * const action = noteToolsService.prepare(response.toolCalls![0], { notes, areas });
+ * ```
+ */
+export const noteToolsService = new NoteToolsService();
+
+export default noteToolsService;
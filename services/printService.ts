@@ -0,0 +1,282 @@
+/**
+ * @fileoverview Print and PDF Export Service
+ *
+ * Prints a note or a whole notebook through the browser's print dialog,
+ * where "Save as PDF" produces the PDF. The printed document has:
+ *
+ * - a title page with the notebook or note name and its Area / Stack path
+ * - a table of contents built from note titles and their headings
+ * - every note on a new page, with Mermaid blocks rendered to SVG and
+ *   attachments resolved to their stored images
+ *
+ * The document is built in a hidden iframe so the app's dark theme and
+ * layout never reach the printout.
+ *
+ * @module services/printService
+ */
+
+import { Note } from '../types';
+import { escapeHtml } from '../utils/markdown';
+import { formatNoteDate } from '../utils/noteDates';
+import { renderMermaid } from '../utils/mermaid';
+import { attachmentService } from './attachmentService';
+
+/**
+ * Headings listed in the table of contents
+ */
+const TOC_HEADINGS = 'h1, h2, h3';
+
+/**
+ * How long to keep the iframe if the browser never fires `afterprint`
+ */
+const CLEANUP_TIMEOUT = 60000;
+
+/**
+ * What to print
+ * @interface PrintOptions
+ */
+export interface PrintOptions {
+  /** Title page heading, e.g. the notebook or note name */
+  title: string;
+  /** Title page subtitle, e.g. 'Medicine / Anatomy' */
+  subtitle?: string;
+  /** Notes in print order */
+  notes: Note[];
+}
+
+/**
+ * A finished print job
+ * @interface PrintResult
+ */
+export interface PrintResult {
+  /** Diagrams that failed to render and were printed as code */
+  failedDiagrams: number;
+}
+
+/**
+ * An entry in the table of contents
+ * @interface TocEntry
+ */
+interface TocEntry {
+  /** Anchor ID of the target element */
+  id: string;
+  text: string;
+  /** Nesting depth, 0 for note titles */
+  level: number;
+}
+
+/**
+ * Stylesheet of the printed document
+ *
+ * Note content carries inline colors picked for the dark editor, so text
+ * and backgrounds are forced to print colors. Rendered diagrams keep the
+ * dark background their theme was drawn for.
+ */
+const PRINT_STYLES = `
+  @page { margin: 2cm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, sans-serif; font-size: 11pt; line-height: 1.6; color: #18181b; background: #fff; }
+  a { color: #1d4ed8; text-decoration: none; }
+  .title-page { height: 100vh; display: flex; flex-direction: column; justify-content: center; text-align: center; break-after: page; }
+  .title-page h1 { font-size: 28pt; margin: 0 0 0.5rem; }
+  .title-page .subtitle { font-size: 14pt; color: #52525b; margin: 0; }
+  .title-page .printed { font-size: 10pt; color: #71717a; margin-top: 2rem; }
+  .toc { break-after: page; }
+  .toc h2 { font-size: 18pt; }
+  .toc ol { list-style: none; padding: 0; margin: 0; }
+  .toc li { margin: 0.2rem 0; }
+  .toc .toc-level-0 { font-weight: 600; margin-top: 0.6rem; }
+  .toc .toc-level-1 { padding-left: 1.25rem; }
+  .toc .toc-level-2 { padding-left: 2.5rem; }
+  .toc .toc-level-3 { padding-left: 3.75rem; font-size: 10pt; }
+  .note { break-before: page; }
+  .note-title { font-size: 22pt; margin: 0 0 0.25rem; }
+  .note-meta { font-size: 9pt; color: #71717a; margin: 0 0 1.5rem; }
+  .note-body *:not(.mermaid-diagram *) { color: #18181b !important; background-color: transparent !important; border-color: #d4d4d8 !important; }
+  .note-body a { color: #1d4ed8 !important; }
+  .note-body h1, .note-body h2, .note-body h3 { break-after: avoid; }
+  .note-body img, .note-body table, .note-body pre, .note-body figure { break-inside: avoid; max-width: 100%; }
+  .note-body img { height: auto; }
+  .note-body table { border-collapse: collapse; }
+  .note-body th, .note-body td { border: 1px solid #d4d4d8; padding: 0.25rem 0.5rem; }
+  .note-body pre { white-space: pre-wrap; background-color: #f4f4f5 !important; padding: 0.75rem; border-radius: 4px; }
+  .note-body blockquote { border-left: 4px solid #d4d4d8; margin-left: 0; padding-left: 1rem; }
+  .note-body figure.mermaid-diagram { margin: 1rem 0; padding: 1rem; border-radius: 8px; background: #18181b; text-align: center; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .note-body figure.mermaid-diagram svg { max-width: 100%; height: auto; }
+`;
+
+/**
+ * Wait until every image in a document has loaded or failed
+ *
+ * @param {Document} doc - Document to wait for
+ * @returns {Promise<void>}
+ */
+function waitForImages(doc: Document): Promise<void> {
+  return Promise.all(Array.from(doc.images).map(img => img.decode().catch(() => undefined))).then(() => undefined);
+}
+
+/**
+ * PrintService Class
+ *
+ * Singleton building printable documents from notes.
+ *
+ * @class PrintService
+ */
+class PrintService {
+  /**
+   * Build the printable document
+   *
+   * @async
+   * @param {PrintOptions} options - What to print
+   * @returns {Promise<{ html: string; failedDiagrams: number }>} Complete HTML document and failed diagram count
+   */
+  async buildDocument({ title, subtitle, notes }: PrintOptions): Promise<{ html: string; failedDiagrams: number }> {
+    const toc: TocEntry[] = [];
+    const sections: string[] = [];
+    let failedDiagrams = 0;
+
+    for (const [index, note] of notes.entries()) {
+      const noteId = `note-${index + 1}`;
+      const body = document.createElement('div');
+      body.innerHTML = note.content;
+
+      failedDiagrams += await this.renderDiagrams(body);
+      await attachmentService.resolveUrls(body);
+      body.querySelectorAll('[contenteditable]').forEach(element => element.removeAttribute('contenteditable'));
+
+      // A single note gets its headings as the whole table of contents
+      if (notes.length > 1) {
+        toc.push({ id: noteId, text: note.title, level: 0 });
+      }
+      body.querySelectorAll(TOC_HEADINGS).forEach((heading, headingIndex) => {
+        const text = (heading.textContent || '').trim();
+        if (!text) return;
+        heading.id = `${noteId}-h${headingIndex + 1}`;
+        toc.push({ id: heading.id, text, level: Number(heading.tagName[1]) - (notes.length > 1 ? 0 : 1) });
+      });
+
+      const meta = [formatNoteDate(note.createdAt), ...(note.tags || []).map(tag => `#${tag}`)].join(' · ');
+      sections.push(`<article class="note" id="${noteId}">
+<h1 class="note-title">${escapeHtml(note.title)}</h1>
+<p class="note-meta">${escapeHtml(meta)}</p>
+<div class="note-body">${body.innerHTML}</div>
+</article>`);
+    }
+
+    const tocHtml = toc.length > 0
+      ? `<nav class="toc">
+<h2>Contents</h2>
+<ol>
+${toc.map(entry => `<li class="toc-level-${entry.level}"><a href="#${entry.id}">${escapeHtml(entry.text)}</a></li>`).join('\n')}
+</ol>
+</nav>`
+      : '';
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<section class="title-page">
+<h1>${escapeHtml(title)}</h1>
+${subtitle ? `<p class="subtitle">${escapeHtml(subtitle)}</p>` : ''}
+<p class="printed">${notes.length} ${notes.length === 1 ? 'note' : 'notes'} · ${escapeHtml(formatNoteDate(new Date().toISOString()))}</p>
+</section>
+${tocHtml}
+${sections.join('\n')}
+</body>
+</html>
+`;
+
+    return { html, failedDiagrams };
+  }
+
+  /**
+   * Open the print dialog for notes
+   *
+   * Resolves once the dialog has been opened; the user picks a printer or
+   * "Save as PDF" there.
+   *
+   * @async
+   * @param {PrintOptions} options - What to print
+   * @returns {Promise<PrintResult>} Summary of the print job
+   * @throws {Error} If there is nothing to print
+   *
+   * @example
+   * ```typescript
+   * await printService.print({ title: notebook.name, subtitle: 'Medicine / Anatomy', notes });
+   * ```
+   */
+  async print(options: PrintOptions): Promise<PrintResult> {
+    if (options.notes.length === 0) {
+      throw new Error('There are no notes to print.');
+    }
+
+    const { html, failedDiagrams } = await this.buildDocument(options);
+
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+    document.body.appendChild(iframe);
+
+    const loaded = new Promise<void>(resolve => iframe.addEventListener('load', () => resolve(), { once: true }));
+    iframe.srcdoc = html;
+    await loaded;
+
+    const frameWindow = iframe.contentWindow!;
+    await waitForImages(frameWindow.document);
+
+    const cleanup = () => iframe.remove();
+    frameWindow.addEventListener('afterprint', cleanup, { once: true });
+    setTimeout(cleanup, CLEANUP_TIMEOUT);
+
+    frameWindow.focus();
+    frameWindow.print();
+
+    return { failedDiagrams };
+  }
+
+  /**
+   * Replace Mermaid blocks with their rendered SVG
+   *
+   * Blocks that fail to render stay as code.
+   *
+   * @private
+   * @async
+   * @param {HTMLElement} root - Note content, rewritten in place
+   * @returns {Promise<number>} Number of blocks that failed to render
+   */
+  private async renderDiagrams(root: HTMLElement): Promise<number> {
+    let failed = 0;
+    for (const block of Array.from(root.querySelectorAll('pre.mermaid-diagram'))) {
+      try {
+        const figure = document.createElement('figure');
+        figure.className = 'mermaid-diagram';
+        figure.innerHTML = await renderMermaid(block.textContent || '');
+        block.replaceWith(figure);
+      } catch (error) {
+        console.warn('Failed to render diagram for printing:', error);
+        block.removeAttribute('style');
+        failed++;
+      }
+    }
+    return failed;
+  }
+}
+
+/**
+ * Singleton instance of PrintService
+ *
+ * @example
+ * ```typescript
+ * import { printService } from './services/printService';
+ *
+ * await printService.print({ title: note.title, notes: [note] });
+ * ```
+ */
+export const printService = new PrintService();
+
+export default printService;
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Quiz Service
+ *
+ * Supplies multiple-choice questions for the quiz player and records the
+ * answers given. Questions are parsed from notes that follow the question
+ * bank layout (see {@link module:utils/quiz}); notes that don't can be
+ * structured into questions by the AI service instead. AI results are
+ * cached for the session until the note changes.
+ *
+ * @module services/quizService
+ */
+
+import { Note, QuizAttempt } from '../types';
+import { storageService } from './storageService';
+import { aiService, AIProvider } from './aiService';
+import { htmlToMarkdown, escapeHtml } from '../utils/markdown';
+import { parseQuiz, questionId, QuizQuestion } from '../utils/quiz';
+
+/**
+ * Longest note text sent to the model, in characters
+ */
+const MAX_SOURCE_LENGTH = 12000;
+
+/**
+ * System prompt for structuring a note into questions
+ */
+const STRUCTURE_PROMPT = `You turn a student's notes into multiple-choice exam questions.
+If the notes already contain questions, keep their wording, options and answers. Otherwise write questions that test the key points of the notes.
+Each question has four or five options lettered from A, exactly one correct, and a short explanation of why it is correct.
+Write in the language of the notes.
+Reply with a JSON array of objects with "stem" (string), "options" (array of {"letter", "text"}), "answer" (letter) and "comment" (string) fields and nothing else.`;
+
+/**
+ * Turn plain text into paragraphs of HTML
+ *
+ * @param {string} text - Text with blank-line separated paragraphs
+ * @returns {string} HTML
+ */
+function textToHtml(text: string): string {
+  return text.split(/\n{2,}/).map(part => part.trim()).filter(Boolean).map(part => `<p>${escapeHtml(part)}</p>`).join('');
+}
+
+/**
+ * QuizService Class
+ *
+ * Singleton finding questions in notes and logging answers.
+ *
+ * @class QuizService
+ */
+class QuizService {
+  /**
+   * Questions structured by AI, with the note content they were made from
+   * @private
+   */
+  private aiQuestions: Map<string, { content: string; questions: QuizQuestion[] }> = new Map();
+
+  /**
+   * Get the questions of a note
+   *
+   * Parsed questions take precedence; AI questions are returned only if
+   * the note has none and was structured since its last change.
+   *
+   * @param {Note} note - Note to read
+   * @returns {QuizQuestion[]} Questions in document order
+   */
+  questionsFor(note: Note): QuizQuestion[] {
+    const parsed = parseQuiz(note.id, note.content);
+    if (parsed.length > 0) return parsed;
+
+    const cached = this.aiQuestions.get(note.id);
+    return cached && cached.content === note.content ? cached.questions : [];
+  }
+
+  /**
+   * Structure a note into questions with AI
+   *
+   * @async
+   * @param {Note} note - Note without recognisable questions
+   * @param {AIProvider} provider - Provider to use
+   * @param {string} [model] - Model ID; the provider's default when omitted
+   * @returns {Promise<QuizQuestion[]>} Questions, also cached for {@link questionsFor}
+   * @throws {Error} If the note is empty or the response has no questions
+   */
+  async structureWithAI(note: Note, provider: AIProvider, model?: string): Promise<QuizQuestion[]> {
+    const source = htmlToMarkdown(note.content).trim().slice(0, MAX_SOURCE_LENGTH);
+    if (!source) {
+      throw new Error('This note has no text to make questions from.');
+    }
+
+    const response = await aiService.chat([
+      { role: 'system', content: STRUCTURE_PROMPT },
+      { role: 'user', content: `# ${note.title}\n\n${source}` },
+    ], provider, { model, maxTokens: 4096, temperature: 0.3, feature: 'quiz' });
+
+    const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(response.content);
+    const text = fenced ? fenced[1] : response.content;
+    const start = text.indexOf('[');
+    const end = text.lastIndexOf(']');
+    const parsed: unknown = start !== -1 && end > start ? JSON.parse(text.slice(start, end + 1)) : null;
+    if (!Array.isArray(parsed)) {
+      throw new Error('The AI response did not contain any questions.');
+    }
+
+    const questions: QuizQuestion[] = parsed.flatMap(item => {
+      const options = Array.isArray(item?.options)
+        ? item.options
+          .map((option: { letter?: unknown; text?: unknown }) => ({
+            letter: String(option?.letter ?? '').trim().toUpperCase().slice(0, 1),
+            text: String(option?.text ?? '').trim(),
+          }))
+          .filter((option: { letter: string; text: string }) => option.letter && option.text)
+        : [];
+      const stem = textToHtml(String(item?.stem ?? ''));
+      const answer = String(item?.answer ?? '').trim().toUpperCase().slice(0, 1);
+      if (!stem || options.length < 2) return [];
+      return [{
+        id: questionId(note.id, stem),
+        noteId: note.id,
+        stem,
+        options,
+        answer: options.some((option: { letter: string }) => option.letter === answer) ? answer : null,
+        comment: textToHtml(String(item?.comment ?? '')),
+        source: 'ai' as const,
+      }];
+    });
+
+    if (questions.length === 0) {
+      throw new Error('The AI response did not contain any questions.');
+    }
+    this.aiQuestions.set(note.id, { content: note.content, questions });
+    return questions;
+  }
+
+  /**
+   * Record an answer
+   *
+   * @async
+   * @param {QuizQuestion} question - Answered question
+   * @param {string} choice - Letter picked
+   * @returns {Promise<QuizAttempt>} The stored attempt
+   */
+  async recordAttempt(question: QuizQuestion, choice: string): Promise<QuizAttempt> {
+    const attempt: QuizAttempt = {
+      id: `quiz-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      questionId: question.id,
+      noteId: question.noteId,
+      choice,
+      correct: choice === question.answer,
+      answeredAt: new Date().toISOString(),
+    };
+    await storageService.putQuizAttempt(attempt);
+    return attempt;
+  }
+
+  /**
+   * List all recorded answers
+   *
+   * @async
+   * @returns {Promise<QuizAttempt[]>} Attempts, oldest first
+   */
+  attempts(): Promise<QuizAttempt[]> {
+    return storageService.getQuizAttempts();
+  }
+}
+
+/**
+ * Singleton instance of QuizService
+ *
+ * @example
+ * ```typescript
+ * import { quizService } from './services/quizService';
+ *
+ * const questions = quizService.questionsFor(note);
+ * await quizService.recordAttempt(questions[0], 'D');
+ * ```
+ */
+export const quizService = new QuizService();
+
+export default quizService;
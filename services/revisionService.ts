@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Note Revision History Service
+ *
+ * Keeps a bounded log of snapshots per note so text lost to a bad AI
+ * insert, a sync pull or an accidental deletion can be restored.
+ *
+ * Snapshots are taken:
+ * - After a note has been idle for a few seconds following edits
+ * - Immediately, of the previous version, when an edit removes or
+ *   replaces a large part of the note
+ * - Before an AI insert, a sync pull or a restore replaces content
+ * - Of the previous version, on the first edit of a note in a session
+ *
+ * Identical consecutive snapshots are skipped, and the oldest snapshots
+ * beyond the per-note limit are pruned.
+ *
+ * @module services/revisionService
+ */
+
+import { Note, NoteRevision, RevisionReason } from '../types';
+import { storageService } from './storageService';
+import { extractTextFromHtml } from '../utils/markdown';
+
+/**
+ * Maximum number of revisions kept per note
+ */
+const MAX_REVISIONS_PER_NOTE = 50;
+
+/**
+ * Idle time after the last edit before a snapshot is taken
+ */
+const IDLE_SNAPSHOT_DELAY_MS = 5000;
+
+/**
+ * An edit is significant when it removes at least this many characters
+ * of text or this share of the note's text
+ */
+const SIGNIFICANT_CHANGE_CHARS = 200;
+const SIGNIFICANT_CHANGE_RATIO = 0.3;
+
+/**
+ * Human-readable labels for revision reasons
+ */
+export const REVISION_REASON_LABELS: Record<RevisionReason, string> = {
+  idle: 'Autosave',
+  significant: 'Before large change',
+  ai: 'Before AI insert',
+  sync: 'Before sync from Drive',
+  restore: 'Before restore',
+};
+
+/**
+ * RevisionService Class
+ *
+ * Singleton tracking edits and writing snapshots to the storage service.
+ *
+ * @class RevisionService
+ */
+class RevisionService {
+  /**
+   * Content of the latest snapshot per note, to skip duplicates
+   * @private
+   */
+  private lastSnapshot: Map<string, string> = new Map();
+
+  /**
+   * Pending idle snapshot timers per note
+   * @private
+   */
+  private idleTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * Latest edited version per note, captured by the idle snapshot
+   * @private
+   */
+  private latest: Map<string, Note> = new Map();
+
+  /**
+   * Text length of the latest edited version per note, so each edit only
+   * measures the new content
+   * @private
+   */
+  private textLengths: Map<string, number> = new Map();
+
+  /**
+   * Record an edit to a note
+   *
+   * Schedules an idle snapshot of the new version and, when the edit
+   * removes a large part of the text, snapshots the previous version
+   * right away.
+   *
+   * @param {Note} previous - Note before the edit
+   * @param {Note} next - Note after the edit
+   * @returns {void}
+   *
+   * @example
+   * ```typescript
+   * revisionService.trackEdit(note, { ...note, content: newContent });
+   * ```
+   */
+  trackEdit(previous: Note, next: Note): void {
+    const before = this.textLengths.get(previous.id) ?? extractTextFromHtml(previous.content, Infinity).length;
+    const after = extractTextFromHtml(next.content, Infinity).length;
+    const removed = before - after;
+    this.textLengths.set(next.id, after);
+
+    if (removed >= SIGNIFICANT_CHANGE_CHARS || (before > 0 && removed / before >= SIGNIFICANT_CHANGE_RATIO)) {
+      this.snapshot(previous, 'significant');
+    } else if (!this.lastSnapshot.has(previous.id)) {
+      // Keep the version the session started from
+      this.snapshot(previous, 'idle');
+    }
+
+    this.latest.set(next.id, next);
+    clearTimeout(this.idleTimers.get(next.id));
+    this.idleTimers.set(next.id, setTimeout(() => {
+      this.idleTimers.delete(next.id);
+      const note = this.latest.get(next.id);
+      this.latest.delete(next.id);
+      if (note) {
+        this.snapshot(note, 'idle');
+      }
+    }, IDLE_SNAPSHOT_DELAY_MS));
+  }
+
+  /**
+   * Take a snapshot of a note
+   *
+   * Runs in the background; failures are logged.
+   *
+   * @param {Note} note - Note to snapshot
+   * @param {RevisionReason} reason - Why the snapshot was taken
+   * @returns {Promise<void>}
+   */
+  async snapshot(note: Note, reason: RevisionReason): Promise<void> {
+    if (this.lastSnapshot.get(note.id) === note.content) return;
+    const known = this.lastSnapshot.has(note.id);
+    this.lastSnapshot.set(note.id, note.content);
+
+    try {
+      // First snapshot this session: compare against the stored history instead
+      if (!known) {
+        const stored = await storageService.getRevisions(note.id);
+        if (stored[stored.length - 1]?.content === note.content) return;
+      }
+
+      await storageService.putRevision({
+        id: `rev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        noteId: note.id,
+        title: note.title,
+        content: note.content,
+        createdAt: new Date().toISOString(),
+        reason,
+      });
+      await this.prune(note.id);
+    } catch (error) {
+      console.error('Failed to save revision:', error);
+    }
+  }
+
+  /**
+   * List the revisions of a note
+   *
+   * @async
+   * @param {string} noteId - Note ID
+   * @returns {Promise<NoteRevision[]>} Revisions, newest first
+   */
+  async list(noteId: string): Promise<NoteRevision[]> {
+    const revisions = await storageService.getRevisions(noteId);
+    return revisions.reverse();
+  }
+
+  /**
+   * Delete all revisions of a note
+   *
+   * @async
+   * @param {string} noteId - Note ID
+   * @returns {Promise<void>}
+   */
+  async deleteForNote(noteId: string): Promise<void> {
+    clearTimeout(this.idleTimers.get(noteId));
+    this.idleTimers.delete(noteId);
+    this.latest.delete(noteId);
+    this.lastSnapshot.delete(noteId);
+    this.textLengths.delete(noteId);
+
+    const revisions = await storageService.getRevisions(noteId);
+    await storageService.deleteRevisions(revisions.map(revision => revision.id));
+  }
+
+  /**
+   * Drop the oldest revisions beyond the per-note limit
+   *
+   * @private
+   * @async
+   * @param {string} noteId - Note ID
+   * @returns {Promise<void>}
+   */
+  private async prune(noteId: string): Promise<void> {
+    const revisions = await storageService.getRevisions(noteId);
+    const excess = revisions.length - MAX_REVISIONS_PER_NOTE;
+    if (excess > 0) {
+      await storageService.deleteRevisions(revisions.slice(0, excess).map(revision => revision.id));
+    }
+  }
+}
+
+/**
+ * Singleton instance of RevisionService
+ *
+ * @example
+ * ```typescript
+ * import { revisionService } from './services/revisionService';
+ *
+ * await revisionService.snapshot(note, 'ai');
+ * const history = await revisionService.list(note.id);
+ * ```
+ */
+export const revisionService = new RevisionService();
+
+export default revisionService;
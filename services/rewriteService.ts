@@ -0,0 +1,131 @@
+/**
+ * @fileoverview AI Rewrite Service
+ *
+ * Rewrites a passage selected in the editor: summarize, simplify,
+ * translate between Portuguese and English, fix grammar, expand or
+ * explain it. The response streams back as Markdown so the editor can
+ * preview it before replacing the selection.
+ *
+ * @module services/rewriteService
+ */
+
+import { aiService, AIProvider } from './aiService';
+
+/**
+ * Supported rewrite actions
+ */
+export type RewriteAction = 'summarize' | 'simplify' | 'translate' | 'grammar' | 'expand' | 'explain';
+
+/**
+ * Actions in display order with their button labels
+ */
+export const REWRITE_ACTIONS: Array<{ action: RewriteAction; label: string }> = [
+  { action: 'summarize', label: 'Summarize' },
+  { action: 'simplify', label: 'Simplify' },
+  { action: 'translate', label: 'PT ↔ EN' },
+  { action: 'grammar', label: 'Fix grammar' },
+  { action: 'expand', label: 'Expand' },
+  { action: 'explain', label: 'Explain like a student' },
+];
+
+/**
+ * Rules shared by every action
+ */
+const BASE_PROMPT = `You edit a passage from a student's notes.
+Reply with the new passage only, in Markdown, with no preamble, quotes or code fences.
+Keep the formatting of the passage (lists, bold, headings) where it still fits.
+Write in the language of the passage unless the task is to translate.`;
+
+/**
+ * Task given for each action
+ */
+const ACTION_PROMPTS: Record<RewriteAction, string> = {
+  summarize: 'Summarize the passage in a few sentences or bullet points, keeping the key facts and numbers.',
+  simplify: 'Rewrite the passage in simpler words and shorter sentences without losing any fact.',
+  translate: 'Translate the passage: from Portuguese into English, or from any other language into Brazilian Portuguese. Keep technical terms accurate.',
+  grammar: 'Fix spelling, grammar and punctuation. Change nothing else, not even the wording.',
+  expand: 'Expand the passage with more detail, context and an example, in the same style.',
+  explain: 'Explain the passage the way a good student explains it to a classmate: plain words, the reasoning behind each point and an example where it helps.',
+};
+
+/**
+ * Options for a rewrite
+ * @interface RewriteOptions
+ */
+export interface RewriteOptions {
+  /** Provider to use */
+  provider: AIProvider;
+  /** Model ID; the provider's default when omitted */
+  model?: string;
+  /** Called with each streamed piece of the response */
+  onStream?: (chunk: string) => void;
+  /** Cancels the rewrite */
+  signal?: AbortSignal;
+}
+
+/**
+ * RewriteService Class
+ *
+ * Singleton running rewrite actions on selected text.
+ *
+ * @class RewriteService
+ */
+class RewriteService {
+  /**
+   * Rewrite a passage
+   *
+   * @async
+   * @param {RewriteAction} action - What to do with the passage
+   * @param {string} markdown - Selected passage in Markdown
+   * @param {RewriteOptions} options - Provider and streaming callback
+   * @returns {Promise<string>} New passage in Markdown
+   * @throws {Error} If the passage or the response is empty
+   *
+   * @example
+   * ```typescript
+   * const text = await rewriteService.rewrite('simplify', selectedMarkdown, {
+   *   provider: 'anthropic',
+   *   onStream: chunk => setPreview(prev => prev + chunk),
+   * });
+   * ```
+   */
+  async rewrite(action: RewriteAction, markdown: string, options: RewriteOptions): Promise<string> {
+    if (!markdown.trim()) {
+      throw new Error('Select some text to rewrite.');
+    }
+
+    const response = await aiService.chat([
+      { role: 'system', content: `${BASE_PROMPT}\n\n${ACTION_PROMPTS[action]}` },
+      { role: 'user', content: markdown },
+    ], options.provider, {
+      model: options.model,
+      maxTokens: 4096,
+      temperature: action === 'grammar' ? 0 : 0.4,
+      stream: !!options.onStream,
+      onStream: options.onStream,
+      signal: options.signal,
+      feature: 'rewrite',
+    });
+
+    // Models sometimes wrap the passage in a fence despite the prompt
+    const content = response.content.trim().replace(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/, '$1').trim();
+    if (!content) {
+      throw new Error('The AI response was empty.');
+    }
+    return content;
+  }
+}
+
+/**
+ * Singleton instance of RewriteService
+ *
+ * @example
+ * ```typescript
+ * import { rewriteService } from './services/rewriteService';
+ *
+ * const summary = await rewriteService.rewrite('summarize', text, { provider: 'openai' });
+ * ```
+ */
+export const rewriteService = new RewriteService();
+
+export default rewriteService;
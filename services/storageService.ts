@@ -0,0 +1,789 @@
+/**
+ * @fileoverview Offline-First Storage Service
+ *
+ * Persists notes, the area hierarchy and binary attachments in IndexedDB.
+ * Replaces the single localStorage JSON blob, which hit the 5MB quota and
+ * re-serialised every note on each keystroke.
+ *
+ * Features:
+ * - One record per note, so an edit rewrites only the changed note
+ * - Separate blob store for attachments
+ * - Per-note revision log
+ * - Flashcards with their review schedule
+ * - Quiz answer log for accuracy statistics
+ * - Passage vectors of the semantic index
+ * - AI usage ledger
+ * - Google Drive merge bases, too large for localStorage
+ * - Small settings in the meta store
+ * - Versioned schema migrations
+ * - One-time import of the legacy `gemini-notebook-*-v3` localStorage keys
+ * - Legacy display dates are migrated to ISO timestamps on load
+ * - Batched writes, flushed when the browser is idle instead of during render
+ * - Falls back to localStorage when IndexedDB is unavailable
+ *
+ * Database layout (`gemini-notebook`):
+ * ```
+ * notes        keyPath 'id'  → Note
+ * tree         key 'areas'   → Node[]
+ * blobs        keyPath 'id'  → StoredBlob
+ * revisions    keyPath 'id'  → NoteRevision, indexed by 'noteId'
+ * flashcards   keyPath 'id'  → Flashcard, indexed by 'noteId'
+ * quizAttempts keyPath 'id'  → QuizAttempt, indexed by 'noteId'
+ * chunks       keyPath 'id'  → NoteChunk, indexed by 'noteId'
+ * aiUsage      keyPath 'id'  → AIUsageRecord, indexed by 'createdAt'
+ * syncBases    key fileId    → string (file content at the last sync)
+ * meta         key string    → any
+ * ```
+ *
+ * @module services/storageService
+ */
+
+import { Note, Node, NoteRevision, Flashcard, QuizAttempt, NoteChunk, AIUsageRecord } from '../types';
+import { migrateNoteDates } from '../utils/noteDates';
+
+/**
+ * IndexedDB database name
+ */
+const DB_NAME = 'gemini-notebook';
+
+/**
+ * Legacy localStorage keys, imported once and then removed
+ */
+const LEGACY_NOTES_KEY = 'gemini-notebook-notes-v3';
+const LEGACY_AREAS_KEY = 'gemini-notebook-areas-v3';
+
+/**
+ * Meta key recording that the legacy localStorage data was imported
+ */
+const LEGACY_IMPORTED_META_KEY = 'legacyLocalStorageImported';
+
+/**
+ * Longest time a scheduled write may wait for an idle period
+ */
+const WRITE_IDLE_TIMEOUT_MS = 1000;
+
+/**
+ * Schema migrations
+ *
+ * Entry `i` upgrades the database from version `i` to `i + 1`. Append new
+ * entries to change the schema; never edit existing ones.
+ */
+const SCHEMA_MIGRATIONS: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  // v1: initial stores
+  (db) => {
+    db.createObjectStore('notes', { keyPath: 'id' });
+    db.createObjectStore('tree');
+    db.createObjectStore('blobs', { keyPath: 'id' });
+    db.createObjectStore('meta');
+  },
+  // v2: revision history
+  (db) => {
+    const revisions = db.createObjectStore('revisions', { keyPath: 'id' });
+    revisions.createIndex('noteId', 'noteId');
+  },
+  // v3: flashcards
+  (db) => {
+    const flashcards = db.createObjectStore('flashcards', { keyPath: 'id' });
+    flashcards.createIndex('noteId', 'noteId');
+  },
+  // v4: quiz answers
+  (db) => {
+    const attempts = db.createObjectStore('quizAttempts', { keyPath: 'id' });
+    attempts.createIndex('noteId', 'noteId');
+  },
+  // v5: semantic index
+  (db) => {
+    const chunks = db.createObjectStore('chunks', { keyPath: 'id' });
+    chunks.createIndex('noteId', 'noteId');
+  },
+  // v6: AI usage ledger
+  (db) => {
+    const usage = db.createObjectStore('aiUsage', { keyPath: 'id' });
+    usage.createIndex('createdAt', 'createdAt');
+  },
+  // v7: Drive merge bases
+  (db) => {
+    db.createObjectStore('syncBases');
+  },
+];
+
+/**
+ * An attachment stored in the blob store
+ * @interface StoredBlob
+ */
+export interface StoredBlob {
+  /** Attachment ID, referenced from note content */
+  id: string;
+  /** Binary content */
+  blob: Blob;
+  /** Original file name */
+  name: string;
+  /** MIME type */
+  type: string;
+  /** ISO timestamp of when the attachment was added */
+  createdAt: string;
+}
+
+/**
+ * Persisted application data
+ * @interface StoredData
+ */
+export interface StoredData {
+  notes: Note[];
+  areas: Node[];
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ *
+ * @param {IDBRequest<T>} request - Pending request
+ * @returns {Promise<T>} Request result
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for an IndexedDB transaction to commit
+ *
+ * @param {IDBTransaction} transaction - Transaction to wait for
+ * @returns {Promise<void>} Resolves on commit, rejects on error or abort
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * StorageService Class
+ *
+ * Singleton owning the IndexedDB connection and the write batcher.
+ *
+ * @class StorageService
+ */
+class StorageService {
+  /**
+   * Open database connection, shared by all operations
+   * @private
+   */
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Whether IndexedDB could not be opened and localStorage is used instead
+   * @private
+   */
+  private useFallback = false;
+
+  /**
+   * Last persisted version of each note, compared by reference to find changes
+   * @private
+   */
+  private savedNotes: Map<string, Note> = new Map();
+
+  /**
+   * Last persisted area hierarchy
+   * @private
+   */
+  private savedAreas: Node[] | null = null;
+
+  /**
+   * Latest state waiting to be written
+   * @private
+   */
+  private pending: StoredData | null = null;
+
+  /**
+   * Handle of the scheduled flush, if any
+   * @private
+   */
+  private flushHandle: number | null = null;
+
+  /**
+   * Promise of the flush currently writing, if any
+   * @private
+   */
+  private flushing: Promise<void> | null = null;
+
+  constructor() {
+    // Best-effort write of pending changes when the page is hidden or closed
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => {
+        this.flush().catch(error => console.error('Failed to flush notes on page hide:', error));
+      });
+    }
+  }
+
+  /**
+   * Load notes and areas
+   *
+   * On first run, imports data from the legacy localStorage keys. Notes
+   * still holding a display `date` string are migrated to timestamps.
+   *
+   * @async
+   * @returns {Promise<StoredData | null>} Saved data, or null for a new user
+   *
+   * @example
+   * ```typescript
+   * const saved = await storageService.load();
+   * setNotes(saved?.notes ?? SAMPLE_NOTES);
+   * ```
+   */
+  async load(): Promise<StoredData | null> {
+    let data: StoredData | null;
+
+    try {
+      const db = await this.open();
+      await this.importLegacyData(db);
+
+      const transaction = db.transaction(['notes', 'tree'], 'readonly');
+      const [notes, areas] = await Promise.all([
+        promisifyRequest<Note[]>(transaction.objectStore('notes').getAll()),
+        promisifyRequest<Node[] | undefined>(transaction.objectStore('tree').get('areas')),
+      ]);
+      data = areas ? { notes: this.restoreOrder(notes, areas), areas } : null;
+    } catch (error) {
+      console.error('IndexedDB unavailable, falling back to localStorage:', error);
+      this.useFallback = true;
+      data = this.readLegacyData();
+    }
+
+    this.savedNotes = new Map((data?.notes || []).map(note => [note.id, note]));
+    this.savedAreas = data?.areas || null;
+
+    // Migrated notes are new objects, so the next save writes them back
+    return data && { ...data, notes: data.notes.map(migrateNoteDates) };
+  }
+
+  /**
+   * Schedule a write of the current state
+   *
+   * Cheap to call on every change: the state is only recorded, and the
+   * diff against the last write happens in an idle callback. Only notes
+   * whose object identity changed are rewritten.
+   *
+   * @param {Note[]} notes - Current notes
+   * @param {Node[]} areas - Current area hierarchy
+   * @returns {void}
+   */
+  scheduleSave(notes: Note[], areas: Node[]): void {
+    this.pending = { notes, areas };
+    if (this.flushHandle !== null || this.flushing) return;
+
+    const run = () => {
+      this.flushHandle = null;
+      this.flush().catch(error => console.error('Failed to save notes:', error));
+    };
+
+    this.flushHandle = typeof window.requestIdleCallback === 'function'
+      ? window.requestIdleCallback(run, { timeout: WRITE_IDLE_TIMEOUT_MS })
+      : window.setTimeout(run, 0);
+  }
+
+  /**
+   * Write any pending state immediately
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      await this.flushing;
+    }
+    if (!this.pending) return;
+
+    const { notes, areas } = this.pending;
+    this.pending = null;
+
+    this.flushing = this.write(notes, areas).finally(() => {
+      this.flushing = null;
+      // Changes that arrived while writing get their own batch
+      if (this.pending) {
+        this.scheduleSave(this.pending.notes, this.pending.areas);
+      }
+    });
+    await this.flushing;
+  }
+
+  /**
+   * Store an attachment
+   *
+   * @async
+   * @param {StoredBlob} record - Attachment with its ID
+   * @returns {Promise<void>}
+   */
+  async putBlob(record: StoredBlob): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction('blobs', 'readwrite');
+    transaction.objectStore('blobs').put(record);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read an attachment
+   *
+   * @async
+   * @param {string} id - Attachment ID
+   * @returns {Promise<StoredBlob | null>} The attachment, or null if missing
+   */
+  async getBlob(id: string): Promise<StoredBlob | null> {
+    const db = await this.open();
+    const record = await promisifyRequest<StoredBlob | undefined>(
+      db.transaction('blobs', 'readonly').objectStore('blobs').get(id)
+    );
+    return record || null;
+  }
+
+  /**
+   * Delete an attachment
+   *
+   * @async
+   * @param {string} id - Attachment ID
+   * @returns {Promise<void>}
+   */
+  async deleteBlob(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction('blobs', 'readwrite');
+    transaction.objectStore('blobs').delete(id);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * List the IDs of all stored attachments
+   *
+   * @async
+   * @returns {Promise<string[]>} Attachment IDs
+   */
+  async listBlobIds(): Promise<string[]> {
+    const db = await this.open();
+    const keys = await promisifyRequest(db.transaction('blobs', 'readonly').objectStore('blobs').getAllKeys());
+    return keys.map(String);
+  }
+
+  /**
+   * Store a note revision
+   *
+   * @async
+   * @param {NoteRevision} revision - Revision to store
+   * @returns {Promise<void>}
+   */
+  async putRevision(revision: NoteRevision): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction('revisions', 'readwrite');
+    transaction.objectStore('revisions').put(revision);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read all revisions of a note
+   *
+   * @async
+   * @param {string} noteId - Note ID
+   * @returns {Promise<NoteRevision[]>} Revisions, oldest first
+   */
+  async getRevisions(noteId: string): Promise<NoteRevision[]> {
+    const db = await this.open();
+    const revisions = await promisifyRequest<NoteRevision[]>(
+      db.transaction('revisions', 'readonly').objectStore('revisions').index('noteId').getAll(noteId)
+    );
+    return revisions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Delete revisions by ID
+   *
+   * @async
+   * @param {string[]} ids - Revision IDs
+   * @returns {Promise<void>}
+   */
+  async deleteRevisions(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction('revisions', 'readwrite');
+    const store = transaction.objectStore('revisions');
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Store flashcards, replacing existing ones with the same ID
+   *
+   * @async
+   * @param {Flashcard[]} cards - Cards to store
+   * @returns {Promise<void>}
+   */
+  async putFlashcards(cards: Flashcard[]): Promise<void> {
+    if (cards.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction('flashcards', 'readwrite');
+    const store = transaction.objectStore('flashcards');
+    cards.forEach(card => store.put(card));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read all flashcards
+   *
+   * @async
+   * @returns {Promise<Flashcard[]>} Cards, oldest first
+   */
+  async getFlashcards(): Promise<Flashcard[]> {
+    const db = await this.open();
+    const cards = await promisifyRequest<Flashcard[]>(
+      db.transaction('flashcards', 'readonly').objectStore('flashcards').getAll()
+    );
+    return cards.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Delete flashcards by ID
+   *
+   * @async
+   * @param {string[]} ids - Card IDs
+   * @returns {Promise<void>}
+   */
+  async deleteFlashcards(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction('flashcards', 'readwrite');
+    const store = transaction.objectStore('flashcards');
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Store a quiz answer
+   *
+   * @async
+   * @param {QuizAttempt} attempt - Answer to store
+   * @returns {Promise<void>}
+   */
+  async putQuizAttempt(attempt: QuizAttempt): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction('quizAttempts', 'readwrite');
+    transaction.objectStore('quizAttempts').put(attempt);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read all quiz answers
+   *
+   * @async
+   * @returns {Promise<QuizAttempt[]>} Answers, oldest first
+   */
+  async getQuizAttempts(): Promise<QuizAttempt[]> {
+    const db = await this.open();
+    const attempts = await promisifyRequest<QuizAttempt[]>(
+      db.transaction('quizAttempts', 'readonly').objectStore('quizAttempts').getAll()
+    );
+    return attempts.sort((a, b) => a.answeredAt.localeCompare(b.answeredAt));
+  }
+
+  /**
+   * Replace the indexed passages of a note
+   *
+   * @async
+   * @param {string} noteId - Note ID
+   * @param {NoteChunk[]} chunks - New passages; empty to remove the note from the index
+   * @returns {Promise<void>}
+   */
+  async replaceChunks(noteId: string, chunks: NoteChunk[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction('chunks', 'readwrite');
+    const store = transaction.objectStore('chunks');
+    const request = store.index('noteId').getAllKeys(noteId);
+    request.onsuccess = () => {
+      request.result.forEach(key => store.delete(key));
+      chunks.forEach(chunk => store.put(chunk));
+    };
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read all indexed passages
+   *
+   * @async
+   * @returns {Promise<NoteChunk[]>} Passages in no particular order
+   */
+  async getChunks(): Promise<NoteChunk[]> {
+    const db = await this.open();
+    return promisifyRequest<NoteChunk[]>(
+      db.transaction('chunks', 'readonly').objectStore('chunks').getAll()
+    );
+  }
+
+  /**
+   * Store an AI usage record
+   *
+   * @async
+   * @param {AIUsageRecord} record - Record to store
+   * @returns {Promise<void>}
+   */
+  async putUsageRecord(record: AIUsageRecord): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction('aiUsage', 'readwrite');
+    transaction.objectStore('aiUsage').put(record);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read AI usage records
+   *
+   * @async
+   * @param {string} [since] - ISO timestamp; only records from then on
+   * @returns {Promise<AIUsageRecord[]>} Records, oldest first
+   */
+  async getUsageRecords(since?: string): Promise<AIUsageRecord[]> {
+    const db = await this.open();
+    return promisifyRequest<AIUsageRecord[]>(
+      db.transaction('aiUsage', 'readonly').objectStore('aiUsage').index('createdAt')
+        .getAll(since ? IDBKeyRange.lowerBound(since) : undefined)
+    );
+  }
+
+  /**
+   * Store the content of a Drive file at its last sync
+   *
+   * @async
+   * @param {string} fileId - Drive file ID
+   * @param {string} content - File content
+   * @returns {Promise<void>}
+   */
+  async putSyncBase(fileId: string, content: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction('syncBases', 'readwrite');
+    transaction.objectStore('syncBases').put(content, fileId);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read the contents of all Drive files at their last sync
+   *
+   * @async
+   * @returns {Promise<Map<string, string>>} Drive file ID → content
+   */
+  async getSyncBases(): Promise<Map<string, string>> {
+    const db = await this.open();
+    const store = db.transaction('syncBases', 'readonly').objectStore('syncBases');
+    const [keys, values] = await Promise.all([
+      promisifyRequest(store.getAllKeys()),
+      promisifyRequest<string[]>(store.getAll()),
+    ]);
+    return new Map(keys.map((key, i) => [String(key), values[i]]));
+  }
+
+  /**
+   * Delete the stored content of a Drive file
+   *
+   * @async
+   * @param {string} fileId - Drive file ID
+   * @returns {Promise<void>}
+   */
+  async deleteSyncBase(fileId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction('syncBases', 'readwrite');
+    transaction.objectStore('syncBases').delete(fileId);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read a value from the meta store
+   *
+   * @async
+   * @param {string} key - Meta key
+   * @returns {Promise<T | undefined>} Stored value, undefined if absent
+   */
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    const db = await this.open();
+    return promisifyRequest<T | undefined>(
+      db.transaction('meta', 'readonly').objectStore('meta').get(key)
+    );
+  }
+
+  /**
+   * Write a value to the meta store
+   *
+   * @async
+   * @param {string} key - Meta key
+   * @param {T} value - Value to store
+   * @returns {Promise<void>}
+   */
+  async putMeta<T>(key: string, value: T): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction('meta', 'readwrite');
+    transaction.objectStore('meta').put(value, key);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Open the database, running schema migrations as needed
+   *
+   * @private
+   * @returns {Promise<IDBDatabase>} Shared connection
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not supported'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, SCHEMA_MIGRATIONS.length);
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          const transaction = request.transaction!;
+          for (let version = event.oldVersion; version < SCHEMA_MIGRATIONS.length; version++) {
+            SCHEMA_MIGRATIONS[version](db, transaction);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => console.warn('Database upgrade blocked by another open tab');
+      });
+      // Allow a later retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Import notes and areas from the legacy localStorage keys once
+   *
+   * The legacy keys are removed only after the import committed.
+   *
+   * @private
+   * @async
+   * @param {IDBDatabase} db - Open database
+   * @returns {Promise<void>}
+   */
+  private async importLegacyData(db: IDBDatabase): Promise<void> {
+    const imported = await promisifyRequest(
+      db.transaction('meta', 'readonly').objectStore('meta').get(LEGACY_IMPORTED_META_KEY)
+    );
+    if (imported) return;
+
+    const legacy = this.readLegacyData();
+    const transaction = db.transaction(['notes', 'tree', 'meta'], 'readwrite');
+    if (legacy) {
+      const notesStore = transaction.objectStore('notes');
+      legacy.notes.forEach(note => notesStore.put(note));
+      transaction.objectStore('tree').put(legacy.areas, 'areas');
+    }
+    transaction.objectStore('meta').put(new Date().toISOString(), LEGACY_IMPORTED_META_KEY);
+    await transactionDone(transaction);
+
+    if (legacy) {
+      localStorage.removeItem(LEGACY_NOTES_KEY);
+      localStorage.removeItem(LEGACY_AREAS_KEY);
+    }
+  }
+
+  /**
+   * Read notes and areas from the legacy localStorage keys
+   *
+   * @private
+   * @returns {StoredData | null} Legacy data, or null if none was saved
+   */
+  private readLegacyData(): StoredData | null {
+    try {
+      const savedNotes = localStorage.getItem(LEGACY_NOTES_KEY);
+      const savedAreas = localStorage.getItem(LEGACY_AREAS_KEY);
+      if (!savedNotes && !savedAreas) return null;
+
+      return {
+        notes: savedNotes ? JSON.parse(savedNotes) : [],
+        areas: savedAreas ? JSON.parse(savedAreas) : [],
+      };
+    } catch (error) {
+      console.error('Failed to read legacy localStorage data:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Write the difference between the given state and the last write
+   *
+   * @private
+   * @async
+   * @param {Note[]} notes - Notes to persist
+   * @param {Node[]} areas - Area hierarchy to persist
+   * @returns {Promise<void>}
+   */
+  private async write(notes: Note[], areas: Node[]): Promise<void> {
+    if (this.useFallback) {
+      localStorage.setItem(LEGACY_NOTES_KEY, JSON.stringify(notes));
+      localStorage.setItem(LEGACY_AREAS_KEY, JSON.stringify(areas));
+      return;
+    }
+
+    const changed = notes.filter(note => this.savedNotes.get(note.id) !== note);
+    const currentIds = new Set(notes.map(note => note.id));
+    const removed = Array.from(this.savedNotes.keys()).filter(id => !currentIds.has(id));
+    const areasChanged = areas !== this.savedAreas;
+
+    if (changed.length === 0 && removed.length === 0 && !areasChanged) return;
+
+    const db = await this.open();
+    const transaction = db.transaction(['notes', 'tree'], 'readwrite');
+    const notesStore = transaction.objectStore('notes');
+    changed.forEach(note => notesStore.put(note));
+    removed.forEach(id => notesStore.delete(id));
+    if (areasChanged) {
+      transaction.objectStore('tree').put(areas, 'areas');
+    }
+    await transactionDone(transaction);
+
+    this.savedNotes = new Map(notes.map(note => [note.id, note]));
+    this.savedAreas = areas;
+  }
+
+  /**
+   * Order loaded notes as they appear in the hierarchy
+   *
+   * IndexedDB returns records sorted by key; the notes list is expected
+   * in the order of the notebooks' `noteIds`, newest first.
+   *
+   * @private
+   * @param {Note[]} notes - Notes in key order
+   * @param {Node[]} areas - Area hierarchy
+   * @returns {Note[]} Notes in hierarchy order, unreferenced notes last
+   */
+  private restoreOrder(notes: Note[], areas: Node[]): Note[] {
+    const rank = new Map<string, number>();
+    const visit = (nodes: Node[]) => {
+      for (const node of nodes) {
+        node.noteIds?.forEach(id => {
+          if (!rank.has(id)) rank.set(id, rank.size);
+        });
+        if (node.children) visit(node.children);
+      }
+    };
+    visit(areas);
+
+    const last = rank.size;
+    return [...notes].sort((a, b) => (rank.get(a.id) ?? last) - (rank.get(b.id) ?? last));
+  }
+}
+
+/**
+ * Singleton instance of StorageService
+ *
+ * @example
+ * ```typescript
+ * import { storageService } from './services/storageService';
+ *
+ * const saved = await storageService.load();
+ * storageService.scheduleSave(notes, areas);
+ * ```
+ */
+export const storageService = new StorageService();
+
+export default storageService;
@@ -0,0 +1,316 @@
+/**
+ * @fileoverview Change-Tracked Sync Queue
+ *
+ * Records which notes and tree nodes changed since the last sync so only
+ * those are sent to Google Drive. Pending operations are persisted to
+ * localStorage and survive reloads.
+ *
+ * Features:
+ * - Dirty set keyed by target: repeated edits to a note coalesce into one upload
+ * - Edits made while an upload is running re-queue the note instead of being lost
+ * - Persistent queue of note uploads, folder-structure updates and Drive deletions
+ * - Per-item state (queued, running, failed) for progress display
+ *
+ * The queue only records work; {@link GoogleDriveService.processQueue}
+ * drains it.
+ *
+ * @module services/syncQueue
+ */
+
+/**
+ * Storage key for persisted operations
+ */
+const QUEUE_STORAGE_KEY = 'gemini-notebook-sync-queue-v1';
+
+/**
+ * Delay before persisting changes that only coalesced into a queued
+ * operation, so typing doesn't rewrite the queue on every keystroke
+ */
+const COALESCED_SAVE_DELAY_MS = 2000;
+
+/**
+ * Kind of pending sync work
+ *
+ * - note: upload (create, update, rename or move) a note's Markdown file
+ * - tree: create or rename the Area/Stack/Notebook folders
+ * - trash: move a Drive file or folder to the trash
+ */
+export type SyncOperationType = 'note' | 'tree' | 'trash';
+
+/**
+ * Processing state of a queued operation
+ */
+export type SyncOperationState = 'queued' | 'running' | 'failed';
+
+/**
+ * A pending unit of sync work
+ * @interface SyncOperation
+ */
+export interface SyncOperation {
+  /** Coalescing key: one operation per type and target */
+  key: string;
+  type: SyncOperationType;
+  /** Note ID for 'note', Drive file ID for 'trash', empty for 'tree' */
+  targetId: string;
+  /** Human-readable name shown in the sync status */
+  label: string;
+  state: SyncOperationState;
+  /** ISO timestamp of the first change that queued this operation */
+  queuedAt: string;
+  /** Number of failed attempts */
+  attempts: number;
+  /** Error message of the last failed attempt */
+  error?: string;
+  /** Incremented on every coalesced change; used to detect edits made mid-upload */
+  revision: number;
+}
+
+/**
+ * SyncQueue Class
+ *
+ * Singleton holding the persisted set of pending sync operations.
+ *
+ * @class SyncQueue
+ */
+class SyncQueue {
+  /**
+   * Pending operations keyed by {@link SyncOperation.key}, in insertion order
+   * @private
+   */
+  private operations: Map<string, SyncOperation> = this.load();
+
+  /**
+   * Pending delayed save, see {@link scheduleSave}
+   * @private
+   */
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Queue an upload of a note
+   *
+   * Repeated calls for the same note coalesce into a single operation.
+   *
+   * @param {string} noteId - ID of the changed note
+   * @param {string} title - Current note title, for display
+   * @returns {void}
+   */
+  enqueueNote(noteId: string, title: string): void {
+    this.enqueue('note', noteId, title || 'Untitled');
+  }
+
+  /**
+   * Queue an update of the Drive folder structure
+   *
+   * @returns {void}
+   */
+  enqueueTree(): void {
+    this.enqueue('tree', '', 'Folders');
+  }
+
+  /**
+   * Queue moving a Drive file or folder to the trash
+   *
+   * @param {string} fileId - Drive file or folder ID
+   * @param {string} label - Name of the deleted item, for display
+   * @returns {void}
+   */
+  enqueueTrash(fileId: string, label: string): void {
+    this.enqueue('trash', fileId, label);
+  }
+
+  /**
+   * Drop the pending upload of a note, e.g. because it was deleted
+   *
+   * @param {string} noteId - Note ID
+   * @returns {void}
+   */
+  dropNote(noteId: string): void {
+    if (this.operations.delete(this.keyFor('note', noteId))) {
+      this.save();
+    }
+  }
+
+  /**
+   * Get all pending operations, oldest first
+   *
+   * @returns {SyncOperation[]} Copies of the queued operations
+   */
+  getOperations(): SyncOperation[] {
+    return Array.from(this.operations.values(), operation => ({ ...operation }));
+  }
+
+  /**
+   * Number of pending operations
+   */
+  get size(): number {
+    return this.operations.size;
+  }
+
+  /**
+   * Mark an operation as running
+   *
+   * @param {string} key - Operation key
+   * @returns {number} The operation's revision at start, to pass to {@link complete}
+   */
+  start(key: string): number {
+    const operation = this.operations.get(key);
+    if (!operation) return -1;
+    operation.state = 'running';
+    operation.error = undefined;
+    return operation.revision;
+  }
+
+  /**
+   * Mark an operation as done
+   *
+   * If the target changed again while the operation was running, the
+   * operation stays queued so the newer change is uploaded too.
+   *
+   * @param {string} key - Operation key
+   * @param {number} revision - Revision returned by {@link start}
+   * @returns {void}
+   */
+  complete(key: string, revision: number): void {
+    const operation = this.operations.get(key);
+    if (!operation) return;
+
+    if (operation.revision === revision) {
+      this.operations.delete(key);
+    } else {
+      operation.state = 'queued';
+    }
+    this.save();
+  }
+
+  /**
+   * Mark an operation as failed; it is retried on the next sync
+   *
+   * @param {string} key - Operation key
+   * @param {unknown} error - Failure cause
+   * @returns {void}
+   */
+  fail(key: string, error: unknown): void {
+    const operation = this.operations.get(key);
+    if (!operation) return;
+
+    operation.state = 'failed';
+    operation.attempts++;
+    operation.error = error instanceof Error ? error.message : String(error);
+    this.save();
+  }
+
+  /**
+   * Add or coalesce an operation
+   *
+   * @private
+   */
+  private enqueue(type: SyncOperationType, targetId: string, label: string): void {
+    const key = this.keyFor(type, targetId);
+    const existing = this.operations.get(key);
+
+    if (existing) {
+      existing.revision++;
+      existing.label = label;
+      if (existing.state === 'failed') {
+        existing.state = 'queued';
+        this.save();
+      } else {
+        // The operation is already persisted; only its label may be stale
+        this.scheduleSave();
+      }
+      return;
+    }
+
+    this.operations.set(key, {
+      key,
+      type,
+      targetId,
+      label,
+      state: 'queued',
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      revision: 0,
+    });
+    this.save();
+  }
+
+  /**
+   * Build the coalescing key for an operation
+   *
+   * @private
+   */
+  private keyFor(type: SyncOperationType, targetId: string): string {
+    return targetId ? `${type}:${targetId}` : type;
+  }
+
+  /**
+   * Load persisted operations from localStorage
+   *
+   * Operations interrupted by a reload are reset to 'queued'.
+   *
+   * @private
+   * @returns {Map<string, SyncOperation>} Operations by key
+   */
+  private load(): Map<string, SyncOperation> {
+    const operations = new Map<string, SyncOperation>();
+
+    try {
+      const saved = localStorage.getItem(QUEUE_STORAGE_KEY);
+      const parsed: SyncOperation[] = saved ? JSON.parse(saved) : [];
+      for (const operation of parsed) {
+        operations.set(operation.key, {
+          ...operation,
+          state: operation.state === 'running' ? 'queued' : operation.state,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load sync queue:', error);
+    }
+
+    return operations;
+  }
+
+  /**
+   * Persist operations to localStorage after a short delay
+   *
+   * @private
+   * @returns {void}
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.save(), COALESCED_SAVE_DELAY_MS);
+  }
+
+  /**
+   * Persist operations to localStorage
+   *
+   * @private
+   * @returns {void}
+   */
+  private save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(Array.from(this.operations.values())));
+    } catch (error) {
+      console.error('Failed to save sync queue:', error);
+    }
+  }
+}
+
+/**
+ * Singleton instance of SyncQueue
+ *
+ * @example
+ * ```typescript
+ * import { syncQueue } from './services/syncQueue';
+ *
+ * syncQueue.enqueueNote(note.id, note.title);
+ * console.log(`${syncQueue.size} changes waiting to sync`);
+ * ```
+ */
+export const syncQueue = new SyncQueue();
+
+export default syncQueue;
@@ -0,0 +1,274 @@
+/**
+ * @fileoverview AI Usage Ledger Service
+ *
+ * Records every AI request with its provider, model, token counts,
+ * estimated cost (see {@link module:utils/pricing}) and the feature that
+ * made it, so a team sharing API keys can see where the tokens go.
+ *
+ * Each provider can have a daily or monthly budget in USD. The AI service
+ * checks it before sending a request: past the soft limit the request goes
+ * out with a warning, past the hard limit it is refused.
+ *
+ * @module services/usageService
+ */
+
+import { AIUsageRecord } from '../types';
+import { storageService } from './storageService';
+import { estimateCost } from '../utils/pricing';
+
+/**
+ * What made an AI request
+ */
+export type AIFeature = 'assistant' | 'rewrite' | 'flashcards' | 'quiz' | 'diagram' | 'index' | 'other';
+
+/**
+ * Feature names for the dashboard
+ */
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  assistant: 'AI assistant',
+  rewrite: 'Inline rewrite',
+  flashcards: 'Flashcards',
+  quiz: 'Quiz',
+  diagram: 'Diagrams and mind maps',
+  index: 'Semantic index',
+  other: 'Other',
+};
+
+/**
+ * Spending limits of a provider in USD
+ * @interface UsageBudget
+ */
+export interface UsageBudget {
+  /** Period the limits apply to, in local time */
+  period: 'day' | 'month';
+  /** Spending past which requests are sent with a warning */
+  soft?: number;
+  /** Spending past which requests are refused */
+  hard?: number;
+}
+
+/**
+ * Spending of a provider against its budget
+ * @interface BudgetStatus
+ */
+export interface BudgetStatus {
+  provider: string;
+  budget: UsageBudget;
+  /** Estimated USD spent in the current period */
+  spent: number;
+  /** Highest limit reached */
+  level: 'ok' | 'soft' | 'hard';
+}
+
+/**
+ * Sums over a set of records
+ * @interface UsageTotals
+ */
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated USD of the priced requests */
+  cost: number;
+  /** Requests to models without a known price */
+  unpriced: number;
+}
+
+/**
+ * Meta key of the budgets
+ */
+const BUDGETS_META_KEY = 'aiBudgets';
+
+/**
+ * Start of the current day or month in local time
+ *
+ * @param {'day' | 'month'} period - Period
+ * @param {Date} [now] - Current time
+ * @returns {string} ISO timestamp of the period start
+ */
+export function periodStart(period: 'day' | 'month', now: Date = new Date()): string {
+  const start = period === 'day'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+  return start.toISOString();
+}
+
+/**
+ * Add up records
+ *
+ * @param {AIUsageRecord[]} records - Records to add up
+ * @returns {UsageTotals} Totals
+ */
+export function summarizeUsage(records: AIUsageRecord[]): UsageTotals {
+  return records.reduce<UsageTotals>((totals, record) => ({
+    requests: totals.requests + 1,
+    promptTokens: totals.promptTokens + record.promptTokens,
+    completionTokens: totals.completionTokens + record.completionTokens,
+    cost: totals.cost + (record.cost ?? 0),
+    unpriced: totals.unpriced + (record.cost === null ? 1 : 0),
+  }), { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 });
+}
+
+/**
+ * UsageService Class
+ *
+ * Singleton writing the usage ledger and checking budgets.
+ *
+ * @class UsageService
+ */
+class UsageService {
+  /**
+   * Budgets by provider, loaded from storage on first use
+   * @private
+   */
+  private budgets: Promise<Record<string, UsageBudget>> | null = null;
+
+  /**
+   * Callbacks run after the ledger or the budgets change
+   * @private
+   */
+  private listeners: Set<() => void> = new Set();
+
+  /**
+   * Record a completed request
+   *
+   * Storage failures are logged, never thrown: a request that succeeded
+   * should not fail because it couldn't be recorded.
+   *
+   * @async
+   * @param {Object} request - What was used
+   * @param {string} request.provider - Provider ID
+   * @param {string} request.model - Model ID
+   * @param {AIFeature} request.feature - Feature that made the request
+   * @param {number} request.promptTokens - Input tokens
+   * @param {number} request.completionTokens - Output tokens
+   * @returns {Promise<void>}
+   */
+  async record(request: {
+    provider: string;
+    model: string;
+    feature: AIFeature;
+    promptTokens: number;
+    completionTokens: number;
+  }): Promise<void> {
+    const record: AIUsageRecord = {
+      id: `usage-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      ...request,
+      cost: estimateCost(request.provider, request.model, request.promptTokens, request.completionTokens),
+      createdAt: new Date().toISOString(),
+    };
+    try {
+      await storageService.putUsageRecord(record);
+      this.notify();
+    } catch (error) {
+      console.error('Failed to record AI usage:', error);
+    }
+  }
+
+  /**
+   * Read the ledger
+   *
+   * @param {string} [since] - ISO timestamp; only records from then on
+   * @returns {Promise<AIUsageRecord[]>} Records, oldest first
+   */
+  getRecords(since?: string): Promise<AIUsageRecord[]> {
+    return storageService.getUsageRecords(since);
+  }
+
+  /**
+   * Get the budgets of all providers
+   *
+   * @returns {Promise<Record<string, UsageBudget>>} Budgets by provider ID
+   */
+  getBudgets(): Promise<Record<string, UsageBudget>> {
+    if (!this.budgets) {
+      this.budgets = storageService.getMeta<Record<string, UsageBudget>>(BUDGETS_META_KEY).then(budgets => budgets || {});
+      // Allow a later retry if loading failed
+      this.budgets.catch(() => {
+        this.budgets = null;
+      });
+    }
+    return this.budgets;
+  }
+
+  /**
+   * Set or remove the budget of a provider
+   *
+   * @async
+   * @param {string} provider - Provider ID
+   * @param {UsageBudget | null} budget - New budget; null removes it
+   * @returns {Promise<void>}
+   */
+  async setBudget(provider: string, budget: UsageBudget | null): Promise<void> {
+    const budgets = { ...await this.getBudgets() };
+    if (budget && (budget.soft !== undefined || budget.hard !== undefined)) {
+      budgets[provider] = budget;
+    } else {
+      delete budgets[provider];
+    }
+    await storageService.putMeta(BUDGETS_META_KEY, budgets);
+    this.budgets = Promise.resolve(budgets);
+    this.notify();
+  }
+
+  /**
+   * Compare a provider's spending in the current period with its budget
+   *
+   * @async
+   * @param {string} provider - Provider ID
+   * @returns {Promise<BudgetStatus | null>} Status, or null without a budget
+   *
+   * @example
+   * ```typescript
+   * const status = await usageService.checkBudget('openai');
+   * if (status?.level === 'hard') throw new Error('Budget used up');
+   * ```
+   */
+  async checkBudget(provider: string): Promise<BudgetStatus | null> {
+    const budget = (await this.getBudgets())[provider];
+    if (!budget) return null;
+    const records = await this.getRecords(periodStart(budget.period));
+    const spent = summarizeUsage(records.filter(record => record.provider === provider)).cost;
+    const level = budget.hard !== undefined && spent >= budget.hard
+      ? 'hard'
+      : budget.soft !== undefined && spent >= budget.soft ? 'soft' : 'ok';
+    return { provider, budget, spent, level };
+  }
+
+  /**
+   * Run a callback whenever the ledger or the budgets change
+   *
+   * @param {() => void} listener - Callback
+   * @returns {() => void} Function removing the callback
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run the change callbacks
+   *
+   * @private
+   * @returns {void}
+   */
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Singleton instance of UsageService
+ *
+ * @example
+ * ```typescript
+ * import { usageService } from './services/usageService';
+ *
+ * await usageService.setBudget('anthropic', { period: 'month', soft: 20, hard: 30 });
+ * ```
+ */
+export const usageService = new UsageService();
+
+export default usageService;
@@ -4,9 +4,12 @@ export type Note = {
   id: string;
   title: string;
   description: string;
-  date: string;
+  createdAt: string; // ISO timestamp of creation
   imageUrl?: string;
   content: string; // Content is now a single HTML string
+  tags?: string[]; // Normalized labels (see utils/tags), written to the Drive frontmatter
+  updatedAt?: string; // ISO timestamp of the last local edit
+  driveFileId?: string; // Google Drive file ID, stable across renames and moves
 };
 
 
@@ -17,4 +20,63 @@ export type Node = {
   children?: Node[];
   noteIds?: string[];
   description?: string;
+  driveFileId?: string; // Google Drive folder ID, stable across renames and moves
+};
+
+export type RevisionReason = 'idle' | 'significant' | 'ai' | 'sync' | 'restore';
+
+export type NoteRevision = {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string; // HTML snapshot of the note
+  createdAt: string; // ISO timestamp
+  reason: RevisionReason;
+};
+
+export type FlashcardSource = 'manual' | 'ai';
+
+export type Flashcard = {
+  id: string;
+  noteId: string; // Note the card was made from
+  front: string; // Question or prompt, plain text
+  back: string; // Answer, plain text
+  source: FlashcardSource;
+  createdAt: string; // ISO timestamp
+  // SM-2 scheduling state (see utils/sm2)
+  ease: number; // Ease factor, at least 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  dueAt: string; // ISO timestamp of the next review
+  lastReviewedAt?: string; // ISO timestamp, absent for cards never reviewed
+};
+
+export type QuizAttempt = {
+  id: string;
+  questionId: string; // See utils/quiz questionId
+  noteId: string;
+  choice: string; // Letter picked
+  correct: boolean;
+  answeredAt: string; // ISO timestamp
+};
+
+export type NoteChunk = {
+  id: string; // `${noteId}:${index}`
+  noteId: string;
+  heading: string; // Headings above the passage, joined with ' / '
+  text: string; // Passage text in Markdown
+  hash: string; // Hash of heading and text, to reuse vectors of unchanged passages
+  embedder: string; // ID of the embedding provider that made the vector
+  vector: number[];
+};
+
+export type AIUsageRecord = {
+  id: string;
+  provider: string; // AI provider ID
+  model: string;
+  feature: string; // What made the request, see services/usageService AIFeature
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null; // Estimated USD, null when the model has no known price
+  createdAt: string; // ISO timestamp
 };
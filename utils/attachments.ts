@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Attachment Reference Utilities
+ *
+ * Helpers for the way note HTML references stored attachments. An image
+ * or PDF link carries the attachment ID in a `data-attachment-id`
+ * attribute and points at a relative path under `attachments/`:
+ *
+ * ```html
+ * <img src="attachments/att-lq2x1k-8f3a.png" data-attachment-id="att-lq2x1k-8f3a.png" alt="scan.png">
+ * ```
+ *
+ * The same relative path is what exported Markdown uses, and it resolves
+ * against the `attachments/` folder next to the note's `.md` file in
+ * Google Drive. In the editor the path is swapped for an object URL.
+ *
+ * @module utils/attachments
+ */
+
+/**
+ * Folder name for attachments, relative to the note's folder
+ */
+export const ATTACHMENTS_DIR = 'attachments';
+
+/**
+ * HTML attribute holding the attachment ID
+ */
+export const ATTACHMENT_ID_ATTRIBUTE = 'data-attachment-id';
+
+/**
+ * Generate a new attachment ID
+ *
+ * The ID keeps the file extension so the exported path opens with the
+ * right application.
+ *
+ * @param {string} fileName - Original file name
+ * @returns {string} Unique attachment ID, e.g. 'att-lq2x1k-8f3a.png'
+ */
+export function createAttachmentId(fileName: string): string {
+  const extension = /\.([a-z0-9]{1,8})$/i.exec(fileName)?.[1]?.toLowerCase();
+  const id = `att-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  return extension ? `${id}.${extension}` : id;
+}
+
+/**
+ * Get the relative path of an attachment
+ *
+ * @param {string} id - Attachment ID
+ * @returns {string} Path such as 'attachments/att-lq2x1k-8f3a.png'
+ */
+export function attachmentPath(id: string): string {
+  return `${ATTACHMENTS_DIR}/${id}`;
+}
+
+/**
+ * Get the attachment ID from a relative path
+ *
+ * @param {string} path - `src` or `href` value
+ * @returns {string | null} Attachment ID, or null if the path is not an attachment
+ */
+export function attachmentIdFromPath(path: string): string | null {
+  const match = new RegExp(`^(?:\\./)?${ATTACHMENTS_DIR}/(att-[\\w.-]+)$`).exec(path);
+  return match ? match[1] : null;
+}
+
+/**
+ * List the attachment IDs referenced by note HTML
+ *
+ * @param {string} html - Note content
+ * @returns {string[]} Unique attachment IDs in document order
+ */
+export function extractAttachmentIds(html: string): string[] {
+  const pattern = new RegExp(`${ATTACHMENT_ID_ATTRIBUTE}="([^"]+)"`, 'g');
+  const ids = new Set<string>();
+  for (const match of html.matchAll(pattern)) {
+    ids.add(match[1]);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Point attachment elements at their relative paths
+ *
+ * Used when serialising editor HTML, whose elements point at object URLs
+ * while displayed.
+ *
+ * @param {ParentNode} root - Element or fragment to rewrite in place
+ * @returns {void}
+ */
+export function restoreAttachmentPaths(root: ParentNode): void {
+  root.querySelectorAll(`[${ATTACHMENT_ID_ATTRIBUTE}]`).forEach(element => {
+    const path = attachmentPath(element.getAttribute(ATTACHMENT_ID_ATTRIBUTE)!);
+    element.setAttribute(element.tagName === 'A' ? 'href' : 'src', path);
+  });
+}
+
+/**
+ * Tag elements that point at attachment paths with their attachment ID
+ *
+ * Markdown only keeps the path, so HTML rendered from Markdown needs the
+ * ID attribute restored.
+ *
+ * @param {ParentNode} root - Element or fragment to rewrite in place
+ * @returns {void}
+ */
+export function tagAttachmentElements(root: ParentNode): void {
+  root.querySelectorAll('img[src], a[href]').forEach(element => {
+    const id = attachmentIdFromPath(element.getAttribute(element.tagName === 'A' ? 'href' : 'src')!);
+    if (id) {
+      element.setAttribute(ATTACHMENT_ID_ATTRIBUTE, id);
+    }
+  });
+}
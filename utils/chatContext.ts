@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Chat Context Builder
+ *
+ * Grounds the AI assistant in the user's notes. A context scope picks the
+ * notes to send — the editor selection, the open note, its notebook or its
+ * whole area — and their text is packed into a system prompt that fits the
+ * model's token budget. The library scope sends only the passages the
+ * semantic index finds for the question. Each note gets a marker such as `[n2]` that the
+ * model cites after the facts it uses; {@link linkCitations} turns those
+ * markers into links that open the note.
+ *
+ * @module utils/chatContext
+ */
+
+import { Note, Node } from '../types';
+import { htmlToMarkdown } from './markdown';
+
+/**
+ * Which notes the assistant is given
+ */
+export type ContextScope = 'selection' | 'note' | 'notebook' | 'area' | 'library';
+
+/**
+ * A note included in the context
+ * @interface ContextSource
+ */
+export interface ContextSource {
+  /** Citation marker without brackets, e.g. 'n2' */
+  marker: string;
+  noteId: string;
+  title: string;
+}
+
+/**
+ * Grounding built for one request
+ * @interface ChatContext
+ */
+export interface ChatContext {
+  /** System prompt with the notes' text */
+  prompt: string;
+  /** Notes included, in marker order */
+  sources: ContextSource[];
+  /** Whether any note had to be shortened to fit the budget */
+  trimmed: boolean;
+}
+
+/**
+ * Rough characters per token, used for estimates on every provider
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Marker for text cut off to fit the budget
+ */
+const TRIM_MARKER = '\n[…]';
+
+/**
+ * Link target of a citation; a fragment, so react-markdown keeps it
+ */
+const CITATION_HREF_PREFIX = '#note-';
+
+/**
+ * One or more markers in brackets, e.g. `[n2]` or `[n1, n3]`
+ */
+const CITATION_PATTERN = /\[(n\d+(?:\s*[,;]\s*n\d+)*)\]/g;
+
+/**
+ * Instructions preceding the notes
+ */
+const INSTRUCTIONS = `You are a helpful AI assistant integrated into a note-taking app. Answer using the user's notes below where they are relevant, and say so when they don't cover the question.
+Each note starts with a marker in square brackets. After every fact taken from a note, cite it with its marker, e.g. [n2]; cite several as [n1, n3]. Don't cite facts that are not from the notes.
+Provide helpful, concise responses that can be inserted into a note.`;
+
+/**
+ * Estimate the number of tokens in a text
+ *
+ * @param {string} text - Text to measure
+ * @returns {number} Approximate token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Find the path from the roots to a notebook holding a note
+ *
+ * @param {Node[]} nodes - Nodes to search
+ * @param {string} noteId - Note to find
+ * @returns {Node[]} Ancestors ending with the notebook, or empty if not found
+ */
+function pathToNote(nodes: Node[], noteId: string): Node[] {
+  for (const node of nodes) {
+    if (node.noteIds?.includes(noteId)) return [node];
+    const path = pathToNote(node.children || [], noteId);
+    if (path.length > 0) return [node, ...path];
+  }
+  return [];
+}
+
+/**
+ * Collect the IDs of all notes under a node, in tree order
+ *
+ * @param {Node} node - Area, stack or notebook
+ * @returns {string[]} Note IDs
+ */
+function collectNoteIds(node: Node): string[] {
+  return [...(node.noteIds || []), ...(node.children || []).flatMap(collectNoteIds)];
+}
+
+/**
+ * Get the notes a scope covers
+ *
+ * The open note always comes first. A note outside any notebook only
+ * covers itself in the notebook and area scopes.
+ *
+ * @param {ContextScope} scope - Context scope
+ * @param {Note} note - Open note
+ * @param {Note[]} notes - All notes
+ * @param {Node[]} areas - Area hierarchy
+ * @returns {Note[]} Notes in scope
+ */
+export function notesInScope(scope: ContextScope, note: Note, notes: Note[], areas: Node[]): Note[] {
+  if (scope === 'selection' || scope === 'note') return [note];
+  if (scope === 'library') return [note, ...notes.filter(n => n.id !== note.id)];
+
+  const path = pathToNote(areas, note.id);
+  const root = scope === 'notebook'
+    ? path[path.length - 1]
+    : [...path].reverse().find(node => node.type === 'area') || path[0];
+  if (!root) return [note];
+
+  const byId = new Map(notes.map(n => [n.id, n]));
+  const ids = collectNoteIds(root).filter(id => id !== note.id);
+  return [note, ...ids.map(id => byId.get(id)).filter((n): n is Note => !!n)];
+}
+
+/**
+ * Pack note texts into a system prompt
+ *
+ * Texts are shortened to fit `budgetTokens`: short ones are kept whole
+ * and the rest of the budget is shared evenly among the longer ones.
+ *
+ * @param {Array<{ note: Note; text: string }>} texts - Text per note, most relevant first
+ * @param {number} budgetTokens - Tokens available for the prompt
+ * @param {string} label - Line introducing the texts
+ * @returns {ChatContext} Prompt and the notes it cites
+ */
+function packContext(texts: Array<{ note: Note; text: string }>, budgetTokens: number, label: string): ChatContext {
+  const entries = texts
+    .map(({ note, text }, index) => ({ note, marker: `n${index + 1}`, text: text.trim() }))
+    .filter(entry => entry.text);
+
+  // Headers and separators are always sent; the text shares what's left
+  const overhead = INSTRUCTIONS.length + entries.reduce((sum, entry) => sum + entry.marker.length + entry.note.title.length + TRIM_MARKER.length + 6, 0);
+  let remaining = Math.max(0, budgetTokens * CHARS_PER_TOKEN - overhead);
+  const allowance = new Map<typeof entries[number], number>();
+  [...entries]
+    .sort((a, b) => a.text.length - b.text.length)
+    .forEach((entry, index, sorted) => {
+      const share = Math.min(entry.text.length, Math.floor(remaining / (sorted.length - index)));
+      allowance.set(entry, share);
+      remaining -= share;
+    });
+
+  let trimmed = false;
+  const included = entries.filter(entry => {
+    const length = allowance.get(entry) || 0;
+    if (length < entry.text.length) {
+      trimmed = true;
+      if (length === 0) return false;
+      entry.text = entry.text.slice(0, length) + TRIM_MARKER;
+    }
+    return true;
+  });
+
+  return {
+    prompt: included.length > 0
+      ? `${INSTRUCTIONS}\n\n${label}:\n\n${included.map(entry => `[${entry.marker}] ${entry.note.title}\n${entry.text}`).join('\n\n')}`
+      : INSTRUCTIONS,
+    sources: included.map(entry => ({
+      marker: entry.marker,
+      noteId: entry.note.id,
+      title: entry.note.title,
+    })),
+    trimmed,
+  };
+}
+
+/**
+ * Build the system prompt for a chat request
+ *
+ * Notes are shortened to fit `budgetTokens`; see {@link packContext}.
+ *
+ * @param {Note[]} notes - Notes in scope, most relevant first
+ * @param {number} budgetTokens - Tokens available for the prompt
+ * @param {string} [selection] - Selected text to send instead of the first note's content
+ * @returns {ChatContext} Prompt and the notes it cites
+ *
+ * @example
+ * ```typescript
+ * const context = buildChatContext(notesInScope('notebook', note, notes, areas), 60000);
+ * messages.unshift({ role: 'system', content: context.prompt });
+ * ```
+ */
+export function buildChatContext(notes: Note[], budgetTokens: number, selection?: string): ChatContext {
+  const texts = notes.map((note, index) => ({
+    note,
+    text: index === 0 && selection ? selection : htmlToMarkdown(note.content),
+  }));
+  return packContext(texts, budgetTokens, selection ? 'Text the user selected' : 'Notes');
+}
+
+/**
+ * Build the system prompt from passages found by the semantic index
+ *
+ * Passages of the same note are sent together under one marker, notes
+ * ordered by their best passage.
+ *
+ * @param {Array<{ note: Note; heading: string; text: string }>} passages - Passages, best match first
+ * @param {number} budgetTokens - Tokens available for the prompt
+ * @returns {ChatContext} Prompt and the notes it cites
+ */
+export function buildPassageContext(
+  passages: Array<{ note: Note; heading: string; text: string }>,
+  budgetTokens: number
+): ChatContext {
+  const byNote = new Map<string, { note: Note; parts: string[] }>();
+  passages.forEach(({ note, heading, text }) => {
+    const entry = byNote.get(note.id) || { note, parts: [] };
+    entry.parts.push(heading ? `(${heading})\n${text}` : text);
+    byNote.set(note.id, entry);
+  });
+  const texts = Array.from(byNote.values()).map(({ note, parts }) => ({ note, text: parts.join('\n\n') }));
+  return packContext(texts, budgetTokens, 'Passages from the notes that best match the question');
+}
+
+/**
+ * Turn citation markers into Markdown links to their notes
+ *
+ * Markers without a matching source are left as they are.
+ *
+ * @param {string} markdown - Assistant response
+ * @param {ContextSource[]} sources - Sources of the request
+ * @returns {string} Markdown with `[Title](#note-<id>)` links
+ */
+export function linkCitations(markdown: string, sources: ContextSource[]): string {
+  const byMarker = new Map(sources.map(source => [source.marker, source]));
+  return markdown.replace(CITATION_PATTERN, (match, list: string) => {
+    const cited = list.split(/\s*[,;]\s*/).map(marker => byMarker.get(marker));
+    if (cited.some(source => !source)) return match;
+    return cited
+      .map(source => `[${source!.title.replace(/[[\]]/g, '')}](${CITATION_HREF_PREFIX}${encodeURIComponent(source!.noteId)})`)
+      .join(' ');
+  });
+}
+
+/**
+ * Remove citation markers, e.g. before inserting a response into a note
+ *
+ * @param {string} markdown - Assistant response
+ * @returns {string} Response without markers
+ */
+export function stripCitations(markdown: string): string {
+  return markdown.replace(new RegExp(` ?${CITATION_PATTERN.source}`, 'g'), '');
+}
+
+/**
+ * Get the note a citation link points to
+ *
+ * @param {string | undefined} href - Link target
+ * @returns {string | null} Note ID, or null for other links
+ */
+export function citedNoteId(href: string | undefined): string | null {
+  return href?.startsWith(CITATION_HREF_PREFIX) ? decodeURIComponent(href.slice(CITATION_HREF_PREFIX.length)) : null;
+}
@@ -0,0 +1,309 @@
+/**
+ * @fileoverview Line Diff and Three-Way Merge Utilities
+ *
+ * Line-based diffing used by the Drive sync conflict panel. Provides a
+ * two-way diff for displaying changes and a diff3-style three-way merge
+ * that splits a base/local/remote triple into hunks which can be resolved
+ * one at a time.
+ *
+ * Features:
+ * - Longest-common-subsequence line diff with prefix/suffix trimming
+ * - Three-way merge into unchanged, one-sided and conflicting hunks
+ * - Hunk-by-hunk resolution back into a merged document
+ *
+ * @module utils/diff
+ */
+
+/**
+ * A run of lines in a two-way diff
+ * @interface DiffOp
+ */
+export interface DiffOp {
+  /** Whether the lines are shared, only in the new text, or only in the old text */
+  type: 'equal' | 'insert' | 'delete';
+  /** The lines covered by this operation */
+  lines: string[];
+}
+
+/**
+ * Classification of a three-way merge hunk
+ *
+ * - unchanged: identical in base, local and remote
+ * - local: changed only locally
+ * - remote: changed only remotely
+ * - both: changed identically on both sides
+ * - conflict: changed differently on both sides
+ */
+export type MergeHunkKind = 'unchanged' | 'local' | 'remote' | 'both' | 'conflict';
+
+/**
+ * A region of a three-way merge
+ * @interface MergeHunk
+ */
+export interface MergeHunk {
+  kind: MergeHunkKind;
+  /** Lines of the common ancestor */
+  base: string[];
+  /** Lines of the local version */
+  local: string[];
+  /** Lines of the remote version */
+  remote: string[];
+}
+
+/**
+ * How a single conflicting hunk should be resolved
+ *
+ * 'both' keeps the local lines followed by the remote lines.
+ */
+export type HunkChoice = 'local' | 'remote' | 'both';
+
+/**
+ * Split text into lines, treating CRLF and LF alike
+ *
+ * @param {string} text - Text to split
+ * @returns {string[]} Lines without terminators
+ */
+export function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.split(/\r?\n/);
+}
+
+/**
+ * Compute matching line pairs between two sequences
+ *
+ * Uses a classic LCS dynamic-programming table after trimming the common
+ * prefix and suffix, which keeps typical note edits cheap.
+ *
+ * @param {string[]} a - Old lines
+ * @param {string[]} b - New lines
+ * @returns {Array<[number, number]>} Pairs of matching indexes, ascending in both
+ */
+function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    pairs.push([start, start]);
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  const suffix: Array<[number, number]> = [];
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    suffix.unshift([endA, endB]);
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n > 0 && m > 0) {
+    // lengths[i * (m + 1) + j] = LCS length of a[start+i..] and b[start+j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        pairs.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  return pairs.concat(suffix);
+}
+
+/**
+ * Diff two texts line by line
+ *
+ * @param {string} oldText - Original text
+ * @param {string} newText - Changed text
+ * @returns {DiffOp[]} Consecutive equal/delete/insert runs
+ *
+ * @example
+ * ```typescript
+ * diffLines('a\nb\nc', 'a\nx\nc')
+ * // Returns: [
+ * //   { type: 'equal', lines: ['a'] },
+ * //   { type: 'delete', lines: ['b'] },
+ * //   { type: 'insert', lines: ['x'] },
+ * //   { type: 'equal', lines: ['c'] },
+ * // ]
+ * ```
+ */
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const ops: DiffOp[] = [];
+
+  const push = (type: DiffOp['type'], line: string) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+      last.lines.push(line);
+    } else {
+      ops.push({ type, lines: [line] });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [matchA, matchB] of matchLines(a, b)) {
+    while (i < matchA) push('delete', a[i++]);
+    while (j < matchB) push('insert', b[j++]);
+    push('equal', a[i]);
+    i++;
+    j++;
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+
+  return ops;
+}
+
+/**
+ * Compare two line arrays for equality
+ */
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Split a base/local/remote triple into merge hunks
+ *
+ * Implements the diff3 approach: base lines matched in both the local and
+ * the remote version anchor unchanged regions, and everything between two
+ * anchors forms a hunk that is classified by which sides changed it.
+ *
+ * @param {string} base - Common ancestor (last synced version)
+ * @param {string} local - Local version
+ * @param {string} remote - Remote version
+ * @returns {MergeHunk[]} Hunks covering all three texts in order
+ *
+ * @example
+ * ```typescript
+ * const hunks = mergeThreeWay('a\nb\nc', 'a\nB\nc', 'a\nb\nC');
+ * // hunks[1] → { kind: 'local', base: ['b'], local: ['B'], remote: ['b'] }
+ * // hunks[2] → { kind: 'remote', base: ['c'], local: ['c'], remote: ['C'] }
+ * ```
+ */
+export function mergeThreeWay(base: string, local: string, remote: string): MergeHunk[] {
+  const o = splitLines(base);
+  const a = splitLines(local);
+  const b = splitLines(remote);
+
+  const toLocal = new Map(matchLines(o, a));
+  const toRemote = new Map(matchLines(o, b));
+  const hunks: MergeHunk[] = [];
+
+  const pushUnchanged = (line: string) => {
+    const last = hunks[hunks.length - 1];
+    if (last && last.kind === 'unchanged') {
+      last.base.push(line);
+      last.local.push(line);
+      last.remote.push(line);
+    } else {
+      hunks.push({ kind: 'unchanged', base: [line], local: [line], remote: [line] });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (i < o.length || j < a.length || k < b.length) {
+    // Base line kept in place on both sides: unchanged
+    if (i < o.length && toLocal.get(i) === j && toRemote.get(i) === k) {
+      pushUnchanged(o[i]);
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    // Find the next base line that both sides still contain
+    let next = i;
+    while (
+      next < o.length &&
+      !((toLocal.get(next) ?? -1) >= j && (toRemote.get(next) ?? -1) >= k)
+    ) {
+      next++;
+    }
+
+    const endLocal = next < o.length ? toLocal.get(next)! : a.length;
+    const endRemote = next < o.length ? toRemote.get(next)! : b.length;
+    const hunk: MergeHunk = {
+      kind: 'conflict',
+      base: o.slice(i, next),
+      local: a.slice(j, endLocal),
+      remote: b.slice(k, endRemote),
+    };
+
+    const localChanged = !sameLines(hunk.base, hunk.local);
+    const remoteChanged = !sameLines(hunk.base, hunk.remote);
+    if (!localChanged && !remoteChanged) {
+      hunk.kind = 'unchanged';
+    } else if (!remoteChanged) {
+      hunk.kind = 'local';
+    } else if (!localChanged) {
+      hunk.kind = 'remote';
+    } else if (sameLines(hunk.local, hunk.remote)) {
+      hunk.kind = 'both';
+    }
+
+    hunks.push(hunk);
+    i = next;
+    j = endLocal;
+    k = endRemote;
+  }
+
+  return hunks;
+}
+
+/**
+ * Assemble a merged document from resolved hunks
+ *
+ * Non-conflicting hunks resolve automatically to the changed side.
+ * Conflicting hunks use the matching entry in `choices` (keyed by hunk
+ * index) and default to the local lines when no choice was made.
+ *
+ * @param {MergeHunk[]} hunks - Hunks from {@link mergeThreeWay}
+ * @param {Record<number, HunkChoice>} [choices={}] - Resolution per conflicting hunk index
+ * @returns {string} Merged text
+ */
+export function applyMergeHunks(hunks: MergeHunk[], choices: Record<number, HunkChoice> = {}): string {
+  const lines: string[] = [];
+
+  hunks.forEach((hunk, index) => {
+    switch (hunk.kind) {
+      case 'unchanged':
+      case 'local':
+      case 'both':
+        lines.push(...hunk.local);
+        break;
+      case 'remote':
+        lines.push(...hunk.remote);
+        break;
+      case 'conflict': {
+        const choice = choices[index] || 'local';
+        if (choice === 'local' || choice === 'both') lines.push(...hunk.local);
+        if (choice === 'remote' || choice === 'both') lines.push(...hunk.remote);
+        break;
+      }
+    }
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Text Chunking and Vector Helpers
+ *
+ * Building blocks of the semantic index: notes are split into passages
+ * along headings and paragraphs, passages are compared by cosine
+ * similarity, and a deterministic hashed n-gram embedding stands in for a
+ * remote embedding model offline.
+ *
+ * @module utils/embedding
+ */
+
+import { htmlToMarkdown } from './markdown';
+
+/**
+ * A passage of a note
+ * @interface TextChunk
+ */
+export interface TextChunk {
+  /** Headings above the passage, e.g. 'Heart failure / Treatment' */
+  heading: string;
+  /** Passage text in Markdown */
+  text: string;
+}
+
+/**
+ * Passages are merged up to this length
+ */
+const CHUNK_TARGET_CHARS = 800;
+
+/**
+ * Paragraphs longer than this are split at sentence ends
+ */
+const CHUNK_MAX_CHARS = 1500;
+
+/**
+ * Dimensions of the local embedding
+ */
+export const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * Hash a string with 32-bit FNV-1a
+ *
+ * @param {string} text - Text to hash
+ * @returns {number} Unsigned 32-bit hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hash a text to a short base-36 string, to detect changed passages
+ *
+ * @param {string} text - Text to hash
+ * @returns {string} Hash
+ */
+export function hashText(text: string): string {
+  return `${fnv1a(text).toString(36)}${text.length.toString(36)}`;
+}
+
+/**
+ * Split a long paragraph at sentence ends
+ *
+ * @param {string} paragraph - Paragraph text
+ * @returns {string[]} Pieces no longer than {@link CHUNK_MAX_CHARS}, except single long sentences
+ */
+function splitParagraph(paragraph: string): string[] {
+  if (paragraph.length <= CHUNK_MAX_CHARS) return [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of paragraph.split(/(?<=[.!?;])\s+/)) {
+    if (current && current.length + sentence.length + 1 > CHUNK_MAX_CHARS) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Split note HTML into passages
+ *
+ * A heading starts a new section; within a section, consecutive
+ * paragraphs are merged until they reach {@link CHUNK_TARGET_CHARS}.
+ *
+ * @param {string} html - Note content
+ * @returns {TextChunk[]} Passages in document order
+ *
+ * @example
+ * ```typescript
+ * chunkNote('<h1>Dose</h1><p>Start low.</p>');
+ * // [{ heading: 'Dose', text: 'Start low.' }]
+ * ```
+ */
+export function chunkNote(html: string): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const headings: string[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer.trim()) chunks.push({ heading: headings.filter(Boolean).join(' / '), text: buffer.trim() });
+    buffer = '';
+  };
+
+  for (const block of htmlToMarkdown(html).split(/\n{2,}/)) {
+    const heading = /^(#{1,6})\s+(.+)$/.exec(block.trim());
+    if (heading) {
+      flush();
+      headings.length = heading[1].length - 1;
+      headings.push(heading[2].trim());
+      continue;
+    }
+
+    // Images and attachments carry no text to match
+    const text = block.replace(/!\[[^\]]*\]\([^)]*\)/g, '').trim();
+    if (!text) continue;
+
+    for (const piece of splitParagraph(text)) {
+      if (buffer && buffer.length + piece.length + 2 > CHUNK_TARGET_CHARS) flush();
+      buffer = buffer ? `${buffer}\n\n${piece}` : piece;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * Embed a text locally by hashing its words and character trigrams
+ *
+ * Deterministic and offline, so the index works without an embedding
+ * API and in tests. It matches shared vocabulary, not meaning.
+ *
+ * @param {string} text - Text to embed
+ * @param {number} [dimensions] - Vector length
+ * @returns {number[]} Unit-length vector, all zeros for empty text
+ */
+export function hashedNgramEmbedding(text: string, dimensions = LOCAL_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const normalized = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const words = normalized.match(/[\p{L}\p{N}]+/gu) || [];
+
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign, so unrelated features tend to cancel out
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  for (const word of words) {
+    add(`w:${word}`, 1);
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`c:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Cosine similarity of two vectors
+ *
+ * @param {number[]} a - First vector
+ * @param {number[]} b - Second vector of the same length
+ * @returns {number} Similarity from -1 to 1; 0 if either vector is zero
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -9,12 +9,14 @@
  * Features:
  * - HTML to Markdown conversion with custom rules
  * - Filename sanitization for safe file system operations
- * - Frontmatter generation for metadata
+ * - Markdown to HTML conversion for notes pulled back from Google Drive
+ * - Frontmatter generation and parsing for metadata
  * - Text extraction for previews and descriptions
  * - Support for Mermaid diagrams, strikethrough, and underline
  *
  * Use cases:
  * - Exporting notes to Google Drive as .md files
+ * - Importing edited .md files from Google Drive back into notes
  * - Generating note previews
  * - Creating safe filenames from note titles
  * - Adding YAML frontmatter to exported files
@@ -22,7 +24,16 @@
  * @module utils/markdown
  */
 
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeParse from 'rehype-parse';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize, { defaultSchema, Options as SanitizeSchema } from 'rehype-sanitize';
+import rehypeStringify from 'rehype-stringify';
 import TurndownService from 'turndown';
+import { tagAttachmentElements } from './attachments';
 
 /**
  * TurndownService instance with custom configuration
@@ -124,6 +135,27 @@ turndownService.addRule('mermaid', {
   }
 });
 
+/**
+ * Custom rule: Task list checkboxes
+ *
+ * GFM task lists render as list items starting with a checkbox input,
+ * which Turndown would otherwise drop.
+ *
+ * @example
+ * Input:  <li><input type="checkbox" checked> Done</li>
+ * Output: - [x] Done
+ */
+turndownService.addRule('taskListItem', {
+  filter: (node) => {
+    return node.nodeName === 'INPUT' &&
+           (node as HTMLInputElement).type === 'checkbox' &&
+           node.parentNode?.nodeName === 'LI';
+  },
+  replacement: (content, node) => {
+    return (node as HTMLInputElement).hasAttribute('checked') ? '[x] ' : '[ ] ';
+  }
+});
+
 /**
  * Convert HTML content to Markdown format
  *
@@ -153,6 +185,7 @@ turndownService.addRule('mermaid', {
  * - Blockquotes (<blockquote>) → > quote
  * - Tables (<table>) → Markdown tables
  * - Mermaid diagrams → ```mermaid code```
+ * - Task list checkboxes → [x] / [ ]
  *
  * @example
  * ```typescript
@@ -241,11 +274,13 @@ export function sanitizeFilename(filename: string): string {
  * @param {string} title - Note title
  * @param {string} date - Note creation/modification date (ISO 8601 format)
  * @param {string[]} [tags=[]] - Optional array of tags
+ * @param {string} [id] - Optional note ID, used to keep file identity across renames
  * @returns {string} YAML frontmatter block
  *
  * Output format:
  * ```yaml
  * ---
+ * id: note-123
  * title: Note Title
  * date: 2024-01-01
  * tags: [tag1, tag2]
@@ -290,9 +325,9 @@ export function sanitizeFilename(filename: string): string {
  * // Save fullContent to file...
  * ```
  */
-export function generateFrontmatter(title: string, date: string, tags: string[] = []): string {
+export function generateFrontmatter(title: string, date: string, tags: string[] = [], id?: string): string {
   return `---
-title: ${title}
+${id ? `id: ${id}\n` : ''}title: ${title}
 date: ${date}
 tags: [${tags.join(', ')}]
 ---
@@ -365,3 +400,254 @@ export function extractTextFromHtml(html: string, maxLength: number = 200): stri
     ? text.substring(0, maxLength) + '...'
     : text;
 }
+
+/**
+ * Inline style applied to Mermaid diagram blocks in the editor
+ *
+ * Kept in one place so diagrams inserted from the generator and diagrams
+ * restored from Markdown look identical.
+ */
+const MERMAID_BLOCK_STYLE =
+  'background-color: #18181b; padding: 16px; border-radius: 8px; border: 1px solid #3f3f46; margin: 16px 0;';
+
+/**
+ * Escape text for safe inclusion inside HTML element content or a
+ * double-quoted attribute
+ *
+ * @param {string} text - Raw text
+ * @returns {string} Text with &, <, > and " escaped
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build the editor HTML for a Mermaid diagram block
+ *
+ * The diagram source is stored as the text content of a non-editable
+ * `pre.mermaid-diagram` element, which is what the `mermaid` Turndown
+ * rule converts back into a ```mermaid fence.
+ *
+ * @param {string} code - Mermaid diagram source
+ * @returns {string} HTML for the diagram block
+ *
+ * @example
+ * ```typescript
+ * mermaidBlockHtml('graph TD\nA-->B')
+ * // Returns: '<pre class="mermaid-diagram" contenteditable="false" ...>graph TD\nA--&gt;B</pre>'
+ * ```
+ */
+export function mermaidBlockHtml(code: string): string {
+  return `<pre class="mermaid-diagram" contenteditable="false" style="${MERMAID_BLOCK_STYLE}">${escapeHtml(code)}</pre>`;
+}
+
+/**
+ * Elements and attributes kept when sanitizing rendered Markdown
+ *
+ * GitHub's rules plus `<u>`: scripts, event handlers and unsafe URLs are
+ * dropped.
+ */
+const MARKDOWN_SANITIZE_SCHEMA: SanitizeSchema = {
+  ...defaultSchema,
+  tagNames: [...(defaultSchema.tagNames || []), 'u'],
+};
+
+/**
+ * Elements and attributes kept when sanitizing stored note HTML
+ *
+ * Adds what the editor writes itself: inline styles, attachment IDs on
+ * images and download links, and Mermaid diagram blocks.
+ */
+const NOTE_HTML_SANITIZE_SCHEMA: SanitizeSchema = {
+  ...MARKDOWN_SANITIZE_SCHEMA,
+  attributes: {
+    ...MARKDOWN_SANITIZE_SCHEMA.attributes,
+    '*': [...(MARKDOWN_SANITIZE_SCHEMA.attributes?.['*'] || []), 'style'],
+    a: [...(MARKDOWN_SANITIZE_SCHEMA.attributes?.a || []), 'dataAttachmentId', 'download'],
+    img: [...(MARKDOWN_SANITIZE_SCHEMA.attributes?.img || []), 'dataAttachmentId'],
+    pre: [...(MARKDOWN_SANITIZE_SCHEMA.attributes?.pre || []), ['className', 'mermaid-diagram'], 'contentEditable'],
+  },
+};
+
+/**
+ * Markdown to HTML pipeline
+ *
+ * Raw HTML in the Markdown, such as the `<u>` written by the underline
+ * rule or inline HTML in Obsidian notes, is parsed rather than escaped,
+ * then sanitized.
+ */
+const markdownProcessor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkRehype, { allowDangerousHtml: true })
+  .use(rehypeRaw)
+  .use(rehypeSanitize, MARKDOWN_SANITIZE_SCHEMA)
+  .use(rehypeStringify);
+
+/**
+ * Note HTML sanitizing pipeline
+ */
+const noteHtmlProcessor = unified()
+  .use(rehypeParse, { fragment: true })
+  .use(rehypeSanitize, NOTE_HTML_SANITIZE_SCHEMA)
+  .use(rehypeStringify);
+
+/**
+ * Sanitize note HTML from an untrusted source
+ *
+ * For HTML that is restored as is rather than converted from Markdown,
+ * such as the content stored in an export archive. Keeps the structures
+ * the editor writes and drops scripts, event handlers and unsafe URLs.
+ *
+ * @param {string} html - Note HTML
+ * @returns {string} Sanitized HTML
+ *
+ * @example
+ * ```typescript
+ * sanitizeNoteHtml('<p>Hi</p><img src="x" onerror="alert(1)">')
+ * // Returns: '<p>Hi</p><img src="x">'
+ * ```
+ */
+export function sanitizeNoteHtml(html: string): string {
+  return String(noteHtmlProcessor.processSync(html));
+}
+
+/**
+ * Convert Markdown text to editor HTML
+ *
+ * The inverse of {@link htmlToMarkdown}. Renders GitHub Flavored Markdown,
+ * including inline HTML, and then restores the editor-specific structures
+ * that Turndown flattened on export.
+ *
+ * @param {string} markdown - Markdown text (without frontmatter)
+ * @returns {string} HTML suitable for `Note.content`
+ *
+ * Post-processing:
+ * - ```mermaid fences become `pre.mermaid-diagram` blocks
+ * - Images and links pointing at `attachments/…` get their attachment ID back
+ *
+ * Error handling:
+ * - Returns the Markdown wrapped in a paragraph if rendering fails
+ * - Never throws, so a malformed remote file cannot abort a sync
+ *
+ * @example
+ * ```typescript
+ * markdownToHtml('# Title\n\nThis is **bold** text.')
+ * // Returns: '<h1>Title</h1>\n<p>This is <strong>bold</strong> text.</p>'
+ * ```
+ */
+export function markdownToHtml(markdown: string): string {
+  try {
+    const html = String(markdownProcessor.processSync(markdown));
+
+    const container = document.createElement('div');
+    container.innerHTML = html;
+
+    // Restore Mermaid diagrams exported by the 'mermaid' Turndown rule
+    container.querySelectorAll('pre > code.language-mermaid').forEach(code => {
+      const pre = code.parentElement!;
+      const source = (code.textContent || '').replace(/\n$/, '');
+      pre.outerHTML = mermaidBlockHtml(source);
+    });
+
+    tagAttachmentElements(container);
+
+    return container.innerHTML;
+  } catch (error) {
+    console.error('Error converting Markdown to HTML:', error);
+    return `<p>${escapeHtml(markdown)}</p>`;
+  }
+}
+
+/**
+ * Parsed frontmatter metadata
+ * @interface Frontmatter
+ */
+export interface Frontmatter {
+  /** Note title */
+  title?: string;
+  /** Note date as written in the file */
+  date?: string;
+  /** Note tags */
+  tags: string[];
+  /** Any other scalar fields, keyed by name */
+  [key: string]: string | string[] | undefined;
+}
+
+/**
+ * Split a Markdown file into its YAML frontmatter and body
+ *
+ * Understands the subset of YAML that {@link generateFrontmatter} emits,
+ * `key: value` scalars and `[a, b]` inline lists, plus the `- item` block
+ * lists Obsidian writes. Files without a frontmatter block are returned
+ * unchanged with empty metadata.
+ *
+ * @param {string} text - Full Markdown file content
+ * @returns {{ frontmatter: Frontmatter; body: string }} Parsed metadata and remaining Markdown
+ *
+ * @example
+ * ```typescript
+ * parseFrontmatter('---\ntitle: My Note\ntags: [a, b]\n---\n\n# Hello')
+ * // Returns: { frontmatter: { title: 'My Note', tags: ['a', 'b'] }, body: '# Hello' }
+ * ```
+ */
+export function parseFrontmatter(text: string): { frontmatter: Frontmatter; body: string } {
+  const frontmatter: Frontmatter = { tags: [] };
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+
+  if (!match) {
+    return { frontmatter, body: text };
+  }
+
+  // Key whose value is empty, so `- item` lines below it form a list
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      const current = frontmatter[listKey];
+      frontmatter[listKey] = [...(Array.isArray(current) ? current : []), unquote(item[1].trim())];
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim();
+    const rawValue = line.slice(separator + 1).trim();
+    if (!key) continue;
+    listKey = rawValue ? null : key;
+
+    if (rawValue.startsWith('[') && rawValue.endsWith(']')) {
+      frontmatter[key] = rawValue
+        .slice(1, -1)
+        .split(',')
+        .map(item => unquote(item.trim()))
+        .filter(item => item.length > 0);
+    } else {
+      frontmatter[key] = unquote(rawValue);
+    }
+  }
+
+  return {
+    frontmatter,
+    body: text.slice(match[0].length).replace(/^\s*\n/, ''),
+  };
+}
+
+/**
+ * Remove matching single or double quotes around a YAML scalar
+ *
+ * @param {string} value - Raw scalar value
+ * @returns {string} Unquoted value
+ */
+function unquote(value: string): string {
+  if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
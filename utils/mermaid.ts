@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Mermaid Rendering
+ *
+ * Single place where Mermaid is configured, shared by the diagram
+ * generator, exports and anything else that turns diagram code into SVG.
+ *
+ * Notes store each diagram as its source in a `pre.mermaid-diagram` block.
+ * The editor shows a rendered figure around that block instead:
+ *
+ * ```html
+ * <div class="mermaid-figure" contenteditable="false">
+ *   <pre class="mermaid-diagram" hidden>flowchart TD ...</pre>
+ *   <div class="mermaid-svg"><svg>...</svg></div>
+ * </div>
+ * ```
+ *
+ * {@link renderDiagramBlocks} builds the figures and
+ * {@link restoreDiagramBlocks} strips them again when serialising, so the
+ * source stays the only stored form.
+ *
+ * @module utils/mermaid
+ */
+
+import mermaid from 'mermaid';
+
+// Initialize Mermaid with dark theme configuration
+// This runs once when the module is loaded
+mermaid.initialize({
+  startOnLoad: true,
+  theme: 'dark',
+  themeVariables: {
+    primaryColor: '#3b82f6',
+    primaryTextColor: '#fff',
+    primaryBorderColor: '#1e40af',
+    lineColor: '#60a5fa',
+    secondaryColor: '#6366f1',
+    tertiaryColor: '#8b5cf6',
+    background: '#18181b',
+    mainBkg: '#27272a',
+    secondBkg: '#3f3f46',
+    textColor: '#e4e4e7',
+    fontSize: '14px',
+  }
+});
+
+/**
+ * Counter for unique render IDs
+ */
+let renderCount = 0;
+
+/**
+ * Render Mermaid code to an SVG string
+ *
+ * @async
+ * @param {string} code - Mermaid diagram code
+ * @returns {Promise<string>} SVG markup
+ * @throws {Error} If the code has syntax errors
+ *
+ * @example
+ * ```typescript
+ * const svg = await renderMermaid('graph TD\n  A --> B');
+ * ```
+ */
+export async function renderMermaid(code: string): Promise<string> {
+  const id = `mermaid-${Date.now()}-${renderCount++}`; // Unique ID to prevent conflicts
+  const { svg } = await mermaid.render(id, code);
+  return svg;
+}
+
+/**
+ * Check Mermaid code for syntax errors without rendering it
+ *
+ * @async
+ * @param {string} code - Mermaid diagram code
+ * @returns {Promise<string | null>} The parse error message, or null if the code is valid
+ *
+ * @example
+ * ```typescript
+ * const error = await validateMermaid('flowchart TD\n  A --> ');
+ * ```
+ */
+export async function validateMermaid(code: string): Promise<string | null> {
+  try {
+    await mermaid.parse(code);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Class of the figure wrapping a diagram block in the editor
+ */
+export const DIAGRAM_FIGURE_CLASS = 'mermaid-figure';
+
+/**
+ * Class of the element holding the rendered SVG inside a figure
+ */
+const DIAGRAM_SVG_CLASS = 'mermaid-svg';
+
+/**
+ * Selector for stored diagram blocks
+ */
+const DIAGRAM_BLOCK_SELECTOR = 'pre.mermaid-diagram';
+
+/**
+ * Render every diagram block under a root in place
+ *
+ * Blocks not yet wrapped get a figure; figures whose source changed since
+ * they were last rendered are re-rendered. Failed renders show the error
+ * in the figure, with the source kept intact.
+ *
+ * @async
+ * @param {ParentNode} root - Editor content, rewritten in place
+ * @returns {Promise<void>}
+ */
+export async function renderDiagramBlocks(root: ParentNode): Promise<void> {
+  for (const block of Array.from(root.querySelectorAll<HTMLElement>(DIAGRAM_BLOCK_SELECTOR))) {
+    let figure = block.parentElement;
+    if (!figure?.classList.contains(DIAGRAM_FIGURE_CLASS)) {
+      figure = document.createElement('div');
+      figure.className = `${DIAGRAM_FIGURE_CLASS} my-4 p-4 rounded-lg border border-zinc-700 bg-zinc-900 cursor-pointer hover:border-blue-500 transition-colors`;
+      figure.contentEditable = 'false';
+      figure.title = 'Click to edit diagram';
+      block.replaceWith(figure);
+      block.hidden = true;
+      const output = document.createElement('div');
+      output.className = DIAGRAM_SVG_CLASS;
+      figure.append(block, output);
+    }
+
+    const code = block.textContent || '';
+    if (figure.dataset.source === code) continue;
+    figure.dataset.source = code;
+
+    const output = figure.querySelector<HTMLElement>(`.${DIAGRAM_SVG_CLASS}`)!;
+    try {
+      const svg = await renderMermaid(code);
+      // The block may have been edited again while rendering
+      if (figure.dataset.source !== code) continue;
+      output.className = `${DIAGRAM_SVG_CLASS} flex justify-center overflow-x-auto`;
+      output.innerHTML = svg;
+    } catch (error) {
+      if (figure.dataset.source !== code) continue;
+      output.textContent = `Diagram error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      output.className = `${DIAGRAM_SVG_CLASS} text-sm text-red-400 whitespace-pre-wrap`;
+    }
+  }
+}
+
+/**
+ * Replace rendered figures with their diagram blocks
+ *
+ * Used when serialising editor HTML. Figures whose block was removed are
+ * dropped entirely.
+ *
+ * @param {ParentNode} root - Element or fragment to rewrite in place
+ * @returns {void}
+ */
+export function restoreDiagramBlocks(root: ParentNode): void {
+  root.querySelectorAll(`.${DIAGRAM_FIGURE_CLASS}`).forEach(figure => {
+    const block = figure.querySelector<HTMLElement>(DIAGRAM_BLOCK_SELECTOR);
+    if (block) {
+      block.removeAttribute('hidden');
+      figure.replaceWith(block);
+    } else {
+      figure.remove();
+    }
+  });
+}
+
+export default mermaid;
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Note Timestamp Utilities
+ *
+ * Notes carry ISO 8601 `createdAt` and `updatedAt` timestamps. Older
+ * notes stored a display string such as "May 15" or "Dec 28, 2024" in a
+ * `date` field; {@link migrateNoteDates} converts those on load.
+ *
+ * @module utils/noteDates
+ */
+
+import { Note } from '../types';
+
+/**
+ * Note as stored before timestamps were introduced
+ */
+export type LegacyNote = Omit<Note, 'createdAt'> & {
+  createdAt?: string;
+  /** Display date such as "May 15", replaced by `createdAt` */
+  date?: string;
+};
+
+/**
+ * Orders available when listing notes
+ */
+export type NoteSortOrder = 'updated' | 'created' | 'title';
+
+/**
+ * Parse a date written by the app or found in frontmatter
+ *
+ * Accepts ISO 8601 timestamps and the legacy display format. Legacy
+ * strings without a year ("May 15") are placed in the most recent year
+ * that does not put them in the future.
+ *
+ * @param {string | undefined} value - Date string
+ * @param {Date} [now=new Date()] - Reference time for dates without a year
+ * @returns {string | null} ISO timestamp, or null if the value can't be parsed
+ *
+ * @example
+ * ```typescript
+ * parseNoteDate('2024-01-15T10:00:00.000Z') // '2024-01-15T10:00:00.000Z'
+ * parseNoteDate('Dec 28, 2024')             // '2024-12-28T...'
+ * parseNoteDate('May 15')                   // May 15 of this year, or last year if still ahead
+ * ```
+ */
+export function parseNoteDate(value: string | undefined, now: Date = new Date()): string | null {
+  const text = value?.trim();
+  if (!text) return null;
+
+  if (/\b\d{4}\b/.test(text)) {
+    const time = Date.parse(text);
+    return isNaN(time) ? null : new Date(time).toISOString();
+  }
+
+  // Legacy "May 15": only accept that shape, as Date parsing is lenient
+  if (!/^[a-z]{3,}\.? \d{1,2}$/i.test(text)) return null;
+
+  const date = new Date(`${text}, ${now.getFullYear()}`);
+  if (isNaN(date.getTime())) return null;
+  if (date > now) {
+    date.setFullYear(date.getFullYear() - 1);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Format a timestamp for note lists
+ *
+ * @param {string} iso - ISO timestamp
+ * @param {Date} [now=new Date()] - Reference time; the year is omitted for the current year
+ * @returns {string} Date such as "May 15" or "Dec 28, 2024"
+ */
+export function formatNoteDate(iso: string, now: Date = new Date()): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+
+  return date.toLocaleDateString('en-US', {
+    day: 'numeric',
+    month: 'short',
+    ...(date.getFullYear() !== now.getFullYear() ? { year: 'numeric' } : {}),
+  });
+}
+
+/**
+ * Bring a stored note up to the timestamped format
+ *
+ * `createdAt` comes from the legacy `date` string, falling back to
+ * `updatedAt` and then to the current time. `updatedAt` is left as is:
+ * its absence marks notes never edited since edit tracking began, which
+ * the Drive pull relies on.
+ *
+ * @param {LegacyNote} note - Stored note
+ * @returns {Note} The same object if already migrated, otherwise a migrated copy
+ */
+export function migrateNoteDates(note: LegacyNote): Note {
+  if (note.createdAt && note.date === undefined) {
+    return note as Note;
+  }
+
+  const { date, ...rest } = note;
+  return {
+    ...rest,
+    createdAt: note.createdAt || parseNoteDate(date) || note.updatedAt || new Date().toISOString(),
+  };
+}
+
+/**
+ * Time a note was last changed, for display and sorting
+ *
+ * @param {Note} note - Note
+ * @returns {string} `updatedAt`, or `createdAt` for notes never edited
+ */
+export function lastModified(note: Note): string {
+  return note.updatedAt || note.createdAt;
+}
+
+/**
+ * Sort notes for display
+ *
+ * @param {Note[]} notes - Notes to sort (not modified)
+ * @param {NoteSortOrder} order - Newest first for dates, A–Z for titles
+ * @returns {Note[]} Sorted copy
+ */
+export function sortNotes(notes: Note[], order: NoteSortOrder): Note[] {
+  const sorted = [...notes];
+  switch (order) {
+    case 'updated':
+      return sorted.sort((a, b) => Date.parse(lastModified(b)) - Date.parse(lastModified(a)));
+    case 'created':
+      return sorted.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+    case 'title':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true }));
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview AI Model Prices
+ *
+ * List prices of the hosted models, used to estimate what each AI request
+ * cost for the usage ledger (see {@link module:services/usageService}).
+ * Estimates only: providers bill cached input, batch requests and long
+ * prompts differently, and change prices over time.
+ *
+ * @module utils/pricing
+ */
+
+/**
+ * Price of a model in USD per million tokens
+ * @interface ModelPrice
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices by provider and model ID prefix; the longest matching prefix wins,
+ * so dated snapshots (e.g. 'gpt-4o-2024-08-06') use their model's price
+ */
+const MODEL_PRICES: Record<string, Record<string, ModelPrice>> = {
+  openai: {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'o1': { input: 15, output: 60 },
+    'o1-mini': { input: 1.1, output: 4.4 },
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+  },
+  anthropic: {
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-haiku-4': { input: 1, output: 5 },
+  },
+  gemini: {
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'text-embedding-004': { input: 0, output: 0 },
+  },
+  // Self-hosted servers cost nothing per token
+  local: {
+    '': { input: 0, output: 0 },
+  },
+};
+
+/**
+ * Find the price of a model
+ *
+ * @param {string} provider - Provider ID
+ * @param {string} model - Model ID
+ * @returns {ModelPrice | null} Price, or null if the model is not in the table
+ */
+export function modelPrice(provider: string, model: string): ModelPrice | null {
+  const prices = MODEL_PRICES[provider];
+  if (!prices) return null;
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? null : prices[prefix];
+}
+
+/**
+ * Estimate the cost of a request
+ *
+ * @param {string} provider - Provider ID
+ * @param {string} model - Model ID
+ * @param {number} promptTokens - Input tokens
+ * @param {number} completionTokens - Output tokens
+ * @returns {number | null} Cost in USD, or null if the model has no known price
+ *
+ * @example
+ * ```typescript
+ * estimateCost('openai', 'gpt-4o-mini', 12000, 800); // 0.00228
+ * ```
+ */
+export function estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number | null {
+  const price = modelPrice(provider, model);
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Format a cost for display
+ *
+ * @param {number} usd - Cost in USD
+ * @returns {string} Cost with enough decimals for small amounts
+ */
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+}
@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Multiple-Choice Question Parser
+ *
+ * Finds exam-style questions in note HTML. Notes written from question
+ * banks follow this layout:
+ *
+ * ```html
+ * <h1>Insuficiência Cardíaca</h1>
+ * <p>…assinale o fármaco que possui efeito benéfico…</p>   ← stem
+ * <p>A. Atenolol</p>                                       ← options
+ * <p>B. Digoxina</p>
+ * <p><strong>D. Dapagliflozina Correta</strong></p>        ← bold = correct
+ * <h3>Comentário</h3>                                      ← explanation
+ * <p>O tripé do tratamento…</p>
+ * ```
+ *
+ * Options may also be list items, use `A)` or `(A)`, and the correct one
+ * may be marked with a "Gabarito: D" line or a separate trailing marker
+ * such as "(Correta)", "– Correta", "✓" or a bold "Correta" instead of
+ * bold. An answer key line wins over bold, and bold wins over a marker.
+ * The explanation runs until the next heading, horizontal rule or
+ * numbered question.
+ *
+ * Also aggregates quiz attempts into per-notebook accuracy.
+ *
+ * @module utils/quiz
+ */
+
+import { Node, QuizAttempt } from '../types';
+
+/**
+ * One answer option
+ * @interface QuizOption
+ */
+export interface QuizOption {
+  /** Upper-case letter, e.g. 'A' */
+  letter: string;
+  /** Option text without the letter or correct-answer marker */
+  text: string;
+}
+
+/**
+ * A multiple-choice question found in a note
+ * @interface QuizQuestion
+ */
+export interface QuizQuestion {
+  /** Stable ID from the note ID and the stem text, so stats survive edits elsewhere in the note */
+  id: string;
+  noteId: string;
+  /** Stem HTML, may contain images */
+  stem: string;
+  options: QuizOption[];
+  /** Letter of the correct option, or null when the note does not mark it */
+  answer: string | null;
+  /** Explanation HTML, empty if the note has none */
+  comment: string;
+  /** Whether the question was parsed from the note or structured by AI */
+  source: 'parsed' | 'ai';
+}
+
+/**
+ * Accuracy of the attempts on one notebook's questions
+ * @interface NotebookAccuracy
+ */
+export interface NotebookAccuracy {
+  notebook: Node;
+  /** Area / Stack / Notebook names */
+  path: string;
+  attempts: number;
+  correct: number;
+  /** Share of correct answers, 0 to 1 */
+  accuracy: number;
+}
+
+/**
+ * Option line: `A. text`, `A) text`, `(A) text`, `A - text`
+ */
+const OPTION_PATTERN = /^\(?([A-Ea-e])\s*[.)\-–:]\s*(.+)$/s;
+
+/**
+ * Trailing marker of the correct option: `(Correta)`, `– Correta` or `✓`
+ *
+ * The word alone is not a marker, so options such as "Nenhuma das
+ * alternativas está correta" are left alone.
+ */
+const CORRECT_MARKER_PATTERN = /(?:\s*\(\s*(?:correta|correto|certa|gabarito|correct)\s*\)|\s+[-–—]\s*(?:correta|correto|certa|gabarito|correct)|\s*[✓✔])(?:\s*[✓✔])?\s*$/i;
+
+/**
+ * Marker word set in bold on its own, e.g. `<strong>Correta</strong>`
+ */
+const BOLD_MARKER_PATTERN = /^(correta|correto|certa|gabarito|correct)\s*[✓✔]?$/i;
+
+/**
+ * Capitalized marker word ending a bold or bold-marked option, removed from its text
+ */
+const MARKER_WORD_PATTERN = /\s+(Correta|Correto|Certa|Gabarito|Correct|CORRETA|CORRETO|CERTA|GABARITO|CORRECT)\s*$/;
+
+/**
+ * Answer key line after the options, e.g. `Gabarito: D`
+ */
+const ANSWER_KEY_PATTERN = /^(gabarito|resposta(?: correta)?|answer)\s*:?\s*\(?([A-E])\b/i;
+
+/**
+ * Explanation headers
+ */
+const COMMENT_PATTERN = /^(coment[aá]rios?|explica[cç][aã]o|resolu[cç][aã]o|justificativa|comments?|explanation)\b\s*:?\s*/i;
+
+/**
+ * Start of a numbered question, which ends the previous explanation
+ */
+const QUESTION_START_PATTERN = /^(quest[aã]o|question|q\.?)\s*\d+|^\d+\s*[.)]\s/i;
+
+const HEADING_TAGS = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+
+/**
+ * Hash a string to a short base-36 ID
+ *
+ * @param {string} text - Text to hash
+ * @returns {string} Hash
+ */
+function hashText(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Create a question ID
+ *
+ * @param {string} noteId - Note ID
+ * @param {string} stem - Stem HTML
+ * @returns {string} ID such as 'heart-failure:1x2y3z'
+ */
+export function questionId(noteId: string, stem: string): string {
+  return `${noteId}:${hashText(stem.replace(/<[^>]*>/g, '').trim())}`;
+}
+
+/**
+ * Flatten note HTML into block elements, expanding lists into their items
+ *
+ * @param {Element} root - Parsed note content
+ * @returns {Element[]} Blocks in document order
+ */
+function blocksOf(root: Element): Element[] {
+  return Array.from(root.children).flatMap(element =>
+    element.tagName === 'UL' || element.tagName === 'OL' ? Array.from(element.children) : [element]
+  );
+}
+
+/**
+ * Check whether a block's text is all bold
+ *
+ * @param {Element} block - Option block
+ * @returns {boolean} True if the bold text covers the whole block
+ */
+function isBold(block: Element): boolean {
+  const text = (block.textContent || '').trim();
+  const bold = Array.from(block.querySelectorAll('strong, b')).map(el => el.textContent || '').join('').trim();
+  return text.length > 0 && bold.length >= text.length;
+}
+
+/**
+ * Check whether a block ends with a marker word set in bold on its own
+ *
+ * @param {Element} block - Option block
+ * @returns {boolean} True for blocks such as `<p>D. Dapagliflozina <b>Correta</b></p>`
+ */
+function hasBoldMarker(block: Element): boolean {
+  const bold = Array.from(block.querySelectorAll('strong, b')).pop();
+  const marker = (bold?.textContent || '').trim();
+  return BOLD_MARKER_PATTERN.test(marker) && (block.textContent || '').trim().endsWith(marker);
+}
+
+/**
+ * Find the multiple-choice questions in note HTML
+ *
+ * @param {string} noteId - Note ID, used for question IDs
+ * @param {string} html - Note content
+ * @returns {QuizQuestion[]} Questions with at least two options, in document order
+ *
+ * @example
+ * ```typescript
+ * const questions = parseQuiz(note.id, note.content);
+ * questions[0].answer; // 'D'
+ * ```
+ */
+export function parseQuiz(noteId: string, html: string): QuizQuestion[] {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+
+  const questions: QuizQuestion[] = [];
+  let stem: Element[] = [];
+  let current: {
+    stem: Element[];
+    options: QuizOption[];
+    keyAnswer: string | null; // From a "Gabarito: D" line
+    boldAnswer: string | null; // From an all-bold option
+    markedAnswer: string | null; // From a trailing marker
+    comment: Element[];
+  } | null = null;
+  let state: 'stem' | 'options' | 'comment' = 'stem';
+
+  const finish = () => {
+    if (current && current.options.length >= 2 && current.stem.length > 0) {
+      const stemHtml = current.stem.map(el => el.outerHTML).join('');
+      questions.push({
+        id: questionId(noteId, stemHtml),
+        noteId,
+        stem: stemHtml,
+        options: current.options,
+        answer: current.keyAnswer ?? current.boldAnswer ?? current.markedAnswer,
+        comment: current.comment.map(el => el.outerHTML).join(''),
+        source: 'parsed',
+      });
+    }
+    current = null;
+  };
+
+  for (const block of blocksOf(root)) {
+    const text = (block.textContent || '').trim();
+    const isHeading = HEADING_TAGS.has(block.tagName);
+    const option = !isHeading ? OPTION_PATTERN.exec(text) : null;
+
+    if (option && state !== 'comment' && (state === 'options' || stem.length > 0)) {
+      // First option: the collected blocks are the stem
+      if (state === 'stem') {
+        current = { stem, options: [], keyAnswer: null, boldAnswer: null, markedAnswer: null, comment: [] };
+        stem = [];
+        state = 'options';
+      }
+      const letter = option[1].toUpperCase();
+      const bold = isBold(block);
+      const boldMarker = hasBoldMarker(block);
+      let optionText = option[2].replace(CORRECT_MARKER_PATTERN, '');
+      if (bold || boldMarker) optionText = optionText.replace(MARKER_WORD_PATTERN, '');
+      current!.options.push({ letter, text: optionText.trim() });
+      if (bold) current!.boldAnswer = letter;
+      else if (boldMarker || CORRECT_MARKER_PATTERN.test(option[2])) current!.markedAnswer = letter;
+      continue;
+    }
+
+    const answerKey = state === 'options' ? ANSWER_KEY_PATTERN.exec(text) : null;
+    if (answerKey) {
+      current!.keyAnswer = answerKey[2].toUpperCase();
+      continue;
+    }
+
+    if (COMMENT_PATTERN.test(text) && state === 'options') {
+      state = 'comment';
+      // "Comentário: text" in one paragraph is part of the explanation
+      if (!isHeading && text.replace(COMMENT_PATTERN, '')) current!.comment.push(block);
+      continue;
+    }
+
+    if (isHeading || block.tagName === 'HR' || QUESTION_START_PATTERN.test(text)) {
+      finish();
+      state = 'stem';
+      stem = isHeading || block.tagName === 'HR' ? [] : [block];
+      continue;
+    }
+
+    if (state === 'comment') {
+      // Explanations often discuss each option as "A) ...", so options here stay in the comment
+      current!.comment.push(block);
+      continue;
+    }
+
+    if (state === 'options') {
+      // Text between the options and an explanation belongs to neither; start over
+      finish();
+      state = 'stem';
+      stem = [];
+    }
+    if (text || block.querySelector('img')) stem.push(block);
+  }
+
+  if (state === 'comment' || state === 'options') finish();
+  return questions;
+}
+
+/**
+ * Compute accuracy per notebook, weakest first
+ *
+ * Attempts on notes that are no longer in any notebook are ignored.
+ *
+ * @param {QuizAttempt[]} attempts - Recorded attempts
+ * @param {Node[]} areas - Area hierarchy
+ * @returns {NotebookAccuracy[]} Notebooks with at least one attempt
+ */
+export function accuracyByNotebook(attempts: QuizAttempt[], areas: Node[]): NotebookAccuracy[] {
+  const notebookOf = new Map<string, { notebook: Node; path: string }>();
+  const walk = (nodes: Node[], names: string[]) => {
+    nodes.forEach(node => {
+      const path = [...names, node.name];
+      if (node.type === 'notebook') {
+        (node.noteIds || []).forEach(id => notebookOf.set(id, { notebook: node, path: path.join(' / ') }));
+      }
+      walk(node.children || [], path);
+    });
+  };
+  walk(areas, []);
+
+  const stats = new Map<string, NotebookAccuracy>();
+  for (const attempt of attempts) {
+    const location = notebookOf.get(attempt.noteId);
+    if (!location) continue;
+    const entry = stats.get(location.notebook.id) || { ...location, attempts: 0, correct: 0, accuracy: 0 };
+    entry.attempts++;
+    if (attempt.correct) entry.correct++;
+    entry.accuracy = entry.correct / entry.attempts;
+    stats.set(location.notebook.id, entry);
+  }
+
+  return Array.from(stats.values()).sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts);
+}
@@ -0,0 +1,440 @@
+/**
+ * @fileoverview Full-Text Search Index
+ *
+ * In-memory inverted index over note titles, plain text and notebook
+ * paths. Matching ignores case and accents, so "insuficiência" and
+ * "insuficiencia" find the same notes.
+ *
+ * Features:
+ * - Incremental updates: only notes whose content or path changed are re-indexed
+ * - Prefix matching for every word ("cardi" finds "cardíaca")
+ * - Phrase queries in double quotes ("fração de ejeção")
+ * - Ranking by field (title > path > body), term frequency and rarity
+ * - Snippets with highlight ranges around the first body match
+ *
+ * @module utils/search
+ */
+
+import { Note, Node } from '../types';
+
+/**
+ * A searchable field of a note, with its ranking weight
+ */
+type Field = 'title' | 'path' | 'body';
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  title: 5,
+  path: 2,
+  body: 1,
+};
+
+/**
+ * Score multiplier for words matched only by prefix
+ */
+const PREFIX_MATCH_FACTOR = 0.6;
+
+/**
+ * Characters of context shown around a match in snippets
+ */
+const SNIPPET_CONTEXT_BEFORE = 50;
+const SNIPPET_CONTEXT_AFTER = 110;
+
+/**
+ * Elements whose text is kept apart from the text around them
+ */
+const BLOCK_SELECTOR = 'p, div, li, h1, h2, h3, h4, h5, h6, td, th, blockquote, pre';
+
+/**
+ * A word found in a text, with its location in the original string
+ */
+interface Token {
+  /** Normalized form used for matching */
+  term: string;
+  /** Start offset in the original text */
+  start: number;
+  /** End offset (exclusive) in the original text */
+  end: number;
+}
+
+/**
+ * Indexed form of one note
+ */
+interface IndexedDocument {
+  note: Note;
+  path: string;
+  texts: Record<Field, string>;
+  tokens: Record<Field, Token[]>;
+}
+
+/**
+ * A parsed search query
+ * @interface ParsedQuery
+ */
+export interface ParsedQuery {
+  /** Single words, matched by prefix */
+  words: string[];
+  /** Quoted phrases, each a list of words that must appear consecutively */
+  phrases: string[][];
+}
+
+/**
+ * A search hit
+ * @interface SearchResult
+ */
+export interface SearchResult {
+  note: Note;
+  /** Notebook path, e.g. "Medicine / Anatomy / Basic Anatomy" */
+  path: string;
+  score: number;
+  /** Excerpt of the note text around the first match */
+  snippet: string;
+  /** [start, end) ranges of matched words within `snippet` */
+  highlights: Array<[number, number]>;
+  /** Original text of the first body match, for locating it in the editor */
+  matchText: string | null;
+}
+
+/**
+ * Normalize text for matching: lowercase without diacritics
+ *
+ * @param {string} text - Text to normalize
+ * @returns {string} Normalized text
+ *
+ * @example
+ * ```typescript
+ * normalizeText('Insuficiência Cardíaca') // 'insuficiencia cardiaca'
+ * ```
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Extract the plain text of note HTML with line breaks between blocks
+ *
+ * `textContent` alone runs adjacent paragraphs and list items together,
+ * so "Atenolol</p><p>Digoxina" would index as one word.
+ *
+ * @param {string} html - Note content
+ * @returns {string} Plain text
+ */
+function extractBodyText(html: string): string {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  container.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  container.querySelectorAll(BLOCK_SELECTOR).forEach(block => block.append('\n'));
+  return container.textContent || '';
+}
+
+/**
+ * Split text into normalized words with their original offsets
+ *
+ * @param {string} text - Text to tokenize
+ * @returns {Token[]} Words in order
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    tokens.push({
+      term: normalizeText(match[0]),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Parse a query into prefix words and quoted phrases
+ *
+ * @param {string} query - Raw query
+ * @returns {ParsedQuery} Words and phrases, normalized
+ *
+ * @example
+ * ```typescript
+ * parseQuery('"fração de ejeção" beta')
+ * // { words: ['beta'], phrases: [['fracao', 'de', 'ejecao']] }
+ * ```
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const terms = tokenize(phrase).map(token => token.term);
+    if (terms.length > 0) phrases.push(terms);
+    return ' ';
+  });
+
+  return { words: tokenize(rest).map(token => token.term), phrases };
+}
+
+/**
+ * Map every note to the path of the notebook containing it
+ *
+ * @param {Node[]} nodes - Area tree
+ * @param {string[]} [parents=[]] - Names of the enclosing nodes
+ * @returns {Map<string, string>} Note ID → path such as "Medicine / Anatomy / Basic Anatomy"
+ */
+export function buildNotePaths(nodes: Node[], parents: string[] = []): Map<string, string> {
+  const paths = new Map<string, string>();
+  for (const node of nodes) {
+    const names = [...parents, node.name];
+    node.noteIds?.forEach(noteId => paths.set(noteId, names.join(' / ')));
+    if (node.children) {
+      buildNotePaths(node.children, names).forEach((path, noteId) => paths.set(noteId, path));
+    }
+  }
+  return paths;
+}
+
+/**
+ * SearchIndex Class
+ *
+ * Inverted index from normalized terms to the notes and fields that
+ * contain them.
+ *
+ * @class SearchIndex
+ *
+ * @example
+ * ```typescript
+ * const index = new SearchIndex();
+ * const paths = buildNotePaths(areas);
+ * index.update(notes, noteId => paths.get(noteId) || '');
+ * const results = index.search('insuficiencia');
+ * ```
+ */
+export class SearchIndex {
+  /** Indexed notes by ID */
+  private documents: Map<string, IndexedDocument> = new Map();
+
+  /** Term → note IDs containing it */
+  private postings: Map<string, Set<string>> = new Map();
+
+  /** All indexed terms, sorted, for prefix lookups; rebuilt lazily */
+  private sortedTerms: string[] | null = null;
+
+  /**
+   * Bring the index up to date with the given notes
+   *
+   * Notes are re-indexed only when their object or path changed; notes
+   * no longer present are removed.
+   *
+   * @param {Note[]} notes - All notes
+   * @param {(noteId: string) => string} getPath - Notebook path of a note
+   * @returns {void}
+   */
+  update(notes: Note[], getPath: (noteId: string) => string): void {
+    const current = new Set<string>();
+
+    for (const note of notes) {
+      current.add(note.id);
+      const path = getPath(note.id);
+      const existing = this.documents.get(note.id);
+      if (existing && existing.note === note && existing.path === path) continue;
+
+      if (existing) this.remove(note.id);
+      this.add(note, path);
+    }
+
+    for (const noteId of Array.from(this.documents.keys())) {
+      if (!current.has(noteId)) this.remove(noteId);
+    }
+  }
+
+  /**
+   * Search the index
+   *
+   * Every word and phrase must match (AND). Words match any indexed term
+   * they are a prefix of; exact matches rank higher.
+   *
+   * @param {string} query - Raw query
+   * @param {number} [limit=50] - Maximum number of results
+   * @returns {SearchResult[]} Results, best first
+   */
+  search(query: string, limit: number = 50): SearchResult[] {
+    const { words, phrases } = parseQuery(query);
+    if (words.length === 0 && phrases.length === 0) return [];
+
+    // Candidate notes must contain every word (by prefix) and every phrase term
+    const wordTerms = words.map(word => this.expand(word));
+    const wordIds = wordTerms.map(terms => {
+      const ids = new Set<string>();
+      terms.forEach(term => this.postings.get(term)?.forEach(id => ids.add(id)));
+      return ids;
+    });
+    const required = [
+      ...wordIds,
+      ...phrases.flat().map(term => this.postings.get(term) || new Set<string>()),
+    ];
+    const candidates = Array.from(required[0]).filter(id => required.every(ids => ids.has(id)));
+
+    const results: SearchResult[] = [];
+    for (const noteId of candidates) {
+      const doc = this.documents.get(noteId)!;
+      const phraseMatches = phrases.map(phrase => this.findPhrase(doc, phrase));
+      if (phraseMatches.some(matches => matches.length === 0)) continue;
+
+      let score = 0;
+      const bodyMatches: Token[] = [];
+
+      words.forEach((word, index) => {
+        const terms = new Set(wordTerms[index]);
+        const idf = Math.log(1 + this.documents.size / wordIds[index].size);
+        (Object.keys(FIELD_WEIGHTS) as Field[]).forEach(field => {
+          const matched = doc.tokens[field].filter(token => terms.has(token.term));
+          if (matched.length === 0) return;
+
+          const exact = matched.some(token => token.term === word);
+          score += FIELD_WEIGHTS[field] * (1 + Math.log(matched.length)) * idf * (exact ? 1 : PREFIX_MATCH_FACTOR);
+          if (field === 'body') bodyMatches.push(...matched);
+        });
+      });
+
+      phraseMatches.forEach(matches => {
+        matches.forEach(({ field, tokens }) => {
+          score += FIELD_WEIGHTS[field] * 2 * tokens.length;
+          if (field === 'body') bodyMatches.push(...tokens);
+        });
+      });
+
+      results.push({ note: doc.note, path: doc.path, score, ...this.snippet(doc, bodyMatches) });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Index a note
+   *
+   * @private
+   */
+  private add(note: Note, path: string): void {
+    const texts: Record<Field, string> = {
+      title: note.title,
+      path,
+      body: extractBodyText(note.content),
+    };
+    const tokens: Record<Field, Token[]> = {
+      title: tokenize(texts.title),
+      path: tokenize(texts.path),
+      body: tokenize(texts.body),
+    };
+
+    this.documents.set(note.id, { note, path, texts, tokens });
+    for (const field of Object.keys(tokens) as Field[]) {
+      for (const token of tokens[field]) {
+        let ids = this.postings.get(token.term);
+        if (!ids) {
+          ids = new Set();
+          this.postings.set(token.term, ids);
+          this.sortedTerms = null;
+        }
+        ids.add(note.id);
+      }
+    }
+  }
+
+  /**
+   * Remove a note from the index
+   *
+   * @private
+   */
+  private remove(noteId: string): void {
+    const doc = this.documents.get(noteId);
+    if (!doc) return;
+
+    for (const field of Object.keys(doc.tokens) as Field[]) {
+      for (const token of doc.tokens[field]) {
+        const ids = this.postings.get(token.term);
+        if (!ids) continue;
+        ids.delete(noteId);
+        if (ids.size === 0) {
+          this.postings.delete(token.term);
+          this.sortedTerms = null;
+        }
+      }
+    }
+    this.documents.delete(noteId);
+  }
+
+  /**
+   * List indexed terms starting with a prefix
+   *
+   * @private
+   */
+  private expand(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+
+    // Binary search for the first term >= prefix
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.sortedTerms[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const terms: string[] = [];
+    for (let i = low; i < this.sortedTerms.length && this.sortedTerms[i].startsWith(prefix); i++) {
+      terms.push(this.sortedTerms[i]);
+    }
+    return terms;
+  }
+
+  /**
+   * Find consecutive occurrences of a phrase in each field of a document
+   *
+   * @private
+   */
+  private findPhrase(doc: IndexedDocument, phrase: string[]): Array<{ field: Field; tokens: Token[] }> {
+    const matches: Array<{ field: Field; tokens: Token[] }> = [];
+
+    for (const field of Object.keys(doc.tokens) as Field[]) {
+      const tokens = doc.tokens[field];
+      for (let i = 0; i + phrase.length <= tokens.length; i++) {
+        if (phrase.every((term, offset) => tokens[i + offset].term === term)) {
+          matches.push({ field, tokens: tokens.slice(i, i + phrase.length) });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Build a snippet around the first body match
+   *
+   * @private
+   */
+  private snippet(
+    doc: IndexedDocument,
+    matches: Token[]
+  ): Pick<SearchResult, 'snippet' | 'highlights' | 'matchText'> {
+    const text = doc.texts.body;
+    if (matches.length === 0) {
+      return { snippet: text.slice(0, SNIPPET_CONTEXT_AFTER).trim(), highlights: [], matchText: null };
+    }
+
+    const sorted = [...matches].sort((a, b) => a.start - b.start);
+    const first = sorted[0];
+    let start = Math.max(0, first.start - SNIPPET_CONTEXT_BEFORE);
+    let end = Math.min(text.length, first.end + SNIPPET_CONTEXT_AFTER);
+
+    // Avoid cutting words in half
+    while (start > 0 && /\S/.test(text[start - 1])) start--;
+    while (end < text.length && /\S/.test(text[end])) end++;
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const highlights = sorted
+      .filter(token => token.start >= start && token.end <= end)
+      .map(token => [token.start - start + prefix.length, token.end - start + prefix.length] as [number, number]);
+
+    return {
+      snippet: prefix + text.slice(start, end) + suffix,
+      highlights,
+      matchText: text.slice(first.start, first.end),
+    };
+  }
+}
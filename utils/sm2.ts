@@ -0,0 +1,142 @@
+/**
+ * @fileoverview SM-2 Spaced Repetition Scheduler
+ *
+ * Schedules flashcard reviews with the SuperMemo SM-2 algorithm. Each
+ * answer is graded; correct answers push the next review further out by
+ * the card's ease factor, and the ease factor itself drifts with how hard
+ * the card was. A failed card starts over with a one-day interval.
+ *
+ * The four grades shown to the user map onto SM-2 quality scores:
+ * ```
+ * again → 1   hard → 3   good → 4   easy → 5
+ * ```
+ *
+ * @module utils/sm2
+ */
+
+import { Flashcard } from '../types';
+
+/**
+ * Answer grades offered after revealing a card
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * SM-2 quality score for each grade; below 3 counts as a failure
+ */
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * Ease factor of a new card
+ */
+export const INITIAL_EASE = 2.5;
+
+/**
+ * Lowest ease factor SM-2 allows
+ */
+const MIN_EASE = 1.3;
+
+/**
+ * Interval in days after the first and second successful review
+ */
+const FIRST_INTERVAL = 1;
+const SECOND_INTERVAL = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scheduling fields of a flashcard
+ */
+export type Schedule = Pick<Flashcard, 'ease' | 'interval' | 'repetitions' | 'dueAt' | 'lastReviewedAt'>;
+
+/**
+ * Schedule of a card that has never been reviewed
+ *
+ * New cards are due immediately.
+ *
+ * @param {Date} [now] - Current time
+ * @returns {Schedule} Initial schedule
+ */
+export function initialSchedule(now: Date = new Date()): Schedule {
+  return {
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now.toISOString(),
+  };
+}
+
+/**
+ * Compute a card's schedule after a review
+ *
+ * @param {Schedule} card - Current schedule
+ * @param {ReviewGrade} grade - How well the card was answered
+ * @param {Date} [now] - Review time
+ * @returns {Schedule} New schedule
+ *
+ * @example
+ * ```typescript
+ * const next = review(card, 'good');
+ * await flashcardService.save({ ...card, ...next });
+ * ```
+ */
+export function review(card: Schedule, grade: ReviewGrade, now: Date = new Date()): Schedule {
+  const quality = GRADE_QUALITY[grade];
+
+  let repetitions: number;
+  let interval: number;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = FIRST_INTERVAL;
+  } else {
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? FIRST_INTERVAL
+      : repetitions === 2 ? SECOND_INTERVAL
+      : Math.round(card.interval * card.ease);
+  }
+
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Preview the interval each grade would give, for labelling the buttons
+ *
+ * @param {Schedule} card - Current schedule
+ * @returns {Record<ReviewGrade, number>} Days until the next review per grade
+ */
+export function previewIntervals(card: Schedule): Record<ReviewGrade, number> {
+  return {
+    again: review(card, 'again').interval,
+    hard: review(card, 'hard').interval,
+    good: review(card, 'good').interval,
+    easy: review(card, 'easy').interval,
+  };
+}
+
+/**
+ * Check whether a card is due by the end of the given day
+ *
+ * Cards due later today count as due, so a daily session covers them.
+ *
+ * @param {Schedule} card - Card schedule
+ * @param {Date} [now] - Current time
+ * @returns {boolean} True if the card should be reviewed today
+ */
+export function isDueToday(card: Schedule, now: Date = new Date()): boolean {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return new Date(card.dueAt).getTime() <= endOfDay.getTime();
+}
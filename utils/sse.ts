@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Server-Sent Events Parser
+ *
+ * Incremental parser for `text/event-stream` bodies, used by the AI
+ * provider adapters to read streaming responses. Text arrives in arbitrary
+ * pieces, so lines and events are buffered until complete: an event split
+ * across two network reads is parsed once, whole.
+ *
+ * Follows the HTML event stream format: `\n`, `\r\n` and `\r` line
+ * endings, `event:` and multi-line `data:` fields, `:` comment lines, and
+ * a blank line ending each event.
+ *
+ * @module utils/sse
+ */
+
+/**
+ * A complete server-sent event
+ * @interface SSEEvent
+ */
+export interface SSEEvent {
+  /** Event type from the `event:` field; 'message' when absent */
+  event: string;
+  /** Data lines joined with newlines */
+  data: string;
+}
+
+/**
+ * Parse a stream of text pieces into events
+ *
+ * @param {AsyncIterable<string>} chunks - Decoded pieces of the response body
+ * @yields {SSEEvent} Events as soon as their terminating blank line arrives;
+ *   a last event without one is yielded when the stream ends
+ *
+ * @example
+ * ```typescript
+ * for await (const { event, data } of parseSSE(readText(response))) {
+ *   if (data === '[DONE]') break;
+ *   handle(event, JSON.parse(data));
+ * }
+ * ```
+ */
+export async function* parseSSE(chunks: AsyncIterable<string>): AsyncGenerator<SSEEvent> {
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+
+  const takeEvent = (): SSEEvent | null => {
+    const complete = data.length > 0 ? { event: event || 'message', data: data.join('\n') } : null;
+    event = '';
+    data = [];
+    return complete;
+  };
+
+  const parseLine = (line: string): SSEEvent | null => {
+    if (line === '') return takeEvent();
+    if (line.startsWith(':')) return null;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    if (field === 'data') data.push(value);
+    else if (field === 'event') event = value;
+    return null;
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    // A trailing '\r' may be the first half of '\r\n'; wait for the next piece
+    const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const complete = parseLine(line);
+      if (complete) yield complete;
+    }
+  }
+
+  const last = (buffer ? parseLine(buffer.replace(/\r$/, '')) : null) || takeEvent();
+  if (last) yield last;
+}
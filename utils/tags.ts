@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Note Tag Utilities
+ *
+ * Tags are short lowercase labels stored on notes and written to the
+ * `tags: [...]` line of the Drive frontmatter. Because that line is a
+ * YAML flow sequence, tags never contain commas, brackets or quotes, and
+ * spaces are replaced by hyphens.
+ *
+ * @module utils/tags
+ */
+
+import { Note } from '../types';
+
+/**
+ * Tag with the number of notes carrying it
+ * @interface TagCount
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Normalize user input into a tag
+ *
+ * @param {string} value - Raw tag text, e.g. '#Cardiology Review'
+ * @returns {string} Normalized tag, e.g. 'cardiology-review', or '' if nothing is left
+ *
+ * @example
+ * ```typescript
+ * normalizeTag('  #Exam 2024 ') // 'exam-2024'
+ * ```
+ */
+export function normalizeTag(value: string): string {
+  return value
+    .replace(/[,[\]"'#]/g, ' ')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * Normalize a list of tags, dropping empty values and duplicates
+ *
+ * Accepts a single string as well, since hand-edited frontmatter may
+ * write `tags: cardiology` instead of a list.
+ *
+ * @param {string[] | string | undefined} values - Raw tags
+ * @returns {string[]} Unique normalized tags in their original order
+ */
+export function normalizeTags(values: string[] | string | undefined): string[] {
+  const list = Array.isArray(values) ? values : values ? [values] : [];
+  return Array.from(new Set(list.map(normalizeTag).filter(tag => tag.length > 0)));
+}
+
+/**
+ * Count the tags used across notes
+ *
+ * @param {Note[]} notes - All notes
+ * @returns {TagCount[]} Tags, most used first, then alphabetically
+ */
+export function collectTags(notes: Note[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const note of notes) {
+    note.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}